@@ -6,16 +6,58 @@ import {
   calculateProviderStats,
   CACHE_KEYS,
   CACHE_TTL,
+  apiVersionKey,
+  selectApiVersion,
 } from "../utils/version-data.js";
+import { RequestOptions } from "../utils/progress.js";
+import {
+  RefResolutionOptions,
+  RefResolver,
+  refCacheSuffix,
+} from "../utils/ref-resolver.js";
+import { isSwagger2, normalizeSpec } from "../utils/spec-normalizer.js";
+import { generateExample } from "../utils/example-generator.js";
+import {
+  EndpointSchema,
+  extractEndpointSchema,
+} from "../utils/endpoint-schema.js";
+import { OperationLink, extractLinks } from "../utils/operation-links.js";
+import {
+  CallbackOperation,
+  WebhookOperation,
+  extractWebhooks,
+} from "../utils/webhook-extractor.js";
+import {
+  EndpointSnippet,
+  SnippetLanguage,
+  generateSnippet,
+} from "../utils/snippet-generator.js";
+import { HTTP_TIMEOUTS, SNIPPETS } from "../utils/constants.js";
+import { ApiSearchResults, searchApiDirectory } from "../search/index.js";
+
+/**
+ * Per-source settings, typically resolved from a config profile
+ */
+export interface ClientOptions {
+  enabled?: boolean | undefined; // false = serve from cache only
+  timeout?: number | undefined;
+  specFetchTimeout?: number | undefined;
+}
 
 export class ApiClient {
   private http: AxiosInstance;
   private cache: ICacheManager;
-
-  constructor(baseURL: string, cacheManager: ICacheManager) {
+  private enabled: boolean;
+  private specFetchTimeout: number;
+
+  constructor(
+    baseURL: string,
+    cacheManager: ICacheManager,
+    options: ClientOptions = {},
+  ) {
     this.http = axios.create({
       baseURL,
-      timeout: 30000,
+      timeout: options.timeout ?? HTTP_TIMEOUTS.DEFAULT,
       headers: {
         Accept: "application/json",
         "User-Agent": "openapi-directory-mcp/0.1.0",
@@ -23,6 +65,16 @@ export class ApiClient {
     });
 
     this.cache = cacheManager;
+    this.enabled = options.enabled ?? true;
+    this.specFetchTimeout =
+      options.specFetchTimeout ?? HTTP_TIMEOUTS.SPEC_FETCH;
+
+    if (!this.enabled) {
+      // Cached entries are still served; only network requests are refused
+      this.http.interceptors.request.use(() => {
+        throw disabledSourceError("Primary");
+      });
+    }
   }
 
   private async fetchWithCache<T>(
@@ -113,10 +165,14 @@ export class ApiClient {
   /**
    * List all APIs in the directory
    */
-  async listAPIs(): Promise<Record<string, ApiGuruAPI>> {
+  async listAPIs(
+    options: RequestOptions = {},
+  ): Promise<Record<string, ApiGuruAPI>> {
     return this.fetchWithCache("all_apis", async () => {
-      const response =
-        await this.http.get<Record<string, ApiGuruAPI>>("/list.json");
+      const response = await this.http.get<Record<string, ApiGuruAPI>>(
+        "/list.json",
+        options.signal ? { signal: options.signal } : {},
+      );
       return response.data;
     });
   }
@@ -127,6 +183,7 @@ export class ApiClient {
   async getPaginatedAPIs(
     page: number = 1,
     limit: number = 50,
+    options: RequestOptions = {},
   ): Promise<{
     results: Array<{
       id: string;
@@ -150,7 +207,7 @@ export class ApiClient {
     return this.fetchWithCache(
       cacheKey,
       async () => {
-        const allAPIs = await this.listAPIs();
+        const allAPIs = await this.listAPIs(options);
         const apiEntries = Object.entries(allAPIs);
 
         // Calculate pagination
@@ -299,31 +356,16 @@ export class ApiClient {
   }
 
   /**
-   * Search APIs by query string with pagination and minimal data
+   * Search APIs by query string with pagination and minimal data. Results
+   * are ranked with BM25 over the indexed directory listing.
    */
   async searchAPIs(
     query: string,
     provider?: string,
     page: number = 1,
     limit: number = 20,
-  ): Promise<{
-    results: Array<{
-      id: string;
-      title: string;
-      description: string;
-      provider: string;
-      preferred: string;
-      categories: string[];
-    }>;
-    pagination: {
-      page: number;
-      limit: number;
-      total_results: number;
-      total_pages: number;
-      has_next: boolean;
-      has_previous: boolean;
-    };
-  }> {
+    options: RequestOptions = {},
+  ): Promise<ApiSearchResults> {
     // Ensure limit is within bounds
     limit = Math.min(Math.max(limit, 1), 50);
 
@@ -332,138 +374,28 @@ export class ApiClient {
     return this.fetchWithCache(
       cacheKey,
       async () => {
-        const allAPIs = await this.listAPIs();
-        const queryLower = query.toLowerCase();
-
-        // First, filter APIs based on search criteria
-        const matchingAPIs: Array<[string, ApiGuruAPI]> = [];
-
-        for (const [apiId, api] of Object.entries(allAPIs)) {
-          // If provider filter is specified, check if API matches
-          if (provider && !apiId.includes(provider)) {
-            continue;
-          }
-
-          // Search in API ID, title, description, and provider name
-          const matches =
-            apiId.toLowerCase().includes(queryLower) ||
-            Object.values(api.versions).some(
-              (version) =>
-                version.info.title?.toLowerCase().includes(queryLower) ||
-                version.info.description?.toLowerCase().includes(queryLower) ||
-                version.info["x-providerName"]
-                  ?.toLowerCase()
-                  .includes(queryLower),
-            );
-
-          if (matches) {
-            matchingAPIs.push([apiId, api]);
-          }
-        }
-
-        // Sort results by relevance
-        matchingAPIs.sort(([idA, apiA], [idB, apiB]) => {
-          const versionA = apiA.versions[apiA.preferred];
-          const versionB = apiB.versions[apiB.preferred];
-          const providerA =
-            versionA?.info["x-providerName"]?.toLowerCase() || "";
-          const providerB =
-            versionB?.info["x-providerName"]?.toLowerCase() || "";
-          const titleA = versionA?.info.title?.toLowerCase() || "";
-          const titleB = versionB?.info.title?.toLowerCase() || "";
-
-          // Score each match based on where the query appears
-          const scoreMatch = (
-            id: string,
-            provider: string,
-            title: string,
-          ): number => {
-            // Exact provider match gets highest score
-            if (provider === queryLower) return 100;
-            // Provider contains query gets high score
-            if (provider.includes(queryLower)) return 80;
-            // ID starts with query gets good score
-            if (id.toLowerCase().startsWith(queryLower)) return 60;
-            // ID contains query gets moderate score
-            if (id.toLowerCase().includes(queryLower)) return 40;
-            // Title contains query gets lower score
-            if (title.includes(queryLower)) return 20;
-            // Description match gets lowest score
-            return 10;
-          };
-
-          const scoreA = scoreMatch(idA, providerA, titleA);
-          const scoreB = scoreMatch(idB, providerB, titleB);
-
-          // Sort by score (descending), then by version date (descending), then alphabetically by ID
-          if (scoreA !== scoreB) {
-            return scoreB - scoreA;
-          }
-
-          // For same relevance score, prioritize newer versions
-          const dateA = new Date(versionA?.updated || "1970-01-01").getTime();
-          const dateB = new Date(versionB?.updated || "1970-01-01").getTime();
-          if (dateA !== dateB) {
-            return dateB - dateA; // Newer dates first
-          }
-
-          return idA.localeCompare(idB);
-        });
-
-        // Calculate pagination
-        const total_results = matchingAPIs.length;
-        const total_pages = Math.ceil(total_results / limit);
-        const offset = (page - 1) * limit;
-
-        // Get page slice and transform to minimal data
-        const pageEntries = matchingAPIs.slice(offset, offset + limit);
-        const results = pageEntries.map(([id, api]) => {
-          // Get preferred version info
-          const preferredVersion = api.versions[api.preferred];
-          return {
-            id,
-            title: preferredVersion?.info.title || "Untitled API",
-            description:
-              (preferredVersion?.info.description || "").substring(0, 200) +
-              (preferredVersion?.info.description &&
-              preferredVersion.info.description.length > 200
-                ? "..."
-                : ""),
-            provider:
-              preferredVersion?.info["x-providerName"] ||
-              id.split(":")[0] ||
-              "Unknown",
-            preferred: api.preferred,
-            categories: preferredVersion?.info["x-apisguru-categories"] || [],
-          };
-        });
-
-        return {
-          results,
-          pagination: {
-            page,
-            limit,
-            total_results,
-            total_pages,
-            has_next: page < total_pages,
-            has_previous: page > 1,
-          },
-        };
+        const allAPIs = await this.listAPIs(options);
+        return searchApiDirectory(allAPIs, query, { provider, page, limit });
       },
       300000,
     ); // Cache search results for 5 minutes
   }
 
   /**
-   * Get basic summary information for a specific API
+   * Get basic summary information for a specific API, describing its
+   * preferred version unless another is requested
    */
-  async getAPISummaryById(apiId: string): Promise<{
+  async getAPISummaryById(
+    apiId: string,
+    version?: string,
+  ): Promise<{
     id: string;
     title: string;
     description: string;
     provider: string;
     versions: string[];
     preferred_version: string;
+    version: string;
     base_url: string;
     categories: string[];
     authentication: {
@@ -485,7 +417,7 @@ export class ApiClient {
     added: string;
   }> {
     return this.fetchWithCache(
-      `api_summary:${apiId}`,
+      `api_summary:${apiVersionKey(apiId, version)}`,
       async () => {
         const allAPIs = await this.listAPIs();
         const api = allAPIs[apiId];
@@ -494,13 +426,9 @@ export class ApiClient {
           throw new Error(`API not found: ${apiId}`);
         }
 
-        const preferredVersion = api.versions[api.preferred];
-
-        if (!preferredVersion) {
-          throw new Error(`Preferred version not found for API: ${apiId}`);
-        }
+        const selectedVersion = selectApiVersion(apiId, api, version);
 
-        const info = preferredVersion.info;
+        const info = selectedVersion.info;
 
         const result: any = {
           id: apiId,
@@ -509,7 +437,8 @@ export class ApiClient {
           provider: info["x-providerName"] || apiId.split(":")[0] || "Unknown",
           versions: Object.keys(api.versions),
           preferred_version: api.preferred,
-          base_url: preferredVersion.swaggerUrl
+          version: version ?? api.preferred,
+          base_url: selectedVersion.swaggerUrl
             .replace("/swagger.json", "")
             .replace("/swagger.yaml", ""),
           categories: info["x-apisguru-categories"] || [],
@@ -518,8 +447,8 @@ export class ApiClient {
             description:
               "Authentication details available in the full specification",
           },
-          updated: preferredVersion.updated,
-          added: preferredVersion.added,
+          updated: selectedVersion.updated,
+          added: selectedVersion.added,
         };
 
         // Only include optional properties if they exist
@@ -531,8 +460,8 @@ export class ApiClient {
           result.license = info.license;
         }
 
-        if (preferredVersion.link || info.contact?.url) {
-          result.documentation_url = preferredVersion.link || info.contact?.url;
+        if (selectedVersion.link || info.contact?.url) {
+          result.documentation_url = selectedVersion.link || info.contact?.url;
         }
 
         if (info.contact?.url) {
@@ -553,6 +482,7 @@ export class ApiClient {
     page: number = 1,
     limit: number = 30,
     tag?: string,
+    version?: string,
   ): Promise<{
     results: Array<{
       method: string;
@@ -575,7 +505,7 @@ export class ApiClient {
     // Ensure limit is within bounds
     limit = Math.min(Math.max(limit, 1), 100);
 
-    const cacheKey = `endpoints:${apiId}:${page}:${limit}:${tag || "all"}`;
+    const cacheKey = `endpoints:${apiVersionKey(apiId, version)}:${page}:${limit}:${tag || "all"}`;
 
     return this.fetchWithCache(
       cacheKey,
@@ -588,14 +518,10 @@ export class ApiClient {
           throw new Error(`API not found: ${apiId}`);
         }
 
-        const preferredVersion = api.versions[api.preferred];
-
-        if (!preferredVersion) {
-          throw new Error(`Preferred version not found for API: ${apiId}`);
-        }
+        const selectedVersion = selectApiVersion(apiId, api, version);
 
         // Fetch the OpenAPI spec
-        const spec = await this.getOpenAPISpec(preferredVersion.swaggerUrl);
+        const spec = await this.getNormalizedSpec(selectedVersion.swaggerUrl);
 
         // Extract all endpoints
         const allEndpoints: Array<{
@@ -685,12 +611,14 @@ export class ApiClient {
   }
 
   /**
-   * Get detailed information about a specific API endpoint
+   * Get detailed information about a specific API endpoint. Response
+   * `links` are listed with the operation they lead to.
    */
   async getEndpointDetails(
     apiId: string,
     method: string,
     path: string,
+    version?: string,
   ): Promise<{
     method: string;
     path: string;
@@ -710,6 +638,7 @@ export class ApiClient {
       code: string;
       description: string;
       content_types: string[];
+      links?: OperationLink[];
     }>;
     consumes: string[];
     produces: string[];
@@ -718,7 +647,7 @@ export class ApiClient {
       scopes?: string[];
     }>;
   }> {
-    const cacheKey = `endpoint_details:${apiId}:${method.toLowerCase()}:${path}`;
+    const cacheKey = `endpoint_details:${apiVersionKey(apiId, version)}:${method.toLowerCase()}:${path}`;
 
     return this.fetchWithCache(
       cacheKey,
@@ -731,14 +660,10 @@ export class ApiClient {
           throw new Error(`API not found: ${apiId}`);
         }
 
-        const preferredVersion = api.versions[api.preferred];
-
-        if (!preferredVersion) {
-          throw new Error(`Preferred version not found for API: ${apiId}`);
-        }
+        const selectedVersion = selectApiVersion(apiId, api, version);
 
         // Fetch the OpenAPI spec
-        const spec = await this.getOpenAPISpec(preferredVersion.swaggerUrl);
+        const spec = await this.getNormalizedSpec(selectedVersion.swaggerUrl);
 
         // Find the specific endpoint
         const pathItem = spec.paths?.[path];
@@ -783,6 +708,7 @@ export class ApiClient {
           code: string;
           description: string;
           content_types: string[];
+          links?: OperationLink[];
         }> = [];
 
         if (operation.responses) {
@@ -792,11 +718,13 @@ export class ApiClient {
               if ((response as any).content) {
                 contentTypes.push(...Object.keys((response as any).content));
               }
+              const links = await extractLinks(spec, response);
 
               responses.push({
                 code,
                 description: (response as any).description || "No description",
                 content_types: contentTypes,
+                ...(links.length > 0 && { links }),
               });
             }
           }
@@ -863,33 +791,20 @@ export class ApiClient {
   }
 
   /**
-   * Get request and response schemas for a specific API endpoint
+   * Get request and response schemas for a specific API endpoint: every
+   * request media type with its encoding, and every response including
+   * `default` and `4XX`-style ranges, with headers. `resolveRefs` inlines
+   * `$ref`s in schemas, parameters and headers; by default schemas are
+   * returned as written.
    */
   async getEndpointSchema(
     apiId: string,
     method: string,
     path: string,
-  ): Promise<{
-    method: string;
-    path: string;
-    request_body?: {
-      content_type: string;
-      schema: any;
-      required: boolean;
-    };
-    parameters: Array<{
-      name: string;
-      in: string;
-      required: boolean;
-      schema: any;
-    }>;
-    responses: Array<{
-      code: string;
-      content_type: string;
-      schema: any;
-    }>;
-  }> {
-    const cacheKey = `endpoint_schema:${apiId}:${method.toLowerCase()}:${path}`;
+    refOptions: RefResolutionOptions = {},
+    version?: string,
+  ): Promise<EndpointSchema> {
+    const cacheKey = `endpoint_schema:${apiVersionKey(apiId, version)}:${method.toLowerCase()}:${path}${refCacheSuffix(refOptions)}`;
 
     return this.fetchWithCache(
       cacheKey,
@@ -902,14 +817,16 @@ export class ApiClient {
           throw new Error(`API not found: ${apiId}`);
         }
 
-        const preferredVersion = api.versions[api.preferred];
-
-        if (!preferredVersion) {
-          throw new Error(`Preferred version not found for API: ${apiId}`);
-        }
+        const selectedVersion = selectApiVersion(apiId, api, version);
 
         // Fetch the OpenAPI spec
-        const spec = await this.getOpenAPISpec(preferredVersion.swaggerUrl);
+        const spec = await this.getNormalizedSpec(selectedVersion.swaggerUrl);
+        const resolver = new RefResolver(
+          spec,
+          refOptions,
+          selectedVersion.swaggerUrl,
+          (url) => this.getOpenAPISpec(url),
+        );
 
         // Find the specific endpoint
         const pathItem = spec.paths?.[path];
@@ -922,99 +839,27 @@ export class ApiClient {
           throw new Error(`Method ${method} not found for path ${path}`);
         }
 
-        // Extract request body schema
-        let request_body;
-        if (operation.requestBody) {
-          const content = operation.requestBody.content;
-          if (content) {
-            const contentType = Object.keys(content)[0]; // Get first content type
-            if (contentType && content[contentType]?.schema) {
-              request_body = {
-                content_type: contentType,
-                schema: content[contentType].schema,
-                required: operation.requestBody.required || false,
-              };
-            }
-          }
-        }
-
-        // Extract parameter schemas
-        const parameters: Array<{
-          name: string;
-          in: string;
-          required: boolean;
-          schema: any;
-        }> = [];
-
-        const allParams = [
-          ...(pathItem.parameters || []),
-          ...(operation.parameters || []),
-        ];
-
-        for (const param of allParams) {
-          if (param && typeof param === "object") {
-            parameters.push({
-              name: param.name || "unnamed",
-              in: param.in || "query",
-              required: param.required || false,
-              schema: param.schema || { type: param.type || "string" },
-            });
-          }
-        }
-
-        // Extract response schemas
-        const responses: Array<{
-          code: string;
-          content_type: string;
-          schema: any;
-        }> = [];
-
-        if (operation.responses) {
-          for (const [code, response] of Object.entries(operation.responses)) {
-            if (response && typeof response === "object") {
-              const content = (response as any).content;
-              if (content) {
-                for (const [contentType, contentData] of Object.entries(
-                  content,
-                )) {
-                  if ((contentData as any)?.schema) {
-                    responses.push({
-                      code,
-                      content_type: contentType,
-                      schema: (contentData as any).schema,
-                    });
-                  }
-                }
-              }
-            }
-          }
-        }
-
-        const result: any = {
-          method: method.toUpperCase(),
+        return extractEndpointSchema(
+          resolver,
+          method,
           path,
-          parameters,
-          responses,
-        };
-
-        // Only add request_body if it exists
-        if (request_body) {
-          result.request_body = request_body;
-        }
-
-        return result;
+          pathItem,
+          operation,
+        );
       },
       600000,
     ); // Cache for 10 minutes
   }
 
   /**
-   * Get request and response examples for a specific API endpoint
+   * Get request and response examples for a specific API endpoint. Those
+   * the spec lacks are generated from schemas and marked `synthetic`.
    */
   async getEndpointExamples(
     apiId: string,
     method: string,
     path: string,
+    version?: string,
   ): Promise<{
     method: string;
     path: string;
@@ -1022,19 +867,22 @@ export class ApiClient {
       content_type: string;
       example: any;
       description?: string;
+      synthetic?: boolean;
     }>;
     response_examples: Array<{
       code: string;
       content_type: string;
       example: any;
       description?: string;
+      synthetic?: boolean;
     }>;
     parameter_examples: Array<{
       name: string;
       example: any;
+      synthetic?: boolean;
     }>;
   }> {
-    const cacheKey = `endpoint_examples:${apiId}:${method.toLowerCase()}:${path}`;
+    const cacheKey = `endpoint_examples:${apiVersionKey(apiId, version)}:${method.toLowerCase()}:${path}`;
 
     return this.fetchWithCache(
       cacheKey,
@@ -1047,14 +895,10 @@ export class ApiClient {
           throw new Error(`API not found: ${apiId}`);
         }
 
-        const preferredVersion = api.versions[api.preferred];
-
-        if (!preferredVersion) {
-          throw new Error(`Preferred version not found for API: ${apiId}`);
-        }
+        const selectedVersion = selectApiVersion(apiId, api, version);
 
         // Fetch the OpenAPI spec
-        const spec = await this.getOpenAPISpec(preferredVersion.swaggerUrl);
+        const spec = await this.getNormalizedSpec(selectedVersion.swaggerUrl);
 
         // Find the specific endpoint
         const pathItem = spec.paths?.[path];
@@ -1067,16 +911,20 @@ export class ApiClient {
           throw new Error(`Method ${method} not found for path ${path}`);
         }
 
+        const resolver = new RefResolver(spec, { resolveRefs: "shallow" });
+
         // Extract request examples
         const request_examples: Array<{
           content_type: string;
           example: any;
           description?: string;
+          synthetic?: boolean;
         }> = [];
 
-        if (operation.requestBody?.content) {
+        const requestBody = await resolver.dereference(operation.requestBody);
+        if (requestBody?.content) {
           for (const [contentType, contentData] of Object.entries(
-            operation.requestBody.content,
+            requestBody.content,
           )) {
             const data = contentData as any;
             if (data.example) {
@@ -1096,6 +944,15 @@ export class ApiClient {
                   description: example.description || exampleName,
                 });
               }
+            } else if (data.schema) {
+              request_examples.push({
+                content_type: contentType,
+                example: generateExample(data.schema, spec, {
+                  usage: "request",
+                }),
+                description: requestBody.description,
+                synthetic: true,
+              });
             }
           }
         }
@@ -1104,6 +961,7 @@ export class ApiClient {
         const parameter_examples: Array<{
           name: string;
           example: any;
+          synthetic?: boolean;
         }> = [];
 
         const allParams = [
@@ -1111,16 +969,27 @@ export class ApiClient {
           ...(operation.parameters || []),
         ];
 
-        for (const param of allParams) {
-          if (
-            param &&
-            typeof param === "object" &&
-            param.example !== undefined
-          ) {
+        for (const rawParam of allParams) {
+          const param = await resolver.dereference(rawParam);
+          if (!param || typeof param !== "object") continue;
+
+          if (param.example !== undefined) {
             parameter_examples.push({
               name: param.name || "unnamed",
               example: param.example,
             });
+          } else {
+            parameter_examples.push({
+              name: param.name || "unnamed",
+              example: generateExample(
+                param.schema ?? { type: "string" },
+                spec,
+                {
+                  usage: "request",
+                },
+              ),
+              synthetic: true,
+            });
           }
         }
 
@@ -1130,10 +999,14 @@ export class ApiClient {
           content_type: string;
           example: any;
           description?: string;
+          synthetic?: boolean;
         }> = [];
 
         if (operation.responses) {
-          for (const [code, response] of Object.entries(operation.responses)) {
+          for (const [code, rawResponse] of Object.entries(
+            operation.responses,
+          )) {
+            const response = await resolver.dereference(rawResponse);
             if (response && typeof response === "object") {
               const content = (response as any).content;
               if (content) {
@@ -1160,6 +1033,16 @@ export class ApiClient {
                         description: example.description || exampleName,
                       });
                     }
+                  } else if (data.schema) {
+                    response_examples.push({
+                      code,
+                      content_type: contentType,
+                      example: generateExample(data.schema, spec, {
+                        usage: "response",
+                      }),
+                      description: (response as any).description,
+                      synthetic: true,
+                    });
                   }
                 }
               }
@@ -1179,16 +1062,114 @@ export class ApiClient {
     ); // Cache for 10 minutes
   }
 
+  /**
+   * List the webhooks (OpenAPI 3.1) and operation callbacks (OpenAPI 3.0)
+   * of an API with their payload schemas. `resolveRefs` inlines `$ref`s
+   * in the payloads; by default they are returned as written.
+   */
+  async getWebhooks(
+    apiId: string,
+    refOptions: RefResolutionOptions = {},
+    version?: string,
+  ): Promise<{
+    webhooks: WebhookOperation[];
+    callbacks: CallbackOperation[];
+  }> {
+    const cacheKey = `webhooks:${apiVersionKey(apiId, version)}${refCacheSuffix(refOptions)}`;
+
+    return this.fetchWithCache(
+      cacheKey,
+      async () => {
+        const allAPIs = await this.listAPIs();
+        const api = allAPIs[apiId];
+
+        if (!api) {
+          throw new Error(`API not found: ${apiId}`);
+        }
+
+        const selectedVersion = selectApiVersion(apiId, api, version);
+        const spec = await this.getNormalizedSpec(selectedVersion.swaggerUrl);
+
+        return extractWebhooks(
+          spec,
+          new RefResolver(spec, refOptions, selectedVersion.swaggerUrl, (url) =>
+            this.getOpenAPISpec(url),
+          ),
+        );
+      },
+      600000,
+    ); // Cache for 10 minutes
+  }
+
+  /**
+   * Build a runnable request for an API endpoint in curl, JavaScript fetch,
+   * Python requests or HTTPie, with placeholders for values the spec
+   * does not provide
+   */
+  async getEndpointSnippet(
+    apiId: string,
+    method: string,
+    path: string,
+    language: SnippetLanguage = SNIPPETS.DEFAULT_LANGUAGE,
+    version?: string,
+  ): Promise<EndpointSnippet> {
+    const cacheKey = `endpoint_snippet:${apiVersionKey(apiId, version)}:${method.toLowerCase()}:${path}:${language}`;
+
+    return this.fetchWithCache(
+      cacheKey,
+      async () => {
+        const allAPIs = await this.listAPIs();
+        const api = allAPIs[apiId];
+
+        if (!api) {
+          throw new Error(`API not found: ${apiId}`);
+        }
+
+        const selectedVersion = selectApiVersion(apiId, api, version);
+        const spec = await this.getNormalizedSpec(selectedVersion.swaggerUrl);
+
+        return generateSnippet(spec, method, path, language);
+      },
+      600000,
+    ); // Cache for 10 minutes
+  }
+
   /**
    * Get OpenAPI specification for a specific API version
    */
   async getOpenAPISpec(url: string): Promise<any> {
-    return this.fetchWithCache(`spec:${url}`, async () => {
-      const response = await axios.get(url);
+    return this.fetchWithCache(`${CACHE_KEYS.SPEC_PREFIX}${url}`, async () => {
+      if (!this.enabled) {
+        throw disabledSourceError("Primary");
+      }
+      const response = await axios.get(url, {
+        timeout: this.specFetchTimeout,
+      });
       return response.data;
     });
   }
 
+  /**
+   * Spec already loaded from a URL, without fetching it
+   */
+  getCachedSpec(url: string): any {
+    return this.cache.get(`${CACHE_KEYS.SPEC_PREFIX}${url}`);
+  }
+
+  /**
+   * OpenAPI 3 view of a spec for endpoint extraction. Swagger 2.0 specs are
+   * converted once and cached next to the original.
+   */
+  async getNormalizedSpec(url: string): Promise<any> {
+    const spec = await this.getOpenAPISpec(url);
+    if (!isSwagger2(spec)) return spec;
+
+    return this.fetchWithCache(
+      `${CACHE_KEYS.NORMALIZED_SPEC_PREFIX}${url}`,
+      async () => normalizeSpec(spec),
+    );
+  }
+
   /**
    * Get popular APIs (top 20 by some heuristic)
    */
@@ -1282,3 +1263,10 @@ export class ApiClient {
     );
   }
 }
+
+/**
+ * Error raised instead of a network request when a source is disabled
+ */
+export function disabledSourceError(source: string): Error {
+  return new Error(`${source} source is disabled by the active configuration`);
+}
@@ -1,23 +1,66 @@
-import { ApiClient } from "./client.js";
+import { ApiClient, ClientOptions } from "./client.js";
 import { SecondaryApiClient } from "./secondary-client.js";
 import { CustomSpecClient } from "../custom-specs/custom-spec-client.js";
-import { MergeUtilities, MergedSearchResult } from "../utils/merge.js";
+import { ManifestManager } from "../custom-specs/manifest-manager.js";
+import { MergeUtilities } from "../utils/merge.js";
+import {
+  ApiSearchIndex,
+  AuthCriteria,
+  AuthSearchResults,
+  authCapabilities,
+  searchAuthSchemes,
+  ApiSearchResults,
+  ApiSource,
+  SearchFilterContext,
+  SimilarApiResults,
+  findSimilarApis,
+  parseSearchQuery,
+  EndpointSearchFilters,
+  EndpointSearchIndex,
+  EndpointSearchResults,
+  SchemaSearchFilters,
+  SchemaSearchIndex,
+  SchemaSearchResults,
+  searchApiDirectory,
+  searchEndpointIndex,
+  searchSchemaIndex,
+} from "../search/index.js";
 import { ICacheManager } from "../cache/types.js";
 import { PaginationHelper } from "../utils/pagination.js";
+import {
+  ProgressTracker,
+  RequestOptions,
+  throwIfAborted,
+} from "../utils/progress.js";
 import { PAGINATION } from "../utils/constants.js";
+import { Logger } from "../utils/logger.js";
+import { NotFoundError, ValidationError } from "../utils/errors.js";
+import { RefResolutionOptions } from "../utils/ref-resolver.js";
 import {
-  ApiGuruAPI,
-  ApiGuruApiVersion,
-  ApiGuruMetrics,
-  ApiGuruServices,
-} from "../types/api.js";
+  EndpointSnippet,
+  SnippetLanguage,
+} from "../utils/snippet-generator.js";
+import {
+  CallbackOperation,
+  WebhookOperation,
+} from "../utils/webhook-extractor.js";
+import { ApiGuruAPI, ApiGuruMetrics, ApiGuruServices } from "../types/api.js";
 import {
   ProviderStats,
   calculateProviderStats,
   CACHE_KEYS,
   CACHE_TTL,
+  selectApiVersion,
 } from "../utils/version-data.js";
 
+// APIs checked between yields while refreshing the endpoint index
+const ENDPOINT_INDEX_BATCH_SIZE = 100;
+
+export interface DualSourceOptions {
+  primary?: ClientOptions | undefined;
+  secondary?: ClientOptions | undefined;
+}
+
 /**
  * Triple-source API client that combines data from primary (APIs.guru), secondary, and custom sources
  * Precedence: Custom > Secondary > Primary (Custom always wins)
@@ -27,21 +70,89 @@ export class DualSourceApiClient {
   private secondaryClient: SecondaryApiClient;
   private customClient: CustomSpecClient;
   private cache: ICacheManager;
+  private endpointIndex = new EndpointSearchIndex();
+  private schemaIndex = new SchemaSearchIndex();
+  private endpointIndexing: Promise<void> | null = null;
 
   constructor(
     primaryBaseURL: string,
     secondaryBaseURL: string,
     cacheManager: ICacheManager,
+    options: DualSourceOptions = {},
   ) {
-    this.primaryClient = new ApiClient(primaryBaseURL, cacheManager);
+    this.primaryClient = new ApiClient(
+      primaryBaseURL,
+      cacheManager,
+      options.primary,
+    );
     this.secondaryClient = new SecondaryApiClient(
       secondaryBaseURL,
       cacheManager,
+      options.secondary,
     );
     this.customClient = new CustomSpecClient(cacheManager);
     this.cache = cacheManager;
   }
 
+  private logFallback(operation: string, source: string, error: unknown): void {
+    Logger.debug(
+      `${operation}: ${source} source failed, falling back`,
+      error instanceof Error ? error.message : error,
+    );
+  }
+
+  /**
+   * Whether a source failure means the requested item does not exist
+   */
+  private isNotFound(error: any): boolean {
+    return (
+      error instanceof NotFoundError ||
+      error?.response?.status === 404 ||
+      /not found/i.test(error?.message ?? "")
+    );
+  }
+
+  /**
+   * Build a not-found error listing similar provider names and API IDs
+   * from the merged directory
+   */
+  private async notFoundError(
+    message: string,
+    name: string,
+    context: { operation: string; provider: string; apiId?: string },
+  ): Promise<NotFoundError> {
+    let suggestions: string[] = [];
+    try {
+      suggestions = ApiSearchIndex.for(await this.listAPIs()).suggest(name);
+    } catch (error) {
+      Logger.debug("Could not load the directory for suggestions", error);
+    }
+
+    const hint =
+      suggestions.length > 0
+        ? `. Did you mean: ${suggestions.join(", ")}?`
+        : "";
+    return new NotFoundError(`${message}${hint}`, {
+      ...context,
+      source: "triple",
+      details: { suggestions },
+    });
+  }
+
+  /**
+   * Check a requested version against the merged directory up front, so an
+   * unknown version is reported with the available ones rather than
+   * triggering a fallback to another source
+   */
+  private async checkVersion(apiId: string, version?: string): Promise<void> {
+    if (version === undefined) return;
+
+    const api = (await this.listAPIs())[apiId];
+    if (api) {
+      selectApiVersion(apiId, api, version);
+    }
+  }
+
   private async fetchWithCache<T>(
     key: string,
     fetchFn: () => Promise<T>,
@@ -112,7 +223,21 @@ export class DualSourceApiClient {
 
         // Merge with custom taking highest precedence
         const merged = MergeUtilities.mergeAPILists(primary, secondary);
-        return MergeUtilities.mergeAPILists(merged, custom);
+        const apis = MergeUtilities.mergeAPILists(merged, custom);
+
+        // Every source answered and none knows the provider
+        const unknown = [primaryAPIs, secondaryAPIs, customAPIs].every(
+          (result) =>
+            result.status === "fulfilled" || this.isNotFound(result.reason),
+        );
+        if (Object.keys(apis).length === 0 && unknown) {
+          throw await this.notFoundError(
+            `Provider not found: ${provider}`,
+            provider,
+            { operation: "getProvider", provider },
+          );
+        }
+        return apis;
       },
     );
   }
@@ -131,6 +256,7 @@ export class DualSourceApiClient {
           return await this.customClient.getServices(provider);
         } catch (error) {
           // Fallback to secondary/primary if custom fails
+          this.logFallback("getServices", "custom", error);
         }
       }
 
@@ -142,6 +268,7 @@ export class DualSourceApiClient {
           return await this.secondaryClient.getServices(provider);
         } catch (error) {
           // Fallback to primary if secondary fails
+          this.logFallback("getServices", "secondary", error);
         }
       }
 
@@ -165,6 +292,7 @@ export class DualSourceApiClient {
           return await this.customClient.getAPI(provider, api);
         } catch (error) {
           // Fallback to secondary/primary if custom fails
+          this.logFallback("getAPI", "custom", error);
         }
       }
 
@@ -176,10 +304,20 @@ export class DualSourceApiClient {
           return await this.secondaryClient.getAPI(provider, api);
         } catch (error) {
           // Fallback to primary if secondary fails
+          this.logFallback("getAPI", "secondary", error);
         }
       }
 
-      return await this.primaryClient.getAPI(provider, api);
+      try {
+        return await this.primaryClient.getAPI(provider, api);
+      } catch (error) {
+        if (!this.isNotFound(error)) throw error;
+        throw await this.notFoundError(`API not found: ${apiId}`, provider, {
+          operation: "getAPI",
+          provider,
+          apiId,
+        });
+      }
     });
   }
 
@@ -206,6 +344,7 @@ export class DualSourceApiClient {
               return await this.customClient.getAPI(provider, service);
             } catch (error) {
               // Continue to try other approaches
+              this.logFallback("getServiceAPI", "custom", error);
             }
           }
         }
@@ -224,6 +363,7 @@ export class DualSourceApiClient {
             );
           } catch (error) {
             // Fallback to secondary/primary if custom fails
+            this.logFallback("getServiceAPI", "custom", error);
           }
         }
 
@@ -239,10 +379,20 @@ export class DualSourceApiClient {
             );
           } catch (error) {
             // Fallback to primary if secondary fails
+            this.logFallback("getServiceAPI", "secondary", error);
           }
         }
 
-        return await this.primaryClient.getServiceAPI(provider, service, api);
+        try {
+          return await this.primaryClient.getServiceAPI(provider, service, api);
+        } catch (error) {
+          if (!this.isNotFound(error)) throw error;
+          throw await this.notFoundError(
+            `API not found: ${apiId}`,
+            `${provider}:${service}`,
+            { operation: "getServiceAPI", provider, apiId },
+          );
+        }
       },
     );
   }
@@ -250,16 +400,30 @@ export class DualSourceApiClient {
   /**
    * List all APIs from all three sources with custom taking highest precedence
    */
-  async listAPIs(): Promise<Record<string, ApiGuruAPI>> {
+  async listAPIs(
+    options: RequestOptions = {},
+  ): Promise<Record<string, ApiGuruAPI>> {
     return this.fetchWithCache("all_apis", async () => {
+      const { signal } = options;
+      const progress = new ProgressTracker(4, options.onProgress);
+
       const [primaryAPIs, secondaryAPIs, customAPIs] = await Promise.allSettled(
         [
-          this.primaryClient.listAPIs(),
-          this.secondaryClient.listAPIs(),
-          this.customClient.listAPIs(),
+          this.primaryClient
+            .listAPIs({ signal })
+            .finally(() => progress.step("Fetched primary source (APIs.guru)")),
+          this.secondaryClient
+            .listAPIs({ signal })
+            .finally(() => progress.step("Fetched secondary source")),
+          this.customClient
+            .listAPIs()
+            .finally(() => progress.step("Loaded custom specs")),
         ],
       );
 
+      // Don't cache a partial merge of cancelled requests
+      throwIfAborted(signal);
+
       const primary =
         primaryAPIs.status === "fulfilled" ? primaryAPIs.value : {};
       const secondary =
@@ -268,7 +432,9 @@ export class DualSourceApiClient {
 
       // Merge with custom taking highest precedence
       const merged = MergeUtilities.mergeAPILists(primary, secondary);
-      return MergeUtilities.mergeAPILists(merged, custom);
+      const result = MergeUtilities.mergeAPILists(merged, custom);
+      progress.step("Merged API directories");
+      return result;
     });
   }
 
@@ -278,6 +444,7 @@ export class DualSourceApiClient {
   async getPaginatedAPIs(
     page: number = 1,
     limit: number = 50,
+    options: RequestOptions = {},
   ): Promise<{
     results: Array<{
       id: string;
@@ -301,6 +468,8 @@ export class DualSourceApiClient {
     return this.fetchWithCache(
       cacheKey,
       async () => {
+        const { signal } = options;
+
         // Use pagination helper to fetch data efficiently
         const [primaryResults, secondaryResults, customResults] =
           await Promise.allSettled([
@@ -309,6 +478,7 @@ export class DualSourceApiClient {
                 const response = await this.primaryClient.getPaginatedAPIs(
                   page,
                   limit,
+                  { signal },
                 );
                 return {
                   data: response.results,
@@ -319,16 +489,20 @@ export class DualSourceApiClient {
               {
                 maxTotal: PAGINATION.LARGE_FETCH_LIMIT,
                 chunkSize: PAGINATION.CHUNKED_FETCH_SIZE,
+                signal,
               },
             ).then((result) => ({
               data: result.data,
               total: result.totalFetched,
               hasMore: false,
             })),
-            this.secondaryClient.listAPIs(),
+            this.secondaryClient.listAPIs({ signal }),
             this.customClient.listAPIs(),
           ]);
 
+        // Don't cache a partial page of cancelled requests
+        throwIfAborted(signal);
+
         const primary =
           primaryResults.status === "fulfilled"
             ? primaryResults.value
@@ -640,266 +814,260 @@ export class DualSourceApiClient {
   }
 
   /**
-   * Search APIs across all three sources with intelligent merging
+   * Search APIs across all three sources, ranked with BM25
    */
   async searchAPIs(
     query: string,
     provider?: string,
     page: number = 1,
     limit: number = 20,
-  ): Promise<{
-    results: Array<{
-      id: string;
-      title: string;
-      description: string;
-      provider: string;
-      preferred: string;
-      categories: string[];
-    }>;
-    pagination: {
-      page: number;
-      limit: number;
-      total_results: number;
-      total_pages: number;
-      has_next: boolean;
-      has_previous: boolean;
-    };
-  }> {
+    options: RequestOptions = {},
+  ): Promise<ApiSearchResults> {
     // Ensure limit is within bounds
     limit = Math.min(Math.max(limit, 1), 50);
 
     const cacheKey = `search:${query}:${provider || "all"}:${page}:${limit}`;
+    const parsed = parseSearchQuery(query);
 
     return this.fetchWithCache(
       cacheKey,
       async () => {
-        const [primaryResults, secondaryResults, customResults] =
-          await Promise.allSettled([
-            this.primaryClient.searchAPIs(query, provider, 1, 1000), // Get many results for merging
-            this.secondaryClient.listAPIs(), // Search in secondary manually
-            this.customClient.listAPIs(), // Search in custom manually
-          ]);
+        // Index the merged directory so custom and secondary APIs override
+        // primary ones before ranking
+        const allAPIs = await this.listAPIs(options);
 
-        const primary =
-          primaryResults.status === "fulfilled"
-            ? primaryResults.value
-            : {
-                results: [],
-                pagination: {
-                  page: 1,
-                  limit: 0,
-                  total_results: 0,
-                  total_pages: 0,
-                  has_next: false,
-                  has_previous: false,
-                },
-              };
-
-        // Manual search in secondary APIs
-        let secondary: {
-          results: Array<{
-            id: string;
-            title: string;
-            description: string;
-            provider: string;
-            preferred: string;
-            categories: string[];
-          }>;
-          pagination: {
-            page: number;
-            limit: number;
-            total_results: number;
-            total_pages: number;
-            has_next: boolean;
-            has_previous: boolean;
-          };
-        } = {
-          results: [],
-          pagination: {
-            page: 1,
-            limit: 0,
-            total_results: 0,
-            total_pages: 0,
-            has_next: false,
-            has_previous: false,
-          },
+        // Sources are needed for the source facet as well as the filter
+        const context: SearchFilterContext = {
+          source: await this.getApiSources(),
         };
-        if (secondaryResults.status === "fulfilled") {
-          const secondaryAPIs = secondaryResults.value;
-          const queryLower = query.toLowerCase();
-          const matchingAPIs: Array<[string, ApiGuruAPI]> = [];
+        if (parsed.filters.some((filter) => filter.field === "auth")) {
+          // Security schemes are known for loaded specs only
+          await this.refreshEndpointIndex();
+          context.authCapabilities = (apiId) => {
+            const schemes = this.endpointIndex.authSchemes(apiId);
+            return schemes && authCapabilities(schemes);
+          };
+        }
 
-          for (const [apiId, api] of Object.entries(secondaryAPIs)) {
-            // If provider filter is specified, check if API matches
-            if (provider && !apiId.includes(provider)) {
-              continue;
-            }
+        return searchApiDirectory(allAPIs, parsed, {
+          provider,
+          page,
+          limit,
+          context,
+        });
+      },
+      300000,
+    ); // Cache search results for 5 minutes
+  }
 
-            // Search in API ID, title, description, and provider name
-            const matches =
-              apiId.toLowerCase().includes(queryLower) ||
-              Object.values(api.versions).some(
-                (version: ApiGuruApiVersion) =>
-                  version.info.title?.toLowerCase().includes(queryLower) ||
-                  version.info.description
-                    ?.toLowerCase()
-                    .includes(queryLower) ||
-                  version.info["x-providerName"]
-                    ?.toLowerCase()
-                    .includes(queryLower),
-              );
-
-            if (matches) {
-              matchingAPIs.push([apiId, api]);
-            }
-          }
+  /**
+   * Map each merged API ID to the source it is served from, following the
+   * precedence of listAPIs: custom, then secondary, then primary
+   */
+  private async getApiSources(): Promise<(apiId: string) => ApiSource> {
+    const [secondaryAPIs, customAPIs] = await Promise.allSettled([
+      this.secondaryClient.listAPIs(),
+      this.customClient.listAPIs(),
+    ]);
+    const secondary = new Set(
+      Object.keys(
+        (secondaryAPIs.status === "fulfilled" && secondaryAPIs.value) || {},
+      ),
+    );
+    const custom = new Set(
+      Object.keys(
+        (customAPIs.status === "fulfilled" && customAPIs.value) || {},
+      ),
+    );
 
-          secondary = {
-            results: matchingAPIs.map(([id, api]) => {
-              const preferredVersion = api.versions[api.preferred];
-              return {
-                id,
-                title: preferredVersion?.info.title || "Untitled API",
-                description:
-                  (preferredVersion?.info.description || "").substring(0, 200) +
-                  (preferredVersion?.info.description &&
-                  preferredVersion.info.description.length > 200
-                    ? "..."
-                    : ""),
-                provider:
-                  preferredVersion?.info["x-providerName"] ||
-                  id.split(":")[0] ||
-                  "Unknown",
-                preferred: api.preferred,
-                categories:
-                  preferredVersion?.info["x-apisguru-categories"] || [],
-              };
-            }),
-            pagination: {
-              page: 1,
-              limit: matchingAPIs.length,
-              total_results: matchingAPIs.length,
-              total_pages: 1,
-              has_next: false,
-              has_previous: false,
-            },
-          };
-        }
+    return (apiId) =>
+      custom.has(apiId)
+        ? "custom"
+        : secondary.has(apiId)
+          ? "secondary"
+          : "primary";
+  }
 
-        // Manual search in custom APIs
-        let custom: {
-          results: Array<{
-            id: string;
-            title: string;
-            description: string;
-            provider: string;
-            preferred: string;
-            categories: string[];
-          }>;
-          pagination: {
-            page: number;
-            limit: number;
-            total_results: number;
-            total_pages: number;
-            has_next: boolean;
-            has_previous: boolean;
-          };
-        } = {
-          results: [],
-          pagination: {
-            page: 1,
-            limit: 0,
-            total_results: 0,
-            total_pages: 0,
-            has_next: false,
-            has_previous: false,
-          },
-        };
-        if (customResults.status === "fulfilled") {
-          const customAPIs = customResults.value as Record<string, ApiGuruAPI>;
-          const queryLower = query.toLowerCase();
-          const matchingAPIs: Array<[string, ApiGuruAPI]> = [];
+  /**
+   * Search operations across every API whose spec is loaded: all custom
+   * specs plus remote specs already in the cache. Specs are never fetched
+   * here; use get_endpoints or get_openapi_spec to load more.
+   */
+  async searchEndpoints(
+    query: string,
+    filters: EndpointSearchFilters = {},
+    page: number = 1,
+    limit: number = 20,
+    options: RequestOptions = {},
+  ): Promise<EndpointSearchResults> {
+    // Ensure limit is within bounds
+    limit = Math.min(Math.max(limit, 1), 50);
 
-          for (const [apiId, api] of Object.entries(customAPIs)) {
-            // If provider filter is specified, check if API matches
-            if (provider && !apiId.includes(provider)) {
-              continue;
-            }
+    await this.refreshEndpointIndex();
+    throwIfAborted(options.signal);
 
-            // Search in API ID, title, description, and provider name
-            const matches =
-              apiId.toLowerCase().includes(queryLower) ||
-              Object.values(api.versions).some(
-                (version: ApiGuruApiVersion) =>
-                  version.info.title?.toLowerCase().includes(queryLower) ||
-                  version.info.description
-                    ?.toLowerCase()
-                    .includes(queryLower) ||
-                  version.info["x-providerName"]
-                    ?.toLowerCase()
-                    .includes(queryLower),
-              );
-
-            if (matches) {
-              matchingAPIs.push([apiId, api]);
-            }
-          }
+    return searchEndpointIndex(this.endpointIndex, query, {
+      ...filters,
+      page,
+      limit,
+    });
+  }
 
-          custom = {
-            results: matchingAPIs.map(([id, api]) => {
-              const preferredVersion = api.versions[api.preferred];
-              return {
-                id,
-                title: preferredVersion?.info.title || "Untitled API",
-                description:
-                  (preferredVersion?.info.description || "").substring(0, 200) +
-                  (preferredVersion?.info.description &&
-                  preferredVersion.info.description.length > 200
-                    ? "..."
-                    : ""),
-                provider:
-                  preferredVersion?.info["x-providerName"] ||
-                  id.split(":")[0] ||
-                  "Unknown",
-                preferred: api.preferred,
-                categories:
-                  preferredVersion?.info["x-apisguru-categories"] || [],
-              };
-            }),
-            pagination: {
-              page: 1,
-              limit: matchingAPIs.length,
-              total_results: matchingAPIs.length,
-              total_pages: 1,
-              has_next: false,
-              has_previous: false,
-            },
-          };
-        }
+  /**
+   * Search schema fields by name, format and enum values across loaded
+   * specs, with the endpoints that reference each schema
+   */
+  async searchSchemas(
+    query: string,
+    filters: SchemaSearchFilters = {},
+    page: number = 1,
+    limit: number = 20,
+    options: RequestOptions = {},
+  ): Promise<SchemaSearchResults> {
+    if (!query.trim() && !filters.format && !filters.type) {
+      throw new ValidationError("Provide a query, format or type to search", {
+        operation: "searchSchemas",
+      });
+    }
 
-        // Merge all three sources with custom taking highest precedence
-        const merged = MergeUtilities.mergeSearchResults(
-          primary as MergedSearchResult,
-          secondary as MergedSearchResult,
-          query,
-          page,
-          limit,
-        );
-        return MergeUtilities.mergeSearchResults(
-          merged as MergedSearchResult,
-          custom as MergedSearchResult,
-          query,
-          page,
-          limit,
+    // Ensure limit is within bounds
+    limit = Math.min(Math.max(limit, 1), 50);
+
+    await this.refreshEndpointIndex();
+    throwIfAborted(options.signal);
+
+    return searchSchemaIndex(this.schemaIndex, query, {
+      ...filters,
+      page,
+      limit,
+    });
+  }
+
+  /**
+   * Find APIs by authentication capability among loaded specs: all custom
+   * specs plus remote specs already in the cache
+   */
+  async searchAuthSchemes(
+    criteria: AuthCriteria,
+    page: number = 1,
+    limit: number = 20,
+    options: RequestOptions = {},
+  ): Promise<AuthSearchResults> {
+    // Ensure limit is within bounds
+    limit = Math.min(Math.max(limit, 1), 50);
+
+    await this.refreshEndpointIndex();
+    throwIfAborted(options.signal);
+
+    return searchAuthSchemes(this.endpointIndex.allAuthSchemes(), criteria, {
+      page,
+      limit,
+      indexedApis: this.endpointIndex.apiCount,
+    });
+  }
+
+  /**
+   * Rank APIs similar to one API by TF-IDF over descriptions, categories,
+   * tags and, where specs are loaded, endpoint paths
+   */
+  async findSimilarAPIs(
+    apiId: string,
+    limit: number = 10,
+    includeSameProvider: boolean = false,
+    options: RequestOptions = {},
+  ): Promise<SimilarApiResults> {
+    // Ensure limit is within bounds
+    limit = Math.min(Math.max(limit, 1), 50);
+
+    const allAPIs = await this.listAPIs(options);
+    if (!allAPIs[apiId]) {
+      throw await this.notFoundError(`API not found: ${apiId}`, apiId, {
+        operation: "findSimilarAPIs",
+        provider: apiId.split(":")[0]!,
+        apiId,
+      });
+    }
+
+    await this.refreshEndpointIndex();
+    throwIfAborted(options.signal);
+
+    return findSimilarApis(allAPIs, apiId, {
+      limit,
+      includeSameProvider,
+      paths: (id) => this.endpointIndex.paths(id),
+    });
+  }
+
+  /**
+   * Bring the endpoint and schema indexes in line with the loaded specs.
+   * Concurrent callers share one pass, which yields to the event loop
+   * between batches so large directories don't block other requests.
+   */
+  refreshEndpointIndex(): Promise<void> {
+    if (!this.endpointIndexing) {
+      this.endpointIndexing = this.indexLoadedSpecs().finally(() => {
+        this.endpointIndexing = null;
+      });
+    }
+    return this.endpointIndexing;
+  }
+
+  private async indexLoadedSpecs(): Promise<void> {
+    const allAPIs = await this.listAPIs();
+    const loaded = new Set<string>();
+    let processed = 0;
+
+    for (const [apiId, api] of Object.entries(allAPIs)) {
+      if (++processed % ENDPOINT_INDEX_BATCH_SIZE === 0) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      const preferredVersion = api.versions[api.preferred];
+      if (!preferredVersion) continue;
+
+      // Custom specs are always available; remote ones only once cached
+      // by the source that served them
+      const isCustom = apiId.startsWith("custom:");
+      const url = preferredVersion.swaggerUrl;
+      const cached = isCustom
+        ? undefined
+        : (this.primaryClient.getCachedSpec(url) ??
+          this.secondaryClient.getCachedSpec(url));
+      if (!isCustom && !cached) continue;
+
+      const version = isCustom
+        ? preferredVersion.updated
+        : `${CACHE_KEYS.SPEC_PREFIX}${url}`;
+      loaded.add(apiId);
+      if (this.endpointIndex.isIndexed(apiId, version)) continue;
+
+      try {
+        const spec = isCustom ? await this.getOpenAPISpec(apiId) : cached;
+        if (spec) {
+          this.endpointIndex.addApi(apiId, spec, version);
+          this.schemaIndex.addApi(apiId, spec);
+        }
+      } catch (error) {
+        Logger.debug(
+          `Skipping ${apiId} in endpoint index`,
+          error instanceof Error ? error.message : error,
         );
-      },
-      300000,
-    ); // Cache search results for 5 minutes
+      }
+    }
+
+    for (const apiId of this.endpointIndex.apiIds) {
+      if (!loaded.has(apiId)) {
+        this.endpointIndex.removeApi(apiId);
+        this.schemaIndex.removeApi(apiId);
+      }
+    }
   }
 
   // Forward remaining methods to primary client with secondary fallback when appropriate
 
-  async getAPISummaryById(apiId: string): Promise<any> {
+  async getAPISummaryById(apiId: string, version?: string): Promise<any> {
+    await this.checkVersion(apiId, version);
+
     // Check custom first (highest precedence)
     const hasCustom = await this.customClient.hasAPI(apiId);
 
@@ -910,38 +1078,11 @@ export class DualSourceApiClient {
         const api = customAPIs[apiId];
 
         if (api) {
-          const preferredVersion = api.versions[api.preferred];
-          if (preferredVersion) {
-            const info = preferredVersion.info;
-
-            return {
-              id: apiId,
-              title: info.title || "Untitled API",
-              description: info.description || "No description available",
-              provider:
-                info["x-providerName"] || apiId.split(":")[0] || "Unknown",
-              versions: Object.keys(api.versions),
-              preferred_version: api.preferred,
-              base_url: preferredVersion.swaggerUrl
-                .replace("/swagger.json", "")
-                .replace("/swagger.yaml", ""),
-              categories: info["x-apisguru-categories"] || [],
-              authentication: {
-                type: "See OpenAPI spec",
-                description:
-                  "Authentication details available in the full specification",
-              },
-              updated: preferredVersion.updated,
-              added: preferredVersion.added,
-              contact: info.contact,
-              license: info.license,
-              documentation_url: preferredVersion.link || info.contact?.url,
-              homepage_url: info.contact?.url,
-            };
-          }
+          return this.summarizeAPI(apiId, api, version);
         }
       } catch (error) {
         // Fallback to secondary/primary if custom fails
+        this.logFallback("getAPISummaryById", "custom", error);
       }
     }
 
@@ -955,42 +1096,48 @@ export class DualSourceApiClient {
         const api = secondaryAPIs[apiId];
 
         if (api) {
-          const preferredVersion = api.versions[api.preferred];
-          if (preferredVersion) {
-            const info = preferredVersion.info;
-
-            return {
-              id: apiId,
-              title: info.title || "Untitled API",
-              description: info.description || "No description available",
-              provider:
-                info["x-providerName"] || apiId.split(":")[0] || "Unknown",
-              versions: Object.keys(api.versions),
-              preferred_version: api.preferred,
-              base_url: preferredVersion.swaggerUrl
-                .replace("/swagger.json", "")
-                .replace("/swagger.yaml", ""),
-              categories: info["x-apisguru-categories"] || [],
-              authentication: {
-                type: "See OpenAPI spec",
-                description:
-                  "Authentication details available in the full specification",
-              },
-              updated: preferredVersion.updated,
-              added: preferredVersion.added,
-              contact: info.contact,
-              license: info.license,
-              documentation_url: preferredVersion.link || info.contact?.url,
-              homepage_url: info.contact?.url,
-            };
-          }
+          return this.summarizeAPI(apiId, api, version);
         }
       } catch (error) {
         // Fallback to primary
+        this.logFallback("getAPISummaryById", "secondary", error);
       }
     }
 
-    return await this.primaryClient.getAPISummaryById(apiId);
+    return await this.primaryClient.getAPISummaryById(apiId, version);
+  }
+
+  /**
+   * Summary of a custom or secondary API in the primary client's format
+   */
+  private summarizeAPI(apiId: string, api: ApiGuruAPI, version?: string): any {
+    const selectedVersion = selectApiVersion(apiId, api, version);
+    const info = selectedVersion.info;
+
+    return {
+      id: apiId,
+      title: info.title || "Untitled API",
+      description: info.description || "No description available",
+      provider: info["x-providerName"] || apiId.split(":")[0] || "Unknown",
+      versions: Object.keys(api.versions),
+      preferred_version: api.preferred,
+      version: version ?? api.preferred,
+      base_url: selectedVersion.swaggerUrl
+        .replace("/swagger.json", "")
+        .replace("/swagger.yaml", ""),
+      categories: info["x-apisguru-categories"] || [],
+      authentication: {
+        type: "See OpenAPI spec",
+        description:
+          "Authentication details available in the full specification",
+      },
+      updated: selectedVersion.updated,
+      added: selectedVersion.added,
+      contact: info.contact,
+      license: info.license,
+      documentation_url: selectedVersion.link || info.contact?.url,
+      homepage_url: info.contact?.url,
+    };
   }
 
   async getAPIEndpoints(
@@ -998,7 +1145,10 @@ export class DualSourceApiClient {
     page: number = 1,
     limit: number = 30,
     tag?: string,
+    version?: string,
   ): Promise<any> {
+    await this.checkVersion(apiId, version);
+
     // Check custom first (highest precedence)
     const hasCustom = await this.customClient.hasAPI(apiId);
 
@@ -1007,6 +1157,7 @@ export class DualSourceApiClient {
         return await this.customClient.getAPIEndpoints(apiId, page, limit, tag);
       } catch (error) {
         // Fallback to secondary/primary
+        this.logFallback("getAPIEndpoints", "custom", error);
       }
     }
 
@@ -1022,6 +1173,7 @@ export class DualSourceApiClient {
             page,
             limit,
             tag,
+            version,
           );
         } else {
           // Secondary client doesn't have getAPIEndpoints, use primary with secondary data
@@ -1030,21 +1182,32 @@ export class DualSourceApiClient {
             page,
             limit,
             tag,
+            version,
           );
         }
       } catch (error) {
         // Fallback to primary
+        this.logFallback("getAPIEndpoints", "secondary", error);
       }
     }
 
-    return await this.primaryClient.getAPIEndpoints(apiId, page, limit, tag);
+    return await this.primaryClient.getAPIEndpoints(
+      apiId,
+      page,
+      limit,
+      tag,
+      version,
+    );
   }
 
   async getEndpointDetails(
     apiId: string,
     method: string,
     path: string,
+    version?: string,
   ): Promise<any> {
+    await this.checkVersion(apiId, version);
+
     // Check custom first (highest precedence)
     const hasCustom = await this.customClient.hasAPI(apiId);
 
@@ -1053,6 +1216,7 @@ export class DualSourceApiClient {
         return await this.customClient.getEndpointDetails(apiId, method, path);
       } catch (error) {
         // Fallback to secondary/primary if custom implementation fails
+        this.logFallback("getEndpointDetails", "custom", error);
       }
     }
 
@@ -1061,28 +1225,50 @@ export class DualSourceApiClient {
 
     if (hasSecondary) {
       try {
-        return await this.primaryClient.getEndpointDetails(apiId, method, path);
+        return await this.primaryClient.getEndpointDetails(
+          apiId,
+          method,
+          path,
+          version,
+        );
       } catch (error) {
         // Fallback to primary
+        this.logFallback("getEndpointDetails", "secondary", error);
       }
     }
 
-    return await this.primaryClient.getEndpointDetails(apiId, method, path);
+    return await this.primaryClient.getEndpointDetails(
+      apiId,
+      method,
+      path,
+      version,
+    );
   }
 
   async getEndpointSchema(
     apiId: string,
     method: string,
     path: string,
+    refOptions: RefResolutionOptions = {},
+    version?: string,
   ): Promise<any> {
+    await this.checkVersion(apiId, version);
+
     // Check custom first (highest precedence)
     const hasCustom = await this.customClient.hasAPI(apiId);
 
     if (hasCustom) {
       try {
-        return await this.primaryClient.getEndpointSchema(apiId, method, path); // Use primary implementation
+        return await this.primaryClient.getEndpointSchema(
+          apiId,
+          method,
+          path,
+          refOptions,
+          version,
+        ); // Use primary implementation
       } catch (error) {
         // Fallback to secondary/primary
+        this.logFallback("getEndpointSchema", "custom", error);
       }
     }
 
@@ -1091,20 +1277,36 @@ export class DualSourceApiClient {
 
     if (hasSecondary) {
       try {
-        return await this.primaryClient.getEndpointSchema(apiId, method, path); // Use primary implementation
+        return await this.primaryClient.getEndpointSchema(
+          apiId,
+          method,
+          path,
+          refOptions,
+          version,
+        ); // Use primary implementation
       } catch (error) {
         // Fallback to primary
+        this.logFallback("getEndpointSchema", "secondary", error);
       }
     }
 
-    return await this.primaryClient.getEndpointSchema(apiId, method, path);
+    return await this.primaryClient.getEndpointSchema(
+      apiId,
+      method,
+      path,
+      refOptions,
+      version,
+    );
   }
 
   async getEndpointExamples(
     apiId: string,
     method: string,
     path: string,
+    version?: string,
   ): Promise<any> {
+    await this.checkVersion(apiId, version);
+
     // Check custom first (highest precedence)
     const hasCustom = await this.customClient.hasAPI(apiId);
 
@@ -1114,9 +1316,11 @@ export class DualSourceApiClient {
           apiId,
           method,
           path,
+          version,
         ); // Use primary implementation
       } catch (error) {
         // Fallback to secondary/primary
+        this.logFallback("getEndpointExamples", "custom", error);
       }
     }
 
@@ -1129,13 +1333,98 @@ export class DualSourceApiClient {
           apiId,
           method,
           path,
+          version,
         ); // Use primary implementation
       } catch (error) {
         // Fallback to primary
+        this.logFallback("getEndpointExamples", "secondary", error);
       }
     }
 
-    return await this.primaryClient.getEndpointExamples(apiId, method, path);
+    return await this.primaryClient.getEndpointExamples(
+      apiId,
+      method,
+      path,
+      version,
+    );
+  }
+
+  async getWebhooks(
+    apiId: string,
+    refOptions: RefResolutionOptions = {},
+    version?: string,
+  ): Promise<{
+    webhooks: WebhookOperation[];
+    callbacks: CallbackOperation[];
+  }> {
+    await this.checkVersion(apiId, version);
+
+    // Custom specs are read locally; everything else comes from primary
+    const hasCustom = await this.customClient.hasAPI(apiId);
+
+    if (hasCustom) {
+      try {
+        return await this.customClient.getWebhooks(apiId, refOptions);
+      } catch (error) {
+        // Fallback to primary if custom implementation fails
+        this.logFallback("getWebhooks", "custom", error);
+      }
+    }
+
+    return await this.primaryClient.getWebhooks(apiId, refOptions, version);
+  }
+
+  async getEndpointSnippet(
+    apiId: string,
+    method: string,
+    path: string,
+    language?: SnippetLanguage,
+    version?: string,
+  ): Promise<EndpointSnippet> {
+    await this.checkVersion(apiId, version);
+
+    // Check custom first (highest precedence)
+    const hasCustom = await this.customClient.hasAPI(apiId);
+
+    if (hasCustom) {
+      try {
+        return await this.customClient.getEndpointSnippet(
+          apiId,
+          method,
+          path,
+          language,
+        );
+      } catch (error) {
+        // Fallback to secondary/primary if custom implementation fails
+        this.logFallback("getEndpointSnippet", "custom", error);
+      }
+    }
+
+    // Check secondary next
+    const hasSecondary = await this.secondaryClient.hasAPI(apiId);
+
+    if (hasSecondary) {
+      try {
+        return await this.primaryClient.getEndpointSnippet(
+          apiId,
+          method,
+          path,
+          language,
+          version,
+        ); // Use primary implementation
+      } catch (error) {
+        // Fallback to primary
+        this.logFallback("getEndpointSnippet", "secondary", error);
+      }
+    }
+
+    return await this.primaryClient.getEndpointSnippet(
+      apiId,
+      method,
+      path,
+      language,
+      version,
+    );
   }
 
   async getOpenAPISpec(url: string): Promise<any> {
@@ -1179,6 +1468,32 @@ export class DualSourceApiClient {
     return await this.primaryClient.getOpenAPISpec(url);
   }
 
+  /**
+   * Get the OpenAPI spec for an API ID from whichever source provides it
+   */
+  async getOpenAPISpecById(apiId: string): Promise<any> {
+    if (apiId.startsWith("custom:")) {
+      return await this.getOpenAPISpec(apiId);
+    }
+
+    const allAPIs = await this.listAPIs();
+    const api = allAPIs[apiId];
+    if (!api) {
+      throw await this.notFoundError(`API not found: ${apiId}`, apiId, {
+        operation: "getOpenAPISpecById",
+        provider: apiId.split(":")[0]!,
+        apiId,
+      });
+    }
+
+    const preferredVersion = api.versions[api.preferred];
+    if (!preferredVersion) {
+      throw new Error(`Preferred version not found for API: ${apiId}`);
+    }
+
+    return await this.getOpenAPISpec(preferredVersion.swaggerUrl);
+  }
+
   async getPopularAPIs(): Promise<Record<string, ApiGuruAPI>> {
     // Use combined API list for popularity calculation
     const allAPIs = await this.listAPIs();
@@ -1250,6 +1565,13 @@ export class DualSourceApiClient {
     );
   }
 
+  /**
+   * Get the manifest manager for custom specs
+   */
+  getManifestManager(): ManifestManager {
+    return this.customClient.getManifestManager();
+  }
+
   /**
    * Invalidate caches that depend on custom specs
    */
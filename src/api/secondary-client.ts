@@ -4,6 +4,23 @@ import { ApiGuruAPI, ApiGuruMetrics, ApiGuruServices } from "../types/api.js";
 import { rateLimiters } from "../utils/rate-limiter.js";
 import { HTTP_TIMEOUTS, CACHE_TTL, USER_AGENT } from "../utils/constants.js";
 import { ErrorFactory, ErrorHandler } from "../utils/errors.js";
+import { RequestOptions } from "../utils/progress.js";
+import {
+  RefResolutionOptions,
+  RefResolver,
+  refCacheSuffix,
+} from "../utils/ref-resolver.js";
+import { isSwagger2, normalizeSpec } from "../utils/spec-normalizer.js";
+import {
+  EndpointSchema,
+  extractEndpointSchema,
+} from "../utils/endpoint-schema.js";
+import {
+  CACHE_KEYS,
+  apiVersionKey,
+  selectApiVersion,
+} from "../utils/version-data.js";
+import { ClientOptions, disabledSourceError } from "./client.js";
 
 /**
  * Secondary API client for the enhanced OpenAPI directory
@@ -12,11 +29,17 @@ import { ErrorFactory, ErrorHandler } from "../utils/errors.js";
 export class SecondaryApiClient {
   private http: AxiosInstance;
   private cache: ICacheManager;
-
-  constructor(baseURL: string, cacheManager: ICacheManager) {
+  private enabled: boolean;
+  private specFetchTimeout: number;
+
+  constructor(
+    baseURL: string,
+    cacheManager: ICacheManager,
+    options: ClientOptions = {},
+  ) {
     this.http = axios.create({
       baseURL,
-      timeout: HTTP_TIMEOUTS.DEFAULT,
+      timeout: options.timeout ?? HTTP_TIMEOUTS.DEFAULT,
       headers: {
         Accept: "application/json",
         "User-Agent": USER_AGENT.WITH_DUAL_SOURCE,
@@ -24,6 +47,16 @@ export class SecondaryApiClient {
     });
 
     this.cache = cacheManager;
+    this.enabled = options.enabled ?? true;
+    this.specFetchTimeout =
+      options.specFetchTimeout ?? HTTP_TIMEOUTS.SPEC_FETCH;
+
+    if (!this.enabled) {
+      // Cached entries are still served; only network requests are refused
+      this.http.interceptors.request.use(() => {
+        throw disabledSourceError("Secondary");
+      });
+    }
   }
 
   private async fetchWithCache<T>(
@@ -146,12 +179,16 @@ export class SecondaryApiClient {
   /**
    * List all APIs in the secondary directory
    */
-  async listAPIs(): Promise<Record<string, ApiGuruAPI>> {
+  async listAPIs(
+    options: RequestOptions = {},
+  ): Promise<Record<string, ApiGuruAPI>> {
     return this.fetchWithCache(
       "all_apis",
       async () => {
-        const response =
-          await this.http.get<Record<string, ApiGuruAPI>>("/list.json");
+        const response = await this.http.get<Record<string, ApiGuruAPI>>(
+          "/list.json",
+          options.signal ? { signal: options.signal } : {},
+        );
         return response.data;
       },
       CACHE_TTL.APIS,
@@ -179,8 +216,11 @@ export class SecondaryApiClient {
     return this.fetchWithCacheNoRateLimit(
       `spec:${url}`,
       async () => {
+        if (!this.enabled) {
+          throw disabledSourceError("Secondary");
+        }
         const response = await axios.get(url, {
-          timeout: HTTP_TIMEOUTS.SPEC_FETCH,
+          timeout: this.specFetchTimeout,
         });
         return response.data;
       },
@@ -188,6 +228,28 @@ export class SecondaryApiClient {
     );
   }
 
+  /**
+   * Spec already loaded from a URL, without fetching it
+   */
+  getCachedSpec(url: string): any {
+    return this.cache.get(`secondary:${CACHE_KEYS.SPEC_PREFIX}${url}`);
+  }
+
+  /**
+   * OpenAPI 3 view of a spec for endpoint extraction. Swagger 2.0 specs are
+   * converted once and cached next to the original.
+   */
+  async getNormalizedSpec(url: string): Promise<any> {
+    const spec = await this.getOpenAPISpec(url);
+    if (!isSwagger2(spec)) return spec;
+
+    return this.fetchWithCacheNoRateLimit(
+      `${CACHE_KEYS.NORMALIZED_SPEC_PREFIX}${url}`,
+      async () => normalizeSpec(spec),
+      CACHE_TTL.SPECS,
+    );
+  }
+
   /**
    * Fetch with cache but without rate limiting (for internal calls)
    */
@@ -260,8 +322,10 @@ export class SecondaryApiClient {
   /**
    * Get API summary by ID for secondary source
    */
-  async getAPISummaryById(apiId: string): Promise<any> {
-    return this.fetchWithCache(`api_summary:${apiId}`, async () => {
+  async getAPISummaryById(apiId: string, version?: string): Promise<any> {
+    const cacheKey = `api_summary:${apiVersionKey(apiId, version)}`;
+
+    return this.fetchWithCache(cacheKey, async () => {
       const allAPIs = await this.listAPIs();
       let api = allAPIs[apiId];
 
@@ -276,6 +340,10 @@ export class SecondaryApiClient {
       if (!api) {
         throw new Error(`API not found: ${apiId}`);
       }
+      if (version !== undefined) {
+        // Reject unknown versions; the summary lists every version anyway
+        selectApiVersion(apiId, api, version);
+      }
 
       return {
         id: apiId,
@@ -367,11 +435,18 @@ export class SecondaryApiClient {
     apiId: string,
     method: string,
     path: string,
+    version?: string,
   ): Promise<any> {
-    const cacheKey = `endpoint_details:${apiId}:${method}:${path}`;
+    const cacheKey = `endpoint_details:${apiVersionKey(apiId, version)}:${method}:${path}`;
 
     return this.fetchWithCache(cacheKey, async () => {
-      const endpoints = await this.getAPIEndpoints(apiId);
+      const endpoints = await this.getAPIEndpoints(
+        apiId,
+        1,
+        30,
+        undefined,
+        version,
+      );
       const endpoint = endpoints.results.find(
         (e) =>
           e.method.toUpperCase() === method.toUpperCase() && e.path === path,
@@ -396,8 +471,10 @@ export class SecondaryApiClient {
     apiId: string,
     method: string,
     path: string,
-  ): Promise<any> {
-    const cacheKey = `endpoint_schema:${apiId}:${method}:${path}`;
+    refOptions: RefResolutionOptions = {},
+    version?: string,
+  ): Promise<EndpointSchema & { api_id: string; source: string }> {
+    const cacheKey = `endpoint_schema:${apiVersionKey(apiId, version)}:${method}:${path}${refCacheSuffix(refOptions)}`;
 
     return this.fetchWithCache(cacheKey, async () => {
       // Get the full OpenAPI spec
@@ -416,14 +493,11 @@ export class SecondaryApiClient {
         throw new Error(`API not found: ${apiId}`);
       }
 
-      const preferredVersion = api.versions[api.preferred];
-      if (!preferredVersion) {
-        throw new Error(`Preferred version not found for API: ${apiId}`);
-      }
-      const specUrl = preferredVersion.swaggerUrl.startsWith("http")
-        ? preferredVersion.swaggerUrl
-        : this.http.defaults.baseURL + preferredVersion.swaggerUrl;
-      const spec = await this.getOpenAPISpec(specUrl);
+      const selectedVersion = selectApiVersion(apiId, api, version);
+      const specUrl = selectedVersion.swaggerUrl.startsWith("http")
+        ? selectedVersion.swaggerUrl
+        : this.http.defaults.baseURL + selectedVersion.swaggerUrl;
+      const spec = await this.getNormalizedSpec(specUrl);
 
       const pathItem = spec.paths?.[path];
       const operation = pathItem?.[method.toLowerCase()];
@@ -432,13 +506,20 @@ export class SecondaryApiClient {
         throw new Error(`Endpoint not found: ${method} ${path}`);
       }
 
+      const resolver = new RefResolver(spec, refOptions, specUrl, (url) =>
+        this.getOpenAPISpec(url),
+      );
+      const schema = await extractEndpointSchema(
+        resolver,
+        method,
+        path,
+        pathItem,
+        operation,
+      );
+
       return {
         api_id: apiId,
-        method: method.toUpperCase(),
-        path,
-        parameters: operation.parameters || [],
-        requestBody: operation.requestBody,
-        responses: operation.responses || {},
+        ...schema,
         source: "secondary",
       };
     });
@@ -451,11 +532,12 @@ export class SecondaryApiClient {
     apiId: string,
     method: string,
     path: string,
+    version?: string,
   ): Promise<any> {
-    const cacheKey = `endpoint_examples:${apiId}:${method}:${path}`;
+    const cacheKey = `endpoint_examples:${apiVersionKey(apiId, version)}:${method}:${path}`;
 
     return this.fetchWithCache(cacheKey, async () => {
-      await this.getEndpointSchema(apiId, method, path);
+      await this.getEndpointSchema(apiId, method, path, {}, version);
 
       return {
         api_id: apiId,
@@ -476,6 +558,7 @@ export class SecondaryApiClient {
     page: number = 1,
     limit: number = 30,
     tag?: string,
+    version?: string,
   ): Promise<{
     results: Array<{
       method: string;
@@ -498,7 +581,7 @@ export class SecondaryApiClient {
     // Ensure limit is within bounds
     limit = Math.min(Math.max(limit, 1), 100);
 
-    const cacheKey = `secondary:endpoints:${apiId}:${page}:${limit}:${tag || "all"}`;
+    const cacheKey = `secondary:endpoints:${apiVersionKey(apiId, version)}:${page}:${limit}:${tag || "all"}`;
 
     return this.fetchWithCache(
       cacheKey,
@@ -520,18 +603,14 @@ export class SecondaryApiClient {
           throw new Error(`API not found: ${apiId}`);
         }
 
-        const preferredVersion = api.versions[api.preferred];
-
-        if (!preferredVersion) {
-          throw new Error(`Preferred version not found for API: ${apiId}`);
-        }
+        const selectedVersion = selectApiVersion(apiId, api, version);
 
         // Fetch the OpenAPI spec
-        const rawUrl = preferredVersion.swaggerUrl;
+        const rawUrl = selectedVersion.swaggerUrl;
         const specUrl = rawUrl.startsWith("http")
           ? rawUrl
           : this.http.defaults.baseURL + rawUrl;
-        const spec = await this.getOpenAPISpec(specUrl);
+        const spec = await this.getNormalizedSpec(specUrl);
 
         // Extract endpoints from spec
         const endpoints: Array<{
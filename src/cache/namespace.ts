@@ -0,0 +1,18 @@
+/**
+ * Cache key namespaces used for per-namespace TTL configuration
+ */
+
+// Prefixes added by the dual-source, secondary and custom spec clients
+const SOURCE_PREFIXES = ["triple", "secondary", "custom"];
+
+/**
+ * Get the namespace of a cache key, ignoring the source prefix.
+ * e.g. "triple:spec:https://..." -> "spec", "all_apis" -> "all_apis"
+ */
+export function getCacheNamespace(key: string): string {
+  const segments = key.split(":");
+  if (segments.length > 1 && SOURCE_PREFIXES.includes(segments[0]!)) {
+    segments.shift();
+  }
+  return segments[0] ?? "";
+}
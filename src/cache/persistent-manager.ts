@@ -8,8 +8,14 @@ import {
   unlinkSync,
 } from "fs";
 import { ICacheManager } from "./types.js";
+import { getCacheNamespace } from "./namespace.js";
 import { Logger } from "../utils/logger.js";
 
+export interface PersistentCacheOptions {
+  enabled?: boolean | undefined; // Defaults to DISABLE_CACHE !== "true"
+  namespaceTTLs?: Record<string, number> | undefined; // Override per-call TTLs
+}
+
 interface CacheEntry {
   value: any;
   expires: number;
@@ -23,13 +29,15 @@ export class PersistentCacheManager implements ICacheManager {
   private cacheFile: string;
   private invalidateFlag: string;
   private ttlMs: number;
+  private namespaceTTLs: Record<string, number>;
   private persistInterval: number = 5 * 60 * 1000; // 5 minutes
   private persistTimer?: ReturnType<typeof setInterval>;
 
-  constructor(ttlMs: number = 86400000) {
+  constructor(ttlMs: number = 86400000, options: PersistentCacheOptions = {}) {
     // 24 hours default
-    this.enabled = process.env.DISABLE_CACHE !== "true";
+    this.enabled = options.enabled ?? process.env.DISABLE_CACHE !== "true";
     this.ttlMs = ttlMs;
+    this.namespaceTTLs = options.namespaceTTLs ?? {};
     this.cacheData = new Map<string, CacheEntry>();
 
     // Set up cache directory and file
@@ -131,7 +139,8 @@ export class PersistentCacheManager implements ICacheManager {
     }
 
     try {
-      const effectiveTtl = ttlMs || this.ttlMs;
+      const effectiveTtl =
+        this.namespaceTTLs[getCacheNamespace(key)] ?? (ttlMs || this.ttlMs);
       const expires = effectiveTtl > 0 ? Date.now() + effectiveTtl : 0;
 
       const entry: CacheEntry = {
@@ -7,6 +7,11 @@
 
 import { ImportManager } from "../custom-specs/index.js";
 import { PersistentCacheManager } from "../cache/persistent-manager.js";
+import {
+  HttpTransportOptions,
+  ServerStartOptions,
+} from "../transports/http.js";
+import { LoadConfigOptions } from "../config/index.js";
 
 export interface CLIArgs {
   import?: string | boolean;
@@ -19,6 +24,12 @@ export interface CLIArgs {
   "rescan-security"?: string;
   "validate-integrity"?: boolean;
   "repair-integrity"?: boolean;
+  http?: boolean;
+  port?: string;
+  host?: string;
+  config?: string;
+  profile?: string;
+  "read-only"?: boolean;
   help?: boolean;
 }
 
@@ -116,6 +127,50 @@ export class CLIHandler {
           parsed["repair-integrity"] = true;
           break;
 
+        case "--http":
+          parsed.http = true;
+          break;
+
+        case "--port": {
+          const portArg = args[i + 1];
+          if (portArg && !portArg.startsWith("--")) {
+            parsed.port = portArg;
+            i++;
+          }
+          break;
+        }
+
+        case "--config": {
+          const configArg = args[i + 1];
+          if (configArg && !configArg.startsWith("--")) {
+            parsed.config = configArg;
+            i++;
+          }
+          break;
+        }
+
+        case "--profile": {
+          const profileArg = args[i + 1];
+          if (profileArg && !profileArg.startsWith("--")) {
+            parsed.profile = profileArg;
+            i++;
+          }
+          break;
+        }
+
+        case "--read-only":
+          parsed["read-only"] = true;
+          break;
+
+        case "--host": {
+          const hostArg = args[i + 1];
+          if (hostArg && !hostArg.startsWith("--")) {
+            parsed.host = hostArg;
+            i++;
+          }
+          break;
+        }
+
         case "--help":
         case "-h":
           parsed.help = true;
@@ -126,6 +181,47 @@ export class CLIHandler {
     return parsed;
   }
 
+  /**
+   * Resolve how the MCP server should be started from parsed arguments.
+   * Passing --port or --host implies --http.
+   */
+  getStartOptions(args: CLIArgs): ServerStartOptions {
+    if (!args.http && args.port === undefined && args.host === undefined) {
+      return { transport: "stdio" };
+    }
+
+    const http: Partial<HttpTransportOptions> = {};
+    if (args.port !== undefined) {
+      const port = parseInt(args.port, 10);
+      if (isNaN(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid port: ${args.port}`);
+      }
+      http.port = port;
+    }
+    if (args.host !== undefined) {
+      http.host = args.host;
+    }
+
+    return { transport: "http", http };
+  }
+
+  /**
+   * Get the config file, profile and overrides selected on the command line
+   */
+  getConfigOptions(args: CLIArgs): LoadConfigOptions {
+    const options: LoadConfigOptions = {};
+    if (args.config !== undefined) {
+      options.configPath = args.config;
+    }
+    if (args.profile !== undefined) {
+      options.profile = args.profile;
+    }
+    if (args["read-only"]) {
+      options.readOnly = true;
+    }
+    return options;
+  }
+
   /**
    * Handle CLI commands
    */
@@ -219,6 +315,16 @@ COMMANDS:
   --validate-integrity    Check integrity of custom spec storage
   --repair-integrity      Repair integrity issues in custom spec storage
   
+  # Server transport
+  --http                  Serve MCP over Streamable HTTP instead of stdio
+  --port PORT             HTTP port (default: 3000, implies --http)
+  --host HOST             HTTP bind address (default: 127.0.0.1, implies --http)
+
+  # Configuration
+  --config PATH           Load settings from a JSON/YAML config file
+  --profile NAME          Use a named profile (built in: offline, ci)
+  --read-only             Hide and refuse tools that modify state (e.g. clear_cache)
+
   # General
   --help, -h              Show this help message
 
@@ -241,6 +347,12 @@ EXAMPLES:
   # Start normal MCP server (no arguments)
   openapi-directory-mcp
 
+  # Share one server and cache across a team over HTTP
+  openapi-directory-mcp --http --port 8080
+
+  # Serve only custom specs and cached data
+  openapi-directory-mcp --profile offline
+
 📖 For more information, visit: https://github.com/rawveg/openapi-directory-mcp
 `);
   }
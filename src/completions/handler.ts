@@ -0,0 +1,159 @@
+import {
+  CompleteRequest,
+  CompleteResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { DualSourceApiClient } from "../api/dual-source-client.js";
+import { HTTP_METHODS } from "../search/endpoint-index.js";
+
+// MCP caps a completion response at 100 values
+const MAX_COMPLETIONS = 100;
+
+// Argument names that take an API ID, across prompts and resource templates
+const API_ID_ARGUMENTS = ["api_id", "api_name", "from_api", "to_api"];
+
+type CompletionArguments = Record<string, string>;
+
+/**
+ * Serves completion/complete requests for prompt arguments and resource
+ * template variables. API IDs and providers come from the merged
+ * triple-source listings; tag, method, path and schema names come from the
+ * spec of the API chosen in an earlier argument.
+ */
+export class CompletionHandler {
+  constructor(private apiClient: DualSourceApiClient) {}
+
+  /**
+   * Handle the completion/complete request
+   */
+  async complete(params: CompleteRequest["params"]): Promise<CompleteResult> {
+    const { name, value } = params.argument;
+    const context: CompletionArguments = params.context?.arguments ?? {};
+
+    let candidates: string[];
+    try {
+      candidates = await this.getCandidates(name, context);
+    } catch {
+      // Completion is best effort; lookup failures just yield no suggestions
+      candidates = [];
+    }
+
+    return this.toResult(this.filterCandidates(candidates, value));
+  }
+
+  private async getCandidates(
+    argument: string,
+    context: CompletionArguments,
+  ): Promise<string[]> {
+    if (API_ID_ARGUMENTS.includes(argument)) {
+      return Object.keys(await this.apiClient.listAPIs());
+    }
+
+    switch (argument) {
+      case "provider":
+        return (await this.apiClient.getProviders()).data;
+
+      case "tag":
+        return this.getSpecTags(await this.getContextSpec(context));
+
+      case "method":
+        return this.getSpecMethods(
+          await this.getContextSpec(context),
+          context.path,
+        );
+
+      case "path":
+        return this.getSpecPaths(
+          await this.getContextSpec(context),
+          context.method,
+        );
+
+      case "name": {
+        const spec = await this.getContextSpec(context);
+        return Object.keys(
+          spec?.components?.schemas ?? spec?.definitions ?? {},
+        );
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  private async getContextSpec(context: CompletionArguments): Promise<any> {
+    const apiId = API_ID_ARGUMENTS.map((name) => context[name]).find(Boolean);
+    if (!apiId) {
+      return null;
+    }
+    return await this.apiClient.getOpenAPISpecById(apiId);
+  }
+
+  private getSpecTags(spec: any): string[] {
+    const tags = new Set<string>();
+
+    for (const tag of spec?.tags ?? []) {
+      if (tag?.name) {
+        tags.add(tag.name);
+      }
+    }
+    for (const pathItem of Object.values<any>(spec?.paths ?? {})) {
+      for (const method of HTTP_METHODS) {
+        for (const tag of pathItem?.[method]?.tags ?? []) {
+          tags.add(tag);
+        }
+      }
+    }
+
+    return Array.from(tags);
+  }
+
+  private getSpecMethods(spec: any, path?: string): string[] {
+    const pathItems: any[] = path
+      ? [spec?.paths?.[path]]
+      : Object.values(spec?.paths ?? {});
+
+    return HTTP_METHODS.filter((method) =>
+      pathItems.some((pathItem) => pathItem?.[method]),
+    ).map((method) => method.toUpperCase());
+  }
+
+  private getSpecPaths(spec: any, method?: string): string[] {
+    const normalizedMethod = method?.toLowerCase();
+
+    return Object.entries<any>(spec?.paths ?? {})
+      .filter(
+        ([, pathItem]) => !normalizedMethod || pathItem?.[normalizedMethod],
+      )
+      .map(([path]) => path);
+  }
+
+  /**
+   * Keep case-insensitive prefix matches first, followed by other substring
+   * matches, each group sorted alphabetically
+   */
+  private filterCandidates(candidates: string[], value: string): string[] {
+    const query = value.toLowerCase();
+    const prefixMatches: string[] = [];
+    const substringMatches: string[] = [];
+
+    for (const candidate of new Set(candidates)) {
+      const normalized = candidate.toLowerCase();
+      if (normalized.startsWith(query)) {
+        prefixMatches.push(candidate);
+      } else if (normalized.includes(query)) {
+        substringMatches.push(candidate);
+      }
+    }
+
+    return [...prefixMatches.sort(), ...substringMatches.sort()];
+  }
+
+  private toResult(matches: string[]): CompleteResult {
+    return {
+      completion: {
+        values: matches.slice(0, MAX_COMPLETIONS),
+        total: matches.length,
+        hasMore: matches.length > MAX_COMPLETIONS,
+      },
+    };
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Server configuration module
+ * Loads the optional config file and resolves named profiles
+ */
+
+export {
+  loadConfig,
+  findConfigFile,
+  readConfigFile,
+  applyEnvOverrides,
+  DEFAULT_CONFIG,
+  BUILT_IN_PROFILES,
+  CONFIG_FILE_NAMES,
+} from "./loader.js";
+
+export type {
+  ServerConfig,
+  ConfigFile,
+  ProfileSettings,
+  LoadConfigOptions,
+  RateLimitSettings,
+  RateLimiterName,
+  SourceSettings,
+  ToolPolicySettings,
+} from "./types.js";
@@ -0,0 +1,349 @@
+/**
+ * Loads the optional JSON/YAML config file and resolves the active profile
+ *
+ * Precedence (lowest to highest): built-in defaults, top-level file settings,
+ * the selected profile, then environment variables.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { extname, join, resolve } from "path";
+import * as yaml from "js-yaml";
+import { z } from "zod";
+import { CACHE_TTL, HTTP_TIMEOUTS, RATE_LIMITS } from "../utils/constants.js";
+import { ValidationError } from "../utils/errors.js";
+import {
+  ConfigFile,
+  LoadConfigOptions,
+  ProfileSettings,
+  ServerConfig,
+} from "./types.js";
+
+export const CONFIG_FILE_NAMES = [
+  "openapi-directory-mcp.config.json",
+  "openapi-directory-mcp.config.yaml",
+  "openapi-directory-mcp.config.yml",
+];
+
+const USER_CONFIG_DIR = join(".config", "openapi-directory-mcp");
+const USER_CONFIG_FILE_NAMES = ["config.json", "config.yaml", "config.yml"];
+
+export const DEFAULT_CONFIG: ServerConfig = {
+  profile: null,
+  configFile: null,
+  sources: {
+    primary: { baseUrl: "https://api.apis.guru/v2", enabled: true },
+    secondary: { baseUrl: "https://api.openapidirectory.com", enabled: true },
+  },
+  cache: {
+    enabled: true,
+    ttl: CACHE_TTL.DEFAULT,
+    namespaces: {},
+  },
+  rateLimits: {},
+  timeouts: {
+    default: HTTP_TIMEOUTS.DEFAULT,
+    specFetch: HTTP_TIMEOUTS.SPEC_FETCH,
+  },
+  tools: {
+    readOnly: false,
+    allow: null,
+    deny: [],
+    allowCategories: null,
+    denyCategories: [],
+  },
+};
+
+/**
+ * Profiles available without a config file. A file profile with the same
+ * name is merged on top of the built-in one.
+ */
+export const BUILT_IN_PROFILES: Record<string, ProfileSettings> = {
+  // Serve only custom specs and whatever is already cached
+  offline: {
+    sources: {
+      primary: { enabled: false },
+      secondary: { enabled: false },
+    },
+    cache: { enabled: true, ttl: 0 },
+  },
+  // Fresh data, fail fast and stay well within remote rate limits
+  ci: {
+    cache: { enabled: false },
+    timeouts: {
+      default: HTTP_TIMEOUTS.QUICK,
+      specFetch: HTTP_TIMEOUTS.DEFAULT,
+    },
+    rateLimits: {
+      secondary: {
+        maxRequests: RATE_LIMITS.TESTING_REQUESTS_PER_MINUTE,
+        windowMs: 60 * 1000,
+      },
+    },
+  },
+};
+
+const durationSchema = z.number().int().nonnegative();
+const timeoutSchema = z.number().int().positive();
+
+const sourceSchema = z
+  .object({
+    baseUrl: z.string().url().optional(),
+    enabled: z.boolean().optional(),
+  })
+  .strict();
+
+const rateLimitSchema = z
+  .object({
+    maxRequests: z.number().int().positive(),
+    windowMs: z.number().int().positive(),
+    burstLimit: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const profileSchema = z
+  .object({
+    sources: z
+      .object({
+        primary: sourceSchema.optional(),
+        secondary: sourceSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    cache: z
+      .object({
+        enabled: z.boolean().optional(),
+        ttl: durationSchema.optional(),
+        namespaces: z.record(durationSchema).optional(),
+      })
+      .strict()
+      .optional(),
+    rateLimits: z
+      .object({
+        secondary: rateLimitSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    timeouts: z
+      .object({
+        default: timeoutSchema.optional(),
+        specFetch: timeoutSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    tools: z
+      .object({
+        readOnly: z.boolean().optional(),
+        allow: z.array(z.string()).optional(),
+        deny: z.array(z.string()).optional(),
+        allowCategories: z.array(z.string()).optional(),
+        denyCategories: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const configFileSchema = profileSchema
+  .extend({
+    defaultProfile: z.string().optional(),
+    profiles: z.record(profileSchema).optional(),
+  })
+  .strict();
+
+/**
+ * Find the config file to load. An explicit path (flag or environment
+ * variable) must exist; otherwise the working directory and then the user
+ * config directory are searched.
+ */
+export function findConfigFile(options: LoadConfigOptions = {}): string | null {
+  const env = options.env ?? process.env;
+  const cwd = options.cwd ?? process.cwd();
+  const explicit = options.configPath || env.OPENAPI_DIRECTORY_CONFIG;
+
+  if (explicit) {
+    const path = resolve(cwd, explicit);
+    if (!existsSync(path)) {
+      throw new ValidationError(`Config file not found: ${path}`, {
+        operation: "loadConfig",
+      });
+    }
+    return path;
+  }
+
+  const userConfigDir = join(options.homeDir ?? homedir(), USER_CONFIG_DIR);
+  const candidates = [
+    ...CONFIG_FILE_NAMES.map((name) => join(cwd, name)),
+    ...USER_CONFIG_FILE_NAMES.map((name) => join(userConfigDir, name)),
+  ];
+
+  return candidates.find((candidate) => existsSync(candidate)) ?? null;
+}
+
+/**
+ * Read and validate a config file
+ */
+export function readConfigFile(path: string): ConfigFile {
+  let raw: unknown;
+  try {
+    const content = readFileSync(path, "utf-8");
+    raw =
+      extname(path).toLowerCase() === ".json"
+        ? JSON.parse(content)
+        : yaml.load(content);
+  } catch (error) {
+    throw new ValidationError(
+      `Failed to parse config file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      { operation: "loadConfig" },
+    );
+  }
+
+  // An empty YAML document is a valid, empty config
+  const result = configFileSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new ValidationError(`Invalid config file ${path}: ${issues}`, {
+      operation: "loadConfig",
+    });
+  }
+
+  return result.data as ConfigFile;
+}
+
+/**
+ * Resolve the server configuration from defaults, the config file, the
+ * selected profile and environment variables
+ */
+export function loadConfig(options: LoadConfigOptions = {}): ServerConfig {
+  const env = options.env ?? process.env;
+  const configFile = findConfigFile(options);
+  const file: ConfigFile = configFile ? readConfigFile(configFile) : {};
+
+  const profile =
+    options.profile || env.OPENAPI_DIRECTORY_PROFILE || file.defaultProfile;
+
+  const profiles = file.profiles ?? {};
+  let settings: ProfileSettings = file;
+
+  if (profile) {
+    const builtIn = BUILT_IN_PROFILES[profile];
+    const fromFile = profiles[profile];
+    if (!builtIn && !fromFile) {
+      const available = Array.from(
+        new Set([...Object.keys(BUILT_IN_PROFILES), ...Object.keys(profiles)]),
+      ).sort();
+      throw new ValidationError(
+        `Unknown profile "${profile}". Available profiles: ${available.join(", ")}`,
+        { operation: "loadConfig" },
+      );
+    }
+    settings = mergeSettings(
+      mergeSettings(settings, builtIn ?? {}),
+      fromFile ?? {},
+    );
+  }
+
+  const config = applySettings(DEFAULT_CONFIG, settings);
+  config.profile = profile ?? null;
+  config.configFile = configFile;
+
+  const resolved = applyEnvOverrides(config, env);
+  if (options.readOnly) {
+    resolved.tools.readOnly = true;
+  }
+  return resolved;
+}
+
+/**
+ * Environment variables always win over the file and profile
+ */
+export function applyEnvOverrides(
+  config: ServerConfig,
+  env: Record<string, string | undefined> = process.env,
+): ServerConfig {
+  const result = applySettings(config, {});
+
+  if (env.PRIMARY_API_BASE_URL) {
+    result.sources.primary.baseUrl = env.PRIMARY_API_BASE_URL;
+  }
+  if (env.SECONDARY_API_BASE_URL) {
+    result.sources.secondary.baseUrl = env.SECONDARY_API_BASE_URL;
+  }
+  if (env.DISABLE_CACHE === "true" || env.DISABLE_CACHE === "false") {
+    result.cache.enabled = env.DISABLE_CACHE !== "true";
+  }
+
+  const ttl = parseInt(env.CACHE_TTL || "", 10);
+  if (!isNaN(ttl) && ttl >= 0) {
+    result.cache.ttl = ttl;
+  }
+  if (
+    env.OPENAPI_DIRECTORY_READ_ONLY === "true" ||
+    env.OPENAPI_DIRECTORY_READ_ONLY === "false"
+  ) {
+    result.tools.readOnly = env.OPENAPI_DIRECTORY_READ_ONLY === "true";
+  }
+
+  return result;
+}
+
+function applySettings(
+  config: ServerConfig,
+  settings: ProfileSettings,
+): ServerConfig {
+  return {
+    profile: config.profile,
+    configFile: config.configFile,
+    sources: {
+      primary: { ...config.sources.primary, ...settings.sources?.primary },
+      secondary: {
+        ...config.sources.secondary,
+        ...settings.sources?.secondary,
+      },
+    },
+    cache: {
+      enabled: settings.cache?.enabled ?? config.cache.enabled,
+      ttl: settings.cache?.ttl ?? config.cache.ttl,
+      namespaces: { ...config.cache.namespaces, ...settings.cache?.namespaces },
+    },
+    rateLimits: { ...config.rateLimits, ...settings.rateLimits },
+    timeouts: { ...config.timeouts, ...settings.timeouts },
+    tools: {
+      readOnly: settings.tools?.readOnly ?? config.tools.readOnly,
+      allow: copyList(settings.tools?.allow ?? config.tools.allow),
+      deny: [...(settings.tools?.deny ?? config.tools.deny)],
+      allowCategories: copyList(
+        settings.tools?.allowCategories ?? config.tools.allowCategories,
+      ),
+      denyCategories: [
+        ...(settings.tools?.denyCategories ?? config.tools.denyCategories),
+      ],
+    },
+  };
+}
+
+function copyList(list: string[] | null): string[] | null {
+  return list ? [...list] : null;
+}
+
+function mergeSettings(
+  base: ProfileSettings,
+  override: ProfileSettings,
+): ProfileSettings {
+  return {
+    sources: {
+      primary: { ...base.sources?.primary, ...override.sources?.primary },
+      secondary: { ...base.sources?.secondary, ...override.sources?.secondary },
+    },
+    cache: {
+      ...base.cache,
+      ...override.cache,
+      namespaces: { ...base.cache?.namespaces, ...override.cache?.namespaces },
+    },
+    rateLimits: { ...base.rateLimits, ...override.rateLimits },
+    timeouts: { ...base.timeouts, ...override.timeouts },
+    tools: { ...base.tools, ...override.tools },
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Types for the server configuration file and its named profiles
+ */
+
+export interface RateLimitSettings {
+  maxRequests: number;
+  windowMs: number;
+  burstLimit?: number;
+}
+
+// Limiters that requests actually go through; only the secondary source
+// is rate limited
+export type RateLimiterName = "secondary";
+
+export interface SourceSettings {
+  baseUrl: string;
+  enabled: boolean;
+}
+
+/**
+ * Which tools are listed and callable. Deny lists win over allow lists.
+ */
+export interface ToolPolicySettings {
+  readOnly: boolean; // Hide tools that modify server state (e.g. clear_cache)
+  allow: string[] | null; // Tool names; null = every tool
+  deny: string[];
+  allowCategories: string[] | null; // Tool categories, e.g. "endpoint-tools"
+  denyCategories: string[];
+}
+
+/**
+ * Fully resolved configuration used to start the server
+ */
+export interface ServerConfig {
+  profile: string | null; // Active profile name, null when none selected
+  configFile: string | null; // Config file that was loaded, if any
+  sources: {
+    primary: SourceSettings;
+    secondary: SourceSettings;
+  };
+  cache: {
+    enabled: boolean;
+    ttl: number; // Default TTL in milliseconds, 0 = never expire
+    namespaces: Record<string, number>; // Per-namespace TTL overrides
+  };
+  rateLimits: Partial<Record<RateLimiterName, RateLimitSettings>>;
+  timeouts: {
+    default: number; // Directory API requests
+    specFetch: number; // OpenAPI spec downloads
+  };
+  tools: ToolPolicySettings;
+}
+
+/**
+ * Settings that can appear at the top level of the config file or inside a
+ * profile. Every field is optional; unset fields fall through to defaults.
+ */
+export interface ProfileSettings {
+  sources?: {
+    primary?: Partial<SourceSettings>;
+    secondary?: Partial<SourceSettings>;
+  };
+  cache?: {
+    enabled?: boolean;
+    ttl?: number;
+    namespaces?: Record<string, number>;
+  };
+  rateLimits?: Partial<Record<RateLimiterName, RateLimitSettings>>;
+  timeouts?: {
+    default?: number;
+    specFetch?: number;
+  };
+  tools?: Partial<ToolPolicySettings>;
+}
+
+/**
+ * On-disk config file (JSON or YAML)
+ */
+export interface ConfigFile extends ProfileSettings {
+  defaultProfile?: string;
+  profiles?: Record<string, ProfileSettings>;
+}
+
+export interface LoadConfigOptions {
+  configPath?: string | undefined; // Explicit file, e.g. from --config
+  profile?: string | undefined; // Explicit profile, e.g. from --profile
+  readOnly?: boolean | undefined; // --read-only, applied after everything else
+  env?: Record<string, string | undefined>;
+  cwd?: string;
+  homeDir?: string;
+}
@@ -8,6 +8,29 @@
 import { ICacheManager } from "../cache/types.js";
 import { ApiGuruAPI, ApiGuruMetrics, ApiGuruServices } from "../types/api.js";
 import { ManifestManager } from "./manifest-manager.js";
+import {
+  RefResolutionOptions,
+  RefResolver,
+  refCacheSuffix,
+} from "../utils/ref-resolver.js";
+import { isSwagger2, normalizeSpec } from "../utils/spec-normalizer.js";
+import { CACHE_KEYS } from "../utils/version-data.js";
+import {
+  EndpointSchema,
+  extractEndpointSchema,
+} from "../utils/endpoint-schema.js";
+import { SNIPPETS } from "../utils/constants.js";
+import { OperationLink, extractLinks } from "../utils/operation-links.js";
+import {
+  CallbackOperation,
+  WebhookOperation,
+  extractWebhooks,
+} from "../utils/webhook-extractor.js";
+import {
+  EndpointSnippet,
+  SnippetLanguage,
+  generateSnippet,
+} from "../utils/snippet-generator.js";
 
 /**
  * Custom specification client that reads from local filesystem
@@ -902,6 +925,44 @@ export class CustomSpecClient {
     throw new Error(`External URL not supported in custom client: ${url}`);
   }
 
+  /**
+   * Load the OpenAPI spec of a custom API, unwrapping the ApiGuru wrapper
+   * format. Swagger 2.0 specs are normalised to OpenAPI 3, with the
+   * normalised form cached next to the stored spec.
+   */
+  private async loadOpenApiSpec(apiId: string): Promise<any> {
+    const [, name, version] = apiId.split(":");
+    if (!name || !version) {
+      throw new Error(
+        `Invalid custom API ID format: ${apiId}. Expected format: custom:name:version`,
+      );
+    }
+
+    const spec = await this.getOpenAPISpec(apiId);
+
+    // Handle both direct OpenAPI spec and ApiGuru wrapper format
+    let openApiSpec: any;
+    if (spec.openapi || spec.swagger) {
+      // Direct OpenAPI spec
+      openApiSpec = spec;
+    } else if (spec.versions && spec.preferred) {
+      // ApiGuru wrapper format
+      const preferredVersion = spec.versions[spec.preferred];
+      if (!preferredVersion || !preferredVersion.spec) {
+        throw new Error(`OpenAPI spec not available for: ${apiId}`);
+      }
+      openApiSpec = preferredVersion.spec;
+    } else {
+      throw new Error(`Invalid spec format for: ${apiId}`);
+    }
+    if (!isSwagger2(openApiSpec)) return openApiSpec;
+
+    return this.fetchWithCache(
+      `${CACHE_KEYS.NORMALIZED_SPEC_PREFIX}${apiId}`,
+      async () => normalizeSpec(openApiSpec),
+    );
+  }
+
   /**
    * Get endpoint schema for custom source
    */
@@ -909,32 +970,12 @@ export class CustomSpecClient {
     apiId: string,
     method: string,
     path: string,
-  ): Promise<any> {
-    const cacheKey = `endpoint_schema:${apiId}:${method}:${path}`;
+    refOptions: RefResolutionOptions = {},
+  ): Promise<EndpointSchema & { api_id: string; source: string }> {
+    const cacheKey = `endpoint_schema:${apiId}:${method}:${path}${refCacheSuffix(refOptions)}`;
 
     return this.fetchWithCache(cacheKey, async () => {
-      const [, name, version] = apiId.split(":");
-      if (!name || !version) {
-        throw new Error(
-          `Invalid custom API ID format: ${apiId}. Expected format: custom:name:version`,
-        );
-      }
-
-      const specContent = this.manifestManager.readSpecFile(name, version);
-      const spec = JSON.parse(specContent);
-
-      // Handle both direct OpenAPI spec and ApiGuru wrapper format
-      let openApiSpec;
-      if (spec.openapi || spec.swagger) {
-        // Direct OpenAPI spec
-        openApiSpec = spec;
-      } else if (spec.versions && spec.preferred) {
-        // ApiGuru wrapper format
-        const preferredVersion = spec.versions[spec.preferred];
-        openApiSpec = preferredVersion.spec;
-      } else {
-        throw new Error(`Invalid spec format for: ${apiId}`);
-      }
+      const openApiSpec = await this.loadOpenApiSpec(apiId);
 
       const pathItem = openApiSpec.paths?.[path];
       const operation = pathItem?.[method.toLowerCase()];
@@ -943,13 +984,19 @@ export class CustomSpecClient {
         throw new Error(`Endpoint not found: ${method} ${path}`);
       }
 
+      // Custom specs are stored alone, so only local refs can be resolved
+      const resolver = new RefResolver(openApiSpec, refOptions);
+      const schema = await extractEndpointSchema(
+        resolver,
+        method,
+        path,
+        pathItem,
+        operation,
+      );
+
       return {
         api_id: apiId,
-        method: method.toUpperCase(),
-        path,
-        parameters: operation.parameters || [],
-        requestBody: operation.requestBody,
-        responses: operation.responses || {},
+        ...schema,
         source: "custom",
       };
     });
@@ -980,6 +1027,50 @@ export class CustomSpecClient {
     });
   }
 
+  /**
+   * List the webhooks and operation callbacks of a custom spec
+   */
+  async getWebhooks(
+    apiId: string,
+    refOptions: RefResolutionOptions = {},
+  ): Promise<{
+    webhooks: WebhookOperation[];
+    callbacks: CallbackOperation[];
+  }> {
+    const cacheKey = `webhooks:${apiId}${refCacheSuffix(refOptions)}`;
+
+    return this.fetchWithCache(cacheKey, async () => {
+      const openApiSpec = await this.loadOpenApiSpec(apiId);
+
+      // Custom specs are stored alone, so only local refs can be resolved
+      return extractWebhooks(
+        openApiSpec,
+        new RefResolver(openApiSpec, refOptions),
+      );
+    });
+  }
+
+  /**
+   * Build a request snippet for an endpoint of a custom spec
+   */
+  async getEndpointSnippet(
+    apiId: string,
+    method: string,
+    path: string,
+    language: SnippetLanguage = SNIPPETS.DEFAULT_LANGUAGE,
+  ): Promise<EndpointSnippet> {
+    const cacheKey = `endpoint_snippet:${apiId}:${method.toLowerCase()}:${path}:${language}`;
+
+    return this.fetchWithCache(cacheKey, async () => {
+      return generateSnippet(
+        await this.loadOpenApiSpec(apiId),
+        method,
+        path,
+        language,
+      );
+    });
+  }
+
   /**
    * Get detailed information about a specific endpoint
    */
@@ -1006,6 +1097,7 @@ export class CustomSpecClient {
       code: string;
       description: string;
       content_types: string[];
+      links?: OperationLink[];
     }>;
     consumes: string[];
     produces: string[];
@@ -1019,38 +1111,12 @@ export class CustomSpecClient {
     return this.fetchWithCache(
       cacheKey,
       async () => {
-        // Get the custom spec - extract name and version from apiId
-        const [, name, version] = apiId.split(":");
-        if (!name || !version) {
-          throw new Error(
-            `Invalid custom API ID format: ${apiId}. Expected format: custom:name:version`,
-          );
-        }
-
         const specEntry = this.manifestManager.getSpec(apiId);
         if (!specEntry) {
           throw new Error(`API not found: ${apiId}`);
         }
 
-        // Load the OpenAPI spec
-        const specContent = this.manifestManager.readSpecFile(name, version);
-        const specData = JSON.parse(specContent);
-
-        // Handle both direct OpenAPI spec and ApiGuru wrapper format
-        let spec;
-        if (specData.openapi || specData.swagger) {
-          // Direct OpenAPI spec
-          spec = specData;
-        } else if (specData.versions && specData.preferred) {
-          // ApiGuru wrapper format
-          const preferredVersion = specData.versions[specData.preferred];
-          if (!preferredVersion || !preferredVersion.spec) {
-            throw new Error(`OpenAPI spec not available for: ${apiId}`);
-          }
-          spec = preferredVersion.spec;
-        } else {
-          throw new Error(`Invalid spec format for: ${apiId}`);
-        }
+        const spec = await this.loadOpenApiSpec(apiId);
 
         if (!spec.paths || !spec.paths[path]) {
           throw new Error(`Path not found: ${path} in API: ${apiId}`);
@@ -1105,17 +1171,20 @@ export class CustomSpecClient {
           code: string;
           description: string;
           content_types: string[];
+          links?: OperationLink[];
         }> = [];
 
         if (operation.responses) {
           for (const [code, response] of Object.entries(operation.responses)) {
             const responseObj = response as any;
+            const links = await extractLinks(spec, responseObj);
             responses.push({
               code,
               description: responseObj.description || "",
               content_types: responseObj.content
                 ? Object.keys(responseObj.content)
                 : [],
+              ...(links.length > 0 && { links }),
             });
           }
         }
@@ -1150,8 +1219,10 @@ export class CustomSpecClient {
           deprecated: operation.deprecated || false,
           parameters,
           responses,
-          consumes: operation.consumes || spec.consumes || [],
-          produces: operation.produces || spec.produces || [],
+          consumes: Object.keys(operation.requestBody?.content ?? {}),
+          produces: [
+            ...new Set(responses.flatMap((response) => response.content_types)),
+          ],
           ...(security.length > 0 && { security }),
         };
       },
@@ -6,6 +6,7 @@
 export { CustomSpecClient } from "./custom-spec-client.js";
 export { ImportManager } from "./import-manager.js";
 export { ManifestManager } from "./manifest-manager.js";
+export { ManifestWatcher } from "./manifest-watcher.js";
 export { SpecProcessor } from "./spec-processor.js";
 export { SecurityScanner } from "./security-scanner.js";
 
@@ -21,3 +22,4 @@ export type {
   ImportResult,
   ValidationResult,
 } from "./types.js";
+export type { ManifestChange } from "./manifest-watcher.js";
@@ -0,0 +1,118 @@
+/**
+ * Watches the custom spec manifest for changes made by other processes
+ * (e.g. `--import` or `--remove-spec` run from the CLI)
+ */
+
+import { existsSync, readFileSync, statSync, unwatchFile, watchFile } from "fs";
+import { CustomSpecManifest } from "./types.js";
+import { Logger } from "../utils/logger.js";
+
+export interface ManifestChange {
+  added: string[];
+  removed: string[];
+  updated: string[];
+}
+
+type ManifestSnapshot = Map<string, string>;
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+export class ManifestWatcher {
+  private snapshot: ManifestSnapshot;
+  private watching = false;
+  private readonly listener = () => this.checkForChanges();
+
+  constructor(
+    private manifestFile: string,
+    private onChange: (change: ManifestChange) => void,
+    private intervalMs: number = DEFAULT_POLL_INTERVAL_MS,
+  ) {
+    this.snapshot = this.readSnapshot();
+  }
+
+  /**
+   * Start polling the manifest. Polling (rather than fs.watch) also picks up
+   * a manifest that is created or atomically replaced after startup.
+   */
+  start(): void {
+    if (this.watching) {
+      return;
+    }
+    watchFile(
+      this.manifestFile,
+      { interval: this.intervalMs, persistent: false },
+      this.listener,
+    );
+    this.watching = true;
+  }
+
+  stop(): void {
+    if (!this.watching) {
+      return;
+    }
+    unwatchFile(this.manifestFile, this.listener);
+    this.watching = false;
+  }
+
+  /**
+   * Compare the manifest on disk against the last snapshot and report
+   * added, removed and updated spec IDs
+   */
+  checkForChanges(): ManifestChange | null {
+    const next = this.readSnapshot();
+    const change: ManifestChange = { added: [], removed: [], updated: [] };
+
+    for (const [id, lastModified] of next) {
+      const previous = this.snapshot.get(id);
+      if (previous === undefined) {
+        change.added.push(id);
+      } else if (previous !== lastModified) {
+        change.updated.push(id);
+      }
+    }
+    for (const id of this.snapshot.keys()) {
+      if (!next.has(id)) {
+        change.removed.push(id);
+      }
+    }
+
+    this.snapshot = next;
+
+    if (
+      change.added.length === 0 &&
+      change.removed.length === 0 &&
+      change.updated.length === 0
+    ) {
+      return null;
+    }
+
+    Logger.info(
+      `Custom spec manifest changed: ${change.added.length} added, ${change.removed.length} removed, ${change.updated.length} updated`,
+    );
+    this.onChange(change);
+    return change;
+  }
+
+  private readSnapshot(): ManifestSnapshot {
+    const snapshot: ManifestSnapshot = new Map();
+
+    try {
+      if (!existsSync(this.manifestFile) || !statSync(this.manifestFile).size) {
+        return snapshot;
+      }
+      const manifest = JSON.parse(
+        readFileSync(this.manifestFile, "utf-8"),
+      ) as CustomSpecManifest;
+
+      for (const [id, entry] of Object.entries(manifest.specs ?? {})) {
+        snapshot.set(id, entry.lastModified ?? entry.imported ?? "");
+      }
+    } catch (error) {
+      // A partially written manifest is picked up on the next poll
+      Logger.debug("Failed to read custom spec manifest:", error);
+      return this.snapshot ?? snapshot;
+    }
+
+    return snapshot;
+  }
+}
@@ -2,23 +2,41 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { HttpTransportHost, ServerStartOptions } from "./transports/http.js";
 import { MCPLogger } from "./utils/mcp-logger.js";
 import {
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
   ListToolsRequestSchema,
   CallToolRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  CompleteRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ErrorCode,
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
 import { DualSourceApiClient } from "./api/dual-source-client.js";
 import { PersistentCacheManager } from "./cache/persistent-manager.js";
 import { ICacheManager } from "./cache/types.js";
-import { ToolGenerator } from "./tools/generator.js";
+import { ToolHandler } from "./tools/handler.js";
+import { ToolPolicy } from "./tools/policy.js";
+import { ToolContext, toCallToolResult } from "./tools/types.js";
 import { PromptHandler } from "./prompts/handler.js";
-import { z } from "zod";
+import { ResourceHandler } from "./resources/handler.js";
+import { CompletionHandler } from "./completions/handler.js";
+import { ResourceSubscriptions } from "./resources/subscriptions.js";
+import {
+  ManifestChange,
+  ManifestWatcher,
+} from "./custom-specs/manifest-watcher.js";
+import { Logger } from "./utils/logger.js";
+import { McpLogForwarder } from "./utils/mcp-log-forwarder.js";
+import { ResponseBudget } from "./utils/response-budget.js";
+import { configureRateLimiters } from "./utils/rate-limiter.js";
+import { loadConfig, LoadConfigOptions, ServerConfig } from "./config/index.js";
 
 // Configuration
 const config = {
@@ -26,102 +44,175 @@ const config = {
   version: "1.2.0",
   description:
     "Browse and discover APIs from dual-source OpenAPI directory (APIs.guru + enhanced)",
-  cacheEnabled: process.env.DISABLE_CACHE !== "true",
-  cacheTTL: parseInt(process.env.CACHE_TTL || "86400000"), // 24 hours in milliseconds
-  primaryApiBaseUrl:
-    process.env.PRIMARY_API_BASE_URL || "https://api.apis.guru/v2",
-  secondaryApiBaseUrl:
-    process.env.SECONDARY_API_BASE_URL || "https://api.openapidirectory.com",
 };
 
 export class OpenAPIDirectoryServer {
-  private server: Server;
   private apiClient: DualSourceApiClient;
   private cacheManager: ICacheManager;
-  private toolGenerator: ToolGenerator;
+  private toolHandler: ToolHandler;
   private promptHandler: PromptHandler;
-
-  constructor() {
-    this.server = new Server({
-      name: config.name,
-      version: config.version,
+  private resourceHandler: ResourceHandler;
+  private completionHandler: CompletionHandler;
+  private subscriptions = new ResourceSubscriptions();
+  private logForwarder = new McpLogForwarder();
+  private manifestWatcher: ManifestWatcher | null = null;
+  private httpHost: HttpTransportHost | null = null;
+  private responseBudget = ResponseBudget.fromEnv();
+
+  /**
+   * @param serverConfig Resolved config file, profile and environment settings
+   */
+  constructor(serverConfig: ServerConfig = loadConfig()) {
+    const { sources, cache, timeouts } = serverConfig;
+
+    configureRateLimiters(serverConfig.rateLimits);
+    this.cacheManager = new PersistentCacheManager(cache.ttl, {
+      enabled: cache.enabled,
+      namespaceTTLs: cache.namespaces,
     });
-
-    this.cacheManager = new PersistentCacheManager(config.cacheTTL);
     this.apiClient = new DualSourceApiClient(
-      config.primaryApiBaseUrl,
-      config.secondaryApiBaseUrl,
+      sources.primary.baseUrl,
+      sources.secondary.baseUrl,
       this.cacheManager,
+      {
+        primary: {
+          enabled: sources.primary.enabled,
+          timeout: timeouts.default,
+          specFetchTimeout: timeouts.specFetch,
+        },
+        secondary: {
+          enabled: sources.secondary.enabled,
+          timeout: timeouts.default,
+          specFetchTimeout: timeouts.specFetch,
+        },
+      },
     );
-    this.toolGenerator = new ToolGenerator();
+    this.toolHandler = new ToolHandler(undefined, {
+      policy: new ToolPolicy(serverConfig.tools),
+    });
     this.promptHandler = new PromptHandler();
+    this.resourceHandler = new ResourceHandler(this.apiClient);
+    this.completionHandler = new CompletionHandler(this.apiClient);
+  }
+
+  /**
+   * Create an MCP server bound to the shared API client and cache.
+   * Stdio uses a single server; the HTTP transport creates one per session.
+   */
+  createServer(): Server {
+    const server = new Server(
+      {
+        name: config.name,
+        version: config.version,
+      },
+      {
+        capabilities: {
+          resources: { subscribe: true, listChanged: true },
+          tools: {},
+          prompts: {},
+          completions: {},
+          logging: {},
+        },
+      },
+    );
 
-    this.setupHandlers();
+    this.setupHandlers(server);
+    this.subscriptions.register(server);
+    this.logForwarder.attach(server);
+    server.onclose = () => {
+      this.subscriptions.unregister(server);
+      this.logForwarder.detach(server);
+    };
+    return server;
   }
 
-  private setupHandlers() {
+  private setupHandlers(server: Server) {
     // List available resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
-      const resources = await this.getAvailableResources();
-      return { resources };
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return await this.resourceHandler.listResources();
+    });
+
+    // List resource templates
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return await this.resourceHandler.listResourceTemplates();
     });
 
     // Read a specific resource
-    this.server.setRequestHandler(
+    server.setRequestHandler(
       ReadResourceRequestSchema,
-      async (request) => {
-        const { uri } = request.params;
-        const resourceContent = await this.readResource(uri);
-        return {
-          contents: [
-            {
-              uri,
-              mimeType: "text/plain",
-              text: resourceContent,
-            },
-          ],
-        };
+      async (request, extra) => {
+        return await this.resourceHandler.readResource(request.params.uri, {
+          signal: extra.signal,
+        });
       },
     );
 
+    // Subscribe to resource updates
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.subscribe(server, request.params.uri);
+      return {};
+    });
+
+    // Unsubscribe from resource updates
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.unsubscribe(server, request.params.uri);
+      return {};
+    });
+
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const tools = await this.toolGenerator.generateTools();
-      return { tools };
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return await this.toolHandler.listTools();
     });
 
     // Call a tool
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
+
+      const toolDef = await this.toolHandler.getToolDefinition(name);
+      if (!toolDef) {
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+      }
 
       try {
-        const result = await this.callTool(name, args);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        const context = this.getToolContext();
+        context.signal = extra.signal;
+        if (progressToken !== undefined) {
+          context.onProgress = (update) => {
+            extra
+              .sendNotification({
+                method: "notifications/progress",
+                params: { progressToken, ...update },
+              })
+              .catch((error) =>
+                Logger.debug("Failed to send progress notification:", error),
+              );
+          };
+        }
+
+        const result = await this.toolHandler.callTool(name, args, context);
+        return toCallToolResult(toolDef, result);
       } catch (error) {
         if (error instanceof McpError) {
           throw error;
         }
+        // ToolHandler already prefixes failures with "Tool execution failed"
         throw new McpError(
           ErrorCode.InternalError,
-          `Tool execution failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          error instanceof Error
+            ? error.message
+            : "Tool execution failed: Unknown error",
         );
       }
     });
 
     // List available prompts
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
       return await this.promptHandler.listPrompts();
     });
 
     // Get a specific prompt
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -143,358 +234,77 @@ export class OpenAPIDirectoryServer {
         );
       }
     });
-  }
-
-  private async getAvailableResources() {
-    const resources = [];
 
-    // Add static resources
-    resources.push({
-      uri: "openapi://providers",
-      name: "API Providers List",
-      description: "List of all API providers in the directory",
-      mimeType: "application/json",
+    // Complete prompt arguments and resource template variables
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      return await this.completionHandler.complete(request.params);
     });
-
-    resources.push({
-      uri: "openapi://metrics",
-      name: "Directory Metrics",
-      description: "Basic metrics and statistics about the API directory",
-      mimeType: "application/json",
-    });
-
-    // Add API summary resource
-    resources.push({
-      uri: "openapi://apis/summary",
-      name: "API Directory Summary",
-      description:
-        "Overview of the API directory including popular APIs and statistics",
-      mimeType: "application/json",
-    });
-
-    // Add paginated API resources (pages 1-20)
-    for (let page = 1; page <= 20; page++) {
-      resources.push({
-        uri: `openapi://apis/page/${page}`,
-        name: `APIs Page ${page}`,
-        description: `Page ${page} of APIs in the directory (50 APIs per page)`,
-        mimeType: "application/json",
-      });
-    }
-
-    return resources;
   }
 
-  private async readResource(uri: string): Promise<string> {
-    // Handle openapi:// URIs
-    if (uri.startsWith("openapi://")) {
-      const path = uri.replace("openapi://", "");
-
-      switch (path) {
-        case "providers": {
-          const providers = await this.apiClient.getProviders();
-          return JSON.stringify(providers, null, 2);
-        }
-
-        case "metrics": {
-          const metrics = await this.apiClient.getMetrics();
-          return JSON.stringify(metrics, null, 2);
-        }
-
-        case "apis/summary": {
-          const summary = await this.apiClient.getAPISummary();
-          return JSON.stringify(summary, null, 2);
-        }
-
-        default: {
-          // Handle paginated API resources: apis/page/N
-          if (path.startsWith("apis/page/")) {
-            const pageMatch = path.match(/^apis\/page\/(\d+)$/);
-            if (pageMatch && pageMatch[1]) {
-              const page = parseInt(pageMatch[1], 10);
-              if (page >= 1 && page <= 20) {
-                const paginatedAPIs = await this.apiClient.getPaginatedAPIs(
-                  page,
-                  50,
-                );
-                return JSON.stringify(paginatedAPIs, null, 2);
-              }
-            }
-          }
-
-          throw new McpError(
-            ErrorCode.InvalidRequest,
-            `Unknown resource: ${uri}`,
-          );
-        }
-      }
-    }
-
-    throw new McpError(
-      ErrorCode.InvalidRequest,
-      `Invalid resource URI: ${uri}`,
-    );
+  private getToolContext(): ToolContext {
+    return {
+      apiClient: this.apiClient,
+      cacheManager: this.cacheManager,
+      responseBudget: this.responseBudget,
+    };
   }
 
-  private async callTool(toolName: string, args: any) {
-    switch (toolName) {
-      case "get_providers":
-        return await this.apiClient.getProviders();
-
-      case "get_provider_apis": {
-        const providerSchema = z.object({
-          provider: z.string(),
-        });
-        const { provider } = providerSchema.parse(args);
-        return await this.apiClient.getProvider(provider);
-      }
-
-      case "get_provider_services": {
-        const servicesSchema = z.object({
-          provider: z.string(),
-        });
-        const servicesArgs = servicesSchema.parse(args);
-        return await this.apiClient.getServices(servicesArgs.provider);
-      }
-
-      case "get_api": {
-        const apiSchema = z.object({
-          provider: z.string(),
-          api: z.string(),
-          service: z.string().optional(),
-        });
-        const apiArgs = apiSchema.parse(args);
-        if (apiArgs.service) {
-          return await this.apiClient.getServiceAPI(
-            apiArgs.provider,
-            apiArgs.service,
-            apiArgs.api,
-          );
-        } else {
-          return await this.apiClient.getAPI(apiArgs.provider, apiArgs.api);
-        }
-      }
-
-      case "list_all_apis":
-        return await this.apiClient.listAPIs();
-
-      case "get_metrics":
-        return await this.apiClient.getMetrics();
-
-      case "search_apis": {
-        const searchSchema = z.object({
-          query: z.string(),
-          provider: z.string().optional(),
-          page: z.number().optional().default(1),
-          limit: z.number().optional().default(20),
-        });
-        const searchArgs = searchSchema.parse(args);
-        return await this.apiClient.searchAPIs(
-          searchArgs.query,
-          searchArgs.provider,
-          searchArgs.page,
-          searchArgs.limit,
-        );
-      }
-
-      case "get_popular_apis":
-        return await this.apiClient.getPopularAPIs();
-
-      case "get_recently_updated": {
-        const recentSchema = z.object({
-          limit: z.number().optional().default(10),
-        });
-        const recentArgs = recentSchema.parse(args);
-        return await this.apiClient.getRecentlyUpdatedAPIs(recentArgs.limit);
-      }
-
-      case "get_provider_stats": {
-        const statsSchema = z.object({
-          provider: z.string(),
-        });
-        const statsArgs = statsSchema.parse(args);
-        return await this.apiClient.getProviderStats(statsArgs.provider);
-      }
-
-      case "get_openapi_spec": {
-        const specSchema = z.object({
-          url: z.string(),
-        });
-        const specArgs = specSchema.parse(args);
-        return await this.apiClient.getOpenAPISpec(specArgs.url);
-      }
-
-      case "analyze_api_categories": {
-        const categoriesSchema = z.object({
-          provider: z.string().optional(),
-        });
-        const categoriesArgs = categoriesSchema.parse(args);
-        return await this.analyzeApiCategories(categoriesArgs.provider);
-      }
-
-      case "get_api_summary": {
-        const summarySchema = z.object({
-          api_id: z.string(),
-        });
-        const summaryArgs = summarySchema.parse(args);
-        return await this.apiClient.getAPISummaryById(summaryArgs.api_id);
-      }
-
-      case "get_endpoints": {
-        const endpointsSchema = z.object({
-          api_id: z.string(),
-          page: z.number().optional().default(1),
-          limit: z.number().optional().default(30),
-          tag: z.string().optional(),
-        });
-        const endpointsArgs = endpointsSchema.parse(args);
-        return await this.apiClient.getAPIEndpoints(
-          endpointsArgs.api_id,
-          endpointsArgs.page,
-          endpointsArgs.limit,
-          endpointsArgs.tag,
-        );
-      }
-
-      case "get_endpoint_details": {
-        const detailsSchema = z.object({
-          api_id: z.string(),
-          method: z.string(),
-          path: z.string(),
-        });
-        const detailsArgs = detailsSchema.parse(args);
-        return await this.apiClient.getEndpointDetails(
-          detailsArgs.api_id,
-          detailsArgs.method,
-          detailsArgs.path,
-        );
-      }
-
-      case "get_endpoint_schema": {
-        const schemaSchema = z.object({
-          api_id: z.string(),
-          method: z.string(),
-          path: z.string(),
-        });
-        const schemaArgs = schemaSchema.parse(args);
-        return await this.apiClient.getEndpointSchema(
-          schemaArgs.api_id,
-          schemaArgs.method,
-          schemaArgs.path,
-        );
-      }
-
-      case "get_endpoint_examples": {
-        const examplesSchema = z.object({
-          api_id: z.string(),
-          method: z.string(),
-          path: z.string(),
-        });
-        const examplesArgs = examplesSchema.parse(args);
-        return await this.apiClient.getEndpointExamples(
-          examplesArgs.api_id,
-          examplesArgs.method,
-          examplesArgs.path,
-        );
-      }
-
-      case "cache_stats": {
-        return this.cacheManager.getStats();
-      }
-
-      case "list_cache_keys": {
-        return {
-          keys: this.cacheManager.keys(),
-          total: this.cacheManager.keys().length,
-        };
-      }
-
-      case "clear_cache": {
-        const keysBefore = this.cacheManager.keys().length;
-        this.cacheManager.clear();
-        return {
-          message: `Cache cleared successfully. Removed ${keysBefore} entries.`,
-          cleared: keysBefore,
-        };
-      }
-
-      case "clear_cache_key": {
-        const keySchema = z.object({
-          key: z.string(),
-        });
-        const keyArgs = keySchema.parse(args);
-        const deleted = this.cacheManager.delete(keyArgs.key);
-        return {
-          message:
-            deleted > 0
-              ? `Cache key '${keyArgs.key}' cleared successfully.`
-              : `Cache key '${keyArgs.key}' not found.`,
-          deleted: deleted,
-        };
-      }
-
-      case "cache_info": {
-        return {
-          enabled: this.cacheManager.isEnabled(),
-          config: this.cacheManager.getConfig(),
-          size: this.cacheManager.getSize(),
-        };
-      }
+  /**
+   * Refresh custom spec caches and notify clients after the manifest was
+   * changed by another process (e.g. `--import` from the CLI)
+   */
+  private async handleManifestChange(change: ManifestChange): Promise<void> {
+    this.apiClient.invalidateCustomSpecCaches();
+    await this.subscriptions.notifyManifestChange(change);
+  }
 
-      default:
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Unknown tool: ${toolName}`,
+  private startManifestWatcher(): void {
+    try {
+      const { manifestFile } = this.apiClient.getManifestManager().getPaths();
+      this.manifestWatcher = new ManifestWatcher(manifestFile, (change) => {
+        this.handleManifestChange(change).catch((error) =>
+          Logger.error("Failed to handle custom spec change:", error),
         );
+      });
+      this.manifestWatcher.start();
+    } catch (error) {
+      Logger.warn("Custom spec manifest watching disabled:", error);
     }
   }
 
-  private async analyzeApiCategories(provider?: string) {
-    const allAPIs = await this.apiClient.listAPIs();
-    const categories: Record<string, number> = {};
-
-    for (const [apiId, api] of Object.entries(allAPIs)) {
-      // If provider filter is specified, check if API matches
-      if (provider && !apiId.includes(provider)) {
-        continue;
-      }
-
-      // Get categories from preferred version
-      const preferredVersion = api.versions[api.preferred];
-      if (preferredVersion?.info?.["x-apisguru-categories"]) {
-        const apiCategories = preferredVersion.info["x-apisguru-categories"];
-        if (Array.isArray(apiCategories)) {
-          for (const category of apiCategories) {
-            categories[category] = (categories[category] || 0) + 1;
-          }
-        }
-      }
+  async start(options: ServerStartOptions = { transport: "stdio" }) {
+    if (options.transport === "http") {
+      this.httpHost = new HttpTransportHost(
+        () => this.createServer(),
+        options.http,
+      );
+      await this.httpHost.start();
+    } else {
+      const transport = new StdioServerTransport();
+      await this.createServer().connect(transport);
     }
 
-    // Sort categories by count
-    const sortedCategories = Object.entries(categories)
-      .sort(([, a], [, b]) => b - a)
-      .map(([category, count]) => ({ category, count }));
-
-    return {
-      totalAPIs: provider
-        ? Object.keys(allAPIs).filter((id) => id.includes(provider)).length
-        : Object.keys(allAPIs).length,
-      categories: sortedCategories,
-    };
-  }
-
-  async start() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    this.startManifestWatcher();
+    this.logForwarder.start();
 
     // MCP servers must not write to stdout/stderr - it breaks the protocol
     // All output must be JSON-RPC messages only
     // Startup logging removed to ensure MCP protocol compliance
 
     // Set up graceful shutdown
-    const shutdown = () => {
+    let shuttingDown = false;
+    const shutdown = async () => {
+      if (shuttingDown) {
+        return;
+      }
+      shuttingDown = true;
+
       // MCP servers must not write to stdout/stderr during shutdown
+      this.manifestWatcher?.stop();
+      this.logForwarder.stop();
+      if (this.httpHost) {
+        await this.httpHost.close();
+      }
       if (
         this.cacheManager &&
         this.cacheManager.isEnabled() &&
@@ -524,10 +334,15 @@ async function main() {
   // Parse command line arguments (skip 'node' and script name)
   const args = process.argv.slice(2);
 
+  let startOptions: ServerStartOptions = { transport: "stdio" };
+  let configOptions: LoadConfigOptions = {};
+
   // Handle CLI commands if any are provided
   if (args.length > 0) {
     const cliHandler = new CLIHandler();
     const parsedArgs = cliHandler.parseArgs(args);
+    startOptions = cliHandler.getStartOptions(parsedArgs);
+    configOptions = cliHandler.getConfigOptions(parsedArgs);
     const handled = await cliHandler.handleCommand(parsedArgs);
 
     // If command was handled, exit
@@ -537,8 +352,8 @@ async function main() {
   }
 
   // No CLI commands, start the MCP server
-  const server = new OpenAPIDirectoryServer();
-  await server.start();
+  const server = new OpenAPIDirectoryServer(loadConfig(configOptions));
+  await server.start(startOptions);
 }
 
 // Start the application
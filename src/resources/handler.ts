@@ -0,0 +1,259 @@
+import {
+  ErrorCode,
+  McpError,
+  Resource,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import { DualSourceApiClient } from "../api/dual-source-client.js";
+import { RequestOptions } from "../utils/progress.js";
+import { HTTP_METHODS } from "../search/endpoint-index.js";
+
+const RESOURCE_SCHEME = "openapi://";
+const PAGE_SIZE = 50;
+const LISTED_PAGES = 20;
+
+/**
+ * Decode a percent-encoded segment of a resource URI
+ */
+function decodeSegment(uri: string, segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Malformed percent-encoding in resource URI: ${uri}`,
+    );
+  }
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Serves openapi:// resources and resource templates backed by the
+ * triple-source API client
+ */
+export class ResourceHandler {
+  constructor(private apiClient: DualSourceApiClient) {}
+
+  /**
+   * Handle the resources/list request
+   */
+  async listResources(): Promise<{ resources: Resource[] }> {
+    const resources: Resource[] = [];
+
+    // Add static resources
+    resources.push({
+      uri: "openapi://providers",
+      name: "API Providers List",
+      description: "List of all API providers in the directory",
+      mimeType: "application/json",
+    });
+
+    resources.push({
+      uri: "openapi://metrics",
+      name: "Directory Metrics",
+      description: "Basic metrics and statistics about the API directory",
+      mimeType: "application/json",
+    });
+
+    // Add API summary resource
+    resources.push({
+      uri: "openapi://apis/summary",
+      name: "API Directory Summary",
+      description:
+        "Overview of the API directory including popular APIs and statistics",
+      mimeType: "application/json",
+    });
+
+    // Advertise the first pages; later pages are reachable via the
+    // openapi://apis/page/{page} template
+    for (let page = 1; page <= LISTED_PAGES; page++) {
+      resources.push({
+        uri: `openapi://apis/page/${page}`,
+        name: `APIs Page ${page}`,
+        description: `Page ${page} of APIs in the directory (${PAGE_SIZE} APIs per page)`,
+        mimeType: "application/json",
+      });
+    }
+
+    return { resources };
+  }
+
+  /**
+   * Handle the resources/templates/list request
+   */
+  async listResourceTemplates(): Promise<{
+    resourceTemplates: ResourceTemplate[];
+  }> {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: "openapi://apis/page/{page}",
+          name: "APIs Page",
+          description: `Any page of APIs in the directory (${PAGE_SIZE} APIs per page)`,
+          mimeType: "application/json",
+        },
+        {
+          uriTemplate: "openapi://api/{api_id}/spec",
+          name: "API Specification",
+          description:
+            "Complete OpenAPI specification for an API (e.g. openapi://api/stripe.com/spec or openapi://api/custom:my-api:v1/spec)",
+          mimeType: "application/json",
+        },
+        {
+          uriTemplate: "openapi://api/{api_id}/endpoints/{method}/{path}",
+          name: "API Endpoint Operation",
+          description:
+            "OpenAPI operation object for one endpoint. The path must be URL-encoded (e.g. openapi://api/stripe.com/endpoints/post/%2Fv1%2Fcharges)",
+          mimeType: "application/json",
+        },
+        {
+          uriTemplate: "openapi://api/{api_id}/components/schemas/{name}",
+          name: "API Schema Component",
+          description:
+            "Named schema from components.schemas (OpenAPI 3) or definitions (Swagger 2)",
+          mimeType: "application/json",
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle the resources/read request
+   */
+  async readResource(
+    uri: string,
+    options: RequestOptions = {},
+  ): Promise<{ contents: ResourceContents[] }> {
+    const data = await this.resolveResource(uri, options);
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async resolveResource(
+    uri: string,
+    options: RequestOptions,
+  ): Promise<unknown> {
+    if (!uri.startsWith(RESOURCE_SCHEME)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Invalid resource URI: ${uri}`,
+      );
+    }
+
+    const path = uri.slice(RESOURCE_SCHEME.length);
+
+    switch (path) {
+      case "providers":
+        return await this.apiClient.getProviders();
+
+      case "metrics":
+        return await this.apiClient.getMetrics();
+
+      case "apis/summary":
+        return await this.apiClient.getAPISummary();
+    }
+
+    // Handle paginated API resources: apis/page/N
+    const pageMatch = path.match(/^apis\/page\/(\d+)$/);
+    if (pageMatch && pageMatch[1]) {
+      const page = parseInt(pageMatch[1], 10);
+      if (page >= 1) {
+        return await this.apiClient.getPaginatedAPIs(page, PAGE_SIZE, options);
+      }
+    }
+
+    const specMatch = path.match(/^api\/([^/]+)\/spec$/);
+    if (specMatch && specMatch[1]) {
+      return await this.getSpec(decodeSegment(uri, specMatch[1]));
+    }
+
+    const endpointMatch = path.match(
+      /^api\/([^/]+)\/endpoints\/([^/]+)\/(.+)$/,
+    );
+    if (
+      endpointMatch &&
+      endpointMatch[1] &&
+      endpointMatch[2] &&
+      endpointMatch[3]
+    ) {
+      return await this.getOperation(
+        decodeSegment(uri, endpointMatch[1]),
+        decodeSegment(uri, endpointMatch[2]),
+        decodeSegment(uri, endpointMatch[3]),
+      );
+    }
+
+    const schemaMatch = path.match(/^api\/([^/]+)\/components\/schemas\/(.+)$/);
+    if (schemaMatch && schemaMatch[1] && schemaMatch[2]) {
+      return await this.getSchema(
+        decodeSegment(uri, schemaMatch[1]),
+        decodeSegment(uri, schemaMatch[2]),
+      );
+    }
+
+    throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${uri}`);
+  }
+
+  private async getSpec(apiId: string): Promise<any> {
+    try {
+      return await this.apiClient.getOpenAPISpecById(apiId);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Failed to load spec for ${apiId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private async getOperation(
+    apiId: string,
+    method: string,
+    rawPath: string,
+  ): Promise<any> {
+    const normalizedMethod = method.toLowerCase();
+    if (!HTTP_METHODS.includes(normalizedMethod)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid HTTP method: ${method}`,
+      );
+    }
+
+    const path = rawPath.startsWith("/") ? rawPath : `/${rawPath}`;
+    const spec = await this.getSpec(apiId);
+    const operation = spec?.paths?.[path]?.[normalizedMethod];
+    if (!operation) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Endpoint not found: ${method.toUpperCase()} ${path} in ${apiId}`,
+      );
+    }
+
+    return operation;
+  }
+
+  private async getSchema(apiId: string, name: string): Promise<any> {
+    const spec = await this.getSpec(apiId);
+    const schema =
+      spec?.components?.schemas?.[name] ?? spec?.definitions?.[name];
+    if (!schema) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Schema not found: ${name} in ${apiId}`,
+      );
+    }
+
+    return schema;
+  }
+}
@@ -0,0 +1,103 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ManifestChange } from "../custom-specs/manifest-watcher.js";
+import { Logger } from "../utils/logger.js";
+
+const API_RESOURCE_PREFIX = "openapi://api/";
+
+/**
+ * Tracks resources/subscribe state for every connected server (one for
+ * stdio, one per HTTP session) and fans out change notifications
+ */
+export class ResourceSubscriptions {
+  private servers = new Map<Server, Set<string>>();
+
+  register(server: Server): void {
+    if (!this.servers.has(server)) {
+      this.servers.set(server, new Set());
+    }
+  }
+
+  unregister(server: Server): void {
+    this.servers.delete(server);
+  }
+
+  subscribe(server: Server, uri: string): void {
+    this.register(server);
+    this.servers.get(server)!.add(uri);
+  }
+
+  unsubscribe(server: Server, uri: string): void {
+    this.servers.get(server)?.delete(uri);
+  }
+
+  getSubscriptions(server: Server): string[] {
+    return Array.from(this.servers.get(server) ?? []);
+  }
+
+  /**
+   * Notify every server that the resource list changed, and send
+   * resources/updated for each subscribed URI affected by the change
+   */
+  async notifyManifestChange(change: ManifestChange): Promise<void> {
+    const notifications: Promise<void>[] = [];
+
+    for (const [server, uris] of this.servers) {
+      notifications.push(
+        this.send(server, "list_changed", () =>
+          server.sendResourceListChanged(),
+        ),
+      );
+      for (const uri of uris) {
+        if (isAffectedByChange(uri, change)) {
+          notifications.push(
+            this.send(server, uri, () => server.sendResourceUpdated({ uri })),
+          );
+        }
+      }
+    }
+
+    await Promise.all(notifications);
+  }
+
+  private async send(
+    server: Server,
+    label: string,
+    notify: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      await notify();
+    } catch (error) {
+      // The client may have disconnected without closing the session
+      Logger.debug(`Failed to send resource notification (${label}):`, error);
+      if (!server.transport) {
+        this.unregister(server);
+      }
+    }
+  }
+}
+
+/**
+ * Per-API resources are affected only when their own spec changed; directory
+ * level resources (providers, metrics, summary, pages) include custom specs
+ * and are affected by any change
+ */
+export function isAffectedByChange(
+  uri: string,
+  change: ManifestChange,
+): boolean {
+  if (!uri.startsWith(API_RESOURCE_PREFIX)) {
+    return true;
+  }
+
+  const encodedId = uri.slice(API_RESOURCE_PREFIX.length).split("/")[0] ?? "";
+  let apiId: string;
+  try {
+    apiId = decodeURIComponent(encodedId);
+  } catch {
+    return false;
+  }
+
+  return [...change.added, ...change.removed, ...change.updated].includes(
+    apiId,
+  );
+}
@@ -0,0 +1,218 @@
+/**
+ * Inverted index over the API directory, ranked with BM25
+ */
+
+import { ApiGuruAPI } from "../types/api.js";
+import { Bm25Index } from "./bm25.js";
+import { SearchFacets, computeFacets } from "./facets.js";
+import {
+  ParsedSearchQuery,
+  SearchFilterContext,
+  matchesFilters,
+  parseSearchQuery,
+} from "./filters.js";
+import { suggestSimilar } from "./fuzzy.js";
+
+export interface ApiSearchResults {
+  results: Array<{
+    id: string;
+    title: string;
+    description: string;
+    provider: string;
+    preferred: string;
+    categories: string[];
+  }>;
+  pagination: {
+    page: number;
+    limit: number;
+    total_results: number;
+    total_pages: number;
+    has_next: boolean;
+    has_previous: boolean;
+  };
+  facets: SearchFacets; // Counts over all matches, before pagination
+  suggestions?: string[]; // "Did you mean" names when nothing matched
+}
+
+export interface ApiSearchHit {
+  id: string;
+  score: number;
+}
+
+// Provider names and titles weigh more than free-text descriptions
+const FIELD_WEIGHTS = {
+  id: 2,
+  provider: 3,
+  title: 3,
+  categories: 2,
+  tags: 2,
+  description: 1,
+};
+
+// One index per all_apis object; rebuilt when the cached directory changes
+const indexes = new WeakMap<Record<string, ApiGuruAPI>, ApiSearchIndex>();
+
+export class ApiSearchIndex {
+  private index = new Bm25Index();
+  private updated = new Map<string, number>();
+  private names: string[] | null = null;
+
+  /**
+   * Index the preferred version of every API. Fields: API ID, provider and
+   * service name, title, description, categories and x-tags.
+   */
+  constructor(apis: Record<string, ApiGuruAPI>) {
+    for (const [id, api] of Object.entries(apis)) {
+      const version =
+        api.versions[api.preferred] ?? Object.values(api.versions)[0];
+      const info = version?.info;
+
+      this.index.add(id, [
+        [id, FIELD_WEIGHTS.id],
+        [
+          [info?.["x-providerName"], info?.["x-serviceName"]].join(" "),
+          FIELD_WEIGHTS.provider,
+        ],
+        [info?.title, FIELD_WEIGHTS.title],
+        [info?.["x-apisguru-categories"]?.join(" "), FIELD_WEIGHTS.categories],
+        [info?.["x-tags"]?.join(" "), FIELD_WEIGHTS.tags],
+        [info?.description, FIELD_WEIGHTS.description],
+      ]);
+      this.updated.set(id, new Date(version?.updated || 0).getTime() || 0);
+    }
+  }
+
+  /**
+   * Get the index for a directory listing, building it on first use
+   */
+  static for(apis: Record<string, ApiGuruAPI>): ApiSearchIndex {
+    let index = indexes.get(apis);
+    if (!index) {
+      index = new ApiSearchIndex(apis);
+      indexes.set(apis, index);
+    }
+    return index;
+  }
+
+  get size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * Provider names and API IDs close to a misspelt name
+   */
+  suggest(input: string, limit?: number): string[] {
+    if (!this.names) {
+      const ids = Array.from(this.updated.keys());
+      this.names = [...ids.map((id) => id.split(":")[0]!), ...ids];
+    }
+    return suggestSimilar(input, this.names, limit);
+  }
+
+  /**
+   * Rank APIs matching any query term. Ties are broken by most recently
+   * updated, then by ID. Misspelt terms match unless `fuzzy` is false.
+   */
+  search(query: string, fuzzy: boolean = true): ApiSearchHit[] {
+    return Array.from(this.index.score(query, fuzzy), ([id, score]) => ({
+      id,
+      score,
+    })).sort(this.compareHits);
+  }
+
+  /**
+   * Every API, most recently updated first
+   */
+  all(): ApiSearchHit[] {
+    return Array.from(this.updated.keys(), (id) => ({ id, score: 0 })).sort(
+      this.compareHits,
+    );
+  }
+
+  private compareHits = (a: ApiSearchHit, b: ApiSearchHit): number =>
+    b.score - a.score ||
+    (this.updated.get(b.id) ?? 0) - (this.updated.get(a.id) ?? 0) ||
+    a.id.localeCompare(b.id);
+}
+
+/**
+ * Search a directory listing and return one page of minimal API entries.
+ * The query may contain filters (see parseSearchQuery); a query made only
+ * of filters lists every matching API, most recently updated first.
+ */
+export function searchApiDirectory(
+  apis: Record<string, ApiGuruAPI>,
+  query: string | ParsedSearchQuery,
+  options: {
+    provider?: string | undefined;
+    page: number;
+    limit: number;
+    context?: SearchFilterContext | undefined;
+  },
+): ApiSearchResults {
+  const { provider, page, limit } = options;
+  const { text, excluded, filters } =
+    typeof query === "string" ? parseSearchQuery(query) : query;
+
+  const index = ApiSearchIndex.for(apis);
+  const excludedIds = new Set(
+    excluded.flatMap((word) => index.search(word, false).map((hit) => hit.id)),
+  );
+  const candidates = text
+    ? index.search(text)
+    : filters.length > 0 || excluded.length > 0
+      ? index.all()
+      : [];
+  const hits = candidates.filter(
+    ({ id }) =>
+      (!provider || id.includes(provider)) &&
+      !excludedIds.has(id) &&
+      matchesFilters(id, apis[id]!, filters, options.context),
+  );
+
+  const total_results = hits.length;
+  const total_pages = Math.ceil(total_results / limit);
+  const offset = (page - 1) * limit;
+
+  const results = hits.slice(offset, offset + limit).map(({ id }) => {
+    const api = apis[id]!;
+    const preferredVersion = api.versions[api.preferred];
+    const description = preferredVersion?.info.description || "";
+    return {
+      id,
+      title: preferredVersion?.info.title || "Untitled API",
+      description:
+        description.substring(0, 200) + (description.length > 200 ? "..." : ""),
+      provider:
+        preferredVersion?.info["x-providerName"] ||
+        id.split(":")[0] ||
+        "Unknown",
+      preferred: api.preferred,
+      categories: preferredVersion?.info["x-apisguru-categories"] || [],
+    };
+  });
+
+  const response: ApiSearchResults = {
+    results,
+    pagination: {
+      page,
+      limit,
+      total_results,
+      total_pages,
+      has_next: page < total_pages,
+      has_previous: page > 1,
+    },
+    facets: computeFacets(
+      hits.map((hit) => hit.id),
+      apis,
+      options.context,
+    ),
+  };
+  if (total_results === 0 && text) {
+    const suggestions = index.suggest(text);
+    if (suggestions.length > 0) {
+      response.suggestions = suggestions;
+    }
+  }
+  return response;
+}
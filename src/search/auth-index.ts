@@ -0,0 +1,178 @@
+/**
+ * Authentication capabilities of loaded specs: security schemes by type,
+ * API key location and OAuth2 flow
+ */
+
+import { SWAGGER2_OAUTH_FLOWS } from "../utils/spec-normalizer.js";
+
+export interface AuthScheme {
+  name: string;
+  type: string; // apikey, http, oauth2 or openidconnect
+  scheme?: string; // HTTP scheme, e.g. basic or bearer
+  in?: string; // API key location: header, query or cookie
+  parameter?: string; // API key header, query or cookie name
+  flows?: string[]; // OAuth2 flows, e.g. clientCredentials
+}
+
+export interface AuthCriteria {
+  type?: string | undefined;
+  in?: string | undefined;
+  flow?: string | undefined;
+  only?: boolean | undefined; // Every scheme of the API must match
+  provider?: string | undefined; // Substring of the API ID
+}
+
+export interface AuthSearchResults {
+  results: Array<{
+    api_id: string;
+    schemes: AuthScheme[];
+  }>;
+  pagination: {
+    page: number;
+    limit: number;
+    total_results: number;
+    total_pages: number;
+    has_next: boolean;
+    has_previous: boolean;
+  };
+  indexed_apis: number;
+}
+
+/**
+ * Compare flow names regardless of case and underscores, so
+ * "client_credentials" matches "clientCredentials"
+ */
+export function normalizeAuthTerm(term: string): string {
+  return term.toLowerCase().replace(/_/g, "");
+}
+
+/**
+ * Security schemes of an OpenAPI 3 or Swagger 2 spec. Swagger 2 basic
+ * auth becomes an HTTP basic scheme.
+ */
+export function extractAuthSchemes(spec: any): AuthScheme[] {
+  const definitions =
+    spec?.components?.securitySchemes ?? spec?.securityDefinitions ?? {};
+  const schemes: AuthScheme[] = [];
+
+  for (const [name, definition] of Object.entries<any>(definitions)) {
+    const type = String(definition?.type ?? "").toLowerCase();
+    if (!type) continue;
+
+    if (type === "basic") {
+      schemes.push({ name, type: "http", scheme: "basic" });
+      continue;
+    }
+
+    const scheme: AuthScheme = { name, type };
+    if (type === "http" && typeof definition.scheme === "string") {
+      scheme.scheme = definition.scheme.toLowerCase();
+    }
+    if (type === "apikey") {
+      if (typeof definition.in === "string") scheme.in = definition.in;
+      if (typeof definition.name === "string") {
+        scheme.parameter = definition.name;
+      }
+    }
+    if (type === "oauth2") {
+      const flows =
+        definition.flows && typeof definition.flows === "object"
+          ? Object.keys(definition.flows)
+          : typeof definition.flow === "string"
+            ? [SWAGGER2_OAUTH_FLOWS[definition.flow] ?? definition.flow]
+            : [];
+      if (flows.length > 0) scheme.flows = flows;
+    }
+    schemes.push(scheme);
+  }
+
+  return schemes;
+}
+
+/**
+ * Capability terms for search filters: each scheme's type, HTTP scheme,
+ * and "type:detail" for API key locations and OAuth2 flows, e.g.
+ * "apikey:header" or "oauth2:clientcredentials"
+ */
+export function authCapabilities(schemes: AuthScheme[]): string[] {
+  const capabilities = new Set<string>();
+  for (const scheme of schemes) {
+    capabilities.add(scheme.type);
+    if (scheme.scheme) {
+      capabilities.add(scheme.scheme);
+      capabilities.add(`${scheme.type}:${scheme.scheme}`);
+    }
+    if (scheme.in) {
+      capabilities.add(`${scheme.type}:${scheme.in.toLowerCase()}`);
+    }
+    for (const flow of scheme.flows ?? []) {
+      capabilities.add(`${scheme.type}:${normalizeAuthTerm(flow)}`);
+    }
+  }
+  return Array.from(capabilities).sort();
+}
+
+function matchesScheme(scheme: AuthScheme, criteria: AuthCriteria): boolean {
+  const type = criteria.type?.toLowerCase();
+  if (
+    type &&
+    scheme.type !== type &&
+    !(scheme.type === "http" && scheme.scheme === type)
+  ) {
+    return false;
+  }
+  if (criteria.in && scheme.in?.toLowerCase() !== criteria.in.toLowerCase()) {
+    return false;
+  }
+  if (
+    criteria.flow &&
+    !scheme.flows?.some(
+      (flow) => normalizeAuthTerm(flow) === normalizeAuthTerm(criteria.flow!),
+    )
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Find APIs with a security scheme matching the criteria, or with only
+ * matching schemes when `only` is set. APIs are ordered by ID.
+ */
+export function searchAuthSchemes(
+  apis: Iterable<[string, AuthScheme[]]>,
+  criteria: AuthCriteria,
+  options: { page: number; limit: number; indexedApis: number },
+): AuthSearchResults {
+  const { page, limit } = options;
+
+  const hits = Array.from(apis)
+    .filter(
+      ([apiId, schemes]) =>
+        schemes.length > 0 &&
+        (!criteria.provider || apiId.includes(criteria.provider)) &&
+        (criteria.only
+          ? schemes.every((scheme) => matchesScheme(scheme, criteria))
+          : schemes.some((scheme) => matchesScheme(scheme, criteria))),
+    )
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const total_results = hits.length;
+  const total_pages = Math.ceil(total_results / limit);
+  const offset = (page - 1) * limit;
+
+  return {
+    results: hits
+      .slice(offset, offset + limit)
+      .map(([api_id, schemes]) => ({ api_id, schemes })),
+    pagination: {
+      page,
+      limit,
+      total_results,
+      total_pages,
+      has_next: page < total_pages,
+      has_previous: page > 1,
+    },
+    indexed_apis: options.indexedApis,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Inverted index with BM25 scoring over weighted text fields
+ */
+
+import { editDistance, maxEditDistance } from "./fuzzy.js";
+import { tokenize } from "./tokenizer.js";
+
+// [text, weight]; term frequencies are multiplied by the field weight
+export type WeightedField = [string | undefined, number];
+
+// Standard BM25 parameters: term frequency saturation and length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Vocabulary terms a misspelt query term may expand to
+const MAX_FUZZY_EXPANSIONS = 3;
+
+export class Bm25Index {
+  private postings = new Map<string, Map<string, number>>();
+  private documentTerms = new Map<string, string[]>();
+  private lengths = new Map<string, number>();
+  private totalLength = 0;
+
+  /**
+   * Add a document, replacing any existing document with the same ID
+   */
+  add(id: string, fields: WeightedField[]): void {
+    this.remove(id);
+
+    const frequencies = new Map<string, number>();
+    let length = 0;
+    for (const [text, weight] of fields) {
+      if (!text) continue;
+      for (const term of tokenize(text)) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+        length += weight;
+      }
+    }
+
+    for (const [term, frequency] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+
+    this.documentTerms.set(id, Array.from(frequencies.keys()));
+    this.lengths.set(id, length);
+    this.totalLength += length;
+  }
+
+  remove(id: string): void {
+    const terms = this.documentTerms.get(id);
+    if (!terms) return;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.lengths.get(id) ?? 0;
+    this.documentTerms.delete(id);
+    this.lengths.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.lengths.has(id);
+  }
+
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  /**
+   * Score every document matching at least one query term. A term missing
+   * from the vocabulary matches its closest terms within a few edits
+   * instead, at a score reduced by the distance, unless `fuzzy` is false.
+   */
+  score(query: string, fuzzy: boolean = true): Map<string, number> {
+    const scores = new Map<string, number>();
+    const documentCount = this.lengths.size;
+    const averageLength =
+      documentCount > 0 ? this.totalLength / documentCount : 0;
+
+    for (const queryTerm of new Set(tokenize(query))) {
+      const terms: Array<[string, number]> = fuzzy
+        ? this.expand(queryTerm)
+        : this.postings.has(queryTerm)
+          ? [[queryTerm, 1]]
+          : [];
+      for (const [term, weight] of terms) {
+        const posting = this.postings.get(term)!;
+        const idf = Math.log(
+          1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5),
+        );
+
+        for (const [id, frequency] of posting) {
+          const length = this.lengths.get(id) ?? 0;
+          const norm =
+            BM25_K1 * (1 - BM25_B + (BM25_B * length) / averageLength);
+          const score =
+            (weight * idf * frequency * (BM25_K1 + 1)) / (frequency + norm);
+          scores.set(id, (scores.get(id) ?? 0) + score);
+        }
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Vocabulary terms for a query term with their score weight: the term
+   * itself, or failing that the nearest terms by edit distance
+   */
+  private expand(term: string): Array<[string, number]> {
+    if (this.postings.has(term)) {
+      return [[term, 1]];
+    }
+
+    const max = maxEditDistance(term.length);
+    if (max === 0) return [];
+
+    let best = max;
+    let nearest: string[] = [];
+    for (const candidate of this.postings.keys()) {
+      const distance = editDistance(term, candidate, best);
+      if (distance < best || (distance === best && nearest.length === 0)) {
+        best = distance;
+        nearest = [candidate];
+      } else if (distance === best) {
+        nearest.push(candidate);
+      }
+    }
+
+    return nearest
+      .sort()
+      .slice(0, MAX_FUZZY_EXPANSIONS)
+      .map((candidate) => [candidate, 1 / (1 + best)]);
+  }
+}
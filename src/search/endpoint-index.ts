@@ -0,0 +1,257 @@
+/**
+ * Inverted index over the operations of loaded OpenAPI specs, ranked with
+ * BM25. APIs are added and removed individually as specs enter and leave
+ * the cache.
+ */
+
+import { Bm25Index } from "./bm25.js";
+import { AuthScheme, extractAuthSchemes } from "./auth-index.js";
+
+export const HTTP_METHODS = [
+  "get",
+  "post",
+  "put",
+  "patch",
+  "delete",
+  "head",
+  "options",
+  "trace",
+];
+
+export interface EndpointEntry {
+  api_id: string;
+  method: string;
+  path: string;
+  summary?: string;
+  operationId?: string;
+  tags: string[];
+  description?: string;
+}
+
+export interface EndpointSearchFilters {
+  method?: string | undefined; // HTTP method, case-insensitive
+  provider?: string | undefined; // Substring of the API ID
+}
+
+export interface EndpointSearchResults {
+  results: Array<{
+    api_id: string;
+    method: string;
+    path: string;
+    summary?: string;
+  }>;
+  pagination: {
+    page: number;
+    limit: number;
+    total_results: number;
+    total_pages: number;
+    has_next: boolean;
+    has_previous: boolean;
+  };
+  indexed_apis: number;
+}
+
+// Summaries and operation IDs describe intent more precisely than paths
+const FIELD_WEIGHTS = {
+  summary: 3,
+  operationId: 2,
+  path: 2,
+  tags: 2,
+  description: 1,
+};
+
+/**
+ * List the operations of an OpenAPI 3 or Swagger 2 spec
+ */
+export function extractEndpoints(apiId: string, spec: any): EndpointEntry[] {
+  const endpoints: EndpointEntry[] = [];
+  if (!spec?.paths || typeof spec.paths !== "object") {
+    return endpoints;
+  }
+
+  for (const [path, pathItem] of Object.entries(spec.paths)) {
+    if (typeof pathItem !== "object" || pathItem === null) {
+      continue;
+    }
+
+    for (const method of HTTP_METHODS) {
+      const operation = (pathItem as any)[method];
+      if (!operation || typeof operation !== "object") {
+        continue;
+      }
+
+      const entry: EndpointEntry = {
+        api_id: apiId,
+        method: method.toUpperCase(),
+        path,
+        tags: Array.isArray(operation.tags) ? operation.tags : [],
+      };
+      if (typeof operation.summary === "string") {
+        entry.summary = operation.summary;
+      }
+      if (typeof operation.operationId === "string") {
+        entry.operationId = operation.operationId;
+      }
+      if (typeof operation.description === "string") {
+        entry.description = operation.description;
+      }
+      endpoints.push(entry);
+    }
+  }
+
+  return endpoints;
+}
+
+export class EndpointSearchIndex {
+  private index = new Bm25Index();
+  private entries = new Map<string, EndpointEntry>();
+  private apis = new Map<
+    string,
+    { version: string; keys: string[]; authSchemes: AuthScheme[] }
+  >();
+
+  /**
+   * Index the operations of one API, replacing any earlier version.
+   * `version` identifies the indexed spec so unchanged APIs can be skipped.
+   */
+  addApi(apiId: string, spec: any, version: string): number {
+    this.removeApi(apiId);
+
+    const keys: string[] = [];
+    for (const entry of extractEndpoints(apiId, spec)) {
+      const key = `${apiId} ${entry.method} ${entry.path}`;
+      this.index.add(key, [
+        [entry.summary, FIELD_WEIGHTS.summary],
+        [entry.operationId, FIELD_WEIGHTS.operationId],
+        [entry.path, FIELD_WEIGHTS.path],
+        [entry.tags.join(" "), FIELD_WEIGHTS.tags],
+        [entry.description, FIELD_WEIGHTS.description],
+      ]);
+      this.entries.set(key, entry);
+      keys.push(key);
+    }
+
+    this.apis.set(apiId, {
+      version,
+      keys,
+      authSchemes: extractAuthSchemes(spec),
+    });
+    return keys.length;
+  }
+
+  removeApi(apiId: string): void {
+    const indexed = this.apis.get(apiId);
+    if (!indexed) return;
+
+    for (const key of indexed.keys) {
+      this.index.remove(key);
+      this.entries.delete(key);
+    }
+    this.apis.delete(apiId);
+  }
+
+  isIndexed(apiId: string, version: string): boolean {
+    return this.apis.get(apiId)?.version === version;
+  }
+
+  /**
+   * Security schemes of an indexed API
+   */
+  authSchemes(apiId: string): AuthScheme[] | undefined {
+    return this.apis.get(apiId)?.authSchemes;
+  }
+
+  /**
+   * Security schemes of every indexed API
+   */
+  allAuthSchemes(): Array<[string, AuthScheme[]]> {
+    return Array.from(this.apis, ([apiId, { authSchemes }]) => [
+      apiId,
+      authSchemes,
+    ]);
+  }
+
+  /**
+   * Distinct paths of an indexed API
+   */
+  paths(apiId: string): string[] | undefined {
+    const indexed = this.apis.get(apiId);
+    if (!indexed) return undefined;
+    return Array.from(
+      new Set(indexed.keys.map((key) => this.entries.get(key)!.path)),
+    );
+  }
+
+  get apiIds(): string[] {
+    return Array.from(this.apis.keys());
+  }
+
+  get apiCount(): number {
+    return this.apis.size;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Rank operations matching any query term. Ties are ordered by API ID,
+   * path and method.
+   */
+  search(query: string, filters: EndpointSearchFilters = {}): EndpointEntry[] {
+    const method = filters.method?.toUpperCase();
+
+    return Array.from(this.index.score(query))
+      .map(([key, score]) => ({ entry: this.entries.get(key)!, score }))
+      .filter(
+        ({ entry }) =>
+          (!method || entry.method === method) &&
+          (!filters.provider || entry.api_id.includes(filters.provider)),
+      )
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.entry.api_id.localeCompare(b.entry.api_id) ||
+          a.entry.path.localeCompare(b.entry.path) ||
+          a.entry.method.localeCompare(b.entry.method),
+      )
+      .map(({ entry }) => entry);
+  }
+}
+
+/**
+ * Search the endpoint index and return one page of hits
+ */
+export function searchEndpointIndex(
+  index: EndpointSearchIndex,
+  query: string,
+  options: EndpointSearchFilters & { page: number; limit: number },
+): EndpointSearchResults {
+  const { page, limit } = options;
+  const hits = index.search(query, options);
+
+  const total_results = hits.length;
+  const total_pages = Math.ceil(total_results / limit);
+  const offset = (page - 1) * limit;
+
+  const results = hits
+    .slice(offset, offset + limit)
+    .map(({ api_id, method, path, summary }) =>
+      summary === undefined
+        ? { api_id, method, path }
+        : { api_id, method, path, summary },
+    );
+
+  return {
+    results,
+    pagination: {
+      page,
+      limit,
+      total_results,
+      total_pages,
+      has_next: page < total_pages,
+      has_previous: page > 1,
+    },
+    indexed_apis: index.apiCount,
+  };
+}
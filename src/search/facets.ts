@@ -0,0 +1,90 @@
+/**
+ * Facet counts over a search's full match set. Facet names are filter keys,
+ * so every value can be passed back as a filter, e.g. `openapi:3`.
+ */
+
+import { ApiGuruAPI } from "../types/api.js";
+import { SearchFilterContext, resolveSource } from "./filters.js";
+
+export interface FacetValue {
+  value: string;
+  count: number;
+  filter: string; // Search term selecting this value
+}
+
+export interface SearchFacets {
+  category: FacetValue[];
+  provider: FacetValue[];
+  source: FacetValue[];
+  openapi: FacetValue[]; // Major version
+  updated: FacetValue[]; // Year
+}
+
+// Values reported per facet, most frequent first
+const MAX_FACET_VALUES = 20;
+
+function toFacetValues(
+  field: keyof SearchFacets,
+  counts: Map<string, number>,
+): FacetValue[] {
+  return Array.from(counts, ([value, count]) => ({
+    value,
+    count,
+    filter: /\s/.test(value) ? `${field}:"${value}"` : `${field}:${value}`,
+  }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, MAX_FACET_VALUES);
+}
+
+/**
+ * Count categories, providers, sources, OpenAPI major versions and update
+ * years across the given APIs
+ */
+export function computeFacets(
+  ids: string[],
+  apis: Record<string, ApiGuruAPI>,
+  context: SearchFilterContext = {},
+): SearchFacets {
+  const counts = {
+    category: new Map<string, number>(),
+    provider: new Map<string, number>(),
+    source: new Map<string, number>(),
+    openapi: new Map<string, number>(),
+    updated: new Map<string, number>(),
+  };
+  const add = (field: keyof SearchFacets, value: string | undefined) => {
+    if (value) {
+      counts[field].set(value, (counts[field].get(value) ?? 0) + 1);
+    }
+  };
+
+  for (const id of ids) {
+    const api = apis[id];
+    if (!api) continue;
+    const version =
+      api.versions[api.preferred] ?? Object.values(api.versions)[0];
+    const info = version?.info;
+
+    // Lowercased to match how filters compare values
+    for (const category of new Set(
+      (info?.["x-apisguru-categories"] ?? []).map((c) => c.toLowerCase()),
+    )) {
+      add("category", category);
+    }
+    add(
+      "provider",
+      (info?.["x-providerName"] || id.split(":")[0] || "").toLowerCase(),
+    );
+    add("source", resolveSource(id, context));
+    add("openapi", version?.openapiVer?.match(/^\d+/)?.[0]);
+    add("updated", version?.updated?.match(/^\d{4}/)?.[0]);
+  }
+
+  return {
+    category: toFacetValues("category", counts.category),
+    provider: toFacetValues("provider", counts.provider),
+    source: toFacetValues("source", counts.source),
+    openapi: toFacetValues("openapi", counts.openapi),
+    updated: toFacetValues("updated", counts.updated),
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Structured search syntax: `key:value` filters, comparisons and negation
+ * mixed with free text, e.g.
+ * `payments category:financial openapi:3 updated>2024-01-01 -deprecated`
+ */
+
+import { ApiGuruAPI } from "../types/api.js";
+import { SEARCH_FILTERS } from "../utils/constants.js";
+import { APIDataValidator } from "../utils/validation.js";
+
+export type ApiSource = (typeof SEARCH_FILTERS.SOURCES)[number];
+export type FilterOperator = ":" | "=" | ">" | ">=" | "<" | "<=";
+
+/**
+ * A filter term as written in the query, before validation
+ */
+export interface RawSearchFilter {
+  key: string;
+  operator: FilterOperator;
+  value: string;
+  negated: boolean;
+}
+
+export type SearchFilter =
+  | { field: "category"; value: string; negated: boolean }
+  | { field: "provider"; value: string; negated: boolean }
+  | { field: "openapi"; value: string; negated: boolean }
+  | {
+      field: "updated";
+      operator: "=" | ">" | ">=" | "<" | "<=";
+      value: string; // YYYY, YYYY-MM or YYYY-MM-DD
+      negated: boolean;
+    }
+  | { field: "source"; value: ApiSource; negated: boolean }
+  | {
+      field: "auth";
+      value: string; // Type, or "type:detail" for a location or flow
+      negated: boolean;
+    };
+
+export interface ParsedSearchQuery {
+  text: string; // Free text ranked with BM25
+  excluded: string[]; // Words prefixed with "-"
+  filters: SearchFilter[];
+}
+
+/**
+ * Per-API facts that are not part of the directory listing
+ */
+export interface SearchFilterContext {
+  source?: ((apiId: string) => ApiSource) | undefined;
+  // Capability terms from authCapabilities, e.g. "oauth2:clientcredentials"
+  authCapabilities?: ((apiId: string) => string[] | undefined) | undefined;
+}
+
+// [-]key(op)value, or a plain [-]word; values may be double-quoted
+const TERM_PATTERN =
+  /(-?)([A-Za-z_]+)(>=|<=|:|=|>|<)("[^"]*"?|\S*)|(-?)("[^"]*"?|\S+)/g;
+
+function unquote(value: string): string {
+  return value.replace(/^"/, "").replace(/"$/, "");
+}
+
+function isFilterKey(key: string): boolean {
+  return (SEARCH_FILTERS.FIELDS as readonly string[]).includes(
+    key.toLowerCase(),
+  );
+}
+
+/**
+ * Split a query into free text, excluded words and validated filters.
+ * Throws a ValidationError for malformed filters; `key:value` terms whose
+ * key is not a filter name stay in the text.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const text: string[] = [];
+  const excluded: string[] = [];
+  const filters: SearchFilter[] = [];
+
+  for (const match of query.matchAll(TERM_PATTERN)) {
+    const [, negation, key, operator, value, wordNegation, word] = match;
+
+    // Only supported keys are filters; other colons, as in custom API IDs,
+    // URLs or prose, are text
+    if (key && isFilterKey(key)) {
+      filters.push(
+        APIDataValidator.validateSearchFilter({
+          key,
+          operator: operator as FilterOperator,
+          value: unquote(value ?? ""),
+          negated: negation === "-",
+        }),
+      );
+      continue;
+    }
+
+    const term = key
+      ? `${key}${operator}${unquote(value ?? "")}`
+      : unquote(word ?? match[0]);
+    if (!term) continue;
+    if ((key ? negation : wordNegation) === "-") {
+      excluded.push(term);
+    } else {
+      text.push(term);
+    }
+  }
+
+  return { text: text.join(" "), excluded, filters };
+}
+
+/**
+ * The source serving an API; without a resolver, custom IDs are custom and
+ * everything else is primary
+ */
+export function resolveSource(
+  id: string,
+  context: SearchFilterContext,
+): ApiSource {
+  if (context.source) return context.source(id);
+  return id.startsWith("custom:") ? "custom" : "primary";
+}
+
+/**
+ * Compare an ISO timestamp with a date of the same or coarser precision,
+ * so "2024-03-05T10:00:00Z" equals "2024" and "2024-03"
+ */
+function compareDate(timestamp: string, value: string): number {
+  const prefix = timestamp.slice(0, value.length);
+  return prefix < value ? -1 : prefix > value ? 1 : 0;
+}
+
+function matchesFilter(
+  id: string,
+  api: ApiGuruAPI,
+  filter: SearchFilter,
+  context: SearchFilterContext,
+): boolean {
+  const version = api.versions[api.preferred] ?? Object.values(api.versions)[0];
+  const info = version?.info;
+
+  switch (filter.field) {
+    case "category":
+      return (info?.["x-apisguru-categories"] ?? []).some(
+        (category) => category.toLowerCase() === filter.value,
+      );
+    case "provider":
+      return (
+        (info?.["x-providerName"] || id.split(":")[0] || "").toLowerCase() ===
+        filter.value
+      );
+    case "openapi": {
+      const openapiVer = version?.openapiVer ?? "";
+      return (
+        openapiVer === filter.value || openapiVer.startsWith(`${filter.value}.`)
+      );
+    }
+    case "updated": {
+      if (!version?.updated) return false;
+      const order = compareDate(version.updated, filter.value);
+      switch (filter.operator) {
+        case ">":
+          return order > 0;
+        case ">=":
+          return order >= 0;
+        case "<":
+          return order < 0;
+        case "<=":
+          return order <= 0;
+        default:
+          return order === 0;
+      }
+    }
+    case "source":
+      return resolveSource(id, context) === filter.value;
+    case "auth":
+      return context.authCapabilities?.(id)?.includes(filter.value) ?? false;
+  }
+}
+
+/**
+ * Whether an API satisfies every filter. Auth filters only match APIs whose
+ * security schemes are known through the context.
+ */
+export function matchesFilters(
+  id: string,
+  api: ApiGuruAPI,
+  filters: SearchFilter[],
+  context: SearchFilterContext = {},
+): boolean {
+  return filters.every(
+    (filter) => matchesFilter(id, api, filter, context) !== filter.negated,
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * Approximate string matching: edit distance for typo-tolerant search and
+ * "did you mean" suggestions
+ */
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and transpositions of adjacent characters each cost one. Returns
+ * `max + 1` as soon as the distance is known to exceed `max`.
+ */
+export function editDistance(
+  a: string,
+  b: string,
+  max: number = Infinity,
+): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previous2[j - 2]! + 1);
+      }
+      current.push(distance);
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous2 = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length]!, max + 1);
+}
+
+/**
+ * Edits tolerated for a word of the given length: none below four
+ * characters, one for four, two from five
+ */
+export function maxEditDistance(length: number): number {
+  if (length < 4) return 0;
+  return length < 5 ? 1 : 2;
+}
+
+/**
+ * Rank candidates close to the input, e.g. "githib" suggests "github.com".
+ * Each word of the input is compared with whole candidates and with their
+ * "." and ":" separated segments; whole matches rank above segment matches.
+ */
+export function suggestSimilar(
+  input: string,
+  candidates: Iterable<string>,
+  limit: number = 5,
+): string[] {
+  const words = input.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const matches: Array<{
+    candidate: string;
+    distance: number;
+    segment: boolean;
+  }> = [];
+
+  for (const candidate of new Set(candidates)) {
+    const lower = candidate.toLowerCase();
+    const segments = lower.split(/[.:]/).filter(Boolean);
+    let best: { distance: number; segment: boolean } | null = null;
+
+    for (const word of words) {
+      const max = Math.max(1, maxEditDistance(word.length));
+      const whole = editDistance(word, lower, max);
+      if (whole <= max && (!best || whole <= best.distance)) {
+        best = { distance: whole, segment: false };
+      }
+      for (const part of segments) {
+        const distance = editDistance(word, part, max);
+        if (distance <= max && (!best || distance < best.distance)) {
+          best = { distance, segment: true };
+        }
+      }
+    }
+
+    if (best) {
+      matches.push({ candidate, ...best });
+    }
+  }
+
+  return matches
+    .sort(
+      (a, b) =>
+        a.distance - b.distance ||
+        Number(a.segment) - Number(b.segment) ||
+        a.candidate.length - b.candidate.length ||
+        a.candidate.localeCompare(b.candidate),
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
@@ -0,0 +1,58 @@
+/**
+ * Search module
+ * Text analysis and ranked indexes over the API directory
+ */
+
+export { ApiSearchIndex, searchApiDirectory } from "./api-index.js";
+export { Bm25Index } from "./bm25.js";
+export { computeFacets } from "./facets.js";
+export {
+  authCapabilities,
+  extractAuthSchemes,
+  normalizeAuthTerm,
+  searchAuthSchemes,
+} from "./auth-index.js";
+export { matchesFilters, parseSearchQuery, resolveSource } from "./filters.js";
+export { editDistance, maxEditDistance, suggestSimilar } from "./fuzzy.js";
+export {
+  EndpointSearchIndex,
+  extractEndpoints,
+  searchEndpointIndex,
+  HTTP_METHODS,
+} from "./endpoint-index.js";
+export {
+  SchemaSearchIndex,
+  extractSchemaFields,
+  findSchemaReferences,
+  searchSchemaIndex,
+} from "./schema-index.js";
+export { findSimilarApis } from "./similarity.js";
+export { tokenize, splitWords, stem, isStopWord } from "./tokenizer.js";
+
+export type { ApiSearchHit, ApiSearchResults } from "./api-index.js";
+export type {
+  AuthCriteria,
+  AuthScheme,
+  AuthSearchResults,
+} from "./auth-index.js";
+export type { WeightedField } from "./bm25.js";
+export type {
+  SchemaFieldEntry,
+  SchemaSearchFilters,
+  SchemaSearchResults,
+} from "./schema-index.js";
+export type { SimilarApiResults } from "./similarity.js";
+export type { FacetValue, SearchFacets } from "./facets.js";
+export type {
+  ApiSource,
+  FilterOperator,
+  ParsedSearchQuery,
+  RawSearchFilter,
+  SearchFilter,
+  SearchFilterContext,
+} from "./filters.js";
+export type {
+  EndpointEntry,
+  EndpointSearchFilters,
+  EndpointSearchResults,
+} from "./endpoint-index.js";
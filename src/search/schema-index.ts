@@ -0,0 +1,392 @@
+/**
+ * Field-level index over the schemas of loaded specs: property names,
+ * formats and enum values from `components.schemas` (OpenAPI 3) or
+ * `definitions` (Swagger 2), with the endpoints that reference each schema
+ */
+
+import { Bm25Index } from "./bm25.js";
+import { HTTP_METHODS } from "./endpoint-index.js";
+import { resolvePointer } from "../utils/ref-resolver.js";
+
+export interface SchemaFieldEntry {
+  api_id: string;
+  schema: string; // Name of the component schema or definition
+  field?: string; // Dotted property path, e.g. "customer.id"; unset for the schema itself
+  schema_path: string; // JSON pointer, e.g. "#/components/schemas/Order/properties/id"
+  type?: string;
+  format?: string;
+  enum?: string[];
+  description?: string;
+}
+
+export interface SchemaSearchFilters {
+  format?: string | undefined; // e.g. uuid, date-time, email
+  type?: string | undefined; // e.g. string, integer
+  provider?: string | undefined; // Substring of the API ID
+}
+
+export interface SchemaSearchResults {
+  results: Array<
+    Omit<SchemaFieldEntry, "description"> & {
+      endpoints: Array<{ method: string; path: string }>;
+      endpoint_count: number;
+    }
+  >;
+  pagination: {
+    page: number;
+    limit: number;
+    total_results: number;
+    total_pages: number;
+    has_next: boolean;
+    has_previous: boolean;
+  };
+  indexed_apis: number;
+}
+
+// Field names say most about a field; schema names give it context
+const FIELD_WEIGHTS = {
+  name: 3,
+  schema: 2,
+  enum: 1,
+  description: 1,
+};
+
+// Referencing endpoints listed per result; endpoint_count has the total
+const MAX_RESULT_ENDPOINTS = 10;
+
+// Nesting followed below each schema's top-level properties
+const MAX_FIELD_DEPTH = 6;
+
+// Enum values indexed and reported per field
+const MAX_ENUM_VALUES = 50;
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function schemaRoot(spec: any): { schemas: any; prefix: string } | null {
+  if (
+    spec?.components?.schemas &&
+    typeof spec.components.schemas === "object"
+  ) {
+    return {
+      schemas: spec.components.schemas,
+      prefix: "#/components/schemas/",
+    };
+  }
+  if (spec?.definitions && typeof spec.definitions === "object") {
+    return { schemas: spec.definitions, prefix: "#/definitions/" };
+  }
+  return null;
+}
+
+function describeField(entry: SchemaFieldEntry, schema: any): SchemaFieldEntry {
+  const type = Array.isArray(schema.type)
+    ? schema.type.filter((t: unknown) => t !== "null").join("|")
+    : schema.type;
+  if (typeof type === "string" && type) entry.type = type;
+  if (typeof schema.format === "string") entry.format = schema.format;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    entry.enum = schema.enum
+      .slice(0, MAX_ENUM_VALUES)
+      .map((value: unknown) => String(value));
+  }
+  if (typeof schema.description === "string") {
+    entry.description = schema.description;
+  }
+  return entry;
+}
+
+/**
+ * List the fields of every named schema in a spec: nested properties,
+ * array items and allOf/oneOf/anyOf members. Referenced schemas are listed
+ * under their own name rather than inlined. Schemas without properties,
+ * such as enums, get one entry for the schema itself.
+ */
+export function extractSchemaFields(
+  apiId: string,
+  spec: any,
+): SchemaFieldEntry[] {
+  const root = schemaRoot(spec);
+  if (!root) return [];
+
+  const fields: SchemaFieldEntry[] = [];
+  const visited = new Set<object>();
+
+  const walk = (
+    schemaName: string,
+    node: any,
+    field: string,
+    pointer: string,
+    depth: number,
+  ): void => {
+    if (!node || typeof node !== "object" || node.$ref || visited.has(node)) {
+      return;
+    }
+    visited.add(node);
+
+    if (node.properties && typeof node.properties === "object") {
+      for (const [name, property] of Object.entries<any>(node.properties)) {
+        if (!property || typeof property !== "object") continue;
+        const path = field ? `${field}.${name}` : name;
+        const propertyPointer = `${pointer}/properties/${escapePointer(name)}`;
+        fields.push(
+          describeField(
+            {
+              api_id: apiId,
+              schema: schemaName,
+              field: path,
+              schema_path: propertyPointer,
+            },
+            property,
+          ),
+        );
+        if (depth < MAX_FIELD_DEPTH) {
+          walk(schemaName, property, path, propertyPointer, depth + 1);
+        }
+      }
+    }
+    if (node.items && typeof node.items === "object") {
+      walk(schemaName, node.items, `${field}[]`, `${pointer}/items`, depth);
+    }
+    for (const keyword of ["allOf", "oneOf", "anyOf"]) {
+      if (!Array.isArray(node[keyword])) continue;
+      node[keyword].forEach((member: any, i: number) =>
+        walk(schemaName, member, field, `${pointer}/${keyword}/${i}`, depth),
+      );
+    }
+  };
+
+  for (const [name, schema] of Object.entries<any>(root.schemas)) {
+    if (!schema || typeof schema !== "object") continue;
+    const pointer = `${root.prefix}${escapePointer(name)}`;
+    const before = fields.length;
+    walk(name, schema, "", pointer, 0);
+    if (fields.length === before && !schema.$ref) {
+      fields.push(
+        describeField(
+          { api_id: apiId, schema: name, schema_path: pointer },
+          schema,
+        ),
+      );
+    }
+  }
+
+  return fields;
+}
+
+function collectRefs(node: any, refs: Set<string>, seen: Set<object>): void {
+  if (!node || typeof node !== "object" || seen.has(node)) return;
+  seen.add(node);
+  if (typeof node.$ref === "string") {
+    refs.add(node.$ref);
+  }
+  for (const value of Object.values(node)) {
+    collectRefs(value, refs, seen);
+  }
+}
+
+/**
+ * Map each named schema to the operations that use it, directly or through
+ * other schemas, parameters, request bodies and responses
+ */
+export function findSchemaReferences(
+  spec: any,
+): Map<string, Array<{ method: string; path: string }>> {
+  const references = new Map<string, Array<{ method: string; path: string }>>();
+  const root = schemaRoot(spec);
+  if (!root || !spec.paths || typeof spec.paths !== "object") {
+    return references;
+  }
+
+  // Direct references of each referenced component, computed once
+  const directRefs = new Map<string, Set<string>>();
+  const refsOf = (ref: string): Set<string> => {
+    let refs = directRefs.get(ref);
+    if (!refs) {
+      refs = new Set();
+      directRefs.set(ref, refs);
+      collectRefs(resolvePointer(spec, ref), refs, new Set());
+    }
+    return refs;
+  };
+
+  for (const [path, pathItem] of Object.entries<any>(spec.paths)) {
+    if (!pathItem || typeof pathItem !== "object") continue;
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation || typeof operation !== "object") continue;
+
+      const pending = new Set<string>();
+      collectRefs(operation, pending, new Set());
+      collectRefs(pathItem.parameters, pending, new Set());
+
+      // Follow references transitively
+      const reached = new Set<string>();
+      for (const ref of pending) {
+        if (reached.has(ref)) continue;
+        reached.add(ref);
+        for (const next of refsOf(ref)) {
+          if (!reached.has(next)) pending.add(next);
+        }
+      }
+
+      for (const ref of reached) {
+        if (!ref.startsWith(root.prefix)) continue;
+        let endpoints = references.get(ref);
+        if (!endpoints) {
+          endpoints = [];
+          references.set(ref, endpoints);
+        }
+        endpoints.push({ method: method.toUpperCase(), path });
+      }
+    }
+  }
+
+  return references;
+}
+
+export class SchemaSearchIndex {
+  private index = new Bm25Index();
+  private entries = new Map<string, SchemaFieldEntry>();
+  private apis = new Map<
+    string,
+    {
+      keys: string[];
+      references: Map<string, Array<{ method: string; path: string }>>;
+    }
+  >();
+
+  /**
+   * Index the schema fields of one API, replacing any earlier version
+   */
+  addApi(apiId: string, spec: any): number {
+    this.removeApi(apiId);
+
+    const keys: string[] = [];
+    for (const entry of extractSchemaFields(apiId, spec)) {
+      const key = `${apiId} ${entry.schema_path}`;
+      this.index.add(key, [
+        [entry.field?.replace(/\[\]/g, ""), FIELD_WEIGHTS.name],
+        [entry.schema, FIELD_WEIGHTS.schema],
+        [entry.enum?.join(" "), FIELD_WEIGHTS.enum],
+        [entry.description, FIELD_WEIGHTS.description],
+      ]);
+      this.entries.set(key, entry);
+      keys.push(key);
+    }
+
+    this.apis.set(apiId, { keys, references: findSchemaReferences(spec) });
+    return keys.length;
+  }
+
+  removeApi(apiId: string): void {
+    const indexed = this.apis.get(apiId);
+    if (!indexed) return;
+
+    for (const key of indexed.keys) {
+      this.index.remove(key);
+      this.entries.delete(key);
+    }
+    this.apis.delete(apiId);
+  }
+
+  get apiIds(): string[] {
+    return Array.from(this.apis.keys());
+  }
+
+  get apiCount(): number {
+    return this.apis.size;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Operations that use a schema, given the schema pointer of any of its fields
+   */
+  endpoints(entry: SchemaFieldEntry): Array<{ method: string; path: string }> {
+    const references = this.apis.get(entry.api_id)?.references;
+    const [, prefix, name] =
+      /^(#\/components\/schemas\/|#\/definitions\/)([^/]+)/.exec(
+        entry.schema_path,
+      ) ?? [];
+    return references?.get(`${prefix}${name}`) ?? [];
+  }
+
+  /**
+   * Rank fields matching any query term; with an empty query, list every
+   * field passing the filters. Ties are ordered by API ID and schema path.
+   */
+  search(query: string, filters: SchemaSearchFilters = {}): SchemaFieldEntry[] {
+    const format = filters.format?.toLowerCase();
+    const type = filters.type?.toLowerCase();
+
+    const scored: Array<{ entry: SchemaFieldEntry; score: number }> =
+      query.trim()
+        ? Array.from(this.index.score(query), ([key, score]) => ({
+            entry: this.entries.get(key)!,
+            score,
+          }))
+        : Array.from(this.entries.values(), (entry) => ({ entry, score: 0 }));
+
+    return scored
+      .filter(
+        ({ entry }) =>
+          (!format || entry.format?.toLowerCase() === format) &&
+          (!type || entry.type?.toLowerCase().split("|").includes(type)) &&
+          (!filters.provider || entry.api_id.includes(filters.provider)),
+      )
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.entry.api_id.localeCompare(b.entry.api_id) ||
+          a.entry.schema_path.localeCompare(b.entry.schema_path),
+      )
+      .map(({ entry }) => entry);
+  }
+}
+
+/**
+ * Search the schema index and return one page of fields with the
+ * endpoints that reference their schemas
+ */
+export function searchSchemaIndex(
+  index: SchemaSearchIndex,
+  query: string,
+  options: SchemaSearchFilters & { page: number; limit: number },
+): SchemaSearchResults {
+  const { page, limit } = options;
+  const hits = index.search(query, options);
+
+  const total_results = hits.length;
+  const total_pages = Math.ceil(total_results / limit);
+  const offset = (page - 1) * limit;
+
+  const results = hits.slice(offset, offset + limit).map((entry) => {
+    const endpoints = index.endpoints(entry);
+    const result = {
+      ...entry,
+      endpoints: endpoints.slice(0, MAX_RESULT_ENDPOINTS),
+      endpoint_count: endpoints.length,
+    };
+    // Descriptions are indexed but left out of results to keep them small
+    delete result.description;
+    return result;
+  });
+
+  return {
+    results,
+    pagination: {
+      page,
+      limit,
+      total_results,
+      total_pages,
+      has_next: page < total_pages,
+      has_previous: page > 1,
+    },
+    indexed_apis: index.apiCount,
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * "More like this" over the API directory: cosine similarity of TF-IDF
+ * vectors built from descriptions, categories, tags and endpoint paths.
+ * Everything is computed locally.
+ */
+
+import { ApiGuruAPI } from "../types/api.js";
+import { isStopWord, splitWords, stem } from "./tokenizer.js";
+
+export interface SimilarApiResults {
+  api_id: string;
+  results: Array<{
+    id: string;
+    title: string;
+    provider: string;
+    score: number; // Cosine similarity, 0 to 1
+    reason: string;
+  }>;
+  compared_apis: number;
+}
+
+// Categories and tags are curated, so they count more than free text
+const FIELD_WEIGHTS = {
+  categories: 2,
+  tags: 2,
+  description: 1,
+  paths: 1,
+};
+
+// Terms named in a result's reason
+const MAX_REASON_TERMS = 3;
+
+// Categories become single features rather than words
+const CATEGORY_PREFIX = "category:";
+
+type TermCounts = Map<string, number>;
+
+interface ApiTerms {
+  counts: TermCounts;
+  words: Map<string, string>; // Stem to the first word seen, for reasons
+}
+
+// Directory terms per all_apis object; endpoint paths are added per query
+const directoryTerms = new WeakMap<
+  Record<string, ApiGuruAPI>,
+  Map<string, ApiTerms>
+>();
+
+function addText(terms: ApiTerms, text: string | undefined, weight: number) {
+  if (!text) return;
+  for (const word of splitWords(text)) {
+    if (word.length <= 2 || isStopWord(word) || /^\d+$/.test(word)) continue;
+    const term = stem(word);
+    terms.counts.set(term, (terms.counts.get(term) ?? 0) + weight);
+    if (!terms.words.has(term)) terms.words.set(term, word);
+  }
+}
+
+function preferredInfo(api: ApiGuruAPI) {
+  return (api.versions[api.preferred] ?? Object.values(api.versions)[0])?.info;
+}
+
+function getDirectoryTerms(
+  apis: Record<string, ApiGuruAPI>,
+): Map<string, ApiTerms> {
+  let terms = directoryTerms.get(apis);
+  if (terms) return terms;
+
+  terms = new Map();
+  for (const [id, api] of Object.entries(apis)) {
+    const info = preferredInfo(api);
+    const apiTerms: ApiTerms = { counts: new Map(), words: new Map() };
+
+    for (const category of info?.["x-apisguru-categories"] ?? []) {
+      apiTerms.counts.set(
+        `${CATEGORY_PREFIX}${category.toLowerCase()}`,
+        FIELD_WEIGHTS.categories,
+      );
+    }
+    addText(apiTerms, info?.["x-tags"]?.join(" "), FIELD_WEIGHTS.tags);
+    addText(apiTerms, info?.description, FIELD_WEIGHTS.description);
+    terms.set(id, apiTerms);
+  }
+
+  directoryTerms.set(apis, terms);
+  return terms;
+}
+
+/**
+ * Unit-length TF-IDF vector with sublinear term frequency
+ */
+function toVector(
+  counts: TermCounts,
+  idf: Map<string, number>,
+): Map<string, number> {
+  const vector = new Map<string, number>();
+  let norm = 0;
+  for (const [term, count] of counts) {
+    const weight = (1 + Math.log(count)) * (idf.get(term) ?? 0);
+    if (weight > 0) {
+      vector.set(term, weight);
+      norm += weight * weight;
+    }
+  }
+  norm = Math.sqrt(norm);
+  for (const [term, weight] of vector) {
+    vector.set(term, weight / norm);
+  }
+  return vector;
+}
+
+function providerOf(id: string, api: ApiGuruAPI): string {
+  return preferredInfo(api)?.["x-providerName"] || id.split(":")[0] || "";
+}
+
+/**
+ * Find the APIs most similar to one API. `paths` supplies endpoint paths
+ * for APIs whose specs are loaded. APIs from the same provider are skipped
+ * unless `includeSameProvider` is set.
+ */
+export function findSimilarApis(
+  apis: Record<string, ApiGuruAPI>,
+  apiId: string,
+  options: {
+    limit: number;
+    includeSameProvider?: boolean | undefined;
+    paths?: ((apiId: string) => string[] | undefined) | undefined;
+  },
+): SimilarApiResults {
+  const target = apis[apiId];
+  if (!target) {
+    return { api_id: apiId, results: [], compared_apis: 0 };
+  }
+
+  // Copy directory terms and add the endpoint path vocabulary
+  const documents = new Map<string, ApiTerms>();
+  for (const [id, terms] of getDirectoryTerms(apis)) {
+    const paths = options.paths?.(id);
+    if (!paths?.length) {
+      documents.set(id, terms);
+      continue;
+    }
+    const withPaths: ApiTerms = {
+      counts: new Map(terms.counts),
+      words: new Map(terms.words),
+    };
+    for (const path of paths) {
+      addText(withPaths, path.replace(/\{[^}]*\}/g, " "), FIELD_WEIGHTS.paths);
+    }
+    documents.set(id, withPaths);
+  }
+
+  const documentFrequency = new Map<string, number>();
+  for (const { counts } of documents.values()) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const idf = new Map<string, number>();
+  for (const [term, frequency] of documentFrequency) {
+    idf.set(term, Math.log(1 + documents.size / frequency));
+  }
+
+  const targetTerms = documents.get(apiId)!;
+  const targetVector = toVector(targetTerms.counts, idf);
+  const targetProvider = providerOf(apiId, target);
+
+  const scored: Array<{
+    id: string;
+    score: number;
+    shared: Array<[string, number]>;
+  }> = [];
+  for (const [id, terms] of documents) {
+    if (id === apiId) continue;
+    if (
+      !options.includeSameProvider &&
+      providerOf(id, apis[id]!) === targetProvider
+    ) {
+      continue;
+    }
+
+    const vector = toVector(terms.counts, idf);
+    const shared: Array<[string, number]> = [];
+    let score = 0;
+    for (const [term, weight] of targetVector) {
+      const other = vector.get(term);
+      if (other) {
+        score += weight * other;
+        shared.push([term, weight * other]);
+      }
+    }
+    if (score > 0) {
+      scored.push({ id, score, shared });
+    }
+  }
+
+  scored.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+
+  return {
+    api_id: apiId,
+    results: scored.slice(0, options.limit).map(({ id, score, shared }) => {
+      const api = apis[id]!;
+      return {
+        id,
+        title: preferredInfo(api)?.title || "Untitled API",
+        provider: providerOf(id, api) || "Unknown",
+        score: Math.round(score * 1000) / 1000,
+        reason: describeOverlap(shared, targetTerms.words),
+      };
+    }),
+    compared_apis: documents.size - 1,
+  };
+}
+
+/**
+ * Summarise the features two APIs share, strongest first, e.g.
+ * "Shared categories: telecom. Common terms: sms, voice, call"
+ */
+function describeOverlap(
+  shared: Array<[string, number]>,
+  words: Map<string, string>,
+): string {
+  const ranked = shared.sort((a, b) => b[1] - a[1]).map(([term]) => term);
+  const categories = ranked
+    .filter((term) => term.startsWith(CATEGORY_PREFIX))
+    .map((term) => term.slice(CATEGORY_PREFIX.length));
+  const terms = ranked
+    .filter((term) => !term.startsWith(CATEGORY_PREFIX))
+    .slice(0, MAX_REASON_TERMS)
+    .map((term) => words.get(term) ?? term);
+
+  const parts: string[] = [];
+  if (categories.length > 0) {
+    parts.push(`Shared categories: ${categories.join(", ")}`);
+  }
+  if (terms.length > 0) {
+    parts.push(`Common terms: ${terms.join(", ")}`);
+  }
+  return parts.join(". ");
+}
@@ -0,0 +1,307 @@
+/**
+ * Text analysis shared by the search indexes: tokenisation, stop-word
+ * removal and Porter stemming
+ */
+
+const STOP_WORDS = new Set([
+  "a",
+  "about",
+  "after",
+  "all",
+  "also",
+  "an",
+  "and",
+  "any",
+  "are",
+  "as",
+  "at",
+  "be",
+  "been",
+  "but",
+  "by",
+  "can",
+  "do",
+  "does",
+  "each",
+  "for",
+  "from",
+  "has",
+  "have",
+  "how",
+  "i",
+  "if",
+  "in",
+  "into",
+  "is",
+  "it",
+  "its",
+  "me",
+  "more",
+  "my",
+  "no",
+  "not",
+  "of",
+  "on",
+  "or",
+  "other",
+  "our",
+  "so",
+  "some",
+  "such",
+  "than",
+  "that",
+  "the",
+  "their",
+  "them",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "to",
+  "up",
+  "us",
+  "was",
+  "we",
+  "were",
+  "what",
+  "when",
+  "where",
+  "which",
+  "while",
+  "who",
+  "will",
+  "with",
+  "you",
+  "your",
+]);
+
+export function isStopWord(word: string): boolean {
+  return STOP_WORDS.has(word);
+}
+
+/**
+ * Split text into lowercase words. camelCase and PascalCase identifiers
+ * yield their parts as well as the whole word, so "GitHub" matches both
+ * "github" and "git hub".
+ */
+export function splitWords(text: string): string[] {
+  const words: string[] = [];
+  for (const run of text.split(/[^A-Za-z0-9]+/)) {
+    if (!run) continue;
+    const parts = run
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .toLowerCase()
+      .split(" ");
+    if (parts.length > 1) {
+      words.push(run.toLowerCase());
+    }
+    words.push(...parts);
+  }
+  return words;
+}
+
+/**
+ * Turn text into index terms: split, drop stop words and single
+ * characters, then stem
+ */
+export function tokenize(text: string): string[] {
+  return splitWords(text)
+    .filter((word) => word.length > 1 && !isStopWord(word))
+    .map(stem);
+}
+
+// Porter stemmer (M.F. Porter, 1980)
+
+function isConsonant(word: string, i: number): boolean {
+  const c = word[i];
+  if (c === "a" || c === "e" || c === "i" || c === "o" || c === "u") {
+    return false;
+  }
+  if (c === "y") {
+    return i === 0 || !isConsonant(word, i - 1);
+  }
+  return true;
+}
+
+/**
+ * Number of vowel-consonant sequences, m in [C](VC){m}[V]
+ */
+function measure(word: string): number {
+  let m = 0;
+  let i = 0;
+  while (i < word.length && isConsonant(word, i)) i++;
+  while (i < word.length) {
+    while (i < word.length && !isConsonant(word, i)) i++;
+    if (i >= word.length) break;
+    while (i < word.length && isConsonant(word, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+function hasVowel(word: string): boolean {
+  for (let i = 0; i < word.length; i++) {
+    if (!isConsonant(word, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+// consonant-vowel-consonant where the last consonant is not w, x or y
+function endsWithCvc(word: string): boolean {
+  const n = word.length;
+  if (n < 3) return false;
+  const last = word[n - 1]!;
+  return (
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !"wxy".includes(last)
+  );
+}
+
+/**
+ * Replace the first matching suffix when the remaining stem satisfies the
+ * condition. Once a suffix matches no other rule is tried.
+ */
+function replaceSuffix(
+  word: string,
+  rules: Array<[string, string]>,
+  condition: (stem: string) => boolean,
+): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return condition(stem) ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+const STEP2_RULES: Array<[string, string]> = [
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["enci", "ence"],
+  ["anci", "ance"],
+  ["izer", "ize"],
+  ["bli", "ble"],
+  ["alli", "al"],
+  ["entli", "ent"],
+  ["eli", "e"],
+  ["ousli", "ous"],
+  ["ization", "ize"],
+  ["ation", "ate"],
+  ["ator", "ate"],
+  ["alism", "al"],
+  ["iveness", "ive"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["aliti", "al"],
+  ["iviti", "ive"],
+  ["biliti", "ble"],
+  ["logi", "log"],
+];
+
+const STEP3_RULES: Array<[string, string]> = [
+  ["icate", "ic"],
+  ["ative", ""],
+  ["alize", "al"],
+  ["iciti", "ic"],
+  ["ical", "ic"],
+  ["ful", ""],
+  ["ness", ""],
+];
+
+const STEP4_SUFFIXES = [
+  "al",
+  "ance",
+  "ence",
+  "er",
+  "ic",
+  "able",
+  "ible",
+  "ant",
+  "ement",
+  "ment",
+  "ent",
+  "ion",
+  "ou",
+  "ism",
+  "ate",
+  "iti",
+  "ous",
+  "ive",
+  "ize",
+];
+
+/**
+ * Reduce a lowercase word to its stem, e.g. "messages" and "messaging"
+ * both become "messag"
+ */
+export function stem(word: string): string {
+  if (word.length <= 2 || /[^a-z]/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (w.endsWith("ies")) w = w.slice(0, -2);
+  else if (!w.endsWith("ss") && w.endsWith("s")) w = w.slice(0, -1);
+
+  // Step 1b: -ed and -ing
+  if (w.endsWith("eed")) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    const suffix = w.endsWith("ed") ? "ed" : w.endsWith("ing") ? "ing" : null;
+    if (suffix && hasVowel(w.slice(0, -suffix.length))) {
+      w = w.slice(0, -suffix.length);
+      if (w.endsWith("at") || w.endsWith("bl") || w.endsWith("iz")) {
+        w += "e";
+      } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (measure(w) === 1 && endsWithCvc(w)) {
+        w += "e";
+      }
+    }
+  }
+
+  // Step 1c: terminal y
+  if (w.endsWith("y") && hasVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + "i";
+  }
+
+  // Steps 2 and 3: double and single suffixes
+  w = replaceSuffix(w, STEP2_RULES, (s) => measure(s) > 0);
+  w = replaceSuffix(w, STEP3_RULES, (s) => measure(s) > 0);
+
+  // Step 4: remove suffixes from longer stems
+  const suffix4 = STEP4_SUFFIXES.filter((s) => w.endsWith(s)).sort(
+    (a, b) => b.length - a.length,
+  )[0];
+  if (suffix4) {
+    const s = w.slice(0, -suffix4.length);
+    if (measure(s) > 1 && (suffix4 !== "ion" || /[st]$/.test(s))) {
+      w = s;
+    }
+  }
+
+  // Step 5: final e and double l
+  if (w.endsWith("e")) {
+    const s = w.slice(0, -1);
+    const m = measure(s);
+    if (m > 1 || (m === 1 && !endsWithCvc(s))) w = s;
+  }
+  if (measure(w) > 1 && w.endsWith("ll")) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
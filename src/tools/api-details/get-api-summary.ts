@@ -13,15 +13,24 @@ export const tool: ToolDefinition = {
         description:
           'API identifier (e.g., "googleapis.com:admin", "github.com")',
       },
+      version: {
+        type: "string",
+        description:
+          'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+      },
     },
     required: ["api_id"],
   },
   async execute(args: any, context: ToolContext): Promise<any> {
     const schema = z.object({
       api_id: z.string(),
+      version: z.string().optional(),
     });
     const params = schema.parse(args);
-    return await context.apiClient.getAPISummaryById(params.api_id);
+    return await context.apiClient.getAPISummaryById(
+      params.api_id,
+      params.version,
+    );
   },
 };
 
@@ -1,9 +1,11 @@
 import { z } from "zod";
 import { ToolDefinition, ToolContext } from "../types.js";
+import { ResponseBudget } from "../../utils/response-budget.js";
 
 export const tool: ToolDefinition = {
   name: "get_openapi_spec",
-  description: "Get the OpenAPI specification for a specific API",
+  description:
+    "Get the OpenAPI specification for a specific API. Specs over the response budget are returned as partial documents with a continuation cursor",
   inputSchema: {
     type: "object",
     properties: {
@@ -11,15 +13,34 @@ export const tool: ToolDefinition = {
         type: "string",
         description: "URL to the OpenAPI specification (JSON or YAML)",
       },
+      cursor: {
+        type: "string",
+        description: "Continuation cursor returned by a previous call",
+      },
     },
     required: ["url"],
   },
   async execute(args: any, context: ToolContext): Promise<any> {
     const schema = z.object({
       url: z.string(),
+      cursor: z.string().optional(),
     });
     const params = schema.parse(args);
-    return await context.apiClient.getOpenAPISpec(params.url);
+    const budget = context.responseBudget ?? ResponseBudget.fromEnv();
+
+    const spec = await context.apiClient.getOpenAPISpec(params.url);
+    if (
+      !spec ||
+      typeof spec !== "object" ||
+      (!params.cursor && budget.fits(spec))
+    ) {
+      return spec;
+    }
+    return budget.paginateSpec(
+      spec,
+      { tool: "get_openapi_spec", key: params.url },
+      params.cursor,
+    );
   },
 };
 
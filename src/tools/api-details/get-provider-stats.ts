@@ -14,6 +14,16 @@ export const tool: ToolDefinition = {
     },
     required: ["provider"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      totalAPIs: { type: "number" },
+      totalVersions: { type: "number" },
+      latestUpdate: { type: "string" },
+      oldestAPI: { type: "string" },
+      newestAPI: { type: "string" },
+    },
+  },
   async execute(args: any, context: ToolContext): Promise<any> {
     const schema = z.object({
       provider: z.string(),
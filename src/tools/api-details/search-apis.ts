@@ -1,16 +1,28 @@
 import { z } from "zod";
-import { ToolDefinition, ToolContext } from "../types.js";
+import { ToolDefinition, ToolContext, getRequestOptions } from "../types.js";
+import { PAGINATION_SCHEMA, API_LIST_ITEM_SCHEMA } from "../schemas.js";
+
+const FACET_VALUE_SCHEMA = {
+  type: "object",
+  properties: {
+    value: { type: "string" },
+    count: { type: "number" },
+    filter: { type: "string" },
+  },
+  required: ["value", "count", "filter"],
+};
 
 export const tool: ToolDefinition = {
   name: "search_apis",
   description:
-    "Search for APIs by name, description, provider, or keywords with pagination support",
+    "Search for APIs by name, description, provider, or keywords with pagination support. Tolerates typos and suggests similar names when nothing matches",
   inputSchema: {
     type: "object",
     properties: {
       query: {
         type: "string",
-        description: "Search query string",
+        description:
+          'Search query: free text plus optional filters category:, provider:, openapi:, updated (with :, >, >=, < or <=), source: and auth:. Prefix a word or filter with "-" to exclude it, e.g. "payments category:financial openapi:3 updated>2024-01-01 -deprecated"',
       },
       provider: {
         type: "string",
@@ -29,6 +41,29 @@ export const tool: ToolDefinition = {
     },
     required: ["query"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      results: { type: "array", items: API_LIST_ITEM_SCHEMA },
+      pagination: PAGINATION_SCHEMA,
+      facets: {
+        type: "object",
+        description:
+          "Match counts by category, provider, source, OpenAPI major version and update year. Each value's filter can be added to the next query",
+        properties: Object.fromEntries(
+          ["category", "provider", "source", "openapi", "updated"].map(
+            (field) => [field, { type: "array", items: FACET_VALUE_SCHEMA }],
+          ),
+        ),
+      },
+      suggestions: {
+        type: "array",
+        items: { type: "string" },
+        description: "Similar provider names and API IDs when nothing matched",
+      },
+    },
+    required: ["results", "pagination", "facets"],
+  },
   async execute(args: any, context: ToolContext): Promise<any> {
     const searchSchema = z.object({
       query: z.string(),
@@ -42,6 +77,7 @@ export const tool: ToolDefinition = {
       params.provider,
       params.page,
       params.limit,
+      getRequestOptions(context),
     );
   },
 };
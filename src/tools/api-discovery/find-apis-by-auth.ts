@@ -0,0 +1,124 @@
+import { z } from "zod";
+import { ToolDefinition, ToolContext, getRequestOptions } from "../types.js";
+import { PAGINATION_SCHEMA } from "../schemas.js";
+
+export const tool: ToolDefinition = {
+  name: "find_apis_by_auth",
+  description:
+    "Find APIs by authentication scheme: type, API key location or OAuth2 flow. Reports the matching APIs' security schemes. Covers custom specs and every spec already fetched",
+  inputSchema: {
+    type: "object",
+    properties: {
+      type: {
+        type: "string",
+        enum: ["apikey", "http", "basic", "bearer", "oauth2", "openidconnect"],
+        description:
+          'Security scheme type; "basic" and "bearer" match HTTP schemes',
+      },
+      in: {
+        type: "string",
+        enum: ["header", "query", "cookie"],
+        description: "API key location",
+      },
+      flow: {
+        type: "string",
+        enum: [
+          "authorization_code",
+          "client_credentials",
+          "implicit",
+          "password",
+        ],
+        description: "OAuth2 flow",
+      },
+      only: {
+        type: "boolean",
+        description:
+          "Only return APIs whose every security scheme matches (default: false)",
+        default: false,
+      },
+      provider: {
+        type: "string",
+        description: "Optional provider filter",
+      },
+      page: {
+        type: "number",
+        description: "Page number (default: 1)",
+        default: 1,
+      },
+      limit: {
+        type: "number",
+        description: "Number of results per page (default: 20, max: 50)",
+        default: 20,
+      },
+    },
+    required: [],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            api_id: { type: "string" },
+            schemes: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  type: { type: "string" },
+                  scheme: { type: "string" },
+                  in: { type: "string" },
+                  parameter: { type: "string" },
+                  flows: { type: "array", items: { type: "string" } },
+                },
+                required: ["name", "type"],
+              },
+            },
+          },
+          required: ["api_id", "schemes"],
+        },
+      },
+      pagination: PAGINATION_SCHEMA,
+      indexed_apis: { type: "number" },
+    },
+    required: ["results", "pagination", "indexed_apis"],
+  },
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const schema = z.object({
+      type: z
+        .enum(["apikey", "http", "basic", "bearer", "oauth2", "openidconnect"])
+        .optional(),
+      in: z.enum(["header", "query", "cookie"]).optional(),
+      flow: z
+        .enum([
+          "authorization_code",
+          "client_credentials",
+          "implicit",
+          "password",
+        ])
+        .optional(),
+      only: z.boolean().optional().default(false),
+      provider: z.string().optional(),
+      page: z.number().optional().default(1),
+      limit: z.number().optional().default(20),
+    });
+    const params = schema.parse(args);
+    return await context.apiClient.searchAuthSchemes(
+      {
+        type: params.type,
+        in: params.in,
+        flow: params.flow,
+        only: params.only,
+        provider: params.provider,
+      },
+      params.page,
+      params.limit,
+      getRequestOptions(context),
+    );
+  },
+};
+
+export default tool;
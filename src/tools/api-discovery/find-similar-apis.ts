@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { ToolDefinition, ToolContext, getRequestOptions } from "../types.js";
+
+export const tool: ToolDefinition = {
+  name: "find_similar_apis",
+  description:
+    "Find alternatives to an API, ranked by similarity of descriptions, categories, tags and endpoint paths. Computed locally; works for custom specs and directory APIs",
+  inputSchema: {
+    type: "object",
+    properties: {
+      api_id: {
+        type: "string",
+        description:
+          'API identifier (e.g., "twilio.com:api", "custom:myapi:v1")',
+      },
+      limit: {
+        type: "number",
+        description: "Number of similar APIs to return (default: 10, max: 50)",
+        default: 10,
+      },
+      include_same_provider: {
+        type: "boolean",
+        description:
+          "Include other APIs from the same provider (default: false)",
+        default: false,
+      },
+    },
+    required: ["api_id"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      api_id: { type: "string" },
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            title: { type: "string" },
+            provider: { type: "string" },
+            score: { type: "number" },
+            reason: { type: "string" },
+          },
+          required: ["id", "title", "provider", "score", "reason"],
+        },
+      },
+      compared_apis: { type: "number" },
+    },
+    required: ["api_id", "results", "compared_apis"],
+  },
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const schema = z.object({
+      api_id: z.string(),
+      limit: z.number().optional().default(10),
+      include_same_provider: z.boolean().optional().default(false),
+    });
+    const params = schema.parse(args);
+    return await context.apiClient.findSimilarAPIs(
+      params.api_id,
+      params.limit,
+      params.include_same_provider,
+      getRequestOptions(context),
+    );
+  },
+};
+
+export default tool;
@@ -8,6 +8,14 @@ export const tool: ToolDefinition = {
     properties: {},
     required: [],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      numSpecs: { type: "number" },
+      numAPIs: { type: "number" },
+      numEndpoints: { type: "number" },
+    },
+  },
   async execute(_args: any, context: ToolContext): Promise<any> {
     return await context.apiClient.getMetrics();
   },
@@ -8,6 +8,13 @@ export const tool: ToolDefinition = {
     properties: {},
     required: [],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      data: { type: "array", items: { type: "string" } },
+    },
+    required: ["data"],
+  },
   async execute(_args: any, context: ToolContext): Promise<any> {
     return await context.apiClient.getProviders();
   },
@@ -1,15 +1,47 @@
-import { ToolDefinition, ToolContext } from "../types.js";
+import { z } from "zod";
+import { ToolDefinition, ToolContext, getRequestOptions } from "../types.js";
+import { BUDGET_PAGINATION_SCHEMA } from "../schemas.js";
+import { ResponseBudget } from "../../utils/response-budget.js";
 
 export const tool: ToolDefinition = {
   name: "list_all_apis",
-  description: "List all APIs in the directory with metadata",
+  description:
+    "List all APIs in the directory with metadata. Large results are split into chunks; pass pagination.next_cursor back as cursor to get the next chunk",
   inputSchema: {
     type: "object",
-    properties: {},
+    properties: {
+      cursor: {
+        type: "string",
+        description: "Continuation cursor returned by a previous call",
+      },
+    },
     required: [],
   },
-  async execute(_args: any, context: ToolContext): Promise<any> {
-    return await context.apiClient.getPaginatedAPIs();
+  outputSchema: {
+    type: "object",
+    properties: {
+      data: {
+        type: "object",
+        description: "APIs keyed by API ID",
+        additionalProperties: { type: "object" },
+      },
+      pagination: BUDGET_PAGINATION_SCHEMA,
+    },
+    required: ["data", "pagination"],
+  },
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const schema = z.object({
+      cursor: z.string().optional(),
+    });
+    const { cursor } = schema.parse(args ?? {});
+    const budget = context.responseBudget ?? ResponseBudget.fromEnv();
+
+    const apis = await context.apiClient.listAPIs(getRequestOptions(context));
+    return budget.paginateRecord(
+      apis ?? {},
+      { tool: "list_all_apis", key: "all_apis" },
+      cursor,
+    );
   },
 };
 
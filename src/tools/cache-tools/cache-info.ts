@@ -8,6 +8,22 @@ export const tool: ToolDefinition = {
     properties: {},
     required: [],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      enabled: { type: "boolean" },
+      config: {
+        type: "object",
+        properties: {
+          enabled: { type: "boolean" },
+          ttlSeconds: { type: "number" },
+          maxKeys: { type: "number" },
+        },
+      },
+      size: { type: "number" },
+    },
+    required: ["enabled", "config", "size"],
+  },
   async execute(_args: any, context: ToolContext): Promise<any> {
     return {
       enabled: context.cacheManager.isEnabled(),
@@ -8,6 +8,16 @@ export const tool: ToolDefinition = {
     properties: {},
     required: [],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      keys: { type: "number" },
+      hits: { type: "number" },
+      misses: { type: "number" },
+      ksize: { type: "number" },
+      vsize: { type: "number" },
+    },
+  },
   async execute(_args: any, context: ToolContext): Promise<any> {
     return await context.cacheManager.getStats();
   },
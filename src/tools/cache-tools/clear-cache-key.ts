@@ -14,6 +14,15 @@ export const tool: ToolDefinition = {
     },
     required: ["key"],
   },
+  mutating: true,
+  outputSchema: {
+    type: "object",
+    properties: {
+      message: { type: "string" },
+      deleted: { type: "number" },
+    },
+    required: ["message", "deleted"],
+  },
   async execute(args: any, context: ToolContext): Promise<any> {
     const schema = z.object({
       key: z.string(),
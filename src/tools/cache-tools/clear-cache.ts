@@ -8,6 +8,15 @@ export const tool: ToolDefinition = {
     properties: {},
     required: [],
   },
+  mutating: true,
+  outputSchema: {
+    type: "object",
+    properties: {
+      message: { type: "string" },
+      cleared: { type: "number" },
+    },
+    required: ["message", "cleared"],
+  },
   async execute(_args: any, context: ToolContext): Promise<any> {
     const keysBefore = context.cacheManager.keys().length;
     context.cacheManager.clear();
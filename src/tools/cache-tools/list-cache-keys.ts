@@ -8,6 +8,14 @@ export const tool: ToolDefinition = {
     properties: {},
     required: [],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      keys: { type: "array", items: { type: "string" } },
+      total: { type: "number" },
+    },
+    required: ["keys", "total"],
+  },
   async execute(_args: any, context: ToolContext): Promise<any> {
     return {
       keys: context.cacheManager.keys(),
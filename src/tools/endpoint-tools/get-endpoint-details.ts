@@ -1,9 +1,11 @@
 import { z } from "zod";
 import { ToolDefinition, ToolContext } from "../types.js";
+import { ENDPOINT_IDENTITY_PROPERTIES } from "../schemas.js";
 
 export const tool: ToolDefinition = {
   name: "get_endpoint_details",
-  description: "Get detailed information about a specific API endpoint",
+  description:
+    "Get detailed information about a specific API endpoint, including the links from each response to follow-up operations",
   inputSchema: {
     type: "object",
     properties: {
@@ -12,6 +14,11 @@ export const tool: ToolDefinition = {
         description:
           'API identifier (e.g., "googleapis.com:admin", "github.com")',
       },
+      version: {
+        type: "string",
+        description:
+          'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+      },
       method: {
         type: "string",
         description: "HTTP method (GET, POST, PUT, PATCH, DELETE, etc.)",
@@ -23,9 +30,27 @@ export const tool: ToolDefinition = {
     },
     required: ["api_id", "method", "path"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      ...ENDPOINT_IDENTITY_PROPERTIES,
+      summary: { type: "string" },
+      description: { type: "string" },
+      operationId: { type: "string" },
+      tags: { type: "array", items: { type: "string" } },
+      deprecated: { type: "boolean" },
+      parameters: { type: "array", items: { type: "object" } },
+      responses: { type: "array", items: { type: "object" } },
+      consumes: { type: "array", items: { type: "string" } },
+      produces: { type: "array", items: { type: "string" } },
+      security: { type: "array", items: { type: "object" } },
+    },
+    required: ["method", "path"],
+  },
   async execute(args: any, context: ToolContext): Promise<any> {
     const schema = z.object({
       api_id: z.string(),
+      version: z.string().optional(),
       method: z.string(),
       path: z.string(),
     });
@@ -34,6 +59,7 @@ export const tool: ToolDefinition = {
       params.api_id,
       params.method,
       params.path,
+      params.version,
     );
   },
 };
@@ -1,9 +1,11 @@
 import { z } from "zod";
 import { ToolDefinition, ToolContext } from "../types.js";
+import { ENDPOINT_IDENTITY_PROPERTIES } from "../schemas.js";
 
 export const tool: ToolDefinition = {
   name: "get_endpoint_schema",
-  description: "Get request and response schemas for a specific API endpoint",
+  description:
+    "Get request and response schemas for a specific API endpoint: every request media type with its encoding, and every response, including default and 4XX-style ranges, with its headers",
   inputSchema: {
     type: "object",
     properties: {
@@ -12,6 +14,11 @@ export const tool: ToolDefinition = {
         description:
           'API identifier (e.g., "googleapis.com:admin", "github.com")',
       },
+      version: {
+        type: "string",
+        description:
+          'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+      },
       method: {
         type: "string",
         description: "HTTP method (GET, POST, PUT, PATCH, DELETE, etc.)",
@@ -20,20 +27,48 @@ export const tool: ToolDefinition = {
         type: "string",
         description: 'API endpoint path (e.g., "/users/{id}", "/posts")',
       },
+      resolve_refs: {
+        type: "string",
+        enum: ["none", "shallow", "deep"],
+        description:
+          "Inline $ref schemas in the request body, parameters, responses and response headers: none (default), shallow (one level) or deep (up to max_depth). Circular references are marked with x-circular-ref and allOf members are merged",
+        default: "none",
+      },
+      max_depth: {
+        type: "number",
+        description:
+          "Nested references to inline when resolve_refs is deep (default: 10, max: 20)",
+        default: 10,
+      },
     },
     required: ["api_id", "method", "path"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      ...ENDPOINT_IDENTITY_PROPERTIES,
+      request_body: { type: "object" },
+      parameters: { type: "array", items: { type: "object" } },
+      responses: { type: "array", items: { type: "object" } },
+    },
+    required: ["method", "path"],
+  },
   async execute(args: any, context: ToolContext): Promise<any> {
     const schema = z.object({
       api_id: z.string(),
+      version: z.string().optional(),
       method: z.string(),
       path: z.string(),
+      resolve_refs: z.enum(["none", "shallow", "deep"]).optional(),
+      max_depth: z.number().int().positive().optional(),
     });
     const params = schema.parse(args);
     return await context.apiClient.getEndpointSchema(
       params.api_id,
       params.method,
       params.path,
+      { resolveRefs: params.resolve_refs, maxDepth: params.max_depth },
+      params.version,
     );
   },
 };
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { ToolDefinition, ToolContext } from "../types.js";
+import { ENDPOINT_IDENTITY_PROPERTIES } from "../schemas.js";
+
+export const tool: ToolDefinition = {
+  name: "get_endpoint_snippet",
+  description:
+    "Generate a runnable request for a specific API endpoint in curl, JavaScript fetch, Python requests or HTTPie, with the server URL, parameters, Content-Type, body and auth headers filled in. Values the spec does not provide are left as <PLACEHOLDER>s",
+  inputSchema: {
+    type: "object",
+    properties: {
+      api_id: {
+        type: "string",
+        description:
+          'API identifier (e.g., "googleapis.com:admin", "github.com")',
+      },
+      version: {
+        type: "string",
+        description:
+          'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+      },
+      method: {
+        type: "string",
+        description: "HTTP method (GET, POST, PUT, PATCH, DELETE, etc.)",
+      },
+      path: {
+        type: "string",
+        description: 'API endpoint path (e.g., "/users/{id}", "/posts")',
+      },
+      language: {
+        type: "string",
+        enum: ["curl", "fetch", "python", "httpie"],
+        description:
+          "Snippet target: curl, JavaScript fetch, Python requests or HTTPie (default: curl)",
+        default: "curl",
+      },
+    },
+    required: ["api_id", "method", "path"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      ...ENDPOINT_IDENTITY_PROPERTIES,
+      language: { type: "string" },
+      url: { type: "string" },
+      content_type: { type: "string" },
+      snippet: { type: "string" },
+      placeholders: { type: "array", items: { type: "string" } },
+    },
+    required: ["method", "path", "language", "url", "snippet", "placeholders"],
+  },
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const schema = z.object({
+      api_id: z.string(),
+      version: z.string().optional(),
+      method: z.string(),
+      path: z.string(),
+      language: z.enum(["curl", "fetch", "python", "httpie"]).optional(),
+    });
+    const params = schema.parse(args);
+    return await context.apiClient.getEndpointSnippet(
+      params.api_id,
+      params.method,
+      params.path,
+      params.language,
+      params.version,
+    );
+  },
+};
+
+export default tool;
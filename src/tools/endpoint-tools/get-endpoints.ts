@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { ToolDefinition, ToolContext } from "../types.js";
+import { PAGINATION_SCHEMA, ENDPOINT_IDENTITY_PROPERTIES } from "../schemas.js";
 
 export const tool: ToolDefinition = {
   name: "get_endpoints",
@@ -13,6 +14,11 @@ export const tool: ToolDefinition = {
         description:
           'API identifier (e.g., "googleapis.com:admin", "github.com")',
       },
+      version: {
+        type: "string",
+        description:
+          'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+      },
       page: {
         type: "number",
         description: "Page number (default: 1)",
@@ -31,9 +37,32 @@ export const tool: ToolDefinition = {
     },
     required: ["api_id"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            ...ENDPOINT_IDENTITY_PROPERTIES,
+            summary: { type: "string" },
+            operationId: { type: "string" },
+            tags: { type: "array", items: { type: "string" } },
+            deprecated: { type: "boolean" },
+          },
+          required: ["method", "path"],
+        },
+      },
+      pagination: PAGINATION_SCHEMA,
+      available_tags: { type: "array", items: { type: "string" } },
+    },
+    required: ["results", "pagination"],
+  },
   async execute(args: any, context: ToolContext): Promise<any> {
     const schema = z.object({
       api_id: z.string(),
+      version: z.string().optional(),
       page: z.number().optional().default(1),
       limit: z.number().optional().default(30),
       tag: z.string().optional(),
@@ -44,6 +73,7 @@ export const tool: ToolDefinition = {
       params.page,
       params.limit,
       params.tag,
+      params.version,
     );
   },
 };
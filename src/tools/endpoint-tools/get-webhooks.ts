@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { ToolDefinition, ToolContext } from "../types.js";
+
+export const tool: ToolDefinition = {
+  name: "get_webhooks",
+  description:
+    "List the webhooks (OpenAPI 3.1) and operation callbacks (OpenAPI 3.0) an API sends, with their payload schemas. Each callback names the operation that registers it and its URL expression",
+  inputSchema: {
+    type: "object",
+    properties: {
+      api_id: {
+        type: "string",
+        description:
+          'API identifier (e.g., "googleapis.com:admin", "github.com")',
+      },
+      version: {
+        type: "string",
+        description:
+          'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+      },
+      resolve_refs: {
+        type: "string",
+        enum: ["none", "shallow", "deep"],
+        description:
+          "Inline $ref schemas in the payloads: none (default), shallow (one level) or deep (up to max_depth)",
+        default: "none",
+      },
+      max_depth: {
+        type: "number",
+        description:
+          "Nested references to inline when resolve_refs is deep (default: 10, max: 20)",
+        default: 10,
+      },
+    },
+    required: ["api_id"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      webhooks: { type: "array", items: { type: "object" } },
+      callbacks: { type: "array", items: { type: "object" } },
+    },
+    required: ["webhooks", "callbacks"],
+  },
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const schema = z.object({
+      api_id: z.string(),
+      version: z.string().optional(),
+      resolve_refs: z.enum(["none", "shallow", "deep"]).optional(),
+      max_depth: z.number().int().positive().optional(),
+    });
+    const params = schema.parse(args);
+    return await context.apiClient.getWebhooks(
+      params.api_id,
+      { resolveRefs: params.resolve_refs, maxDepth: params.max_depth },
+      params.version,
+    );
+  },
+};
+
+export default tool;
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { ToolDefinition, ToolContext, getRequestOptions } from "../types.js";
+import { PAGINATION_SCHEMA, ENDPOINT_IDENTITY_PROPERTIES } from "../schemas.js";
+
+export const tool: ToolDefinition = {
+  name: "search_endpoints",
+  description:
+    "Search endpoints across all loaded API specs by summary, description, operationId, path and tags. Covers custom specs and every spec already fetched (e.g. via get_endpoints)",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: 'Search query (e.g., "upload file", "payments")',
+      },
+      method: {
+        type: "string",
+        description: "Optional HTTP method filter (GET, POST, PUT, etc.)",
+      },
+      provider: {
+        type: "string",
+        description: "Optional provider filter",
+      },
+      page: {
+        type: "number",
+        description: "Page number (default: 1)",
+        default: 1,
+      },
+      limit: {
+        type: "number",
+        description: "Number of results per page (default: 20, max: 50)",
+        default: 20,
+      },
+    },
+    required: ["query"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            api_id: { type: "string" },
+            ...ENDPOINT_IDENTITY_PROPERTIES,
+            summary: { type: "string" },
+          },
+          required: ["api_id", "method", "path"],
+        },
+      },
+      pagination: PAGINATION_SCHEMA,
+      indexed_apis: { type: "number" },
+    },
+    required: ["results", "pagination", "indexed_apis"],
+  },
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const schema = z.object({
+      query: z.string(),
+      method: z.string().optional(),
+      provider: z.string().optional(),
+      page: z.number().optional().default(1),
+      limit: z.number().optional().default(20),
+    });
+    const params = schema.parse(args);
+    return await context.apiClient.searchEndpoints(
+      params.query,
+      { method: params.method, provider: params.provider },
+      params.page,
+      params.limit,
+      getRequestOptions(context),
+    );
+  },
+};
+
+export default tool;
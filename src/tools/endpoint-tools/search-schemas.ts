@@ -0,0 +1,105 @@
+import { z } from "zod";
+import { ToolDefinition, ToolContext, getRequestOptions } from "../types.js";
+import { PAGINATION_SCHEMA } from "../schemas.js";
+
+export const tool: ToolDefinition = {
+  name: "search_schemas",
+  description:
+    "Search schema fields across all loaded API specs by property name, format and enum values. Returns schema paths with the endpoints that reference them. Covers custom specs and every spec already fetched",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description:
+          'Field, schema or enum value to search for (e.g., "iban", "vat_number", "order id")',
+      },
+      format: {
+        type: "string",
+        description:
+          'Optional format filter (e.g., "uuid", "date-time", "email")',
+      },
+      type: {
+        type: "string",
+        description: 'Optional type filter (e.g., "string", "integer")',
+      },
+      provider: {
+        type: "string",
+        description: "Optional provider filter",
+      },
+      page: {
+        type: "number",
+        description: "Page number (default: 1)",
+        default: 1,
+      },
+      limit: {
+        type: "number",
+        description: "Number of results per page (default: 20, max: 50)",
+        default: 20,
+      },
+    },
+    required: [],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            api_id: { type: "string" },
+            schema: { type: "string" },
+            field: { type: "string" },
+            schema_path: { type: "string" },
+            type: { type: "string" },
+            format: { type: "string" },
+            enum: { type: "array", items: { type: "string" } },
+            endpoints: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  method: { type: "string" },
+                  path: { type: "string" },
+                },
+                required: ["method", "path"],
+              },
+            },
+            endpoint_count: { type: "number" },
+          },
+          required: [
+            "api_id",
+            "schema",
+            "schema_path",
+            "endpoints",
+            "endpoint_count",
+          ],
+        },
+      },
+      pagination: PAGINATION_SCHEMA,
+      indexed_apis: { type: "number" },
+    },
+    required: ["results", "pagination", "indexed_apis"],
+  },
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const schema = z.object({
+      query: z.string().optional().default(""),
+      format: z.string().optional(),
+      type: z.string().optional(),
+      provider: z.string().optional(),
+      page: z.number().optional().default(1),
+      limit: z.number().optional().default(20),
+    });
+    const params = schema.parse(args);
+    return await context.apiClient.searchSchemas(
+      params.query,
+      { format: params.format, type: params.type, provider: params.provider },
+      params.page,
+      params.limit,
+      getRequestOptions(context),
+    );
+  },
+};
+
+export default tool;
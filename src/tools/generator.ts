@@ -200,6 +200,11 @@ export class ToolGenerator {
               description:
                 'API identifier (e.g., "googleapis.com:admin", "github.com")',
             },
+            version: {
+              type: "string",
+              description:
+                'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+            },
           },
           required: ["api_id"],
         },
@@ -216,6 +221,11 @@ export class ToolGenerator {
               description:
                 'API identifier (e.g., "googleapis.com:admin", "github.com")',
             },
+            version: {
+              type: "string",
+              description:
+                'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+            },
             page: {
               type: "number",
               description: "Page number (default: 1)",
@@ -238,7 +248,8 @@ export class ToolGenerator {
       },
       {
         name: "get_endpoint_details",
-        description: "Get detailed information about a specific API endpoint",
+        description:
+          "Get detailed information about a specific API endpoint, including the links from each response to follow-up operations",
         inputSchema: {
           type: "object",
           properties: {
@@ -247,6 +258,11 @@ export class ToolGenerator {
               description:
                 'API identifier (e.g., "googleapis.com:admin", "github.com")',
             },
+            version: {
+              type: "string",
+              description:
+                'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+            },
             method: {
               type: "string",
               description: "HTTP method (GET, POST, PUT, PATCH, DELETE, etc.)",
@@ -262,7 +278,7 @@ export class ToolGenerator {
       {
         name: "get_endpoint_schema",
         description:
-          "Get request and response schemas for a specific API endpoint",
+          "Get request and response schemas for a specific API endpoint: every request media type with its encoding, and every response, including default and 4XX-style ranges, with its headers",
         inputSchema: {
           type: "object",
           properties: {
@@ -271,6 +287,11 @@ export class ToolGenerator {
               description:
                 'API identifier (e.g., "googleapis.com:admin", "github.com")',
             },
+            version: {
+              type: "string",
+              description:
+                'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+            },
             method: {
               type: "string",
               description: "HTTP method (GET, POST, PUT, PATCH, DELETE, etc.)",
@@ -279,6 +300,19 @@ export class ToolGenerator {
               type: "string",
               description: 'API endpoint path (e.g., "/users/{id}", "/posts")',
             },
+            resolve_refs: {
+              type: "string",
+              enum: ["none", "shallow", "deep"],
+              description:
+                "Inline $ref schemas in the request body, parameters, responses and response headers: none (default), shallow (one level) or deep (up to max_depth). Circular references are marked with x-circular-ref and allOf members are merged",
+              default: "none",
+            },
+            max_depth: {
+              type: "number",
+              description:
+                "Nested references to inline when resolve_refs is deep (default: 10, max: 20)",
+              default: 10,
+            },
           },
           required: ["api_id", "method", "path"],
         },
@@ -286,7 +320,7 @@ export class ToolGenerator {
       {
         name: "get_endpoint_examples",
         description:
-          "Get request and response examples for a specific API endpoint",
+          "Get request and response examples for a specific API endpoint. Examples missing from the spec are generated from its schemas and marked synthetic: true",
         inputSchema: {
           type: "object",
           properties: {
@@ -295,6 +329,40 @@ export class ToolGenerator {
               description:
                 'API identifier (e.g., "googleapis.com:admin", "github.com")',
             },
+            version: {
+              type: "string",
+              description:
+                'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+            },
+            method: {
+              type: "string",
+              description: "HTTP method (GET, POST, PUT, PATCH, DELETE, etc.)",
+            },
+            path: {
+              type: "string",
+              description: 'API endpoint path (e.g., "/users/{id}", "/posts")',
+            },
+          },
+          required: ["api_id", "method", "path"],
+        },
+      },
+      {
+        name: "get_endpoint_snippet",
+        description:
+          "Generate a runnable request for a specific API endpoint in curl, JavaScript fetch, Python requests or HTTPie, with the server URL, parameters, Content-Type, body and auth headers filled in. Values the spec does not provide are left as <PLACEHOLDER>s",
+        inputSchema: {
+          type: "object",
+          properties: {
+            api_id: {
+              type: "string",
+              description:
+                'API identifier (e.g., "googleapis.com:admin", "github.com")',
+            },
+            version: {
+              type: "string",
+              description:
+                'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+            },
             method: {
               type: "string",
               description: "HTTP method (GET, POST, PUT, PATCH, DELETE, etc.)",
@@ -303,10 +371,210 @@ export class ToolGenerator {
               type: "string",
               description: 'API endpoint path (e.g., "/users/{id}", "/posts")',
             },
+            language: {
+              type: "string",
+              enum: ["curl", "fetch", "python", "httpie"],
+              description:
+                "Snippet target: curl, JavaScript fetch, Python requests or HTTPie (default: curl)",
+              default: "curl",
+            },
           },
           required: ["api_id", "method", "path"],
         },
       },
+      {
+        name: "get_webhooks",
+        description:
+          "List the webhooks (OpenAPI 3.1) and operation callbacks (OpenAPI 3.0) an API sends, with their payload schemas. Each callback names the operation that registers it and its URL expression",
+        inputSchema: {
+          type: "object",
+          properties: {
+            api_id: {
+              type: "string",
+              description:
+                'API identifier (e.g., "googleapis.com:admin", "github.com")',
+            },
+            version: {
+              type: "string",
+              description:
+                'API version to use (e.g., "v1", "2.0-beta"); defaults to the preferred version',
+            },
+            resolve_refs: {
+              type: "string",
+              enum: ["none", "shallow", "deep"],
+              description:
+                "Inline $ref schemas in the payloads: none (default), shallow (one level) or deep (up to max_depth)",
+              default: "none",
+            },
+            max_depth: {
+              type: "number",
+              description:
+                "Nested references to inline when resolve_refs is deep (default: 10, max: 20)",
+              default: 10,
+            },
+          },
+          required: ["api_id"],
+        },
+      },
+      {
+        name: "search_endpoints",
+        description:
+          "Search endpoints across all loaded API specs by summary, description, operationId, path and tags. Covers custom specs and every spec already fetched (e.g. via get_endpoints)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: {
+              type: "string",
+              description: 'Search query (e.g., "upload file", "payments")',
+            },
+            method: {
+              type: "string",
+              description: "Optional HTTP method filter (GET, POST, PUT, etc.)",
+            },
+            provider: {
+              type: "string",
+              description: "Optional provider filter",
+            },
+            page: {
+              type: "number",
+              description: "Page number (default: 1)",
+              default: 1,
+            },
+            limit: {
+              type: "number",
+              description: "Number of results per page (default: 20, max: 50)",
+              default: 20,
+            },
+          },
+          required: ["query"],
+        },
+      },
+      {
+        name: "search_schemas",
+        description:
+          "Search schema fields across all loaded API specs by property name, format and enum values. Returns schema paths with the endpoints that reference them. Covers custom specs and every spec already fetched",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: {
+              type: "string",
+              description:
+                'Field, schema or enum value to search for (e.g., "iban", "vat_number", "order id")',
+            },
+            format: {
+              type: "string",
+              description:
+                'Optional format filter (e.g., "uuid", "date-time", "email")',
+            },
+            type: {
+              type: "string",
+              description: 'Optional type filter (e.g., "string", "integer")',
+            },
+            provider: {
+              type: "string",
+              description: "Optional provider filter",
+            },
+            page: {
+              type: "number",
+              description: "Page number (default: 1)",
+              default: 1,
+            },
+            limit: {
+              type: "number",
+              description: "Number of results per page (default: 20, max: 50)",
+              default: 20,
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "find_similar_apis",
+        description:
+          "Find alternatives to an API, ranked by similarity of descriptions, categories, tags and endpoint paths. Computed locally; works for custom specs and directory APIs",
+        inputSchema: {
+          type: "object",
+          properties: {
+            api_id: {
+              type: "string",
+              description:
+                'API identifier (e.g., "twilio.com:api", "custom:myapi:v1")',
+            },
+            limit: {
+              type: "number",
+              description:
+                "Number of similar APIs to return (default: 10, max: 50)",
+              default: 10,
+            },
+            include_same_provider: {
+              type: "boolean",
+              description:
+                "Include other APIs from the same provider (default: false)",
+              default: false,
+            },
+          },
+          required: ["api_id"],
+        },
+      },
+      {
+        name: "find_apis_by_auth",
+        description:
+          "Find APIs by authentication scheme: type, API key location or OAuth2 flow. Reports the matching APIs' security schemes. Covers custom specs and every spec already fetched",
+        inputSchema: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: [
+                "apikey",
+                "http",
+                "basic",
+                "bearer",
+                "oauth2",
+                "openidconnect",
+              ],
+              description:
+                'Security scheme type; "basic" and "bearer" match HTTP schemes',
+            },
+            in: {
+              type: "string",
+              enum: ["header", "query", "cookie"],
+              description: "API key location",
+            },
+            flow: {
+              type: "string",
+              enum: [
+                "authorization_code",
+                "client_credentials",
+                "implicit",
+                "password",
+              ],
+              description: "OAuth2 flow",
+            },
+            only: {
+              type: "boolean",
+              description:
+                "Only return APIs whose every security scheme matches (default: false)",
+              default: false,
+            },
+            provider: {
+              type: "string",
+              description: "Optional provider filter",
+            },
+            page: {
+              type: "number",
+              description: "Page number (default: 1)",
+              default: 1,
+            },
+            limit: {
+              type: "number",
+              description: "Number of results per page (default: 20, max: 50)",
+              default: 20,
+            },
+          },
+          required: [],
+        },
+      },
     ];
 
     // Add utility tools including cache management tools
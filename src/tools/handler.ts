@@ -1,13 +1,20 @@
-import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ErrorCode, McpError, Tool } from "@modelcontextprotocol/sdk/types.js";
 import { toolLoader, ToolLoader } from "./loader.js";
 import { ToolDefinition, ToolContext, toMcpTool } from "./types.js";
+import { ToolPolicy } from "./policy.js";
+
+export interface ToolHandlerOptions {
+  policy?: ToolPolicy | undefined; // Defaults to allowing every tool
+}
 
 export class ToolHandler {
   private loader: ToolLoader;
   private initialized: boolean = false;
+  private policy: ToolPolicy;
 
-  constructor(loader?: ToolLoader) {
+  constructor(loader?: ToolLoader, options: ToolHandlerOptions = {}) {
     this.loader = loader || toolLoader;
+    this.policy = options.policy ?? new ToolPolicy();
     // Initialize tools asynchronously
     this.initializeTools().catch(console.error);
   }
@@ -30,7 +37,9 @@ export class ToolHandler {
     await this.ensureInitialized();
     const toolDefinitions = await this.loader.loadAllTools();
 
-    const tools: Tool[] = toolDefinitions.map(toMcpTool);
+    const tools: Tool[] = toolDefinitions
+      .filter((tool) => this.policy.isAllowed(tool))
+      .map(toMcpTool);
     return { tools };
   }
 
@@ -45,6 +54,16 @@ export class ToolHandler {
       throw new Error(`Tool not found: ${name}`);
     }
 
+    // Checked before execution so denied tools never run
+    const decision = this.policy.check(tool);
+    if (!decision.allowed) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Tool "${name}" is not allowed: ${decision.reason}`,
+        { tool: name, category: tool.category, reason: decision.reason },
+      );
+    }
+
     try {
       const result = await tool.execute(args, context);
       return result;
@@ -62,7 +81,9 @@ export class ToolHandler {
   async getToolNames(): Promise<string[]> {
     await this.ensureInitialized();
     const tools = await this.loader.loadAllTools();
-    return tools.map((tool) => tool.name);
+    return tools
+      .filter((tool) => this.policy.isAllowed(tool))
+      .map((tool) => tool.name);
   }
 
   /**
@@ -71,7 +92,7 @@ export class ToolHandler {
   async hasTool(name: string): Promise<boolean> {
     await this.ensureInitialized();
     const tool = await this.loader.getTool(name);
-    return tool !== undefined;
+    return tool !== undefined && this.policy.isAllowed(tool);
   }
 
   /**
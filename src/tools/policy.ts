@@ -0,0 +1,80 @@
+import { ToolDefinition } from "./types.js";
+
+export interface ToolPolicyOptions {
+  readOnly?: boolean | undefined; // Hide and refuse tools marked as mutating
+  allow?: string[] | null | undefined; // Tool names; null = no restriction
+  deny?: string[] | undefined;
+  allowCategories?: string[] | null | undefined; // ToolRegistry categories
+  denyCategories?: string[] | undefined;
+}
+
+export type ToolPolicyDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+/**
+ * Decides which tools are listed and callable. Deny rules win over allow
+ * rules; when any allow list is set, a tool must match at least one entry.
+ */
+export class ToolPolicy {
+  private readOnly: boolean;
+  private allow: Set<string> | null;
+  private deny: Set<string>;
+  private allowCategories: Set<string> | null;
+  private denyCategories: Set<string>;
+
+  constructor(options: ToolPolicyOptions = {}) {
+    this.readOnly = options.readOnly ?? false;
+    this.allow = options.allow ? new Set(options.allow) : null;
+    this.deny = new Set(options.deny ?? []);
+    this.allowCategories = options.allowCategories
+      ? new Set(options.allowCategories)
+      : null;
+    this.denyCategories = new Set(options.denyCategories ?? []);
+  }
+
+  /**
+   * Check whether a tool may be listed and called
+   */
+  check(tool: ToolDefinition): ToolPolicyDecision {
+    if (this.readOnly && tool.mutating) {
+      return {
+        allowed: false,
+        reason: "the server is in read-only mode and this tool modifies state",
+      };
+    }
+
+    if (this.deny.has(tool.name)) {
+      return { allowed: false, reason: "the tool is on the deny list" };
+    }
+
+    if (tool.category && this.denyCategories.has(tool.category)) {
+      return {
+        allowed: false,
+        reason: `the "${tool.category}" category is on the deny list`,
+      };
+    }
+
+    if (this.allow === null && this.allowCategories === null) {
+      return { allowed: true };
+    }
+
+    const allowedByName = this.allow?.has(tool.name) ?? false;
+    const allowedByCategory =
+      tool.category !== undefined &&
+      (this.allowCategories?.has(tool.category) ?? false);
+
+    if (!allowedByName && !allowedByCategory) {
+      return {
+        allowed: false,
+        reason: "the tool is not on the allow list",
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  isAllowed(tool: ToolDefinition): boolean {
+    return this.check(tool).allowed;
+  }
+}
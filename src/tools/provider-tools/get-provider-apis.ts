@@ -1,9 +1,11 @@
 import { z } from "zod";
 import { ToolDefinition, ToolContext } from "../types.js";
+import { ResponseBudget } from "../../utils/response-budget.js";
 
 export const tool: ToolDefinition = {
   name: "get_provider_apis",
-  description: "List all APIs for a specific provider",
+  description:
+    "List all APIs for a specific provider. Results over the response budget are split into chunks with a continuation cursor",
   inputSchema: {
     type: "object",
     properties: {
@@ -11,15 +13,30 @@ export const tool: ToolDefinition = {
         type: "string",
         description: 'Provider name (e.g., "googleapis.com", "azure.com")',
       },
+      cursor: {
+        type: "string",
+        description: "Continuation cursor returned by a previous call",
+      },
     },
     required: ["provider"],
   },
   async execute(args: any, context: ToolContext): Promise<any> {
     const providerSchema = z.object({
       provider: z.string(),
+      cursor: z.string().optional(),
     });
-    const { provider } = providerSchema.parse(args);
-    return await context.apiClient.getProvider(provider);
+    const { provider, cursor } = providerSchema.parse(args);
+    const budget = context.responseBudget ?? ResponseBudget.fromEnv();
+
+    const apis = await context.apiClient.getProvider(provider);
+    if (!apis || (!cursor && budget.fits(apis))) {
+      return apis;
+    }
+    return budget.paginateRecord(
+      apis,
+      { tool: "get_provider_apis", key: provider },
+      cursor,
+    );
   },
 };
 
@@ -0,0 +1,53 @@
+/**
+ * Shared JSON Schema fragments for tool output schemas
+ */
+
+export const PAGINATION_SCHEMA = {
+  type: "object",
+  properties: {
+    page: { type: "number" },
+    limit: { type: "number" },
+    total_results: { type: "number" },
+    total_pages: { type: "number" },
+    has_next: { type: "boolean" },
+    has_previous: { type: "boolean" },
+  },
+  required: [
+    "page",
+    "limit",
+    "total_results",
+    "total_pages",
+    "has_next",
+    "has_previous",
+  ],
+};
+
+export const API_LIST_ITEM_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    title: { type: "string" },
+    description: { type: "string" },
+    provider: { type: "string" },
+    preferred: { type: "string" },
+    categories: { type: "array", items: { type: "string" } },
+  },
+  required: ["id"],
+};
+
+export const ENDPOINT_IDENTITY_PROPERTIES = {
+  method: { type: "string" },
+  path: { type: "string" },
+};
+
+export const BUDGET_PAGINATION_SCHEMA = {
+  type: "object",
+  properties: {
+    offset: { type: "number" },
+    returned_items: { type: "number" },
+    total_items: { type: "number" },
+    has_more: { type: "boolean" },
+    next_cursor: { type: "string" },
+  },
+  required: ["offset", "returned_items", "total_items", "has_more"],
+};
@@ -1,17 +1,24 @@
-import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
 import { DualSourceApiClient } from "../api/dual-source-client.js";
 import { ICacheManager } from "../cache/types.js";
+import { ResponseBudget } from "../utils/response-budget.js";
+import { ProgressCallback, RequestOptions } from "../utils/progress.js";
 
 export interface ToolContext {
   apiClient: DualSourceApiClient;
   cacheManager: ICacheManager;
+  responseBudget?: ResponseBudget;
+  signal?: AbortSignal;
+  onProgress?: ProgressCallback;
 }
 
 export interface ToolDefinition {
   name: string;
   description: string;
   inputSchema: any; // JSON Schema object
+  outputSchema?: any; // JSON Schema object describing structuredContent
   category?: string;
+  mutating?: boolean; // Modifies server state; hidden in read-only mode
   execute(args: any, context: ToolContext): Promise<any>;
 }
 
@@ -20,11 +27,45 @@ export interface ToolCategory {
   tools: ToolDefinition[];
 }
 
+// Cancellation signal and progress callback for API client calls
+export function getRequestOptions(context: ToolContext): RequestOptions {
+  return { signal: context.signal, onProgress: context.onProgress };
+}
+
 // Convert ToolDefinition to MCP Tool format
 export function toMcpTool(toolDef: ToolDefinition): Tool {
-  return {
+  const tool: Tool = {
     name: toolDef.name,
     description: toolDef.description,
     inputSchema: toolDef.inputSchema,
   };
+  if (toolDef.outputSchema) {
+    tool.outputSchema = toolDef.outputSchema;
+  }
+  return tool;
+}
+
+// Convert a tool execution result to an MCP tool call result. Tools that
+// declare an outputSchema also return the result as structuredContent.
+export function toCallToolResult(
+  toolDef: ToolDefinition,
+  result: unknown,
+): CallToolResult {
+  const callResult: CallToolResult = {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(result ?? null),
+      },
+    ],
+  };
+  if (
+    toolDef.outputSchema &&
+    result !== null &&
+    typeof result === "object" &&
+    !Array.isArray(result)
+  ) {
+    callResult.structuredContent = result as Record<string, unknown>;
+  }
+  return callResult;
 }
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { ToolDefinition, ToolContext } from "../types.js";
+import { ToolDefinition, ToolContext, getRequestOptions } from "../types.js";
 
 export const tool: ToolDefinition = {
   name: "analyze_api_categories",
@@ -14,13 +14,33 @@ export const tool: ToolDefinition = {
     },
     required: [],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      totalAPIs: { type: "number" },
+      categories: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            category: { type: "string" },
+            count: { type: "number" },
+          },
+          required: ["category", "count"],
+        },
+      },
+    },
+    required: ["totalAPIs", "categories"],
+  },
   async execute(args: any, context: ToolContext): Promise<any> {
     const schema = z.object({
       provider: z.string().optional(),
     });
     const params = schema.parse(args);
 
-    const allAPIs = await context.apiClient.listAPIs();
+    const allAPIs = await context.apiClient.listAPIs(
+      getRequestOptions(context),
+    );
     const categories: Record<string, number> = {};
 
     for (const [apiId, api] of Object.entries(allAPIs)) {
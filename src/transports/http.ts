@@ -0,0 +1,255 @@
+/**
+ * Streamable HTTP transport host for the MCP server
+ * Serves one MCP session per client while sharing the server's API client and cache
+ */
+
+import { randomUUID } from "crypto";
+import http, { IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  isInitializeRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { Logger } from "../utils/logger.js";
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  path: string;
+}
+
+export interface ServerStartOptions {
+  transport: "stdio" | "http";
+  http?: Partial<HttpTransportOptions>;
+}
+
+export const DEFAULT_HTTP_OPTIONS: HttpTransportOptions = {
+  port: 3000,
+  host: "127.0.0.1",
+  path: "/mcp",
+};
+
+/**
+ * Maximum accepted JSON-RPC request body size (4MB)
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+}
+
+export class HttpTransportHost {
+  private httpServer: http.Server | null = null;
+  private sessions: Map<string, HttpSession> = new Map();
+  private options: HttpTransportOptions;
+
+  /**
+   * @param createServer Factory returning a fresh MCP server for each session.
+   *   All servers it returns are expected to share the same backing clients.
+   */
+  constructor(
+    private createServer: () => Server,
+    options: Partial<HttpTransportOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_HTTP_OPTIONS, ...options };
+  }
+
+  /**
+   * Start listening for MCP requests
+   */
+  async start(): Promise<AddressInfo> {
+    const httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        Logger.error("HTTP transport request failed", error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(
+            res,
+            500,
+            ErrorCode.InternalError,
+            "Internal server error",
+          );
+        }
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    });
+
+    const address = httpServer.address() as AddressInfo;
+    Logger.info(
+      `MCP Streamable HTTP transport listening on http://${address.address}:${address.port}${this.options.path}`,
+    );
+    return address;
+  }
+
+  /**
+   * Close every open session and stop the HTTP listener
+   */
+  async close(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.all(sessions.map((session) => session.server.close()));
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (httpServer) {
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Number of currently open MCP sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== this.options.path) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const sessionIdHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionIdHeader)
+      ? sessionIdHeader[0]
+      : sessionIdHeader;
+
+    if (req.method === "POST") {
+      const body = await this.readJsonBody(req, res);
+      if (body === undefined) {
+        return;
+      }
+
+      if (sessionId) {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+          this.sendJsonRpcError(
+            res,
+            404,
+            ErrorCode.ConnectionClosed,
+            `Unknown session: ${sessionId}`,
+          );
+          return;
+        }
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (!isInitializeRequest(body)) {
+        this.sendJsonRpcError(
+          res,
+          400,
+          ErrorCode.InvalidRequest,
+          "Bad Request: missing session ID",
+        );
+        return;
+      }
+
+      const session = await this.openSession();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      const session = sessionId ? this.sessions.get(sessionId) : undefined;
+      if (!session) {
+        this.sendJsonRpcError(
+          res,
+          sessionId ? 404 : 400,
+          sessionId ? ErrorCode.ConnectionClosed : ErrorCode.InvalidRequest,
+          sessionId
+            ? `Unknown session: ${sessionId}`
+            : "Bad Request: missing session ID",
+        );
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+  }
+
+  private async openSession(): Promise<HttpSession> {
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { server, transport });
+        Logger.debug(`HTTP session opened: ${id}`);
+      },
+      onsessionclosed: (id) => {
+        this.sessions.delete(id);
+        Logger.debug(`HTTP session closed: ${id}`);
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    // The SDK declares optional callbacks without `| undefined`, which
+    // exactOptionalPropertyTypes rejects for the concrete transport class
+    await server.connect(transport as Transport);
+    return { server, transport };
+  }
+
+  private async readJsonBody(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<unknown | undefined> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        this.sendJsonRpcError(
+          res,
+          413,
+          ErrorCode.InvalidRequest,
+          "Request body too large",
+        );
+        return undefined;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    } catch {
+      this.sendJsonRpcError(res, 400, ErrorCode.ParseError, "Parse error");
+      return undefined;
+    }
+  }
+
+  private sendJsonRpcError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string,
+  ): void {
+    res
+      .writeHead(status, { "Content-Type": "application/json" })
+      .end(
+        JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }),
+      );
+  }
+}
@@ -50,6 +50,18 @@ export const PAGINATION = {
   CHUNKED_FETCH_SIZE: 100, // Chunk size for large fetches
 } as const;
 
+export const RESPONSE_BUDGET = {
+  // Maximum serialized size of a single tool response
+  DEFAULT_MAX_BYTES: 100 * 1024, // ~25k tokens
+  MIN_BYTES: 1024,
+
+  // Rough conversion used when the budget is configured in tokens
+  BYTES_PER_TOKEN: 4,
+
+  // Space kept free for the pagination envelope around each chunk
+  ENVELOPE_RESERVE_BYTES: 512,
+} as const;
+
 export const CACHE_LIMITS = {
   // Cache size limits
   MAX_KEYS: 1000,
@@ -81,6 +93,7 @@ export const ERROR_CODES = {
   SPEC_PARSE_ERROR: "SPEC_PARSE_ERROR",
   AUTH_ERROR: "AUTH_ERROR",
   SERVER_ERROR: "SERVER_ERROR",
+  CANCELLED_ERROR: "CANCELLED_ERROR",
   UNKNOWN_ERROR: "UNKNOWN_ERROR",
 } as const;
 
@@ -108,3 +121,36 @@ export const VALIDATION = {
   MAX_PATH_LENGTH: 4096,
   ALLOWED_PATH_CHARS: /^[a-zA-Z0-9._\-/\\:]+$/,
 } as const;
+
+export const SEARCH_FILTERS = {
+  // Keys accepted in `key:value` search terms
+  FIELDS: ["category", "provider", "openapi", "updated", "source", "auth"],
+  SOURCES: ["primary", "secondary", "custom"],
+  // Lowercase security scheme types; basic and bearer are HTTP schemes
+  AUTH_TYPES: ["apikey", "basic", "bearer", "http", "oauth2", "openidconnect"],
+  // Details accepted as auth:apikey:<location> and auth:oauth2:<flow>
+  AUTH_LOCATIONS: ["header", "query", "cookie"],
+  OAUTH_FLOWS: [
+    "authorization_code",
+    "client_credentials",
+    "implicit",
+    "password",
+  ],
+} as const;
+
+export const REF_RESOLUTION = {
+  // none returns schemas as written; shallow inlines one level of $ref
+  MODES: ["none", "shallow", "deep"],
+  // Nested references inlined in deep mode
+  DEFAULT_MAX_DEPTH: 10,
+  MAX_DEPTH: 20,
+  // References inlined into one schema, copies of repeated targets
+  // included, before the rest are left in place
+  MAX_INLINED_REFS: 200,
+} as const;
+
+export const SNIPPETS = {
+  // curl, JavaScript fetch, Python requests and HTTPie
+  LANGUAGES: ["curl", "fetch", "python", "httpie"],
+  DEFAULT_LANGUAGE: "curl",
+} as const;
@@ -0,0 +1,142 @@
+/**
+ * Request and response schemas of an operation, in the shape every source
+ * returns from getEndpointSchema
+ */
+
+import { RefResolver } from "./ref-resolver.js";
+
+export interface EndpointSchema {
+  method: string;
+  path: string;
+  request_body?: {
+    content_type: string; // First media type with a schema
+    schema: any;
+    required: boolean;
+    description?: string;
+    media_types: Array<{
+      content_type: string;
+      schema?: any;
+      encoding?: Record<string, any>;
+    }>;
+  };
+  parameters: Array<{
+    name: string;
+    in: string;
+    required: boolean;
+    schema: any;
+  }>;
+  responses: Array<{
+    code: string;
+    description?: string;
+    content_type?: string; // Absent for responses without a body
+    schema?: any;
+    headers?: Record<string, any>;
+  }>;
+}
+
+/**
+ * Extract the schemas of an operation of a normalised (OpenAPI 3) spec,
+ * resolving references as the resolver is configured
+ */
+export async function extractEndpointSchema(
+  resolver: RefResolver,
+  method: string,
+  path: string,
+  pathItem: any,
+  operation: any,
+): Promise<EndpointSchema> {
+  // Extract request body schemas, one per media type
+  let request_body: EndpointSchema["request_body"];
+  const requestBody = await resolver.dereference(operation.requestBody);
+  if (requestBody?.content) {
+    const media_types: NonNullable<
+      EndpointSchema["request_body"]
+    >["media_types"] = [];
+
+    for (const [contentType, contentData] of Object.entries<any>(
+      requestBody.content,
+    )) {
+      const encoding = await resolver.resolveEncoding(contentData?.encoding);
+      media_types.push({
+        content_type: contentType,
+        ...(contentData?.schema && {
+          schema: await resolver.resolveSchema(contentData.schema),
+        }),
+        ...(encoding && { encoding }),
+      });
+    }
+
+    const primary = media_types.find((media) => media.schema) ?? media_types[0];
+    if (primary) {
+      request_body = {
+        content_type: primary.content_type,
+        schema: primary.schema,
+        required: requestBody.required || false,
+        ...(requestBody.description && {
+          description: requestBody.description,
+        }),
+        media_types,
+      };
+    }
+  }
+
+  // Extract parameter schemas
+  const parameters: EndpointSchema["parameters"] = [];
+  const allParams = [
+    ...(pathItem.parameters || []),
+    ...(operation.parameters || []),
+  ];
+
+  for (const rawParam of allParams) {
+    const param = await resolver.dereference(rawParam);
+    if (param && typeof param === "object") {
+      parameters.push({
+        name: param.name || "unnamed",
+        in: param.in || "query",
+        required: param.required || false,
+        schema: await resolver.resolveSchema(
+          param.schema || { type: param.type || "string" },
+        ),
+      });
+    }
+  }
+
+  // Extract response schemas; responses without a body still report
+  // their description and headers
+  const responses: EndpointSchema["responses"] = [];
+  for (const [code, rawResponse] of Object.entries(operation.responses ?? {})) {
+    const response = await resolver.dereference(rawResponse);
+    if (!response || typeof response !== "object") continue;
+
+    const content = response.content;
+    const headers = await resolver.resolveHeaders(response.headers);
+    const description = response.description;
+    const contentTypes = content ? Object.keys(content) : [];
+    for (const contentType of contentTypes) {
+      const schema = content[contentType]?.schema;
+      responses.push({
+        code,
+        ...(description && { description }),
+        content_type: contentType,
+        ...(schema && { schema: await resolver.resolveSchema(schema) }),
+        ...(headers && { headers }),
+      });
+    }
+    if (contentTypes.length === 0) {
+      responses.push({
+        code,
+        ...(description && { description }),
+        ...(headers && { headers }),
+      });
+    }
+  }
+
+  return {
+    method: method.toUpperCase(),
+    path,
+    parameters,
+    responses,
+    // Only add request_body if it exists
+    ...(request_body && { request_body }),
+  };
+}
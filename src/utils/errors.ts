@@ -74,6 +74,9 @@ export class OpenAPIDirectoryError extends Error {
       case ERROR_CODES.SERVER_ERROR:
         return `The server encountered an error. Please try again later or contact support.`;
 
+      case ERROR_CODES.CANCELLED_ERROR:
+        return `The ${operation || "operation"} was cancelled.`;
+
       default:
         return `An unexpected error occurred${operation ? ` during ${operation}` : ""}. Please try again or contact support.`;
     }
@@ -167,6 +170,15 @@ export class AuthError extends OpenAPIDirectoryError {
   }
 }
 
+/**
+ * Cancellation errors (request aborted by the client)
+ */
+export class CancelledError extends OpenAPIDirectoryError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message, ERROR_CODES.CANCELLED_ERROR, context);
+  }
+}
+
 /**
  * Server errors (5xx responses)
  */
@@ -195,6 +207,11 @@ export class ErrorFactory {
       return new TimeoutError(message, context);
     }
 
+    // axios reports aborted requests as ERR_CANCELED
+    if (error.code === "ERR_CANCELED" || error instanceof CancelledError) {
+      return new CancelledError(message, context);
+    }
+
     if (status) {
       if (status === 404) {
         return new NotFoundError(message, context);
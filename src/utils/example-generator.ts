@@ -0,0 +1,404 @@
+/**
+ * Deterministic example values generated from JSON Schema, for specs that
+ * carry no examples of their own
+ */
+
+import { isPlainObject, resolvePointer } from "./ref-resolver.js";
+
+export interface ExampleOptions {
+  usage?: "request" | "response"; // Leaves out readOnly or writeOnly properties
+  maxDepth?: number; // Nested objects and arrays generated below the root
+}
+
+const DEFAULT_MAX_DEPTH = 8;
+
+// Objects nested deeper than this only get their required properties
+const OPTIONAL_PROPERTY_DEPTH = 2;
+
+// Schema nodes visited for one example; later values become null
+const MAX_NODES = 1000;
+
+// Upper bound for items generated to satisfy minItems
+const MAX_ARRAY_ITEMS = 5;
+
+const FORMAT_EXAMPLES: Record<string, string> = {
+  "date-time": "2024-01-01T00:00:00Z",
+  date: "2024-01-01",
+  time: "12:00:00Z",
+  duration: "P1D",
+  email: "user@example.com",
+  "idn-email": "user@example.com",
+  hostname: "example.com",
+  "idn-hostname": "example.com",
+  ipv4: "192.0.2.1",
+  ipv6: "2001:db8::1",
+  uri: "https://example.com",
+  url: "https://example.com",
+  iri: "https://example.com",
+  "uri-reference": "/example",
+  "json-pointer": "/example",
+  uuid: "3fa85f64-5717-4562-b3fc-2c963f66afa6",
+  byte: "ZXhhbXBsZQ==",
+  binary: "<binary>",
+  password: "********",
+};
+
+// Characters tried, in order, for character classes and wildcards
+const CLASS_CANDIDATES = "aA0zZ9_-. ";
+
+/**
+ * A string matching a regular expression, built from its first
+ * alternatives and minimal repetitions. Returns null for patterns using
+ * back-references or lookarounds, or when the result does not match.
+ */
+export function patternExample(pattern: string): string | null {
+  let pos = 0;
+
+  const classChar = (source: string): string => {
+    const matcher = new RegExp(`^${source}$`);
+    for (const candidate of CLASS_CANDIDATES + source) {
+      if (matcher.test(candidate)) return candidate;
+    }
+    throw new Error(`No character matches ${source}`);
+  };
+
+  const escape = (): string => {
+    const ch = pattern[pos++];
+    if (ch === undefined) throw new Error("Trailing backslash");
+    if (/[1-9]/.test(ch)) throw new Error("Back-references are not supported");
+    if ("dDwWsS".includes(ch)) return classChar(`\\${ch}`);
+    if (ch === "b" || ch === "B") return "";
+    if (ch === "n") return "\n";
+    if (ch === "t") return "\t";
+    if (ch === "u" || ch === "x") {
+      const length = ch === "u" ? 4 : 2;
+      const code = pattern.slice(pos, pos + length);
+      pos += length;
+      return String.fromCharCode(parseInt(code, 16));
+    }
+    return ch;
+  };
+
+  const quantifier = (): number => {
+    const ch = pattern[pos];
+    let count = 1;
+    if (ch === "*" || ch === "+" || ch === "?") {
+      pos++;
+    } else if (ch === "{") {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(pos));
+      if (!match) return 1;
+      pos += match[0].length;
+      const min = Number(match[1]);
+      const max = match[3] ? Number(match[3]) : Infinity;
+      count = min > 0 ? min : Math.min(1, max);
+    } else {
+      return 1;
+    }
+    if (pattern[pos] === "?") pos++; // Lazy quantifier
+    return count;
+  };
+
+  const atom = (): string => {
+    const ch = pattern[pos++]!;
+    switch (ch) {
+      case "^":
+      case "$":
+        return "";
+      case ".":
+        return "a";
+      case "\\":
+        return escape();
+      case "[": {
+        const start = pos - 1;
+        if (pattern[pos] === "^") pos++;
+        if (pattern[pos] === "]") pos++;
+        while (pos < pattern.length && pattern[pos] !== "]") {
+          if (pattern[pos] === "\\") pos++;
+          pos++;
+        }
+        pos++;
+        return classChar(pattern.slice(start, pos));
+      }
+      case "(": {
+        if (pattern[pos] === "?") {
+          if (pattern[pos + 1] !== ":") {
+            throw new Error("Lookarounds are not supported");
+          }
+          pos += 2;
+        }
+        const group = alternation();
+        if (pattern[pos++] !== ")") throw new Error("Unclosed group");
+        return group;
+      }
+      default:
+        return ch;
+    }
+  };
+
+  const sequence = (): string => {
+    let result = "";
+    while (
+      pos < pattern.length &&
+      pattern[pos] !== "|" &&
+      pattern[pos] !== ")"
+    ) {
+      const text = atom();
+      result += text.repeat(quantifier());
+    }
+    return result;
+  };
+
+  const alternation = (): string => {
+    const first = sequence();
+    while (pattern[pos] === "|") {
+      pos++;
+      sequence();
+    }
+    return first;
+  };
+
+  try {
+    const result = alternation();
+    return new RegExp(pattern).test(result) ? result : null;
+  } catch {
+    return null;
+  }
+}
+
+function stringExample(schema: Record<string, any>): string {
+  if (typeof schema.format === "string" && FORMAT_EXAMPLES[schema.format]) {
+    return FORMAT_EXAMPLES[schema.format]!;
+  }
+  if (typeof schema.pattern === "string") {
+    const value = patternExample(schema.pattern);
+    if (value !== null) return value;
+  }
+
+  let value = "string";
+  if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+    value = value.padEnd(schema.minLength, "x");
+  }
+  if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+    value = value.slice(0, schema.maxLength);
+  }
+  return value;
+}
+
+/**
+ * The smallest value within the bounds, or 0 when it is allowed. Handles
+ * boolean (OpenAPI 3.0) and numeric (OpenAPI 3.1) exclusive bounds.
+ */
+function numberExample(schema: Record<string, any>, integer: boolean): number {
+  const step = integer ? 1 : 0.5;
+
+  let lower: number | undefined;
+  if (typeof schema.exclusiveMinimum === "number") {
+    lower = schema.exclusiveMinimum + step;
+  } else if (typeof schema.minimum === "number") {
+    lower = schema.minimum + (schema.exclusiveMinimum === true ? step : 0);
+  }
+  let upper: number | undefined;
+  if (typeof schema.exclusiveMaximum === "number") {
+    upper = schema.exclusiveMaximum - step;
+  } else if (typeof schema.maximum === "number") {
+    upper = schema.maximum - (schema.exclusiveMaximum === true ? step : 0);
+  }
+
+  let value = lower ?? (upper !== undefined && upper < 0 ? upper : 0);
+  if (integer) value = Math.ceil(value);
+  if (typeof schema.multipleOf === "number" && schema.multipleOf > 0) {
+    value = Math.ceil(value / schema.multipleOf) * schema.multipleOf;
+  }
+  return value === 0 ? 0 : value; // Avoid -0
+}
+
+function schemaType(schema: Record<string, any>): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find((type: unknown) => type !== "null") ?? "null";
+  }
+  if (typeof schema.type === "string") return schema.type;
+  if (schema.properties || schema.additionalProperties) return "object";
+  if (schema.items) return "array";
+  if (typeof schema.format === "string" || schema.pattern) return "string";
+  return undefined;
+}
+
+class ExampleGenerator {
+  private readonly maxDepth: number;
+  // Values generated for references, by depth, with the nodes they took
+  private readonly generated = new Map<
+    string,
+    { value: unknown; nodes: number }
+  >();
+  // References left out because they lead back into a schema being
+  // generated
+  private readonly cycles: string[] = [];
+  private nodes = 0;
+
+  constructor(
+    private spec: any,
+    private options: ExampleOptions,
+  ) {
+    this.maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  }
+
+  /**
+   * Follow local references; returns null for external or missing targets
+   */
+  private target(ref: string): any {
+    return ref.startsWith("#")
+      ? (resolvePointer(this.spec, ref) ?? null)
+      : null;
+  }
+
+  private excluded(schema: any): boolean {
+    let node = schema;
+    for (let hops = 0; isPlainObject(node) && node.$ref && hops < 10; hops++) {
+      node = this.target(node.$ref);
+    }
+    if (!isPlainObject(node)) return false;
+    return (
+      (this.options.usage === "request" && node.readOnly === true) ||
+      (this.options.usage === "response" && node.writeOnly === true)
+    );
+  }
+
+  /**
+   * Example for a schema; undefined for references back into a schema
+   * being generated, which are left out of their parent, and null once the
+   * node budget is spent. A reference met again at the same depth reuses
+   * a copy of the value generated the first time.
+   */
+  generate(schema: any, stack: string[], depth: number): unknown {
+    if (!isPlainObject(schema) || ++this.nodes > MAX_NODES) return null;
+
+    if (typeof schema.$ref === "string") {
+      const ref: string = schema.$ref;
+      if (stack.includes(ref)) {
+        this.cycles.push(ref);
+        return undefined;
+      }
+
+      const key = `${depth}:${ref}`;
+      const previous = this.generated.get(key);
+      if (previous) {
+        this.nodes += previous.nodes;
+        return this.nodes > MAX_NODES ? null : structuredClone(previous.value);
+      }
+
+      const target = this.target(ref);
+      if (target === null) return null;
+      const nodes = this.nodes;
+      const cycles = this.cycles.length;
+      const value = this.generate(target, [...stack, ref], depth);
+      // A value missing properties that lead back into an enclosing schema
+      // only fits where it was generated
+      if (
+        this.nodes <= MAX_NODES &&
+        !this.cycles.slice(cycles).some((cycle) => stack.includes(cycle))
+      ) {
+        this.generated.set(key, { value, nodes: this.nodes - nodes });
+      }
+      return value;
+    }
+
+    if (schema.const !== undefined) return schema.const;
+    if (schema.example !== undefined) return schema.example;
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+      return schema.examples[0];
+    }
+    if (schema.default !== undefined) return schema.default;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return schema.enum.find((value: unknown) => value !== null) ?? null;
+    }
+
+    if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+      const { allOf, ...own } = schema;
+      const parts = [...allOf, ...(Object.keys(own).length > 0 ? [own] : [])]
+        .map((member) => this.generate(member, stack, depth))
+        .filter((part) => part !== undefined && part !== null);
+      return parts.every(isPlainObject)
+        ? Object.assign({}, ...parts)
+        : (parts[0] ?? null);
+    }
+    for (const keyword of ["oneOf", "anyOf"]) {
+      if (Array.isArray(schema[keyword]) && schema[keyword].length > 0) {
+        return this.generate(schema[keyword][0], stack, depth);
+      }
+    }
+
+    switch (schemaType(schema)) {
+      case "object":
+        return this.objectExample(schema, stack, depth);
+      case "array": {
+        if (depth >= this.maxDepth || schema.maxItems === 0) return [];
+        const item = this.generate(schema.items, stack, depth + 1);
+        if (item === undefined) return [];
+        const count = Math.min(
+          Math.max(schema.minItems ?? 1, 1),
+          MAX_ARRAY_ITEMS,
+        );
+        return Array.from({ length: count }, () => item);
+      }
+      case "string":
+        return stringExample(schema);
+      case "integer":
+        return numberExample(schema, true);
+      case "number":
+        return numberExample(schema, false);
+      case "boolean":
+        return true;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Every property of objects near the root, only required ones deeper;
+   * required properties at the maximum depth are null
+   */
+  private objectExample(
+    schema: Record<string, any>,
+    stack: string[],
+    depth: number,
+  ): Record<string, unknown> {
+    const required: unknown[] = Array.isArray(schema.required)
+      ? schema.required
+      : [];
+    const optional = depth < OPTIONAL_PROPERTY_DEPTH && depth < this.maxDepth;
+    const result: Record<string, unknown> = {};
+
+    if (isPlainObject(schema.properties)) {
+      for (const [name, property] of Object.entries(schema.properties)) {
+        if (!optional && !required.includes(name)) continue;
+        if (this.excluded(property)) continue;
+        const value =
+          depth >= this.maxDepth
+            ? null
+            : this.generate(property, stack, depth + 1);
+        if (value !== undefined) result[name] = value;
+      }
+    } else if (isPlainObject(schema.additionalProperties) && optional) {
+      const value = this.generate(
+        schema.additionalProperties,
+        stack,
+        depth + 1,
+      );
+      if (value !== undefined) result.additionalProp1 = value;
+    }
+    return result;
+  }
+}
+
+/**
+ * Example value for a schema. Local references are followed through
+ * `spec`; `const`, `example`, `default` and `enum` values are used when
+ * present, and the first member of `oneOf`/`anyOf` is chosen.
+ */
+export function generateExample(
+  schema: any,
+  spec: any = {},
+  options: ExampleOptions = {},
+): unknown {
+  return new ExampleGenerator(spec, options).generate(schema, [], 0) ?? null;
+}
@@ -10,8 +10,22 @@ export enum LogLevel {
   DEBUG = 3,
 }
 
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  args: any[];
+  logger?: string; // Sub-logger name, e.g. "cache"
+}
+
+/**
+ * Receives every log event regardless of the console log level, so each
+ * sink can apply its own filtering (e.g. per-client MCP log levels)
+ */
+export type LogSink = (entry: LogEntry) => void;
+
 export class Logger {
   private static logLevel: LogLevel = this.getLogLevelFromEnv();
+  private static sinks: Set<LogSink> = new Set();
 
   private static getLogLevelFromEnv(): LogLevel {
     const level = process.env.LOG_LEVEL?.toUpperCase();
@@ -37,6 +51,7 @@ export class Logger {
       // eslint-disable-next-line no-console
       console.error(`[ERROR] ${message}`, ...args);
     }
+    this.emit({ level: LogLevel.ERROR, message, args });
   }
 
   static warn(message: string, ...args: any[]): void {
@@ -44,6 +59,7 @@ export class Logger {
       // eslint-disable-next-line no-console
       console.warn(`[WARN] ${message}`, ...args);
     }
+    this.emit({ level: LogLevel.WARN, message, args });
   }
 
   static info(message: string, ...args: any[]): void {
@@ -51,6 +67,7 @@ export class Logger {
       // eslint-disable-next-line no-console
       console.info(`[INFO] ${message}`, ...args);
     }
+    this.emit({ level: LogLevel.INFO, message, args });
   }
 
   static debug(message: string, ...args: any[]): void {
@@ -58,6 +75,7 @@ export class Logger {
       // eslint-disable-next-line no-console
       console.log(`[DEBUG] ${message}`, ...args);
     }
+    this.emit({ level: LogLevel.DEBUG, message, args });
   }
 
   /**
@@ -65,14 +83,19 @@ export class Logger {
    * to avoid cluttering production logs
    */
   static cache(operation: string, key?: string, details?: any): void {
+    if (this.logLevel < LogLevel.DEBUG && this.sinks.size === 0) {
+      return;
+    }
+
+    const sanitizedKey = key ? this.sanitizeKey(key) : "";
+    const message = details
+      ? `[CACHE] ${operation}: ${sanitizedKey} - ${JSON.stringify(details)}`
+      : `[CACHE] ${operation}: ${sanitizedKey}`;
     if (this.logLevel >= LogLevel.DEBUG) {
-      const sanitizedKey = key ? this.sanitizeKey(key) : "";
-      const message = details
-        ? `[CACHE] ${operation}: ${sanitizedKey} - ${JSON.stringify(details)}`
-        : `[CACHE] ${operation}: ${sanitizedKey}`;
       // eslint-disable-next-line no-console
       console.log(message);
     }
+    this.emit({ level: LogLevel.DEBUG, message, args: [], logger: "cache" });
   }
 
   /**
@@ -92,4 +115,26 @@ export class Logger {
   static setLogLevel(level: LogLevel): void {
     this.logLevel = level;
   }
+
+  /**
+   * Register a sink for log events. Returns a function that removes it.
+   */
+  static addSink(sink: LogSink): () => void {
+    this.sinks.add(sink);
+    return () => this.removeSink(sink);
+  }
+
+  static removeSink(sink: LogSink): void {
+    this.sinks.delete(sink);
+  }
+
+  private static emit(entry: LogEntry): void {
+    for (const sink of this.sinks) {
+      try {
+        sink(entry);
+      } catch {
+        // A failing sink must never break the caller
+      }
+    }
+  }
 }
@@ -0,0 +1,139 @@
+/**
+ * Forwards Logger events to connected MCP clients as notifications/message
+ *
+ * Console output is silenced in MCP mode, so this is the only way to observe
+ * cache activity, source fallbacks and rate limiting while the server runs.
+ * Each client controls its own threshold with logging/setLevel.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  LoggingLevel,
+  LoggingLevelSchema,
+  SetLevelRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { LogEntry, Logger, LogLevel } from "./logger.js";
+
+export const DEFAULT_LOGGER_NAME = "openapi-directory-mcp";
+
+// Used until a client sends logging/setLevel
+export const DEFAULT_MCP_LOG_LEVEL: LoggingLevel = "info";
+
+const SEVERITY = new Map<LoggingLevel, number>(
+  LoggingLevelSchema.options.map((level, index) => [level, index]),
+);
+
+/**
+ * Map an internal log level onto the MCP (syslog) levels
+ */
+export function toMcpLogLevel(level: LogLevel): LoggingLevel {
+  switch (level) {
+    case LogLevel.ERROR:
+      return "error";
+    case LogLevel.WARN:
+      return "warning";
+    case LogLevel.INFO:
+      return "info";
+    default:
+      return "debug";
+  }
+}
+
+export class McpLogForwarder {
+  private servers = new Map<Server, LoggingLevel>();
+  private removeSink: (() => void) | null = null;
+
+  constructor(private defaultLevel: LoggingLevel = DEFAULT_MCP_LOG_LEVEL) {}
+
+  /**
+   * Track a server and handle logging/setLevel for it. The server must
+   * declare the logging capability.
+   */
+  attach(server: Server): void {
+    this.servers.set(server, this.defaultLevel);
+    // Replaces the SDK's built-in handler so the threshold is per server
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.setLevel(server, request.params.level);
+      return {};
+    });
+  }
+
+  detach(server: Server): void {
+    this.servers.delete(server);
+  }
+
+  setLevel(server: Server, level: LoggingLevel): void {
+    if (this.servers.has(server)) {
+      this.servers.set(server, level);
+    }
+  }
+
+  getLevel(server: Server): LoggingLevel | undefined {
+    return this.servers.get(server);
+  }
+
+  /**
+   * Start forwarding Logger events
+   */
+  start(): void {
+    if (!this.removeSink) {
+      this.removeSink = Logger.addSink((entry) => this.forward(entry));
+    }
+  }
+
+  stop(): void {
+    this.removeSink?.();
+    this.removeSink = null;
+  }
+
+  private forward(entry: LogEntry): void {
+    const level = toMcpLogLevel(entry.level);
+    const params = {
+      level,
+      logger: entry.logger
+        ? `${DEFAULT_LOGGER_NAME}.${entry.logger}`
+        : DEFAULT_LOGGER_NAME,
+      data: toLogData(entry),
+    };
+
+    for (const [server, threshold] of this.servers) {
+      if (SEVERITY.get(level)! < SEVERITY.get(threshold)!) {
+        continue;
+      }
+      if (!server.transport) {
+        continue;
+      }
+      // Failures are not logged: doing so would feed back into this sink
+      server.sendLoggingMessage(params).catch(() => {
+        if (!server.transport) {
+          this.detach(server);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Build a JSON-safe notification payload from a log entry
+ */
+function toLogData(entry: LogEntry): unknown {
+  if (entry.args.length === 0) {
+    return entry.message;
+  }
+  return { message: entry.message, details: entry.args.map(toJsonSafe) };
+}
+
+function toJsonSafe(value: unknown): unknown {
+  if (value instanceof Error) {
+    return value.message;
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    // Circular structures such as HTTP client errors
+    return String(value);
+  }
+}
@@ -6,26 +6,6 @@ import { DataValidator } from "./validation.js";
  * Secondary API takes precedence when conflicts exist
  */
 
-export interface MergedSearchResult {
-  results: Array<{
-    id: string;
-    title: string;
-    description: string;
-    provider: string;
-    preferred: string;
-    categories: string[];
-    source?: "primary" | "secondary";
-  }>;
-  pagination: {
-    page: number;
-    limit: number;
-    total_results: number;
-    total_pages: number;
-    has_next: boolean;
-    has_previous: boolean;
-  };
-}
-
 export class MergeUtilities {
   /**
    * Merge API lists from both sources with secondary taking precedence
@@ -73,98 +53,6 @@ export class MergeUtilities {
     };
   }
 
-  /**
-   * Merge search results with intelligent ranking
-   */
-  static mergeSearchResults(
-    primaryResults: MergedSearchResult,
-    secondaryResults: MergedSearchResult,
-    query: string,
-    page: number,
-    limit: number,
-  ): MergedSearchResult {
-    // Combine all results
-    const allResults = [
-      ...primaryResults.results.map((r) => ({
-        ...r,
-        source: "primary" as const,
-      })),
-      ...secondaryResults.results.map((r) => ({
-        ...r,
-        source: "secondary" as const,
-      })),
-    ];
-
-    // Remove duplicates, secondary takes precedence
-    const uniqueResults = new Map<string, (typeof allResults)[0]>();
-
-    // Add primary results first
-    for (const result of allResults.filter((r) => r.source === "primary")) {
-      uniqueResults.set(result.id, result);
-    }
-
-    // Add secondary results, overriding primary
-    for (const result of allResults.filter((r) => r.source === "secondary")) {
-      uniqueResults.set(result.id, result);
-    }
-
-    // Convert back to array and sort by relevance
-    const mergedResults = Array.from(uniqueResults.values());
-
-    // Sort results by relevance (same logic as in search)
-    mergedResults.sort((a, b) => {
-      const queryLower = query.toLowerCase();
-
-      const scoreMatch = (
-        id: string,
-        provider: string,
-        title: string,
-      ): number => {
-        if (provider.toLowerCase() === queryLower) return 100;
-        if (provider.toLowerCase().includes(queryLower)) return 80;
-        if (id.toLowerCase().startsWith(queryLower)) return 60;
-        if (id.toLowerCase().includes(queryLower)) return 40;
-        if (title.toLowerCase().includes(queryLower)) return 20;
-        return 10;
-      };
-
-      const scoreA = scoreMatch(a.id, a.provider, a.title);
-      const scoreB = scoreMatch(b.id, b.provider, b.title);
-
-      // Secondary source gets slight boost in case of ties
-      const sourceBoostA = a.source === "secondary" ? 1 : 0;
-      const sourceBoostB = b.source === "secondary" ? 1 : 0;
-
-      if (scoreA !== scoreB) {
-        return scoreB - scoreA;
-      }
-
-      if (sourceBoostA !== sourceBoostB) {
-        return sourceBoostB - sourceBoostA;
-      }
-
-      return a.id.localeCompare(b.id);
-    });
-
-    // Apply pagination
-    const total_results = mergedResults.length;
-    const total_pages = Math.ceil(total_results / limit);
-    const offset = (page - 1) * limit;
-    const paginatedResults = mergedResults.slice(offset, offset + limit);
-
-    return {
-      results: paginatedResults,
-      pagination: {
-        page,
-        limit,
-        total_results,
-        total_pages,
-        has_next: page < total_pages,
-        has_previous: page > 1,
-      },
-    };
-  }
-
   /**
    * Merge paginated API results
    */
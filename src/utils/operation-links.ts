@@ -0,0 +1,86 @@
+/**
+ * OpenAPI 3 response `links`, which describe how values from a response
+ * feed the parameters or body of a follow-up operation
+ */
+
+import { HTTP_METHODS } from "../search/endpoint-index.js";
+import { RefResolver, isPlainObject } from "./ref-resolver.js";
+
+export interface OperationLink {
+  name: string;
+  operationId?: string;
+  operationRef?: string;
+  target?: { method: string; path: string }; // Linked operation in this spec
+  parameters?: Record<string, unknown>;
+  requestBody?: unknown;
+  description?: string;
+  server?: unknown;
+}
+
+/**
+ * The operation a link points at, by operationId or by a local
+ * operationRef such as "#/paths/~1users~1{id}/get"
+ */
+function linkTarget(
+  spec: any,
+  link: Record<string, any>,
+): { method: string; path: string } | undefined {
+  if (typeof link.operationRef === "string") {
+    const match = /^#\/paths\/([^/]+)\/([a-z]+)$/.exec(link.operationRef);
+    if (!match || !HTTP_METHODS.includes(match[2]!)) return undefined;
+    const path = decodeURIComponent(match[1]!)
+      .replace(/~1/g, "/")
+      .replace(/~0/g, "~");
+    return spec.paths?.[path]?.[match[2]!]
+      ? { method: match[2]!.toUpperCase(), path }
+      : undefined;
+  }
+
+  if (typeof link.operationId === "string") {
+    for (const [path, pathItem] of Object.entries<any>(spec.paths ?? {})) {
+      for (const method of HTTP_METHODS) {
+        if (pathItem?.[method]?.operationId === link.operationId) {
+          return { method: method.toUpperCase(), path };
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Links of a response, with the operation each one targets when it is
+ * defined in the same spec. Returns an empty list for responses without
+ * links.
+ */
+export async function extractLinks(
+  spec: any,
+  response: any,
+  resolver: RefResolver = new RefResolver(spec, { resolveRefs: "shallow" }),
+): Promise<OperationLink[]> {
+  const links = (await resolver.dereference(response))?.links;
+  if (!isPlainObject(links)) return [];
+
+  const result: OperationLink[] = [];
+  for (const [name, rawLink] of Object.entries(links)) {
+    const link = await resolver.dereference(rawLink);
+    if (!isPlainObject(link)) continue;
+
+    const target = linkTarget(spec, link);
+    result.push({
+      name,
+      ...(link.operationId !== undefined && {
+        operationId: link.operationId,
+      }),
+      ...(link.operationRef !== undefined && {
+        operationRef: link.operationRef,
+      }),
+      ...(target && { target }),
+      ...(isPlainObject(link.parameters) && { parameters: link.parameters }),
+      ...(link.requestBody !== undefined && { requestBody: link.requestBody }),
+      ...(link.description && { description: link.description }),
+      ...(link.server !== undefined && { server: link.server }),
+    });
+  }
+  return result;
+}
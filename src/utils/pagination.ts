@@ -3,11 +3,13 @@
  */
 
 import { PAGINATION } from "./constants.js";
+import { throwIfAborted } from "./progress.js";
 
 export interface PaginationOptions {
   chunkSize?: number;
   maxTotal?: number;
   concurrency?: number;
+  signal?: AbortSignal | undefined;
 }
 
 export interface PaginatedResult<T> {
@@ -34,6 +36,7 @@ export class PaginationHelper {
     const {
       chunkSize = PAGINATION.CHUNKED_FETCH_SIZE,
       maxTotal = PAGINATION.LARGE_FETCH_LIMIT,
+      signal,
     } = options;
 
     const allData: T[] = [];
@@ -43,6 +46,8 @@ export class PaginationHelper {
     let chunksProcessed = 0;
 
     while (hasMore && allData.length < maxTotal) {
+      throwIfAborted(signal);
+
       try {
         // Calculate how many items we can still fetch
         const remainingSlots = maxTotal - allData.length;
@@ -75,6 +80,8 @@ export class PaginationHelper {
           await PaginationHelper.delay(50);
         }
       } catch (error) {
+        // Cancellation ends the whole fetch rather than just this page
+        throwIfAborted(signal);
         console.error(`Pagination error on page ${page}:`, error);
         hasMore = false;
       }
@@ -102,6 +109,7 @@ export class PaginationHelper {
       chunkSize = PAGINATION.CHUNKED_FETCH_SIZE,
       maxTotal = PAGINATION.LARGE_FETCH_LIMIT,
       concurrency = 2, // Reduced for safety
+      signal,
     } = options;
 
     // First, get the first chunk to determine total
@@ -127,6 +135,8 @@ export class PaginationHelper {
 
       // Process chunks in parallel with controlled concurrency
       for (const chunk of pageChunks) {
+        throwIfAborted(signal);
+
         try {
           const promises = chunk.map((page) => fetchFn(page, chunkSize));
           const results = await Promise.allSettled(promises);
@@ -148,6 +158,9 @@ export class PaginationHelper {
       }
     }
 
+    // Aborted chunk fetches are swallowed by allSettled above
+    throwIfAborted(signal);
+
     return {
       data: allData.slice(0, maxTotal), // Ensure we don't exceed maxTotal
       totalFetched: Math.min(allData.length, maxTotal),
@@ -241,6 +254,40 @@ export class PaginationHelper {
     };
   }
 
+  /**
+   * Slice items starting at offset until their combined size would exceed
+   * maxBytes. At least one item is always returned so callers make progress
+   * even when a single item is larger than the budget.
+   */
+  static paginateByBytes<T>(
+    items: T[],
+    offset: number,
+    maxBytes: number,
+    measure: (item: T) => number = (item) =>
+      Buffer.byteLength(JSON.stringify(item) ?? ""),
+  ): { data: T[]; nextOffset: number | null; bytes: number } {
+    const start = Math.max(0, Math.floor(offset || 0));
+    const data: T[] = [];
+    let bytes = 0;
+    let index = start;
+
+    while (index < items.length) {
+      const size = measure(items[index] as T);
+      if (data.length > 0 && bytes + size > maxBytes) {
+        break;
+      }
+      data.push(items[index] as T);
+      bytes += size;
+      index++;
+    }
+
+    return {
+      data,
+      nextOffset: index < items.length ? index : null,
+      bytes,
+    };
+  }
+
   /**
    * Simple delay utility
    */
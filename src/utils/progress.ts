@@ -0,0 +1,54 @@
+/**
+ * Progress reporting and cancellation support for long-running operations
+ */
+
+import { CancelledError } from "./errors.js";
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
+/**
+ * Options accepted by operations that fetch from remote sources
+ */
+export interface RequestOptions {
+  signal?: AbortSignal | undefined;
+  onProgress?: ProgressCallback | undefined;
+}
+
+/**
+ * Throw if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError("Operation cancelled");
+  }
+}
+
+/**
+ * Reports a fixed number of stages as monotonically increasing progress
+ */
+export class ProgressTracker {
+  private completed = 0;
+
+  constructor(
+    private total: number,
+    private onProgress?: ProgressCallback,
+  ) {}
+
+  /**
+   * Mark one stage as complete
+   */
+  step(message: string): void {
+    this.completed = Math.min(this.completed + 1, this.total);
+    this.onProgress?.({
+      progress: this.completed,
+      total: this.total,
+      message,
+    });
+  }
+}
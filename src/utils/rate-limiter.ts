@@ -3,7 +3,9 @@
  * Prevents overwhelming external APIs and handles backpressure gracefully
  */
 
-interface RateLimitConfig {
+import { Logger } from "./logger.js";
+
+export interface RateLimitConfig {
   maxRequests: number;
   windowMs: number;
   burstLimit?: number;
@@ -61,6 +63,9 @@ export class RateLimiter {
         // Wait until the oldest request expires
         const oldestRequest = Math.min(...this.requests);
         const waitTime = oldestRequest + this.config.windowMs - now;
+        Logger.debug(
+          `Rate limit of ${this.config.maxRequests} requests per ${this.config.windowMs}ms reached, waiting ${Math.max(waitTime, 100)}ms (${this.queue.length} queued)`,
+        );
         await this.sleep(Math.max(waitTime, 100)); // Minimum 100ms wait
         continue;
       }
@@ -147,6 +152,43 @@ export class RateLimiter {
  */
 let _rateLimiters: Record<string, RateLimiter> | null = null;
 
+/**
+ * Limits applied instead of the defaults, e.g. from a config profile
+ */
+let _overrides: Record<string, RateLimitConfig> = {};
+
+const DEFAULT_RATE_LIMITS: Record<string, RateLimitConfig> = {
+  // Conservative limits for external APIs
+  external: {
+    maxRequests: 10,
+    windowMs: 60 * 1000, // 1 minute
+  },
+
+  // More generous limits for primary API (APIs.guru)
+  primary: {
+    maxRequests: 30,
+    windowMs: 60 * 1000, // 1 minute
+  },
+
+  // Medium limits for secondary API
+  secondary: {
+    maxRequests: 20,
+    windowMs: 60 * 1000, // 1 minute
+  },
+
+  // No limits for local custom specs
+  custom: {
+    maxRequests: 1000,
+    windowMs: 1000, // Effectively no limit
+  },
+
+  // Strict limits for testing to prevent overwhelming during CI
+  testing: {
+    maxRequests: 5,
+    windowMs: 30 * 1000, // 30 seconds
+  },
+};
+
 /**
  * Pre-configured rate limiters for different API types
  */
@@ -154,37 +196,10 @@ export const rateLimiters = new Proxy({} as Record<string, RateLimiter>, {
   get(_target, prop: string) {
     // Lazy initialize rate limiters on first access
     if (!_rateLimiters) {
-      _rateLimiters = {
-        // Conservative limits for external APIs
-        external: new RateLimiter({
-          maxRequests: 10,
-          windowMs: 60 * 1000, // 1 minute
-        }),
-
-        // More generous limits for primary API (APIs.guru)
-        primary: new RateLimiter({
-          maxRequests: 30,
-          windowMs: 60 * 1000, // 1 minute
-        }),
-
-        // Medium limits for secondary API
-        secondary: new RateLimiter({
-          maxRequests: 20,
-          windowMs: 60 * 1000, // 1 minute
-        }),
-
-        // No limits for local custom specs
-        custom: new RateLimiter({
-          maxRequests: 1000,
-          windowMs: 1000, // Effectively no limit
-        }),
-
-        // Strict limits for testing to prevent overwhelming during CI
-        testing: new RateLimiter({
-          maxRequests: 5,
-          windowMs: 30 * 1000, // 30 seconds
-        }),
-      };
+      _rateLimiters = {};
+      for (const [name, defaults] of Object.entries(DEFAULT_RATE_LIMITS)) {
+        _rateLimiters[name] = new RateLimiter(_overrides[name] ?? defaults);
+      }
     }
 
     return _rateLimiters[prop];
@@ -219,3 +234,19 @@ export function cleanupRateLimiters(): void {
     _rateLimiters = null;
   }
 }
+
+/**
+ * Replace the limits of the named rate limiters. Existing limiters are
+ * cleared and recreated with the new limits on next access.
+ */
+export function configureRateLimiters(
+  overrides: Partial<Record<string, RateLimitConfig>>,
+): void {
+  _overrides = {};
+  for (const [name, config] of Object.entries(overrides)) {
+    if (config) {
+      _overrides[name] = config;
+    }
+  }
+  cleanupRateLimiters();
+}
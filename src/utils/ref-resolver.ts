@@ -0,0 +1,385 @@
+/**
+ * `$ref` resolution for schemas returned to callers: inlines local and
+ * external references up to a depth, marks circular references and merges
+ * `allOf` members
+ */
+
+import * as yaml from "js-yaml";
+import { REF_RESOLUTION } from "./constants.js";
+
+export type RefResolutionMode = (typeof REF_RESOLUTION.MODES)[number];
+
+export interface RefResolutionOptions {
+  resolveRefs?: RefResolutionMode | undefined;
+  maxDepth?: number | undefined; // Nested references inlined in deep mode
+}
+
+/**
+ * Fetch an external document by absolute URL
+ */
+export type DocumentLoader = (url: string) => Promise<any>;
+
+interface RefLocation {
+  url: string; // Base for relative references; empty when unknown
+  document: any;
+}
+
+/**
+ * A target's resolved form and the references inlined to build it
+ */
+interface ResolvedTarget {
+  value: any;
+  refs: number;
+}
+
+/**
+ * Progress of resolving one schema: references inlined so far, resolved
+ * targets that can be copied on repeats, and the targets of circular or
+ * depth-limited references met along the way
+ */
+interface WalkState {
+  inlined: number;
+  resolved: Map<string, ResolvedTarget>;
+  circular: string[];
+  truncated: number;
+}
+
+/**
+ * Follow a JSON pointer such as "/components/schemas/Pet" or the fragment
+ * of a local reference, "#/components/schemas/Pet"
+ */
+export function resolvePointer(document: any, pointer: string): any {
+  const path = pointer.replace(/^#/, "");
+  if (path === "") return document;
+  if (!path.startsWith("/")) return undefined;
+
+  let node = document;
+  for (const raw of path.slice(1).split("/")) {
+    if (!node || typeof node !== "object") return undefined;
+    const segment = decodeURIComponent(raw)
+      .replace(/~1/g, "/")
+      .replace(/~0/g, "~");
+    node = node[segment];
+  }
+  return node;
+}
+
+/**
+ * Cache key suffix for a resolution mode; empty for unresolved schemas so
+ * their keys are unchanged
+ */
+export function refCacheSuffix(options: RefResolutionOptions): string {
+  const mode = options.resolveRefs ?? "none";
+  if (mode === "none") return "";
+  return mode === "deep"
+    ? `:refs=deep:${options.maxDepth ?? REF_RESOLUTION.DEFAULT_MAX_DEPTH}`
+    : `:refs=${mode}`;
+}
+
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Merge the members of a schema's allOf into the schema. Properties and
+ * required lists are combined; for other keywords the schema's own value,
+ * then the first member's, wins. Schemas with unresolved members are left
+ * as they are.
+ */
+export function mergeAllOf(schema: any): any {
+  if (
+    !isPlainObject(schema) ||
+    !Array.isArray(schema.allOf) ||
+    !schema.allOf.every(
+      (member: unknown) => isPlainObject(member) && !("$ref" in member),
+    )
+  ) {
+    return schema;
+  }
+
+  const { allOf, ...merged } = schema;
+  for (const member of allOf as Array<Record<string, any>>) {
+    for (const [key, value] of Object.entries(member)) {
+      if (key === "properties" && isPlainObject(value)) {
+        merged.properties = { ...value, ...merged.properties };
+      } else if (key === "required" && Array.isArray(value)) {
+        merged.required = Array.from(
+          new Set([...(merged.required ?? []), ...value]),
+        );
+      } else if (!(key in merged)) {
+        merged[key] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+export class RefResolver {
+  private readonly mode: RefResolutionMode;
+  private readonly maxDepth: number;
+  private readonly root: RefLocation;
+  private documents = new Map<string, Promise<any>>();
+
+  /**
+   * `baseUrl` is where the spec was loaded from; external references can
+   * only be resolved when it and a loader are given, and only to documents
+   * on the same origin
+   */
+  constructor(
+    spec: any,
+    options: RefResolutionOptions = {},
+    baseUrl: string = "",
+    private loader?: DocumentLoader,
+  ) {
+    this.mode = options.resolveRefs ?? "none";
+    this.maxDepth =
+      this.mode === "shallow"
+        ? 1
+        : Math.min(
+            Math.max(
+              Math.floor(options.maxDepth ?? REF_RESOLUTION.DEFAULT_MAX_DEPTH),
+              1,
+            ),
+            REF_RESOLUTION.MAX_DEPTH,
+          );
+    this.root = { url: baseUrl, document: spec };
+  }
+
+  get enabled(): boolean {
+    return this.mode !== "none";
+  }
+
+  /**
+   * Replace a reference to a parameter, request body, response or header
+   * object with its target. Schemas inside are left to resolveSchema.
+   */
+  async dereference(node: any): Promise<any> {
+    if (!this.enabled) return node;
+
+    let location = this.root;
+    const seen = new Set<string>();
+    while (isPlainObject(node) && typeof node.$ref === "string") {
+      const target = await this.locate(node.$ref, location).catch(() => null);
+      if (!target || seen.has(target.key)) return node;
+      seen.add(target.key);
+      node = target.value;
+      location = target.location;
+    }
+    return node;
+  }
+
+  /**
+   * Dereference each header of a response and resolve its schema. Returns
+   * undefined when the response has no headers.
+   */
+  async resolveHeaders(
+    headers: unknown,
+  ): Promise<Record<string, any> | undefined> {
+    if (!isPlainObject(headers) || Object.keys(headers).length === 0) {
+      return undefined;
+    }
+
+    const resolved: Record<string, any> = {};
+    for (const [name, rawHeader] of Object.entries(headers)) {
+      const header = await this.dereference(rawHeader);
+      resolved[name] =
+        isPlainObject(header) && header.schema
+          ? { ...header, schema: await this.resolveSchema(header.schema) }
+          : header;
+    }
+    return resolved;
+  }
+
+  /**
+   * Resolve the headers of each property in a media type's encoding.
+   * Returns undefined when the media type has no encoding.
+   */
+  async resolveEncoding(
+    encoding: unknown,
+  ): Promise<Record<string, any> | undefined> {
+    if (!isPlainObject(encoding) || Object.keys(encoding).length === 0) {
+      return undefined;
+    }
+
+    const resolved: Record<string, any> = {};
+    for (const [property, entry] of Object.entries(encoding)) {
+      const headers = isPlainObject(entry)
+        ? await this.resolveHeaders(entry.headers)
+        : undefined;
+      resolved[property] = headers ? { ...entry, headers } : entry;
+    }
+    return resolved;
+  }
+
+  /**
+   * Inline the references of a schema. Shallow mode inlines one level;
+   * deep mode continues up to the maximum depth, after which references
+   * are left in place. A reference to a schema that is already being
+   * expanded becomes `{ $ref, "x-circular-ref": true }`. A target used
+   * more than once is resolved once and copied into each place. After
+   * REF_RESOLUTION.MAX_INLINED_REFS inlined references, copies included,
+   * the remaining references are left in place.
+   */
+  async resolveSchema(schema: any): Promise<any> {
+    if (!this.enabled) return schema;
+    return this.walk(schema, this.root, [], 0, {
+      inlined: 0,
+      resolved: new Map(),
+      circular: [],
+      truncated: 0,
+    });
+  }
+
+  private async walk(
+    node: any,
+    location: RefLocation,
+    stack: string[],
+    depth: number,
+    state: WalkState,
+  ): Promise<any> {
+    if (Array.isArray(node)) {
+      const items = [];
+      for (const item of node) {
+        items.push(await this.walk(item, location, stack, depth, state));
+      }
+      return items;
+    }
+    if (!isPlainObject(node)) return node;
+
+    if (typeof node.$ref === "string") {
+      if (depth >= this.maxDepth) {
+        state.truncated++;
+        return node;
+      }
+      if (state.inlined >= REF_RESOLUTION.MAX_INLINED_REFS) {
+        state.truncated++;
+        return node;
+      }
+
+      const { $ref, ...siblings } = node;
+      let target;
+      try {
+        target = await this.locate($ref, location);
+      } catch (error) {
+        return {
+          ...node,
+          "x-unresolved-ref":
+            error instanceof Error ? error.message : String(error),
+        };
+      }
+      if (stack.includes(target.key)) {
+        state.circular.push(target.key);
+        return { $ref, "x-circular-ref": true };
+      }
+
+      let resolved;
+      const previous = state.resolved.get(target.key);
+      if (previous) {
+        if (state.inlined + previous.refs > REF_RESOLUTION.MAX_INLINED_REFS) {
+          state.truncated++;
+          return node;
+        }
+        state.inlined += previous.refs;
+        resolved = structuredClone(previous.value);
+      } else {
+        const inlined = state.inlined++;
+        const circular = state.circular.length;
+        const truncated = state.truncated;
+        resolved = await this.walk(
+          target.value,
+          target.location,
+          [...stack, target.key],
+          depth + 1,
+          state,
+        );
+        // Only a resolution that does not depend on where the target was
+        // met, through an enclosing schema or the depth left, is reused
+        if (
+          state.truncated === truncated &&
+          !state.circular.slice(circular).some((key) => stack.includes(key))
+        ) {
+          state.resolved.set(target.key, {
+            value: resolved,
+            refs: state.inlined - inlined,
+          });
+        }
+      }
+      // OpenAPI 3.1 allows keywords such as description next to $ref
+      return Object.keys(siblings).length > 0 && isPlainObject(resolved)
+        ? {
+            ...resolved,
+            ...(await this.walk(siblings, location, stack, depth, state)),
+          }
+        : resolved;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = await this.walk(value, location, stack, depth, state);
+    }
+    return mergeAllOf(result);
+  }
+
+  private async locate(
+    ref: string,
+    location: RefLocation,
+  ): Promise<{ key: string; value: any; location: RefLocation }> {
+    const hashIndex = ref.indexOf("#");
+    const documentPart = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+    const pointer = hashIndex === -1 ? "" : ref.slice(hashIndex + 1);
+
+    let target = location;
+    if (documentPart) {
+      let url: string;
+      try {
+        url = new URL(documentPart, location.url || undefined).href;
+      } catch {
+        throw new Error(
+          `Cannot resolve relative reference without a base URL: ${ref}`,
+        );
+      }
+      target = { url, document: await this.load(url) };
+    }
+
+    const value = resolvePointer(target.document, pointer);
+    if (value === undefined) {
+      throw new Error(`Reference not found: ${ref}`);
+    }
+    return { key: `${target.url}#${pointer}`, value, location: target };
+  }
+
+  private load(url: string): Promise<any> {
+    if (!this.loader) {
+      return Promise.reject(
+        new Error(`External references are not supported here: ${url}`),
+      );
+    }
+    if (!this.sameOrigin(url)) {
+      return Promise.reject(
+        new Error(`External reference outside the spec's origin: ${url}`),
+      );
+    }
+
+    let document = this.documents.get(url);
+    if (!document) {
+      document = this.loader(url).then((data) =>
+        typeof data === "string" ? yaml.load(data) : data,
+      );
+      this.documents.set(url, document);
+    }
+    return document;
+  }
+
+  /**
+   * Whether a document is served from the same origin as the spec, so a
+   * spec cannot make the server fetch arbitrary addresses
+   */
+  private sameOrigin(url: string): boolean {
+    try {
+      const origin = new URL(this.root.url).origin;
+      return origin !== "null" && new URL(url).origin === origin;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Response size budgeting for large tool results
+ *
+ * Oversized results are split into deterministic chunks that fit within a
+ * server-wide byte budget. Each chunk carries an opaque cursor that resumes
+ * from where the previous chunk stopped.
+ */
+
+import { RESPONSE_BUDGET } from "./constants.js";
+import { PaginationHelper } from "./pagination.js";
+
+export interface CursorScope {
+  tool: string;
+  key: string;
+}
+
+export interface BudgetPagination {
+  offset: number;
+  returned_items: number;
+  total_items: number;
+  has_more: boolean;
+  next_cursor?: string;
+}
+
+export interface BudgetedResult<T> {
+  data: T;
+  pagination: BudgetPagination;
+}
+
+interface CursorPayload {
+  t: string; // tool name
+  k: string; // scope key (provider, URL, ...)
+  o: number; // offset of the next unit
+  n: number; // total units, used to detect stale cursors
+}
+
+interface ChunkUnit {
+  path: string[];
+  value: unknown;
+}
+
+// Top-level spec sections that are split per entry rather than sent whole
+const SPLIT_SPEC_SECTIONS = ["paths", "webhooks", "definitions"];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+export class ResponseBudget {
+  readonly maxBytes: number;
+
+  constructor(maxBytes: number = RESPONSE_BUDGET.DEFAULT_MAX_BYTES) {
+    this.maxBytes = Math.max(RESPONSE_BUDGET.MIN_BYTES, Math.floor(maxBytes));
+  }
+
+  /**
+   * Build a budget from MAX_RESPONSE_BYTES or MAX_RESPONSE_TOKENS.
+   * Bytes take precedence when both are set.
+   */
+  static fromEnv(
+    env: Record<string, string | undefined> = process.env,
+  ): ResponseBudget {
+    const bytes = parseInt(env.MAX_RESPONSE_BYTES || "", 10);
+    if (bytes > 0) {
+      return new ResponseBudget(bytes);
+    }
+
+    const tokens = parseInt(env.MAX_RESPONSE_TOKENS || "", 10);
+    if (tokens > 0) {
+      return new ResponseBudget(tokens * RESPONSE_BUDGET.BYTES_PER_TOKEN);
+    }
+
+    return new ResponseBudget();
+  }
+
+  /**
+   * Check whether a value fits in the budget without chunking
+   */
+  fits(value: unknown): boolean {
+    return ResponseBudget.byteSize(value) <= this.maxBytes;
+  }
+
+  /**
+   * Return the chunk of a keyed record that starts at the cursor position
+   */
+  paginateRecord<T>(
+    record: Record<string, T>,
+    scope: CursorScope,
+    cursor?: string,
+  ): BudgetedResult<Record<string, T>> {
+    const units = Object.keys(record).map((key) => ({
+      path: [key],
+      value: record[key],
+    }));
+    return this.paginateUnits(units, scope, cursor) as BudgetedResult<
+      Record<string, T>
+    >;
+  }
+
+  /**
+   * Return a partial OpenAPI document starting at the cursor position.
+   * Paths, webhooks, definitions and each components section are split per
+   * entry; every chunk deep-merges into the previous ones.
+   */
+  paginateSpec(
+    spec: Record<string, any>,
+    scope: CursorScope,
+    cursor?: string,
+  ): BudgetedResult<Record<string, any>> {
+    const units: ChunkUnit[] = [];
+
+    for (const [section, value] of Object.entries(spec)) {
+      if (SPLIT_SPEC_SECTIONS.includes(section) && isPlainObject(value)) {
+        for (const [name, entry] of Object.entries(value)) {
+          units.push({ path: [section, name], value: entry });
+        }
+      } else if (section === "components" && isPlainObject(value)) {
+        for (const [type, entries] of Object.entries(value)) {
+          if (isPlainObject(entries)) {
+            for (const [name, entry] of Object.entries(entries)) {
+              units.push({ path: [section, type, name], value: entry });
+            }
+          } else {
+            units.push({ path: [section, type], value: entries });
+          }
+        }
+      } else {
+        units.push({ path: [section], value });
+      }
+    }
+
+    return this.paginateUnits(units, scope, cursor);
+  }
+
+  private paginateUnits(
+    units: ChunkUnit[],
+    scope: CursorScope,
+    cursor?: string,
+  ): BudgetedResult<Record<string, any>> {
+    const offset = cursor ? this.decodeCursor(cursor, scope, units.length) : 0;
+    const { data, nextOffset } = PaginationHelper.paginateByBytes(
+      units,
+      offset,
+      this.maxBytes - RESPONSE_BUDGET.ENVELOPE_RESERVE_BYTES,
+      (unit) =>
+        ResponseBudget.byteSize(unit.value) +
+        unit.path.reduce((size, key) => size + key.length + 6, 0),
+    );
+
+    const chunk: Record<string, any> = {};
+    for (const unit of data) {
+      let target = chunk;
+      for (const key of unit.path.slice(0, -1)) {
+        target[key] = target[key] ?? {};
+        target = target[key];
+      }
+      target[unit.path[unit.path.length - 1] as string] = unit.value;
+    }
+
+    const pagination: BudgetPagination = {
+      offset,
+      returned_items: data.length,
+      total_items: units.length,
+      has_more: nextOffset !== null,
+    };
+    if (nextOffset !== null) {
+      pagination.next_cursor = this.encodeCursor({
+        t: scope.tool,
+        k: scope.key,
+        o: nextOffset,
+        n: units.length,
+      });
+    }
+
+    return { data: chunk, pagination };
+  }
+
+  private encodeCursor(payload: CursorPayload): string {
+    return Buffer.from(JSON.stringify(payload)).toString("base64url");
+  }
+
+  private decodeCursor(
+    cursor: string,
+    scope: CursorScope,
+    total: number,
+  ): number {
+    let payload: Partial<CursorPayload>;
+    try {
+      payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+      throw new Error("Invalid cursor: could not be decoded");
+    }
+
+    if (
+      !isPlainObject(payload) ||
+      typeof payload.o !== "number" ||
+      !Number.isInteger(payload.o) ||
+      payload.o < 0
+    ) {
+      throw new Error("Invalid cursor: could not be decoded");
+    }
+    if (payload.t !== scope.tool || payload.k !== scope.key) {
+      throw new Error(
+        `Invalid cursor: it was issued for a different ${scope.tool} request`,
+      );
+    }
+    if (payload.n !== total || payload.o >= total) {
+      throw new Error(
+        "Invalid cursor: the underlying data has changed, restart without a cursor",
+      );
+    }
+
+    return payload.o;
+  }
+
+  private static byteSize(value: unknown): number {
+    return Buffer.byteLength(JSON.stringify(value) ?? "");
+  }
+}
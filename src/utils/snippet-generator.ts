@@ -0,0 +1,631 @@
+/**
+ * Runnable request snippets for an endpoint of an OpenAPI 3 spec, in curl,
+ * JavaScript fetch, Python requests and HTTPie
+ */
+
+import { SNIPPETS } from "./constants.js";
+import { generateExample } from "./example-generator.js";
+import { RefResolver, isPlainObject } from "./ref-resolver.js";
+
+export type SnippetLanguage = (typeof SNIPPETS.LANGUAGES)[number];
+
+export interface SnippetBody {
+  contentType: string;
+  value: unknown;
+  files: string[]; // Multipart fields sent as file uploads
+}
+
+/**
+ * A request ready to render: the server URL joined with the path,
+ * parameters filled in and placeholders for values the spec cannot supply
+ */
+export interface SnippetRequest {
+  method: string;
+  url: string;
+  query: Array<[string, string]>;
+  headers: Array<[string, string]>;
+  body?: SnippetBody | undefined;
+  placeholders: string[];
+}
+
+export interface EndpointSnippet {
+  method: string;
+  path: string;
+  language: SnippetLanguage;
+  url: string; // Including the query string
+  content_type?: string;
+  snippet: string;
+  placeholders: string[]; // Values to replace before running the snippet
+}
+
+const BASE_URL_PLACEHOLDER = "<BASE_URL>";
+const FILE_PLACEHOLDER = "<FILE_PATH>";
+
+const PYTHON_METHODS = ["get", "post", "put", "patch", "delete", "head"];
+
+function bodyKind(contentType: string): "json" | "form" | "multipart" | "text" {
+  const type = contentType.toLowerCase();
+  if (type.startsWith("multipart/")) return "multipart";
+  if (type === "application/x-www-form-urlencoded") return "form";
+  if (/[/+]json\b/.test(type)) return "json";
+  return "text";
+}
+
+/**
+ * String form of a value for URLs, headers and form fields
+ */
+function textValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+class SnippetRequestBuilder {
+  private readonly resolver: RefResolver;
+  private readonly placeholders = new Set<string>();
+  private readonly query: Array<[string, string]> = [];
+  private readonly headers: Array<[string, string]> = [];
+  private readonly cookies: string[] = [];
+
+  constructor(private spec: any) {
+    this.resolver = new RefResolver(spec, { resolveRefs: "shallow" });
+  }
+
+  private placeholder(name: string): string {
+    const value = `<${name}>`;
+    this.placeholders.add(value);
+    return value;
+  }
+
+  async build(method: string, path: string): Promise<SnippetRequest> {
+    const pathItem = this.spec.paths?.[path];
+    if (!pathItem) {
+      throw new Error(`Path not found: ${path}`);
+    }
+    const operation = pathItem[method.toLowerCase()];
+    if (!operation) {
+      throw new Error(`Method ${method} not found for path ${path}`);
+    }
+
+    const baseUrl = this.serverUrl(pathItem, operation);
+    const pathValues = await this.addParameters(pathItem, operation);
+    const filledPath = path.replace(/\{([^}]+)\}/g, (_match, name) => {
+      const value = pathValues.get(name);
+      return value === undefined
+        ? this.placeholder(name)
+        : encodeURIComponent(value);
+    });
+
+    this.addSecurity(operation);
+    if (this.cookies.length > 0) {
+      this.headers.push(["Cookie", this.cookies.join("; ")]);
+    }
+    const body = await this.body(operation);
+    if (body && body.files.length > 0) {
+      this.placeholders.add(FILE_PLACEHOLDER);
+    }
+    // Multipart boundaries are added by the client
+    if (body && bodyKind(body.contentType) !== "multipart") {
+      this.headers.push(["Content-Type", body.contentType]);
+    }
+
+    return {
+      method: method.toUpperCase(),
+      url: `${baseUrl}${filledPath}`,
+      query: this.query,
+      headers: this.headers,
+      body,
+      placeholders: [...this.placeholders],
+    };
+  }
+
+  /**
+   * The first server of the operation, path or spec with its variables
+   * set to their defaults. Relative or missing servers are prefixed with a
+   * placeholder for the host.
+   */
+  private serverUrl(pathItem: any, operation: any): string {
+    const servers = [operation.servers, pathItem.servers, this.spec.servers]
+      .filter(Array.isArray)
+      .find((list: unknown[]) => list.length > 0);
+    const server = isPlainObject(servers?.[0]) ? servers[0] : {};
+    let url = typeof server.url === "string" ? server.url : "";
+
+    url = url.replace(/\{([^}]+)\}/g, (_match: string, name: string) => {
+      const value = server.variables?.[name]?.default;
+      return value === undefined ? this.placeholder(name) : String(value);
+    });
+    if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+      this.placeholders.add(BASE_URL_PLACEHOLDER);
+      url = `${BASE_URL_PLACEHOLDER}${url.startsWith("/") || url === "" ? "" : "/"}${url}`;
+    }
+    return url.replace(/\/+$/, "");
+  }
+
+  /**
+   * A value given by the parameter or its schema; undefined when the spec
+   * has none
+   */
+  private async parameterValue(param: any): Promise<unknown> {
+    if (param.example !== undefined) return param.example;
+    if (isPlainObject(param.examples)) {
+      for (const rawExample of Object.values(param.examples)) {
+        const example = await this.resolver.dereference(rawExample);
+        if (isPlainObject(example) && example.value !== undefined) {
+          return example.value;
+        }
+      }
+    }
+
+    const schema = await this.resolver.dereference(param.schema);
+    if (
+      isPlainObject(schema) &&
+      (schema.example !== undefined ||
+        schema.default !== undefined ||
+        schema.const !== undefined ||
+        Array.isArray(schema.enum) ||
+        (Array.isArray(schema.examples) && schema.examples.length > 0))
+    ) {
+      return generateExample(schema, this.spec, { usage: "request" });
+    }
+    return undefined;
+  }
+
+  /**
+   * Add query, header and cookie parameters that are required or have a
+   * value, and return the values of path parameters. Operation parameters
+   * override path-level ones with the same name and location.
+   */
+  private async addParameters(
+    pathItem: any,
+    operation: any,
+  ): Promise<Map<string, string>> {
+    const params = new Map<string, any>();
+    for (const rawParam of [
+      ...(pathItem.parameters || []),
+      ...(operation.parameters || []),
+    ]) {
+      const param = await this.resolver.dereference(rawParam);
+      if (isPlainObject(param) && typeof param.name === "string") {
+        params.set(`${param.in}:${param.name}`, param);
+      }
+    }
+
+    const pathValues = new Map<string, string>();
+    for (const param of params.values()) {
+      const value = await this.parameterValue(param);
+      if (param.in === "path") {
+        if (value !== undefined) {
+          pathValues.set(
+            param.name,
+            Array.isArray(value)
+              ? value.map(textValue).join(",")
+              : textValue(value),
+          );
+        }
+        continue;
+      }
+      if (value === undefined && !param.required) continue;
+
+      const filled = value ?? this.placeholder(param.name);
+      switch (param.in) {
+        case "query":
+          for (const item of Array.isArray(filled) ? filled : [filled]) {
+            this.query.push([param.name, textValue(item)]);
+          }
+          break;
+        case "header":
+          this.headers.push([
+            param.name,
+            Array.isArray(filled)
+              ? filled.map(textValue).join(",")
+              : textValue(filled),
+          ]);
+          break;
+        case "cookie":
+          this.cookies.push(`${param.name}=${textValue(filled)}`);
+          break;
+      }
+    }
+    return pathValues;
+  }
+
+  /**
+   * Credentials for the first security requirement of the operation, or
+   * of the spec when the operation has none
+   */
+  private addSecurity(operation: any): void {
+    const requirements = operation.security ?? this.spec.security;
+    const requirement = Array.isArray(requirements) ? requirements[0] : null;
+    if (!isPlainObject(requirement)) return;
+
+    for (const name of Object.keys(requirement)) {
+      const scheme = this.spec.components?.securitySchemes?.[name];
+      if (!isPlainObject(scheme)) continue;
+
+      switch (scheme.type) {
+        case "apiKey": {
+          const value = this.placeholder("API_KEY");
+          const keyName = typeof scheme.name === "string" ? scheme.name : name;
+          if (scheme.in === "query") {
+            this.query.push([keyName, value]);
+          } else if (scheme.in === "cookie") {
+            this.cookies.push(`${keyName}=${value}`);
+          } else {
+            this.headers.push([keyName, value]);
+          }
+          break;
+        }
+        case "http": {
+          const httpScheme = String(scheme.scheme ?? "bearer").toLowerCase();
+          if (httpScheme === "basic") {
+            this.headers.push([
+              "Authorization",
+              `Basic ${this.placeholder("BASE64_CREDENTIALS")}`,
+            ]);
+          } else if (httpScheme === "bearer") {
+            this.headers.push([
+              "Authorization",
+              `Bearer ${this.placeholder("ACCESS_TOKEN")}`,
+            ]);
+          } else {
+            this.headers.push([
+              "Authorization",
+              `${scheme.scheme} ${this.placeholder("CREDENTIALS")}`,
+            ]);
+          }
+          break;
+        }
+        case "oauth2":
+        case "openIdConnect":
+          this.headers.push([
+            "Authorization",
+            `Bearer ${this.placeholder("ACCESS_TOKEN")}`,
+          ]);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Body for the request's JSON media type, or its first one, from the
+   * spec's example or generated from the schema
+   */
+  private async body(operation: any): Promise<SnippetBody | undefined> {
+    const requestBody = await this.resolver.dereference(operation.requestBody);
+    if (!isPlainObject(requestBody?.content)) return undefined;
+
+    const types = Object.keys(requestBody.content);
+    const contentType =
+      types.find((type) => type === "application/json") ??
+      types.find((type) => bodyKind(type) === "json") ??
+      types[0];
+    if (contentType === undefined) return undefined;
+
+    const media = requestBody.content[contentType] ?? {};
+    let value: unknown;
+    if (media.example !== undefined) {
+      value = media.example;
+    } else if (isPlainObject(media.examples)) {
+      const example = await this.resolver.dereference(
+        Object.values(media.examples)[0],
+      );
+      value = isPlainObject(example) ? example.value : undefined;
+    }
+    if (value === undefined && media.schema) {
+      value = generateExample(media.schema, this.spec, { usage: "request" });
+    }
+    if (value === undefined || value === null) {
+      value = this.placeholder("REQUEST_BODY");
+    }
+
+    const files: string[] = [];
+    if (bodyKind(contentType) === "multipart" && isPlainObject(value)) {
+      const schema = await this.resolver.dereference(media.schema);
+      for (const [name, rawProperty] of Object.entries<any>(
+        schema?.properties ?? {},
+      )) {
+        const property = await this.resolver.dereference(rawProperty);
+        if (
+          property?.format === "binary" ||
+          property?.format === "base64" ||
+          property?.type === "file"
+        ) {
+          files.push(name);
+        }
+      }
+    }
+
+    return { contentType, value, files };
+  }
+}
+
+/**
+ * Describe the request for an endpoint: server URL, parameters, auth
+ * headers and body. Throws when the path or method is not in the spec.
+ */
+export function buildSnippetRequest(
+  spec: any,
+  method: string,
+  path: string,
+): Promise<SnippetRequest> {
+  return new SnippetRequestBuilder(spec).build(method, path);
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+function indent(text: string, prefix: string): string {
+  return text.replace(/\n/g, `\n${prefix}`);
+}
+
+function queryString(request: SnippetRequest): string {
+  const encode = (value: string) =>
+    request.placeholders.includes(value) ? value : encodeURIComponent(value);
+  return request.query
+    .map(([name, value]) => `${encode(name)}=${encode(value)}`)
+    .join("&");
+}
+
+function requestUrl(request: SnippetRequest): string {
+  const query = queryString(request);
+  return query ? `${request.url}?${query}` : request.url;
+}
+
+/**
+ * Form fields of a body, without those uploaded as files
+ */
+function formFields(body: SnippetBody): Array<[string, string]> {
+  if (!isPlainObject(body.value)) return [];
+  return Object.entries(body.value)
+    .filter(([name]) => !body.files.includes(name))
+    .map(([name, value]) => [name, textValue(value)]);
+}
+
+function bodyText(body: SnippetBody): string {
+  return typeof body.value === "string"
+    ? body.value
+    : JSON.stringify(body.value, null, 2);
+}
+
+function renderCurl(request: SnippetRequest): string {
+  const parts = [
+    request.method === "GET"
+      ? `curl ${shellQuote(requestUrl(request))}`
+      : `curl -X ${request.method} ${shellQuote(requestUrl(request))}`,
+  ];
+  for (const [name, value] of request.headers) {
+    parts.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  }
+
+  const body = request.body;
+  if (body) {
+    const kind = bodyKind(body.contentType);
+    if (kind === "form" && isPlainObject(body.value)) {
+      for (const [name, value] of formFields(body)) {
+        parts.push(`--data-urlencode ${shellQuote(`${name}=${value}`)}`);
+      }
+    } else if (kind === "multipart" && isPlainObject(body.value)) {
+      for (const [name, value] of formFields(body)) {
+        parts.push(`-F ${shellQuote(`${name}=${value}`)}`);
+      }
+      for (const name of body.files) {
+        parts.push(`-F ${shellQuote(`${name}=@${FILE_PLACEHOLDER}`)}`);
+      }
+    } else {
+      parts.push(`--data-raw ${shellQuote(bodyText(body))}`);
+    }
+  }
+  return parts.join(" \\\n  ");
+}
+
+function renderFetch(request: SnippetRequest): string {
+  const lines: string[] = [];
+  const options = [`  method: ${JSON.stringify(request.method)},`];
+
+  if (request.headers.length > 0) {
+    options.push("  headers: {");
+    for (const [name, value] of request.headers) {
+      options.push(`    ${JSON.stringify(name)}: ${JSON.stringify(value)},`);
+    }
+    options.push("  },");
+  }
+
+  const body = request.body;
+  if (body) {
+    const kind = bodyKind(body.contentType);
+    if (kind === "multipart" && isPlainObject(body.value)) {
+      if (body.files.length > 0) {
+        lines.push('import { openAsBlob } from "node:fs";', "");
+      }
+      lines.push("const form = new FormData();");
+      for (const [name, value] of formFields(body)) {
+        lines.push(
+          `form.append(${JSON.stringify(name)}, ${JSON.stringify(value)});`,
+        );
+      }
+      for (const name of body.files) {
+        lines.push(
+          `form.append(${JSON.stringify(name)}, await openAsBlob(${JSON.stringify(FILE_PLACEHOLDER)}));`,
+        );
+      }
+      lines.push("");
+      options.push("  body: form,");
+    } else if (kind === "form" && isPlainObject(body.value)) {
+      const fields = JSON.stringify(
+        Object.fromEntries(formFields(body)),
+        null,
+        2,
+      );
+      options.push(`  body: new URLSearchParams(${indent(fields, "  ")}),`);
+    } else if (kind === "json") {
+      options.push(
+        `  body: JSON.stringify(${indent(JSON.stringify(body.value, null, 2), "  ")}),`,
+      );
+    } else {
+      options.push(`  body: ${JSON.stringify(bodyText(body))},`);
+    }
+  }
+
+  lines.push(
+    `const response = await fetch(${JSON.stringify(requestUrl(request))}, {`,
+    ...options,
+    "});",
+    "",
+    "console.log(response.status, await response.text());",
+  );
+  return lines.join("\n");
+}
+
+function pythonLiteral(value: unknown, prefix = ""): string {
+  if (value === null || value === undefined) return "None";
+  if (value === true) return "True";
+  if (value === false) return "False";
+  if (typeof value !== "object") return JSON.stringify(value);
+
+  const inner = `${prefix}    `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    const items = value.map((item) => `${inner}${pythonLiteral(item, inner)}`);
+    return `[\n${items.join(",\n")},\n${prefix}]`;
+  }
+  const entries = Object.entries(value);
+  if (entries.length === 0) return "{}";
+  const items = entries.map(
+    ([key, item]) =>
+      `${inner}${JSON.stringify(key)}: ${pythonLiteral(item, inner)}`,
+  );
+  return `{\n${items.join(",\n")},\n${prefix}}`;
+}
+
+function renderPython(request: SnippetRequest): string {
+  const method = request.method.toLowerCase();
+  const args = PYTHON_METHODS.includes(method)
+    ? [JSON.stringify(request.url)]
+    : [JSON.stringify(request.method), JSON.stringify(request.url)];
+
+  // Repeated query parameters become lists
+  const params: Record<string, string | string[]> = {};
+  for (const [name, value] of request.query) {
+    const existing = params[name];
+    params[name] =
+      existing === undefined
+        ? value
+        : [...(Array.isArray(existing) ? existing : [existing]), value];
+  }
+  if (request.query.length > 0) {
+    args.push(`params=${pythonLiteral(params, "    ")}`);
+  }
+  if (request.headers.length > 0) {
+    args.push(
+      `headers=${pythonLiteral(Object.fromEntries(request.headers), "    ")}`,
+    );
+  }
+
+  const body = request.body;
+  if (body) {
+    const kind = bodyKind(body.contentType);
+    if (
+      (kind === "form" || kind === "multipart") &&
+      isPlainObject(body.value)
+    ) {
+      const fields = formFields(body);
+      if (fields.length > 0) {
+        args.push(`data=${pythonLiteral(Object.fromEntries(fields), "    ")}`);
+      }
+      if (body.files.length > 0) {
+        const files = body.files.map(
+          (name) =>
+            `        ${JSON.stringify(name)}: open(${JSON.stringify(FILE_PLACEHOLDER)}, "rb"),`,
+        );
+        args.push(`files={\n${files.join("\n")}\n    }`);
+      }
+    } else if (kind === "json") {
+      args.push(`json=${pythonLiteral(body.value, "    ")}`);
+    } else {
+      args.push(`data=${JSON.stringify(bodyText(body))}`);
+    }
+  }
+
+  return [
+    "import requests",
+    "",
+    `response = requests.${PYTHON_METHODS.includes(method) ? method : "request"}(`,
+    ...args.map((arg) => `    ${arg},`),
+    ")",
+    "print(response.status_code, response.text)",
+  ].join("\n");
+}
+
+function renderHttpie(request: SnippetRequest): string {
+  const body = request.body;
+  const kind = body ? bodyKind(body.contentType) : undefined;
+  const isForm =
+    (kind === "form" || kind === "multipart") && isPlainObject(body?.value);
+
+  const parts = [
+    `http${isForm ? " --form" : ""} ${request.method} ${shellQuote(request.url)}`,
+  ];
+  for (const [name, value] of request.query) {
+    parts.push(shellQuote(`${name}==${value}`));
+  }
+  for (const [name, value] of request.headers) {
+    parts.push(shellQuote(`${name}:${value}`));
+  }
+
+  if (body && isForm) {
+    for (const [name, value] of formFields(body)) {
+      parts.push(shellQuote(`${name}=${value}`));
+    }
+    for (const name of body.files) {
+      parts.push(shellQuote(`${name}@${FILE_PLACEHOLDER}`));
+    }
+  }
+
+  const command = parts.join(" \\\n  ");
+  // Raw bodies are read from standard input
+  return body && !isForm
+    ? `echo ${shellQuote(bodyText(body))} | ${command}`
+    : command;
+}
+
+/**
+ * Render a request in one of the supported languages
+ */
+export function renderSnippet(
+  request: SnippetRequest,
+  language: SnippetLanguage,
+): string {
+  switch (language) {
+    case "fetch":
+      return renderFetch(request);
+    case "python":
+      return renderPython(request);
+    case "httpie":
+      return renderHttpie(request);
+    default:
+      return renderCurl(request);
+  }
+}
+
+/**
+ * Runnable snippet for an endpoint of an OpenAPI 3 spec
+ */
+export async function generateSnippet(
+  spec: any,
+  method: string,
+  path: string,
+  language: SnippetLanguage = SNIPPETS.DEFAULT_LANGUAGE,
+): Promise<EndpointSnippet> {
+  const request = await buildSnippetRequest(spec, method, path);
+  return {
+    method: request.method,
+    path,
+    language,
+    url: requestUrl(request),
+    ...(request.body && { content_type: request.body.contentType }),
+    snippet: renderSnippet(request, language),
+    placeholders: request.placeholders,
+  };
+}
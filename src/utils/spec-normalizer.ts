@@ -0,0 +1,465 @@
+/**
+ * Swagger 2.0 to OpenAPI 3 normalisation, so endpoint extraction reads
+ * request bodies, media types and security schemes from a single shape
+ */
+
+import { isPlainObject, resolvePointer } from "./ref-resolver.js";
+
+const DEFAULT_MEDIA_TYPE = "application/json";
+const FORM_MEDIA_TYPES = [
+  "application/x-www-form-urlencoded",
+  "multipart/form-data",
+];
+
+// Swagger 2.0 OAuth2 flow names mapped to their OpenAPI 3 equivalents
+export const SWAGGER2_OAUTH_FLOWS: Record<string, string> = {
+  implicit: "implicit",
+  password: "password",
+  application: "clientCredentials",
+  accessCode: "authorizationCode",
+};
+
+// Keywords that Swagger 2.0 parameters and headers carry in place of a schema
+const SCHEMA_KEYWORDS = [
+  "type",
+  "format",
+  "items",
+  "default",
+  "enum",
+  "maximum",
+  "exclusiveMaximum",
+  "minimum",
+  "exclusiveMinimum",
+  "maxLength",
+  "minLength",
+  "pattern",
+  "maxItems",
+  "minItems",
+  "uniqueItems",
+  "multipleOf",
+];
+
+// Local reference prefixes moved under components
+const REF_PREFIXES: Array<[string, string]> = [
+  ["#/definitions/", "#/components/schemas/"],
+  ["#/parameters/", "#/components/parameters/"],
+  ["#/responses/", "#/components/responses/"],
+];
+
+interface MediaTypes {
+  consumes: string[];
+  produces: string[];
+}
+
+export function isSwagger2(spec: any): boolean {
+  return typeof spec?.swagger === "string" && spec.swagger.startsWith("2");
+}
+
+function without(
+  node: Record<string, any>,
+  keys: string[],
+): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(node).filter(([key]) => !keys.includes(key)),
+  );
+}
+
+function extensions(node: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(node).filter(([key]) => key.startsWith("x-")),
+  );
+}
+
+/**
+ * Copy a schema, pointing local references at their OpenAPI 3 locations
+ */
+function rewriteRefs(node: any): any {
+  if (Array.isArray(node)) return node.map(rewriteRefs);
+  if (!isPlainObject(node)) return node;
+
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "$ref" && typeof value === "string") {
+      const prefix = REF_PREFIXES.find(([from]) => value.startsWith(from));
+      result[key] = prefix ? prefix[1] + value.slice(prefix[0].length) : value;
+    } else {
+      result[key] = rewriteRefs(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Schema of a non-body parameter, header or form field; files become
+ * binary strings
+ */
+function toSchema(node: Record<string, any>): Record<string, any> {
+  if (node.type === "file") {
+    return { type: "string", format: "binary" };
+  }
+  const schema: Record<string, any> = {};
+  for (const keyword of SCHEMA_KEYWORDS) {
+    if (node[keyword] !== undefined) {
+      schema[keyword] = rewriteRefs(node[keyword]);
+    }
+  }
+  return schema;
+}
+
+function collectionStyle(param: Record<string, any>): Record<string, any> {
+  switch (param.collectionFormat) {
+    case "multi":
+      return { style: "form", explode: true };
+    case "ssv":
+      return { style: "spaceDelimited", explode: false };
+    case "pipes":
+      return { style: "pipeDelimited", explode: false };
+    case "csv":
+      return param.in === "query" || param.in === "cookie"
+        ? { style: "form", explode: false }
+        : { style: "simple" };
+    default:
+      return {};
+  }
+}
+
+function convertParameter(param: Record<string, any>): Record<string, any> {
+  const converted: Record<string, any> = {
+    name: param.name,
+    in: param.in,
+    ...(param.description && { description: param.description }),
+    ...((param.required || param.in === "path") && { required: true }),
+    ...(param.allowEmptyValue && { allowEmptyValue: true }),
+    ...(param.type === "array" && collectionStyle(param)),
+    schema: toSchema(param),
+    ...extensions(param),
+  };
+  if (param["x-example"] !== undefined) {
+    converted.example = param["x-example"];
+  }
+  return converted;
+}
+
+function convertHeaders(headers: unknown): Record<string, any> | undefined {
+  if (!isPlainObject(headers) || Object.keys(headers).length === 0) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries<any>(headers).map(([name, header]) => [
+      name,
+      {
+        ...(header?.description && { description: header.description }),
+        schema: toSchema(header ?? {}),
+      },
+    ]),
+  );
+}
+
+function bodyFromParameter(
+  param: Record<string, any>,
+  consumes: string[],
+): Record<string, any> {
+  const examples = isPlainObject(param["x-examples"])
+    ? param["x-examples"]
+    : {};
+  const types = consumes.length > 0 ? consumes : [DEFAULT_MEDIA_TYPE];
+  return {
+    ...(param.description && { description: param.description }),
+    required: !!param.required,
+    content: Object.fromEntries(
+      types.map((type) => [
+        type,
+        {
+          schema: rewriteRefs(param.schema ?? {}),
+          ...(examples[type] !== undefined && { example: examples[type] }),
+        },
+      ]),
+    ),
+    ...(param.name && { "x-body-name": param.name }),
+  };
+}
+
+function bodyFromFormFields(
+  fields: Array<Record<string, any>>,
+  consumes: string[],
+): Record<string, any> {
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+  for (const field of fields) {
+    properties[field.name] = {
+      ...toSchema(field),
+      ...(field.description && { description: field.description }),
+    };
+    if (field.required) required.push(field.name);
+  }
+
+  let types = consumes.filter((type) => FORM_MEDIA_TYPES.includes(type));
+  if (types.length === 0) {
+    types = [
+      fields.some((field) => field.type === "file")
+        ? "multipart/form-data"
+        : "application/x-www-form-urlencoded",
+    ];
+  }
+
+  const schema = {
+    type: "object",
+    properties,
+    ...(required.length > 0 && { required }),
+  };
+  return {
+    required: required.length > 0,
+    content: Object.fromEntries(types.map((type) => [type, { schema }])),
+  };
+}
+
+function convertResponse(response: any, produces: string[]): any {
+  if (!isPlainObject(response)) return response;
+  if (typeof response.$ref === "string") return rewriteRefs(response);
+
+  const examples = isPlainObject(response.examples) ? response.examples : {};
+  const types = produces.length > 0 ? produces : [DEFAULT_MEDIA_TYPE];
+  const content: Record<string, any> = {};
+  if (response.schema) {
+    for (const type of types) {
+      content[type] = {
+        schema: rewriteRefs(response.schema),
+        ...(examples[type] !== undefined && { example: examples[type] }),
+      };
+    }
+  }
+  // Examples for media types the operation does not declare are kept too
+  for (const [type, example] of Object.entries(examples)) {
+    content[type] ??= { example };
+  }
+
+  const headers = convertHeaders(response.headers);
+  return {
+    description: response.description ?? "",
+    ...(headers && { headers }),
+    ...(Object.keys(content).length > 0 && { content }),
+    ...extensions(response),
+  };
+}
+
+function convertSecurityScheme(scheme: any): any {
+  if (!isPlainObject(scheme)) return scheme;
+  const description = scheme.description && {
+    description: scheme.description,
+  };
+
+  switch (scheme.type) {
+    case "basic":
+      return { type: "http", scheme: "basic", ...description };
+    case "oauth2": {
+      const flow = SWAGGER2_OAUTH_FLOWS[scheme.flow] ?? scheme.flow;
+      return {
+        type: "oauth2",
+        ...description,
+        flows: {
+          [flow]: {
+            ...(scheme.authorizationUrl && {
+              authorizationUrl: scheme.authorizationUrl,
+            }),
+            ...(scheme.tokenUrl && { tokenUrl: scheme.tokenUrl }),
+            scopes: scheme.scopes ?? {},
+          },
+        },
+      };
+    }
+    default:
+      return { ...scheme };
+  }
+}
+
+/**
+ * Split parameters into OpenAPI 3 parameters, a body parameter and form
+ * fields, following local references to shared body and form parameters
+ */
+function splitParameters(
+  spec: any,
+  params: unknown,
+): {
+  parameters: any[];
+  body?: Record<string, any>;
+  formFields: Array<Record<string, any>>;
+} {
+  const result: ReturnType<typeof splitParameters> = {
+    parameters: [],
+    formFields: [],
+  };
+  if (!Array.isArray(params)) return result;
+
+  for (const param of params) {
+    if (!isPlainObject(param)) continue;
+
+    const target =
+      typeof param.$ref === "string" && param.$ref.startsWith("#/")
+        ? resolvePointer(spec, param.$ref)
+        : param;
+    if (isPlainObject(target) && target.in === "body") {
+      result.body = target;
+    } else if (isPlainObject(target) && target.in === "formData") {
+      result.formFields.push(target);
+    } else if (typeof param.$ref === "string") {
+      result.parameters.push(rewriteRefs(param));
+    } else {
+      result.parameters.push(convertParameter(param));
+    }
+  }
+  return result;
+}
+
+function convertOperation(
+  spec: any,
+  operation: Record<string, any>,
+  inherited: ReturnType<typeof splitParameters>,
+  defaults: MediaTypes,
+): Record<string, any> {
+  const consumes = Array.isArray(operation.consumes)
+    ? operation.consumes
+    : defaults.consumes;
+  const produces = Array.isArray(operation.produces)
+    ? operation.produces
+    : defaults.produces;
+
+  const own = splitParameters(spec, operation.parameters);
+  const body = own.body ?? inherited.body;
+  const formFields = [
+    ...inherited.formFields.filter(
+      (field) => !own.formFields.some((f) => f.name === field.name),
+    ),
+    ...own.formFields,
+  ];
+
+  const converted = without(operation, [
+    "parameters",
+    "consumes",
+    "produces",
+    "responses",
+    "schemes",
+  ]);
+  if (own.parameters.length > 0) converted.parameters = own.parameters;
+  if (body) {
+    converted.requestBody = bodyFromParameter(body, consumes);
+  } else if (formFields.length > 0) {
+    converted.requestBody = bodyFromFormFields(formFields, consumes);
+  }
+  converted.responses = Object.fromEntries(
+    Object.entries<any>(operation.responses ?? {}).map(([code, response]) => [
+      code,
+      convertResponse(response, produces),
+    ]),
+  );
+  return converted;
+}
+
+function convertServers(spec: any): Array<{ url: string }> | undefined {
+  const basePath = typeof spec.basePath === "string" ? spec.basePath : "";
+  if (typeof spec.host !== "string" || !spec.host) {
+    return basePath ? [{ url: basePath }] : undefined;
+  }
+  const schemes =
+    Array.isArray(spec.schemes) && spec.schemes.length > 0
+      ? spec.schemes
+      : ["https"];
+  return schemes.map((scheme: string) => ({
+    url: `${scheme}://${spec.host}${basePath}`,
+  }));
+}
+
+/**
+ * OpenAPI 3-shaped view of a spec. Swagger 2.0 body and form parameters
+ * become request bodies, `produces`/`consumes` become media types,
+ * `definitions` and `securityDefinitions` move under `components`, and
+ * `host`/`basePath` become servers. Other specs are returned as they are.
+ */
+export function normalizeSpec(spec: any): any {
+  if (!isSwagger2(spec)) return spec;
+
+  const { consumes, produces, definitions, parameters, responses } = spec;
+  const defaults: MediaTypes = {
+    consumes: Array.isArray(consumes) ? consumes : [DEFAULT_MEDIA_TYPE],
+    produces: Array.isArray(produces) ? produces : [DEFAULT_MEDIA_TYPE],
+  };
+
+  const components: Record<string, any> = {};
+  if (isPlainObject(definitions)) {
+    components.schemas = rewriteRefs(definitions);
+  }
+  if (isPlainObject(parameters)) {
+    for (const [name, param] of Object.entries<any>(parameters)) {
+      if (param?.in === "body") {
+        components.requestBodies ??= {};
+        components.requestBodies[name] = bodyFromParameter(
+          param,
+          defaults.consumes,
+        );
+      } else if (isPlainObject(param) && param.in !== "formData") {
+        components.parameters ??= {};
+        components.parameters[name] = convertParameter(param);
+      }
+    }
+  }
+  if (isPlainObject(responses)) {
+    components.responses = Object.fromEntries(
+      Object.entries<any>(responses).map(([name, response]) => [
+        name,
+        convertResponse(response, defaults.produces),
+      ]),
+    );
+  }
+  if (isPlainObject(spec.securityDefinitions)) {
+    components.securitySchemes = Object.fromEntries(
+      Object.entries<any>(spec.securityDefinitions).map(([name, scheme]) => [
+        name,
+        convertSecurityScheme(scheme),
+      ]),
+    );
+  }
+
+  const convertedPaths: Record<string, any> = {};
+  for (const [path, pathItem] of Object.entries<any>(spec.paths ?? {})) {
+    if (!isPlainObject(pathItem)) {
+      convertedPaths[path] = pathItem;
+      continue;
+    }
+
+    const inherited = splitParameters(spec, pathItem.parameters);
+    const convertedItem: Record<string, any> = {};
+    for (const [key, value] of Object.entries<any>(pathItem)) {
+      if (key === "parameters") {
+        if (inherited.parameters.length > 0) {
+          convertedItem.parameters = inherited.parameters;
+        }
+      } else if (isPlainObject(value) && !key.startsWith("x-")) {
+        convertedItem[key] = convertOperation(spec, value, inherited, defaults);
+      } else {
+        convertedItem[key] = value;
+      }
+    }
+    convertedPaths[path] = convertedItem;
+  }
+
+  const servers = convertServers(spec);
+  return {
+    openapi: "3.0.3",
+    ...without(spec, [
+      "swagger",
+      "host",
+      "basePath",
+      "schemes",
+      "consumes",
+      "produces",
+      "definitions",
+      "parameters",
+      "responses",
+      "securityDefinitions",
+      "paths",
+    ]),
+    ...(servers && { servers }),
+    paths: convertedPaths,
+    components,
+    "x-swagger-version": spec.swagger,
+  };
+}
@@ -6,8 +6,13 @@ import { createHash } from "crypto";
 import { homedir } from "os";
 import DOMPurify from "dompurify";
 import { JSDOM } from "jsdom";
-import { VALIDATION, FILE_EXTENSIONS } from "./constants.js";
+import { VALIDATION, FILE_EXTENSIONS, SEARCH_FILTERS } from "./constants.js";
 import { ValidationError, ErrorHandler } from "./errors.js";
+import type {
+  ApiSource,
+  RawSearchFilter,
+  SearchFilter,
+} from "../search/filters.js";
 
 /**
  * Path validation to prevent path traversal attacks
@@ -234,6 +239,16 @@ export class CacheValidator {
   }
 }
 
+// Shown in search filter errors
+const SEARCH_FILTER_EXAMPLES: Record<string, string> = {
+  category: "category:payment",
+  provider: "provider:stripe.com",
+  openapi: "openapi:3",
+  updated: "updated>2024-01-01",
+  source: "source:custom",
+  auth: "auth:oauth2",
+};
+
 /**
  * API data validation utilities
  */
@@ -333,6 +348,111 @@ export class APIDataValidator {
       throw new ValidationError("Search query contains invalid content");
     }
   }
+
+  /**
+   * Validate an auth filter value: a scheme type, optionally followed by an
+   * API key location or OAuth2 flow, e.g. "oauth2:client_credentials".
+   * Returns the value in the form used by authCapabilities.
+   */
+  static validateAuthFilter(value: string): string {
+    const [type = "", detail, ...rest] = value.trim().toLowerCase().split(":");
+
+    if (!(SEARCH_FILTERS.AUTH_TYPES as readonly string[]).includes(type)) {
+      throw new ValidationError(
+        `Invalid auth type "${type}" (expected ${SEARCH_FILTERS.AUTH_TYPES.join(", ")})`,
+      );
+    }
+    if (detail === undefined) {
+      return type;
+    }
+
+    const details: readonly string[] =
+      type === "apikey"
+        ? SEARCH_FILTERS.AUTH_LOCATIONS
+        : type === "oauth2"
+          ? SEARCH_FILTERS.OAUTH_FLOWS
+          : [];
+    const normalized = detail.replace(/_/g, "");
+    if (
+      rest.length > 0 ||
+      !details.some((allowed) => allowed.replace(/_/g, "") === normalized)
+    ) {
+      throw new ValidationError(
+        details.length > 0
+          ? `Invalid auth filter "${value}" (expected auth:${type}:${details.join(`, auth:${type}:`)})`
+          : `Invalid auth filter "${value}" (only apikey and oauth2 take a location or flow)`,
+      );
+    }
+    return `${type}:${normalized}`;
+  }
+
+  /**
+   * Validate a `key:value` search filter and normalise its value
+   */
+  static validateSearchFilter(filter: RawSearchFilter): SearchFilter {
+    const key = filter.key.toLowerCase();
+    const value = filter.value.trim().toLowerCase();
+    const { negated } = filter;
+
+    if (!(SEARCH_FILTERS.FIELDS as readonly string[]).includes(key)) {
+      throw new ValidationError(
+        `Unknown search filter "${filter.key}" (supported: ${SEARCH_FILTERS.FIELDS.join(", ")})`,
+      );
+    }
+
+    if (!value) {
+      throw new ValidationError(
+        `Search filter "${key}" needs a value, e.g. ${SEARCH_FILTER_EXAMPLES[key]}`,
+      );
+    }
+
+    if (key === "updated") {
+      if (!/^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/.test(value)) {
+        throw new ValidationError(
+          `Invalid date "${filter.value}" in updated filter (expected YYYY, YYYY-MM or YYYY-MM-DD)`,
+        );
+      }
+      return {
+        field: "updated",
+        operator: filter.operator === ":" ? "=" : filter.operator,
+        value,
+        negated,
+      };
+    }
+
+    if (filter.operator !== ":" && filter.operator !== "=") {
+      throw new ValidationError(
+        `Search filter "${key}" does not support "${filter.operator}", only updated can be compared (use ${SEARCH_FILTER_EXAMPLES[key]})`,
+      );
+    }
+
+    switch (key) {
+      case "openapi":
+        if (!/^\d+(\.\d+){0,2}$/.test(value)) {
+          throw new ValidationError(
+            `Invalid OpenAPI version "${filter.value}" in openapi filter (expected e.g. 2, 3 or 3.1)`,
+          );
+        }
+        return { field: "openapi", value, negated };
+      case "source":
+        if (!(SEARCH_FILTERS.SOURCES as readonly string[]).includes(value)) {
+          throw new ValidationError(
+            `Invalid source "${filter.value}" (expected ${SEARCH_FILTERS.SOURCES.join(", ")})`,
+          );
+        }
+        return { field: "source", value: value as ApiSource, negated };
+      case "auth":
+        return {
+          field: "auth",
+          value: APIDataValidator.validateAuthFilter(filter.value),
+          negated,
+        };
+      case "category":
+        return { field: "category", value, negated };
+      default:
+        return { field: "provider", value, negated };
+    }
+  }
 }
 
 /**
@@ -2,6 +2,8 @@
  * Shared types and constants for version data handling
  */
 
+import { NotFoundError } from "./errors.js";
+
 /**
  * Interface for version data in provider statistics
  */
@@ -45,6 +47,8 @@ export const CACHE_KEYS = {
   PROVIDER_PREFIX: "provider:",
   API_PREFIX: "api:",
   SERVICES_PREFIX: "services:",
+  SPEC_PREFIX: "spec:",
+  NORMALIZED_SPEC_PREFIX: "spec:normalized:", // OpenAPI 3 view of Swagger 2.0 specs
   PROVIDERS: "providers",
 } as const;
 
@@ -57,6 +61,42 @@ export const CACHE_TTL = {
   API_DATA: 600000, // 10 minutes
 } as const;
 
+/**
+ * Pick a version of an API, defaulting to its preferred version. An unknown
+ * version raises a NotFoundError listing the available versions.
+ */
+export function selectApiVersion<T>(
+  apiId: string,
+  api: { versions: Record<string, T>; preferred: string },
+  version?: string,
+): T {
+  if (version === undefined) {
+    const preferred = api.versions[api.preferred];
+    if (!preferred) {
+      throw new Error(`Preferred version not found for API: ${apiId}`);
+    }
+    return preferred;
+  }
+
+  const selected = api.versions[version];
+  if (!selected) {
+    const available = Object.keys(api.versions);
+    throw new NotFoundError(
+      `Version ${version} not found for API: ${apiId} (available: ${available.join(", ")})`,
+      { apiId, details: { version, available_versions: available } },
+    );
+  }
+  return selected;
+}
+
+/**
+ * API ID as used in cache keys; requests for an explicit version are
+ * cached apart from those for the preferred version
+ */
+export function apiVersionKey(apiId: string, version?: string): string {
+  return version === undefined ? apiId : `${apiId}@${version}`;
+}
+
 /**
  * Safely parse a date string with validation
  */
@@ -0,0 +1,133 @@
+/**
+ * Webhooks (OpenAPI 3.1) and operation callbacks (OpenAPI 3.0): requests
+ * an API sends to its consumers, with their payload schemas
+ */
+
+import { HTTP_METHODS } from "../search/endpoint-index.js";
+import { RefResolver, isPlainObject } from "./ref-resolver.js";
+
+export interface WebhookOperation {
+  name: string; // Webhook or callback name
+  method: string;
+  summary?: string;
+  description?: string;
+  operationId?: string;
+  payloads: Array<{ content_type: string; schema?: any }>;
+  responses: Array<{ code: string; description?: string }>;
+}
+
+export interface CallbackOperation extends WebhookOperation {
+  expression: string; // Runtime expression for the callback URL
+  source: { method: string; path: string }; // Operation registering it
+}
+
+/**
+ * Operations of a path item, each with its request payloads and response
+ * codes. `objects` dereferences path items, bodies and responses; `schemas`
+ * resolves payload schemas as the caller asked.
+ */
+async function describeOperations(
+  objects: RefResolver,
+  schemas: RefResolver,
+  name: string,
+  rawPathItem: unknown,
+): Promise<WebhookOperation[]> {
+  const pathItem = await objects.dereference(rawPathItem);
+  if (!isPlainObject(pathItem)) return [];
+
+  const operations: WebhookOperation[] = [];
+  for (const method of HTTP_METHODS) {
+    const operation = pathItem[method];
+    if (!isPlainObject(operation)) continue;
+
+    const payloads: WebhookOperation["payloads"] = [];
+    const requestBody = await objects.dereference(operation.requestBody);
+    if (isPlainObject(requestBody?.content)) {
+      for (const [contentType, media] of Object.entries<any>(
+        requestBody.content,
+      )) {
+        payloads.push({
+          content_type: contentType,
+          ...(media?.schema && {
+            schema: await schemas.resolveSchema(media.schema),
+          }),
+        });
+      }
+    }
+
+    const responses: WebhookOperation["responses"] = [];
+    for (const [code, rawResponse] of Object.entries<any>(
+      operation.responses ?? {},
+    )) {
+      const response = await objects.dereference(rawResponse);
+      responses.push({
+        code,
+        ...(response?.description && { description: response.description }),
+      });
+    }
+
+    operations.push({
+      name,
+      method: method.toUpperCase(),
+      ...(operation.summary && { summary: operation.summary }),
+      ...(operation.description && { description: operation.description }),
+      ...(operation.operationId && { operationId: operation.operationId }),
+      payloads,
+      responses,
+    });
+  }
+  return operations;
+}
+
+/**
+ * Top-level webhooks and the callbacks of every operation in a spec.
+ * Swagger 2.0 specs have neither.
+ */
+export async function extractWebhooks(
+  spec: any,
+  resolver: RefResolver = new RefResolver(spec),
+): Promise<{ webhooks: WebhookOperation[]; callbacks: CallbackOperation[] }> {
+  // Path items, callbacks, bodies and responses are always dereferenced;
+  // schemas only as requested
+  const objects = resolver.enabled
+    ? resolver
+    : new RefResolver(spec, { resolveRefs: "shallow" });
+
+  const webhooks: WebhookOperation[] = [];
+  for (const [name, pathItem] of Object.entries<any>(spec?.webhooks ?? {})) {
+    webhooks.push(
+      ...(await describeOperations(objects, resolver, name, pathItem)),
+    );
+  }
+
+  const callbacks: CallbackOperation[] = [];
+  for (const [path, pathItem] of Object.entries<any>(spec?.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem?.[method];
+      if (!isPlainObject(operation?.callbacks)) continue;
+
+      for (const [name, rawCallback] of Object.entries(operation.callbacks)) {
+        const callback = await objects.dereference(rawCallback);
+        if (!isPlainObject(callback)) continue;
+
+        for (const [expression, callbackPathItem] of Object.entries(callback)) {
+          if (expression.startsWith("x-")) continue;
+          for (const callbackOperation of await describeOperations(
+            objects,
+            resolver,
+            name,
+            callbackPathItem,
+          )) {
+            callbacks.push({
+              ...callbackOperation,
+              expression,
+              source: { method: method.toUpperCase(), path },
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return { webhooks, callbacks };
+}
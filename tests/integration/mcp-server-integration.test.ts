@@ -89,7 +89,7 @@ describe('MCP Server Integration Tests', () => {
       expect(toolsResponse).toBeDefined();
       expect(toolsResponse.tools).toBeDefined();
       expect(Array.isArray(toolsResponse.tools)).toBe(true);
-      expect(toolsResponse.tools.length).toBe(22);
+      expect(toolsResponse.tools.length).toBe(28);
     });
 
     test('server should handle list_tools request correctly', async () => {
@@ -104,7 +104,7 @@ describe('MCP Server Integration Tests', () => {
       expect(response).toBeDefined();
       expect(response.tools).toBeDefined();
       expect(Array.isArray(response.tools)).toBe(true);
-      expect(response.tools.length).toBe(22); // All production tools
+      expect(response.tools.length).toBe(28); // All production tools
       
       // Validate each tool follows MCP format
       response.tools.forEach(tool => {
@@ -167,8 +167,8 @@ describe('MCP Server Integration Tests', () => {
       const expectedCategories = {
         'cache-tools': ['cache_stats', 'cache_info', 'clear_cache', 'clear_cache_key', 'list_cache_keys'],
         'api-details': ['get_api', 'get_api_summary', 'search_apis', 'get_openapi_spec', 'get_provider_stats'],
-        'api-discovery': ['get_providers', 'get_provider_services', 'list_all_apis', 'get_metrics'],
-        'endpoint-tools': ['get_endpoints', 'get_endpoint_details', 'get_endpoint_schema', 'get_endpoint_examples'],
+        'api-discovery': ['get_providers', 'get_provider_services', 'list_all_apis', 'get_metrics', 'find_similar_apis', 'find_apis_by_auth'],
+        'endpoint-tools': ['get_endpoints', 'get_endpoint_details', 'get_endpoint_schema', 'get_endpoint_examples', 'get_endpoint_snippet', 'get_webhooks', 'search_endpoints', 'search_schemas'],
         'provider-tools': ['get_provider_apis'],
         'utility-tools': ['get_popular_apis', 'get_recently_updated', 'analyze_api_categories']
       };
@@ -332,7 +332,7 @@ describe('MCP Server Integration Tests', () => {
       // List tools 10 times
       for (let i = 0; i < 10; i++) {
         const { tools } = await toolHandler.listTools();
-        expect(tools).toHaveLength(22);
+        expect(tools).toHaveLength(28);
       }
       
       const endTime = Date.now();
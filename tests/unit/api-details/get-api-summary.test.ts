@@ -95,7 +95,7 @@ describe('get_api_summary tool', () => {
 
     const result = await tool.execute({ api_id: 'googleapis.com:admin' }, mockContext);
 
-    expect(mockApiClient.getAPISummaryById).toHaveBeenCalledWith('googleapis.com:admin');
+    expect(mockApiClient.getAPISummaryById).toHaveBeenCalledWith('googleapis.com:admin', undefined);
     expect(result).toEqual(mockApiSummary);
   });
 
@@ -153,7 +153,7 @@ describe('get_api_summary tool', () => {
       
       const result = await tool.execute({ api_id: apiId }, mockContext);
       
-      expect(mockApiClient.getAPISummaryById).toHaveBeenCalledWith(apiId);
+      expect(mockApiClient.getAPISummaryById).toHaveBeenCalledWith(apiId, undefined);
       expect(result.id).toBe(apiId);
     }
   });
@@ -163,10 +163,18 @@ describe('get_api_summary tool', () => {
 
     const result = await tool.execute({ api_id: '' }, mockContext);
 
-    expect(mockApiClient.getAPISummaryById).toHaveBeenCalledWith('');
+    expect(mockApiClient.getAPISummaryById).toHaveBeenCalledWith('', undefined);
     expect(result).toBeNull();
   });
 
+  test('should pass the requested version', async () => {
+    mockApiClient.getAPISummaryById.mockResolvedValue({ id: 'googleapis.com:admin', version: 'v1' });
+
+    await tool.execute({ api_id: 'googleapis.com:admin', version: 'v1' }, mockContext);
+
+    expect(mockApiClient.getAPISummaryById).toHaveBeenCalledWith('googleapis.com:admin', 'v1');
+  });
+
   test('should handle API with minimal information', async () => {
     const minimalApiSummary = {
       id: 'minimal.com:api',
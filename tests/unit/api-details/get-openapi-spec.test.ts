@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach, jest } from '@jest/globals';
 import { tool } from '../../../src/tools/api-details/get-openapi-spec.js';
 import { ToolContext } from '../../../src/tools/types.js';
+import { ResponseBudget } from '../../../src/utils/response-budget.js';
 
 describe('get_openapi_spec tool', () => {
   let mockContext: ToolContext;
@@ -195,4 +196,34 @@ describe('get_openapi_spec tool', () => {
     expect(mockApiClient.getOpenAPISpec).toHaveBeenCalledWith('');
     expect(result).toBeNull();
   });
-});
\ No newline at end of file
+
+  test('should return large specs as partial documents that merge back together', async () => {
+    const paths: Record<string, any> = {};
+    const schemas: Record<string, any> = {};
+    for (let i = 0; i < 15; i++) {
+      paths[`/items/${i}`] = { get: { summary: 'x'.repeat(200) } };
+      schemas[`Item${i}`] = { type: 'object', description: 'y'.repeat(200) };
+    }
+    const mockSpec = {
+      openapi: '3.0.0',
+      info: { title: 'Large API', version: '1.0.0' },
+      paths,
+      components: { schemas }
+    };
+    mockApiClient.getOpenAPISpec.mockResolvedValue(mockSpec);
+    mockContext.responseBudget = new ResponseBudget(2048);
+
+    const merged: any = { paths: {}, components: { schemas: {} } };
+    let cursor: string | undefined;
+    do {
+      const result = await tool.execute({ url: 'https://example.com/spec.json', cursor }, mockContext);
+      const { paths: chunkPaths, components, ...rest } = result.data;
+      Object.assign(merged, rest);
+      Object.assign(merged.paths, chunkPaths);
+      Object.assign(merged.components.schemas, components?.schemas);
+      cursor = result.pagination.next_cursor;
+    } while (cursor);
+
+    expect(merged).toEqual(mockSpec);
+  });
+});
@@ -88,7 +88,7 @@ describe('search_apis tool', () => {
       query: 'calendar'
     }, mockContext);
 
-    expect(mockApiClient.searchAPIs).toHaveBeenCalledWith('calendar', undefined, 1, 20);
+    expect(mockApiClient.searchAPIs).toHaveBeenCalledWith('calendar', undefined, 1, 20, expect.any(Object));
     expect(result).toEqual(mockResponse);
   });
 
@@ -109,7 +109,7 @@ describe('search_apis tool', () => {
       limit: 10
     }, mockContext);
 
-    expect(mockApiClient.searchAPIs).toHaveBeenCalledWith('payment', 'stripe.com', 2, 10);
+    expect(mockApiClient.searchAPIs).toHaveBeenCalledWith('payment', 'stripe.com', 2, 10, expect.any(Object));
     expect(result).toEqual(mockResponse);
   });
 
@@ -166,7 +166,7 @@ describe('search_apis tool', () => {
       
       const result = await tool.execute({ query }, mockContext);
       
-      expect(mockApiClient.searchAPIs).toHaveBeenCalledWith(query, undefined, 1, 20);
+      expect(mockApiClient.searchAPIs).toHaveBeenCalledWith(query, undefined, 1, 20, expect.any(Object));
       expect(result.results[0].title).toContain(query);
     }
   });
@@ -0,0 +1,83 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { tool } from '../../../src/tools/api-discovery/find-apis-by-auth.js';
+import { ToolContext } from '../../../src/tools/types.js';
+
+describe('find_apis_by_auth tool', () => {
+  let mockContext: ToolContext;
+  let mockSearchAuthSchemes: jest.Mock<any, any>;
+
+  beforeEach(() => {
+    mockSearchAuthSchemes = jest.fn<any, any>();
+    mockContext = {
+      apiClient: {
+        searchAuthSchemes: mockSearchAuthSchemes,
+      } as any,
+      cacheManager: {} as any,
+    };
+  });
+
+  test('should have correct metadata', () => {
+    expect(tool.name).toBe('find_apis_by_auth');
+    expect(tool.description).toContain('authentication scheme');
+    expect(tool.inputSchema.required).toEqual([]);
+    expect(tool.outputSchema.required).toEqual(['results', 'pagination', 'indexed_apis']);
+  });
+
+  test('should call searchAuthSchemes with defaults', async () => {
+    const mockResponse = {
+      results: [
+        {
+          api_id: 'github.com',
+          schemes: [{ name: 'oauth', type: 'oauth2', flows: ['authorizationCode'] }],
+        },
+      ],
+      pagination: {
+        page: 1,
+        limit: 20,
+        total_results: 1,
+        total_pages: 1,
+        has_next: false,
+        has_previous: false,
+      },
+      indexed_apis: 5,
+    };
+    mockSearchAuthSchemes.mockResolvedValue(mockResponse);
+
+    const result = await tool.execute({ type: 'oauth2' }, mockContext);
+
+    expect(mockSearchAuthSchemes).toHaveBeenCalledWith(
+      { type: 'oauth2', in: undefined, flow: undefined, only: false, provider: undefined },
+      1,
+      20,
+      { signal: undefined, onProgress: undefined }
+    );
+    expect(result).toEqual(mockResponse);
+  });
+
+  test('should pass location, flow, only and pagination', async () => {
+    await tool.execute(
+      { type: 'apikey', in: 'header', only: true, provider: 'example.com', page: 2, limit: 5 },
+      mockContext
+    );
+    await tool.execute({ flow: 'client_credentials' }, mockContext);
+
+    expect(mockSearchAuthSchemes).toHaveBeenNthCalledWith(
+      1,
+      { type: 'apikey', in: 'header', flow: undefined, only: true, provider: 'example.com' },
+      2,
+      5,
+      expect.any(Object)
+    );
+    expect(mockSearchAuthSchemes).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ flow: 'client_credentials' }),
+      1,
+      20,
+      expect.any(Object)
+    );
+  });
+
+  test('should reject unknown scheme types', async () => {
+    await expect(tool.execute({ type: 'kerberos' }, mockContext)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { tool } from '../../../src/tools/api-discovery/find-similar-apis.js';
+import { ToolContext } from '../../../src/tools/types.js';
+
+describe('find_similar_apis tool', () => {
+  let mockContext: ToolContext;
+  let mockFindSimilarAPIs: jest.Mock<any, any>;
+
+  beforeEach(() => {
+    mockFindSimilarAPIs = jest.fn<any, any>();
+    mockContext = {
+      apiClient: {
+        findSimilarAPIs: mockFindSimilarAPIs,
+      } as any,
+      cacheManager: {} as any,
+    };
+  });
+
+  test('should have correct metadata', () => {
+    expect(tool.name).toBe('find_similar_apis');
+    expect(tool.description).toContain('alternatives');
+    expect(tool.inputSchema.required).toEqual(['api_id']);
+    expect(tool.outputSchema.required).toEqual(['api_id', 'results', 'compared_apis']);
+  });
+
+  test('should call findSimilarAPIs with defaults', async () => {
+    const mockResponse = {
+      api_id: 'twilio.com:api',
+      results: [
+        {
+          id: 'vonage.com:sms',
+          title: 'SMS API',
+          provider: 'vonage.com',
+          score: 0.42,
+          reason: 'Shared categories: telecom. Common terms: sms, messages',
+        },
+      ],
+      compared_apis: 10,
+    };
+    mockFindSimilarAPIs.mockResolvedValue(mockResponse);
+
+    const result = await tool.execute({ api_id: 'twilio.com:api' }, mockContext);
+
+    expect(mockFindSimilarAPIs).toHaveBeenCalledWith('twilio.com:api', 10, false, {
+      signal: undefined,
+      onProgress: undefined,
+    });
+    expect(result).toEqual(mockResponse);
+  });
+
+  test('should pass limit and include_same_provider', async () => {
+    await tool.execute({ api_id: 'custom:mine:v1', limit: 3, include_same_provider: true }, mockContext);
+
+    expect(mockFindSimilarAPIs).toHaveBeenCalledWith('custom:mine:v1', 3, true, expect.any(Object));
+  });
+
+  test('should validate required api_id parameter', async () => {
+    await expect(tool.execute({}, mockContext)).rejects.toThrow();
+  });
+});
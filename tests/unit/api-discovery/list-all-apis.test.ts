@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach, jest } from '@jest/globals';
 import { tool } from '../../../src/tools/api-discovery/list-all-apis.js';
 import { ToolContext } from '../../../src/tools/types.js';
+import { ResponseBudget } from '../../../src/utils/response-budget.js';
 
 describe('list_all_apis tool', () => {
   let mockContext: ToolContext;
@@ -69,70 +70,81 @@ describe('list_all_apis tool', () => {
   });
 
   test('should return list of all APIs', async () => {
-    const mockResponse = {
-      results: [
-        {
-          id: 'googleapis.com:admin',
-          title: 'Admin SDK API',
-          provider: 'googleapis.com',
-          preferred: 'v1',
-          categories: ['admin']
-        },
-        {
-          id: 'stripe.com',
-          title: 'Stripe API',
-          provider: 'stripe.com',
-          preferred: 'v1',
-          categories: ['payment']
-        },
-        {
-          id: 'github.com',
-          title: 'GitHub API',
-          provider: 'github.com',
-          preferred: 'v3',
-          categories: ['developer']
-        }
-      ],
-      pagination: {
-        page: 1,
-        limit: 50,
-        total_results: 3,
-        total_pages: 1,
-        has_next: false,
-        has_previous: false
+    const mockAPIs = {
+      'googleapis.com:admin': {
+        added: '2015-01-01T00:00:00Z',
+        preferred: 'v1',
+        versions: {}
+      },
+      'stripe.com': {
+        added: '2017-01-01T00:00:00Z',
+        preferred: 'v1',
+        versions: {}
       }
     };
 
-    mockApiClient.getPaginatedAPIs.mockResolvedValue(mockResponse);
+    mockApiClient.listAPIs.mockResolvedValue(mockAPIs);
 
     const result = await tool.execute({}, mockContext);
 
-    expect(mockApiClient.getPaginatedAPIs).toHaveBeenCalled();
-    expect(result).toEqual(mockResponse);
+    expect(mockApiClient.listAPIs).toHaveBeenCalled();
+    expect(result).toEqual({
+      data: mockAPIs,
+      pagination: {
+        offset: 0,
+        returned_items: 2,
+        total_items: 2,
+        has_more: false
+      }
+    });
+  });
+
+  test('should pass cancellation and progress through to the API client', async () => {
+    mockApiClient.listAPIs.mockResolvedValue({});
+    const controller = new AbortController();
+    const onProgress = jest.fn();
+    mockContext.signal = controller.signal;
+    mockContext.onProgress = onProgress;
+
+    await tool.execute({}, mockContext);
+
+    expect(mockApiClient.listAPIs).toHaveBeenCalledWith({ signal: controller.signal, onProgress });
+  });
+
+  test('should split large lists into chunks with a continuation cursor', async () => {
+    const mockAPIs: Record<string, any> = {};
+    for (let i = 0; i < 20; i++) {
+      mockAPIs[`api-${i}.com`] = { preferred: 'v1', description: 'x'.repeat(200) };
+    }
+    mockApiClient.listAPIs.mockResolvedValue(mockAPIs);
+    mockContext.responseBudget = new ResponseBudget(2048);
+
+    const collected: Record<string, any> = {};
+    let cursor: string | undefined;
+    let calls = 0;
+    do {
+      const result = await tool.execute(cursor ? { cursor } : {}, mockContext);
+      expect(JSON.stringify(result).length).toBeLessThanOrEqual(2048);
+      Object.assign(collected, result.data);
+      cursor = result.pagination.next_cursor;
+      calls++;
+    } while (cursor);
+
+    expect(calls).toBeGreaterThan(1);
+    expect(collected).toEqual(mockAPIs);
   });
 
   test('should handle empty API list', async () => {
-    const emptyResponse = {
-      results: [],
-      pagination: {
-        page: 1,
-        limit: 50,
-        total_results: 0,
-        total_pages: 0,
-        has_next: false,
-        has_previous: false
-      }
-    };
-    
-    mockApiClient.getPaginatedAPIs.mockResolvedValue(emptyResponse);
+    mockApiClient.listAPIs.mockResolvedValue({});
 
     const result = await tool.execute({}, mockContext);
 
-    expect(result).toEqual(emptyResponse);
+    expect(result.data).toEqual({});
+    expect(result.pagination.has_more).toBe(false);
   });
 
   test('should handle API client errors', async () => {
-    mockApiClient.getPaginatedAPIs.mockRejectedValue(
+    mockApiClient.listAPIs.mockRejectedValue(
       new Error('Failed to fetch API list')
     );
 
@@ -140,11 +152,13 @@ describe('list_all_apis tool', () => {
       .rejects.toThrow('Failed to fetch API list');
   });
 
-  test('should handle null response', async () => {
-    mockApiClient.getPaginatedAPIs.mockResolvedValue(null);
-
-    const result = await tool.execute({}, mockContext);
+  test('should reject cursors from other tools', async () => {
+    mockApiClient.listAPIs.mockResolvedValue({ 'a.com': {}, 'b.com': {} });
+    const cursor = Buffer.from(
+      JSON.stringify({ t: 'get_provider_apis', k: 'all_apis', o: 1, n: 2 })
+    ).toString('base64url');
 
-    expect(result).toBeNull();
+    await expect(tool.execute({ cursor }, mockContext))
+      .rejects.toThrow('Invalid cursor');
   });
-});
\ No newline at end of file
+});
@@ -673,56 +673,56 @@ describe('ApiClient - Branch Coverage', () => {
       expect(result.results[0].id).toBe('api1'); // Exact provider match should be first
     });
 
-    test('should score provider contains query second highest', async () => {
+    test('should rank provider matches above description matches', async () => {
       mockCacheManager.get.mockReturnValue(null);
       mockHttpInstance.get.mockResolvedValue({
         data: {
           'api1': {
             preferred: 'v1',
-            versions: { 'v1': { info: { title: 'API 1', 'x-providerName': 'besttestprovider' } } }
+            versions: { 'v1': { info: { title: 'API 1', description: 'Built for test suites' } } }
           },
           'api2': {
             preferred: 'v1',
-            versions: { 'v1': { info: { title: 'Has test in title' } } }
+            versions: { 'v1': { info: { title: 'API 2', 'x-providerName': 'test' } } }
           }
         }
       });
       
       const result = await client.searchAPIs('test', undefined, 1, 20);
-      expect(result.results[0].id).toBe('api1'); // Provider contains match should be first
+      expect(result.results.map(r => r.id)).toEqual(['api2', 'api1']);
     });
 
-    test('should score ID starts with query third highest', async () => {
+    test('should rank APIs matching more query terms first', async () => {
       mockCacheManager.get.mockReturnValue(null);
       mockHttpInstance.get.mockResolvedValue({
         data: {
-          'test-api': { // ID starts with query
+          'twilio.com:api': {
             preferred: 'v1',
-            versions: { 'v1': { info: { title: 'API 1' } } }
+            versions: { 'v1': { info: { title: 'Twilio', description: 'Send SMS messages and make calls' } } }
           },
-          'api-test': { // ID contains query
+          'mailer.io:api': {
             preferred: 'v1',
-            versions: { 'v1': { info: { title: 'API 2' } } }
+            versions: { 'v1': { info: { title: 'Mailer', description: 'Send email' } } }
           }
         }
       });
       
-      const result = await client.searchAPIs('test', undefined, 1, 20);
-      expect(result.results[0].id).toBe('test-api'); // ID starts with should be first
+      const result = await client.searchAPIs('send sms messages', undefined, 1, 20);
+      expect(result.results.map(r => r.id)).toEqual(['twilio.com:api', 'mailer.io:api']);
     });
 
     test('should use updated date for secondary sorting', async () => {
       mockCacheManager.get.mockReturnValue(null);
       mockHttpInstance.get.mockResolvedValue({
         data: {
-          'test1': {
+          'test:one': {
             preferred: 'v1',
             versions: { 'v1': { 
               info: { title: 'API 1' },
               updated: '2023-01-02T00:00:00Z'
             } }
           },
-          'test2': {
+          'test:two': {
             preferred: 'v1',
             versions: { 'v1': { 
               info: { title: 'API 2' },
@@ -733,21 +733,21 @@ describe('ApiClient - Branch Coverage', () => {
       });
       
       const result = await client.searchAPIs('test', undefined, 1, 20);
-      expect(result.results[0].id).toBe('test1'); // Newer date should be first
+      expect(result.results[0].id).toBe('test:one'); // Newer date should be first
     });
 
     test('should handle missing updated date as epoch', async () => {
       mockCacheManager.get.mockReturnValue(null);
       mockHttpInstance.get.mockResolvedValue({
         data: {
-          'test1': {
+          'test:one': {
             preferred: 'v1',
             versions: { 'v1': { 
               info: { title: 'API 1' }
               // No updated field
             } }
           },
-          'test2': {
+          'test:two': {
             preferred: 'v1',
             versions: { 'v1': { 
               info: { title: 'API 2' },
@@ -758,7 +758,7 @@ describe('ApiClient - Branch Coverage', () => {
       });
       
       const result = await client.searchAPIs('test', undefined, 1, 20);
-      expect(result.results[0].id).toBe('test2'); // API with date should be before one without
+      expect(result.results[0].id).toBe('test:two'); // API with date should be before one without
     });
 
     test('should use ID for tertiary sorting', async () => {
@@ -2,6 +2,8 @@ import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globa
 import { ApiClient } from '../../../src/api/client.js';
 import { ICacheManager } from '../../../src/cache/types.js';
 import axios from 'axios';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import { tool as endpointSchemaTool } from '../../../src/tools/endpoint-tools/get-endpoint-schema.js';
 // Note: ApiClient throws regular Error objects, not custom error types
 
 // Mock axios
@@ -83,7 +85,7 @@ describe('ApiClient - Comprehensive Tests', () => {
       const result = await apiClient.listAPIs();
 
       expect(mockCacheManager.get).toHaveBeenCalledWith('all_apis');
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/list.json');
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/list.json', {});
       expect(mockCacheManager.set).toHaveBeenCalledWith('all_apis', mockAPIs, undefined);
       expect(result).toEqual(mockAPIs);
     });
@@ -497,6 +499,55 @@ describe('ApiClient - Comprehensive Tests', () => {
       });
     });
 
+    test('should read the spec of a requested version', async () => {
+      const allAPIs = {
+        'test.com': {
+          added: '2020-01-01',
+          preferred: 'v1',
+          versions: {
+            v1: { info: { title: 'Test API' }, swaggerUrl: 'https://test.com/v1/swagger.json' },
+            'v2-beta': { info: { title: 'Test API' }, swaggerUrl: 'https://test.com/v2/swagger.json' }
+          }
+        }
+      };
+
+      mockCacheManager.get.mockReturnValue(undefined);
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: allAPIs });
+      mockedAxios.get.mockResolvedValueOnce({
+        data: { paths: { '/beta': { get: { summary: 'Beta only' } } } }
+      });
+
+      const result = await apiClient.getAPIEndpoints('test.com', 1, 10, undefined, 'v2-beta');
+
+      expect(mockedAxios.get).toHaveBeenCalledWith('https://test.com/v2/swagger.json', expect.any(Object));
+      expect(result.results).toEqual([expect.objectContaining({ path: '/beta', method: 'GET' })]);
+      expect(mockCacheManager.set).toHaveBeenCalledWith(
+        'endpoints:test.com@v2-beta:1:10:all',
+        expect.any(Object),
+        expect.any(Number)
+      );
+    });
+
+    test('should list available versions for an unknown version', async () => {
+      mockCacheManager.get.mockReturnValue(undefined);
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: {
+          'test.com': {
+            added: '2020-01-01',
+            preferred: 'v1',
+            versions: {
+              v1: { info: { title: 'Test API' }, swaggerUrl: 'https://test.com/v1/swagger.json' },
+              v2: { info: { title: 'Test API' }, swaggerUrl: 'https://test.com/v2/swagger.json' }
+            }
+          }
+        }
+      });
+
+      await expect(
+        apiClient.getAPIEndpoints('test.com', 1, 10, undefined, 'v3')
+      ).rejects.toThrow('Version v3 not found for API: test.com (available: v1, v2)');
+    });
+
     test('should filter endpoints by tag', async () => {
       const mockSpec = {
         paths: {
@@ -612,6 +663,56 @@ describe('ApiClient - Comprehensive Tests', () => {
       expect(result.responses).toHaveLength(2);
     });
 
+    test('should read Swagger 2.0 bodies, media types and security definitions', async () => {
+      const swaggerSpec = {
+        swagger: '2.0',
+        consumes: ['application/json'],
+        produces: ['application/json'],
+        securityDefinitions: { key: { type: 'apiKey', name: 'X-Key', in: 'header' } },
+        security: [{ key: [] }],
+        paths: {
+          '/users': {
+            post: {
+              parameters: [
+                { name: 'user', in: 'body', required: true, schema: { type: 'object' } },
+                { name: 'dry_run', in: 'query', type: 'boolean' }
+              ],
+              responses: { '201': { description: 'Created', schema: { type: 'object' } } }
+            }
+          }
+        }
+      };
+      const allAPIs = {
+        'test.com': {
+          added: '2020-01-01',
+          preferred: 'v1',
+          versions: { v1: { info: { title: 'Test API' }, swaggerUrl: 'https://test.com/swagger.json' } }
+        }
+      };
+
+      mockCacheManager.get.mockReturnValue(undefined);
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: allAPIs });
+      mockedAxios.get.mockResolvedValueOnce({ data: swaggerSpec });
+
+      const result = await apiClient.getEndpointDetails('test.com', 'POST', '/users');
+
+      expect(result.parameters).toEqual([
+        { name: 'dry_run', in: 'query', required: false, type: 'boolean', description: undefined }
+      ]);
+      expect(result.consumes).toEqual(['application/json']);
+      expect(result.produces).toEqual(['application/json']);
+      expect(result.responses).toEqual([
+        { code: '201', description: 'Created', content_types: ['application/json'] }
+      ]);
+      expect(result.security).toEqual([{ type: 'apiKey' }]);
+      expect(mockCacheManager.set).toHaveBeenCalledWith('spec:https://test.com/swagger.json', swaggerSpec, undefined);
+      expect(mockCacheManager.set).toHaveBeenCalledWith(
+        'spec:normalized:https://test.com/swagger.json',
+        expect.objectContaining({ openapi: '3.0.3' }),
+        undefined
+      );
+    });
+
     test('should throw error for non-existent endpoint', async () => {
       const mockSpec = {
         paths: {}
@@ -715,6 +816,156 @@ describe('ApiClient - Comprehensive Tests', () => {
       expect(result.responses).toBeDefined();
       expect(result.responses).toHaveLength(1);
       expect(result.responses[0].code).toBe('201');
+      const validate = new AjvJsonSchemaValidator().getValidator(endpointSchemaTool.outputSchema as any);
+      expect(validate(result).errorMessage).toBeUndefined();
+    });
+
+    test('should resolve refs in schemas, parameters and response headers', async () => {
+      const mockSpec = {
+        paths: {
+          '/users/{id}': {
+            get: {
+              parameters: [{ $ref: '#/components/parameters/UserId' }],
+              responses: {
+                '200': {
+                  headers: { 'X-Rate-Limit': { $ref: '#/components/headers/RateLimit' } },
+                  content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+                },
+                '404': { $ref: '#/components/responses/NotFound' }
+              }
+            }
+          }
+        },
+        components: {
+          parameters: { UserId: { name: 'id', in: 'path', required: true, schema: { type: 'string' } } },
+          headers: { RateLimit: { schema: { type: 'integer' } } },
+          responses: {
+            NotFound: { content: { 'application/json': { schema: { $ref: 'common.json#/Error' } } } }
+          },
+          schemas: {
+            User: { type: 'object', properties: { id: { type: 'string' } } }
+          }
+        }
+      };
+
+      const allAPIs = {
+        'test.com': {
+          added: '2020-01-01',
+          preferred: 'v1',
+          versions: {
+            v1: {
+              info: { title: 'Test API' },
+              swaggerUrl: 'https://test.com/specs/swagger.json'
+            }
+          }
+        }
+      };
+
+      mockCacheManager.get.mockReturnValue(undefined);
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: allAPIs });
+      mockedAxios.get
+        .mockResolvedValueOnce({ data: mockSpec })
+        .mockResolvedValueOnce({ data: { Error: { type: 'object', properties: { message: { type: 'string' } } } } });
+
+      const result = await apiClient.getEndpointSchema('test.com', 'GET', '/users/{id}', { resolveRefs: 'deep' });
+
+      expect(result.parameters).toEqual([{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }]);
+      expect(result.responses).toEqual([
+        {
+          code: '200',
+          content_type: 'application/json',
+          schema: { type: 'object', properties: { id: { type: 'string' } } },
+          headers: { 'X-Rate-Limit': { schema: { type: 'integer' } } }
+        },
+        {
+          code: '404',
+          content_type: 'application/json',
+          schema: { type: 'object', properties: { message: { type: 'string' } } }
+        }
+      ]);
+      expect(mockedAxios.get).toHaveBeenLastCalledWith('https://test.com/specs/common.json', expect.any(Object));
+      expect(mockCacheManager.set).toHaveBeenCalledWith(
+        'endpoint_schema:test.com:get:/users/{id}:refs=deep:10',
+        expect.any(Object),
+        600000
+      );
+    });
+
+    test('should return every request media type and responses without bodies or with wildcard codes', async () => {
+      const mockSpec = {
+        openapi: '3.0.0',
+        components: {
+          headers: { RequestId: { description: 'Request id', schema: { type: 'string' } } },
+          schemas: { Error: { type: 'object', properties: { message: { type: 'string' } } } }
+        },
+        paths: {
+          '/files': {
+            post: {
+              requestBody: {
+                description: 'File to store',
+                required: true,
+                content: {
+                  'application/json': { schema: { type: 'object', properties: { url: { type: 'string' } } } },
+                  'multipart/form-data': {
+                    schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } } },
+                    encoding: { file: { contentType: 'image/png', headers: { 'X-Request-Id': { $ref: '#/components/headers/RequestId' } } } }
+                  },
+                  'application/octet-stream': {}
+                }
+              },
+              responses: {
+                '201': { description: 'Created', headers: { Location: { schema: { type: 'string' } } } },
+                '4XX': { description: 'Client error', content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } },
+                default: { description: 'Unexpected error' }
+              }
+            }
+          }
+        }
+      };
+      const allAPIs = {
+        'test.com': {
+          added: '2020-01-01',
+          preferred: 'v1',
+          versions: { v1: { info: { title: 'Test API' }, swaggerUrl: 'https://test.com/openapi.json' } }
+        }
+      };
+
+      mockCacheManager.get.mockReturnValue(undefined);
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: allAPIs });
+      mockedAxios.get.mockResolvedValueOnce({ data: mockSpec });
+
+      const result = await apiClient.getEndpointSchema('test.com', 'POST', '/files', { resolveRefs: 'shallow' });
+
+      expect(result.request_body).toEqual({
+        content_type: 'application/json',
+        schema: { type: 'object', properties: { url: { type: 'string' } } },
+        required: true,
+        description: 'File to store',
+        media_types: [
+          { content_type: 'application/json', schema: { type: 'object', properties: { url: { type: 'string' } } } },
+          {
+            content_type: 'multipart/form-data',
+            schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } } },
+            encoding: {
+              file: {
+                contentType: 'image/png',
+                headers: { 'X-Request-Id': { description: 'Request id', schema: { type: 'string' } } }
+              }
+            }
+          },
+          { content_type: 'application/octet-stream' }
+        ]
+      });
+      expect(result.responses).toEqual([
+        { code: '201', description: 'Created', headers: { Location: { schema: { type: 'string' } } } },
+        {
+          code: '4XX',
+          description: 'Client error',
+          content_type: 'application/json',
+          schema: { type: 'object', properties: { message: { type: 'string' } } }
+        },
+        { code: 'default', description: 'Unexpected error' }
+      ]);
     });
   });
 
@@ -791,6 +1042,207 @@ describe('ApiClient - Comprehensive Tests', () => {
       expect(result.request_examples[0].description).toBe('user1');
       expect(result.request_examples[0].content_type).toBe('application/json');
     });
+
+    test('should synthesise examples the spec lacks from schemas', async () => {
+      const mockSpec = {
+        openapi: '3.0.0',
+        components: {
+          schemas: {
+            User: {
+              type: 'object',
+              required: ['email'],
+              properties: {
+                id: { type: 'string', format: 'uuid', readOnly: true },
+                email: { type: 'string', format: 'email' }
+              }
+            }
+          },
+          parameters: {
+            DryRun: { name: 'dry_run', in: 'query', schema: { type: 'boolean' } }
+          }
+        },
+        paths: {
+          '/users': {
+            post: {
+              parameters: [
+                { $ref: '#/components/parameters/DryRun' },
+                { name: 'X-Request-Id', in: 'header', example: 'abc' }
+              ],
+              requestBody: {
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+              },
+              responses: {
+                '201': {
+                  description: 'Created',
+                  content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+                }
+              }
+            }
+          }
+        }
+      };
+      const allAPIs = {
+        'test.com': {
+          added: '2020-01-01',
+          preferred: 'v1',
+          versions: { v1: { info: { title: 'Test API' }, swaggerUrl: 'https://test.com/openapi.json' } }
+        }
+      };
+
+      mockCacheManager.get.mockReturnValue(undefined);
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: allAPIs });
+      mockedAxios.get.mockResolvedValueOnce({ data: mockSpec });
+
+      const result = await apiClient.getEndpointExamples('test.com', 'POST', '/users');
+
+      expect(result.request_examples).toEqual([
+        { content_type: 'application/json', example: { email: 'user@example.com' }, description: undefined, synthetic: true }
+      ]);
+      expect(result.response_examples).toEqual([
+        {
+          code: '201',
+          content_type: 'application/json',
+          example: { id: '3fa85f64-5717-4562-b3fc-2c963f66afa6', email: 'user@example.com' },
+          description: 'Created',
+          synthetic: true
+        }
+      ]);
+      expect(result.parameter_examples).toEqual([
+        { name: 'dry_run', example: true, synthetic: true },
+        { name: 'X-Request-Id', example: 'abc' }
+      ]);
+    });
+  });
+
+  describe('getWebhooks', () => {
+    test('should list webhooks and callbacks of the requested version', async () => {
+      const mockSpec = {
+        openapi: '3.1.0',
+        webhooks: {
+          userCreated: {
+            post: { requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } }, responses: {} }
+          }
+        },
+        paths: {
+          '/users': {
+            post: {
+              responses: {
+                '201': {
+                  description: 'Created',
+                  links: { GetUser: { operationId: 'getUser', parameters: { id: '$response.body#/id' } } }
+                }
+              },
+              callbacks: {
+                onVerified: { '{$request.body#/hookUrl}': { post: { responses: { '200': { description: 'OK' } } } } }
+              }
+            }
+          },
+          '/users/{id}': { get: { operationId: 'getUser', responses: {} } }
+        },
+        components: { schemas: { User: { type: 'object', properties: { id: { type: 'string' } } } } }
+      };
+      const allAPIs = {
+        'test.com': {
+          added: '2020-01-01',
+          preferred: 'v1',
+          versions: {
+            v1: { info: { title: 'Test API' }, swaggerUrl: 'https://test.com/v1.json' },
+            v2: { info: { title: 'Test API' }, swaggerUrl: 'https://test.com/v2.json' }
+          }
+        }
+      };
+
+      mockCacheManager.get.mockReturnValue(undefined);
+      mockAxiosInstance.get.mockResolvedValue({ data: allAPIs });
+      mockedAxios.get.mockResolvedValue({ data: mockSpec });
+
+      const result = await apiClient.getWebhooks('test.com', { resolveRefs: 'shallow' }, 'v2');
+
+      expect(mockedAxios.get).toHaveBeenCalledWith('https://test.com/v2.json', expect.any(Object));
+      expect(result).toEqual({
+        webhooks: [
+          {
+            name: 'userCreated',
+            method: 'POST',
+            payloads: [{ content_type: 'application/json', schema: { type: 'object', properties: { id: { type: 'string' } } } }],
+            responses: []
+          }
+        ],
+        callbacks: [
+          {
+            name: 'onVerified',
+            method: 'POST',
+            payloads: [],
+            responses: [{ code: '200', description: 'OK' }],
+            expression: '{$request.body#/hookUrl}',
+            source: { method: 'POST', path: '/users' }
+          }
+        ]
+      });
+      expect(mockCacheManager.set).toHaveBeenCalledWith('webhooks:test.com@v2:refs=shallow', result, 600000);
+
+      const details = await apiClient.getEndpointDetails('test.com', 'POST', '/users');
+      expect(details.responses[0]!.links).toEqual([
+        {
+          name: 'GetUser',
+          operationId: 'getUser',
+          target: { method: 'GET', path: '/users/{id}' },
+          parameters: { id: '$response.body#/id' }
+        }
+      ]);
+    });
+  });
+
+  describe('getEndpointSnippet', () => {
+    test('should render the requested version of a Swagger 2 endpoint', async () => {
+      const mockSpec = {
+        swagger: '2.0',
+        host: 'api.test.com',
+        basePath: '/v2',
+        schemes: ['https'],
+        securityDefinitions: { token: { type: 'apiKey', in: 'header', name: 'X-Token' } },
+        security: [{ token: [] }],
+        paths: {
+          '/users/{id}': {
+            get: {
+              parameters: [{ name: 'id', in: 'path', required: true, type: 'string', 'x-example': 'u1' }],
+              responses: { '200': { description: 'OK' } }
+            }
+          }
+        }
+      };
+      const allAPIs = {
+        'test.com': {
+          added: '2020-01-01',
+          preferred: 'v1',
+          versions: {
+            v1: { info: { title: 'Test API' }, swaggerUrl: 'https://test.com/v1.json' },
+            v2: { info: { title: 'Test API' }, swaggerUrl: 'https://test.com/v2.json' }
+          }
+        }
+      };
+
+      mockCacheManager.get.mockReturnValue(undefined);
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: allAPIs });
+      mockedAxios.get.mockResolvedValueOnce({ data: mockSpec });
+
+      const result = await apiClient.getEndpointSnippet('test.com', 'GET', '/users/{id}', 'curl', 'v2');
+
+      expect(mockedAxios.get).toHaveBeenCalledWith('https://test.com/v2.json', expect.any(Object));
+      expect(result).toEqual({
+        method: 'GET',
+        path: '/users/{id}',
+        language: 'curl',
+        url: 'https://api.test.com/v2/users/u1',
+        snippet: "curl 'https://api.test.com/v2/users/u1' \\\n  -H 'X-Token: <API_KEY>'",
+        placeholders: ['<API_KEY>']
+      });
+      expect(mockCacheManager.set).toHaveBeenCalledWith(
+        'endpoint_snippet:test.com@v2:get:/users/{id}:curl',
+        result,
+        600000
+      );
+    });
   });
 
   describe('getPopularAPIs', () => {
@@ -997,6 +1449,44 @@ paths:
     });
   });
 
+  describe('client options', () => {
+    test('should apply configured timeouts', async () => {
+      mockedAxios.create.mockClear();
+      const client = new ApiClient('https://api.example.com', mockCacheManager, {
+        timeout: 5000,
+        specFetchTimeout: 7000,
+      });
+      mockCacheManager.get.mockReturnValueOnce(undefined);
+      mockedAxios.get.mockResolvedValueOnce({ data: {} });
+
+      await client.getOpenAPISpec('https://example.com/openapi.json');
+
+      expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({ timeout: 5000 }));
+      expect(mockedAxios.get).toHaveBeenCalledWith('https://example.com/openapi.json', {
+        timeout: 7000,
+      });
+    });
+
+    test('should serve cached data but refuse network requests when disabled', async () => {
+      mockAxiosInstance.interceptors = { request: { use: jest.fn() } };
+      const client = new ApiClient('https://api.example.com', mockCacheManager, {
+        enabled: false,
+      });
+      const interceptor = mockAxiosInstance.interceptors.request.use.mock.calls[0][0];
+      expect(() => interceptor({})).toThrow('Primary source is disabled by the active configuration');
+
+      const cachedSpec = { openapi: '3.0.0' };
+      mockCacheManager.get.mockReturnValueOnce(cachedSpec);
+      await expect(client.getOpenAPISpec('https://example.com/cached.json')).resolves.toBe(cachedSpec);
+
+      mockCacheManager.get.mockReturnValueOnce(undefined);
+      await expect(client.getOpenAPISpec('https://example.com/openapi.json')).rejects.toThrow(
+        'Primary source is disabled by the active configuration'
+      );
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+  });
+
   describe('error handling', () => {
     test('should throw NetworkError for connection issues', async () => {
       mockCacheManager.get.mockReturnValueOnce(undefined);
@@ -179,10 +179,7 @@ describe('DualSourceApiClient - Additional Branch Coverage', () => {
       mockCacheManager.get.mockReturnValue(null);
 
       // Mock primary to return empty
-      mockPrimaryClient.searchAPIs.mockResolvedValue({
-        results: [],
-        pagination: { page: 1, limit: 50, total_results: 0, total_pages: 0, has_next: false, has_previous: false }
-      });
+      mockPrimaryClient.listAPIs.mockResolvedValue({});
 
       // Mock secondary with complex API data to test all search branches
       mockSecondaryClient.listAPIs.mockResolvedValue({
@@ -238,10 +235,7 @@ describe('DualSourceApiClient - Additional Branch Coverage', () => {
     test('should handle search with query matching description field', async () => {
       mockCacheManager.get.mockReturnValue(null);
 
-      mockPrimaryClient.searchAPIs.mockResolvedValue({
-        results: [],
-        pagination: { page: 1, limit: 50, total_results: 0, total_pages: 0, has_next: false, has_previous: false }
-      });
+      mockPrimaryClient.listAPIs.mockResolvedValue({});
 
       mockSecondaryClient.listAPIs.mockResolvedValue({
         'analytics:api:1.0.0': {
@@ -277,10 +271,7 @@ describe('DualSourceApiClient - Additional Branch Coverage', () => {
     test('should handle search with query matching x-providerName field', async () => {
       mockCacheManager.get.mockReturnValue(null);
 
-      mockPrimaryClient.searchAPIs.mockResolvedValue({
-        results: [],
-        pagination: { page: 1, limit: 50, total_results: 0, total_pages: 0, has_next: false, has_previous: false }
-      });
+      mockPrimaryClient.listAPIs.mockResolvedValue({});
 
       mockSecondaryClient.listAPIs.mockResolvedValue({
         'provider:api:1.0.0': {
@@ -316,10 +307,7 @@ describe('DualSourceApiClient - Additional Branch Coverage', () => {
     test('should handle APIs with missing version info fields', async () => {
       mockCacheManager.get.mockReturnValue(null);
 
-      mockPrimaryClient.searchAPIs.mockResolvedValue({
-        results: [],
-        pagination: { page: 1, limit: 50, total_results: 0, total_pages: 0, has_next: false, has_previous: false }
-      });
+      mockPrimaryClient.listAPIs.mockResolvedValue({});
 
       mockSecondaryClient.listAPIs.mockResolvedValue({
         'incomplete:api:1.0.0': {
@@ -354,10 +342,7 @@ describe('DualSourceApiClient - Additional Branch Coverage', () => {
     test('should handle secondary listAPIs with empty return', async () => {
       mockCacheManager.get.mockReturnValue(null);
 
-      mockPrimaryClient.searchAPIs.mockResolvedValue({
-        results: [],
-        pagination: { page: 1, limit: 50, total_results: 0, total_pages: 0, has_next: false, has_previous: false }
-      });
+      mockPrimaryClient.listAPIs.mockResolvedValue({});
 
       // Return empty object instead of undefined (null would also work)
       mockSecondaryClient.listAPIs.mockResolvedValue({});
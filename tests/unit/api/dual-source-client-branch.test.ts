@@ -525,10 +525,7 @@ describe('DualSourceApiClient - Branch Coverage', () => {
     });
 
     test('should return empty results when no APIs match', async () => {
-      mockPrimaryClient.searchAPIs.mockResolvedValue({
-        results: [],
-        pagination: { page: 1, limit: 20, total_results: 0, total_pages: 0, has_next: false, has_previous: false }
-      });
+      mockPrimaryClient.listAPIs.mockResolvedValue({});
       mockSecondaryClient.listAPIs.mockResolvedValue({});
       mockCustomClient.listAPIs.mockResolvedValue({});
 
@@ -538,8 +535,8 @@ describe('DualSourceApiClient - Branch Coverage', () => {
       expect(result.pagination.total_results).toBe(0);
     });
 
-    test('should handle primary search API failures', async () => {
-      mockPrimaryClient.searchAPIs.mockRejectedValue(new Error('Primary failed'));
+    test('should handle primary listAPIs failures', async () => {
+      mockPrimaryClient.listAPIs.mockRejectedValue(new Error('Primary failed'));
       mockSecondaryClient.listAPIs.mockResolvedValue({});
       mockCustomClient.listAPIs.mockResolvedValue({});
 
@@ -549,10 +546,7 @@ describe('DualSourceApiClient - Branch Coverage', () => {
     });
 
     test('should handle secondary listAPIs failures', async () => {
-      mockPrimaryClient.searchAPIs.mockResolvedValue({
-        results: [],
-        pagination: { page: 1, limit: 20, total_results: 0, total_pages: 0, has_next: false, has_previous: false }
-      });
+      mockPrimaryClient.listAPIs.mockResolvedValue({});
       mockSecondaryClient.listAPIs.mockRejectedValue(new Error('Secondary failed'));
       mockCustomClient.listAPIs.mockResolvedValue({});
 
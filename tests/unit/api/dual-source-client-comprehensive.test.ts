@@ -87,6 +87,8 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
       getEndpointDetails: jest.fn(),
       getEndpointSchema: jest.fn(),
       getEndpointExamples: jest.fn(),
+      getEndpointSnippet: jest.fn(),
+      getWebhooks: jest.fn(),
       getPopularAPIs: jest.fn(),
       getRecentlyUpdatedAPIs: jest.fn(),
       getProviderStats: jest.fn(),
@@ -122,6 +124,8 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
       hasAPI: jest.fn(),
       getAPIEndpoints: jest.fn(),
       getEndpointDetails: jest.fn(),
+      getEndpointSnippet: jest.fn(),
+      getWebhooks: jest.fn(),
       invalidateCache: jest.fn(),
       getManifestManager: jest.fn()
     } as any;
@@ -140,8 +144,8 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
 
   describe('constructor', () => {
     test('should initialize all three clients correctly', () => {
-      expect(MockedApiClient).toHaveBeenCalledWith('primary-url', mockCacheManager);
-      expect(MockedSecondaryApiClient).toHaveBeenCalledWith('secondary-url', mockCacheManager);
+      expect(MockedApiClient).toHaveBeenCalledWith('primary-url', mockCacheManager, undefined);
+      expect(MockedSecondaryApiClient).toHaveBeenCalledWith('secondary-url', mockCacheManager, undefined);
       expect(MockedCustomSpecClient).toHaveBeenCalledWith(mockCacheManager);
     });
   });
@@ -518,146 +522,120 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
   });
 
   describe('searchAPIs', () => {
-    test('should search across all sources and merge results', async () => {
-      mockCacheManager.get.mockReturnValueOnce(undefined);
-      
-      const primaryResults = {
-        results: [{ id: 'p1:api1', title: 'Primary API', description: 'Test API', provider: 'p1', preferred: 'v1', categories: [] }],
-        pagination: { page: 1, limit: 20, total_results: 1, total_pages: 1, has_next: false, has_previous: false }
-      };
-      
-      const secondaryAPIs = {
-        'p2:search': {
-          ...mockApiGuruAPI,
-          versions: {
-            v1: {
-              ...mockApiGuruAPI.versions.v1,
-              info: {
-                ...mockApiGuruAPI.versions.v1.info,
-                title: 'Search API',
-                description: 'API for searching'
-              }
-            }
-          }
+    const withInfo = (info: Record<string, unknown>) => ({
+      ...mockApiGuruAPI,
+      versions: {
+        v1: {
+          ...mockApiGuruAPI.versions.v1,
+          info: { ...mockApiGuruAPI.versions.v1.info, ...info }
         }
-      };
-      
-      const customAPIs = {
-        'p3:search': {
-          ...mockApiGuruAPI,
-          versions: {
-            v1: {
-              ...mockApiGuruAPI.versions.v1,
-              info: {
-                ...mockApiGuruAPI.versions.v1.info,
-                title: 'Custom Search',
-                description: 'Custom search API'
-              }
-            }
-          }
-        }
-      };
+      }
+    });
 
-      mockPrimaryClient.searchAPIs.mockResolvedValueOnce(primaryResults);
-      mockSecondaryClient.listAPIs.mockResolvedValueOnce(secondaryAPIs);
-      mockCustomClient.listAPIs.mockResolvedValueOnce(customAPIs);
+    test('should search the merged directory from all sources', async () => {
+      mockCacheManager.get.mockReturnValue(undefined);
 
-      const expectedMerged = {
-        results: [
-          { id: 'p1:api1', title: 'Primary API', description: 'Test API', provider: 'p1', preferred: 'v1', categories: [] },
-          { id: 'p2:search', title: 'Search API', description: 'API for searching', provider: 'test.com', preferred: 'v1', categories: ['test'] },
-          { id: 'p3:search', title: 'Custom Search', description: 'Custom search API', provider: 'test.com', preferred: 'v1', categories: ['test'] }
-        ],
-        pagination: { page: 1, limit: 20, total_results: 3, total_pages: 1, has_next: false, has_previous: false }
+      const allAPIs = {
+        'p1:api1': withInfo({ title: 'Primary API', description: 'Weather data' }),
+        'p2:search': withInfo({ title: 'Search API', description: 'API for searching' }),
+        'p3:search': withInfo({ title: 'Custom Search', description: 'Custom search API' })
       };
 
-      (MergeUtilities.mergeSearchResults as jest.Mock)
-        .mockReturnValueOnce(expectedMerged)
-        .mockReturnValueOnce(expectedMerged);
+      mockPrimaryClient.listAPIs.mockResolvedValueOnce({ 'p1:api1': allAPIs['p1:api1'] });
+      mockSecondaryClient.listAPIs.mockResolvedValueOnce({ 'p2:search': allAPIs['p2:search'] });
+      mockCustomClient.listAPIs.mockResolvedValueOnce({ 'p3:search': allAPIs['p3:search'] });
+      (MergeUtilities.mergeAPILists as jest.Mock)
+        .mockReturnValueOnce(allAPIs)
+        .mockReturnValueOnce(allAPIs);
 
       const result = await dualClient.searchAPIs('search');
 
-      expect(mockPrimaryClient.searchAPIs).toHaveBeenCalledWith('search', undefined, 1, 1000);
+      expect(mockPrimaryClient.listAPIs).toHaveBeenCalled();
       expect(mockSecondaryClient.listAPIs).toHaveBeenCalled();
       expect(mockCustomClient.listAPIs).toHaveBeenCalled();
-      expect(MergeUtilities.mergeSearchResults).toHaveBeenCalledTimes(2);
-      expect(result).toEqual(expectedMerged);
+      expect(result.results.map(r => r.id).sort()).toEqual(['p2:search', 'p3:search']);
+      expect(result.results[0]).toEqual(
+        expect.objectContaining({ provider: 'test.com', preferred: 'v1', categories: ['test'] })
+      );
+      expect(result.pagination).toEqual({
+        page: 1, limit: 20, total_results: 2, total_pages: 1, has_next: false, has_previous: false
+      });
     });
 
     test('should filter by provider when specified', async () => {
-      mockCacheManager.get.mockReturnValueOnce(undefined);
-      
-      const primaryResults = {
-        results: [],
-        pagination: { page: 1, limit: 20, total_results: 0, total_pages: 0, has_next: false, has_previous: false }
-      };
-      
-      const secondaryAPIs = {
-        'test-provider:api1': {
-          ...mockApiGuruAPI,
-          versions: {
-            v1: {
-              ...mockApiGuruAPI.versions.v1,
-              info: {
-                ...mockApiGuruAPI.versions.v1.info,
-                title: 'Filtered API',
-                'x-providerName': 'test-provider'
-              }
-            }
-          }
-        },
+      mockCacheManager.get.mockReturnValue(undefined);
+
+      const allAPIs = {
+        'test-provider:api1': withInfo({ title: 'Filtered API', 'x-providerName': 'test-provider' }),
         'other-provider:api1': mockApiGuruAPI
       };
 
-      mockPrimaryClient.searchAPIs.mockResolvedValueOnce(primaryResults);
-      mockSecondaryClient.listAPIs.mockResolvedValueOnce(secondaryAPIs);
+      mockPrimaryClient.listAPIs.mockResolvedValueOnce({});
+      mockSecondaryClient.listAPIs.mockResolvedValueOnce(allAPIs);
       mockCustomClient.listAPIs.mockResolvedValueOnce({});
-
-      const expectedMerged = {
-        results: [
-          { id: 'test-provider:api1', title: 'Filtered API', description: 'Test description', provider: 'test-provider', preferred: 'v1', categories: ['test'] }
-        ],
-        pagination: { page: 1, limit: 20, total_results: 1, total_pages: 1, has_next: false, has_previous: false }
-      };
-
-      (MergeUtilities.mergeSearchResults as jest.Mock)
-        .mockReturnValueOnce(expectedMerged)
-        .mockReturnValueOnce(expectedMerged);
+      (MergeUtilities.mergeAPILists as jest.Mock)
+        .mockReturnValueOnce(allAPIs)
+        .mockReturnValueOnce(allAPIs);
 
       const result = await dualClient.searchAPIs('api', 'test-provider');
 
-      expect(result).toEqual(expectedMerged);
+      expect(result.results).toEqual([
+        { id: 'test-provider:api1', title: 'Filtered API', description: 'Test description', provider: 'test-provider', preferred: 'v1', categories: ['test'] }
+      ]);
     });
 
     test('should enforce limit bounds', async () => {
-      // Test minimum limit (should be enforced to 1)
-      mockCacheManager.get.mockReturnValueOnce(undefined);
-      
-      mockPrimaryClient.searchAPIs.mockResolvedValueOnce({
-        results: [],
-        pagination: { page: 1, limit: 20, total_results: 0, total_pages: 0, has_next: false, has_previous: false }
-      });
+      mockCacheManager.get.mockReturnValue(undefined);
+
+      const allAPIs = { 'p1:test': mockApiGuruAPI, 'p2:test': mockApiGuruAPI };
+      mockPrimaryClient.listAPIs.mockResolvedValueOnce(allAPIs);
       mockSecondaryClient.listAPIs.mockResolvedValueOnce({});
       mockCustomClient.listAPIs.mockResolvedValueOnce({});
+      (MergeUtilities.mergeAPILists as jest.Mock)
+        .mockReturnValueOnce(allAPIs)
+        .mockReturnValueOnce(allAPIs);
 
-      (MergeUtilities.mergeSearchResults as jest.Mock)
-        .mockReturnValueOnce({ results: [], pagination: { page: 1, limit: 1, total_results: 0, total_pages: 0, has_next: false, has_previous: false } })
-        .mockReturnValueOnce({ results: [], pagination: { page: 1, limit: 1, total_results: 0, total_pages: 0, has_next: false, has_previous: false } });
-
-      await dualClient.searchAPIs('test', undefined, 1, 0);
+      const result = await dualClient.searchAPIs('test', undefined, 1, 0);
 
       // The limit should be enforced to 1 (minimum)
-      expect(MergeUtilities.mergeSearchResults).toHaveBeenCalledWith(
-        expect.any(Object),
-        expect.any(Object),
-        'test',
-        1,
-        1 // minimum enforced
+      expect(result.results).toHaveLength(1);
+      expect(result.pagination).toEqual(
+        expect.objectContaining({ limit: 1, total_results: 2, total_pages: 2, has_next: true })
       );
     });
   });
 
   describe('getAPISummaryById', () => {
+    test('should describe the requested version', async () => {
+      const secondaryAPIs = {
+        'secondary:api1': {
+          ...mockApiGuruAPI,
+          versions: {
+            ...mockApiGuruAPI.versions,
+            'v2-beta': {
+              ...mockApiGuruAPI.versions.v1,
+              info: { ...mockApiGuruAPI.versions.v1.info, title: 'Test API Beta' },
+              swaggerUrl: 'https://test.com/v2/swagger.json'
+            }
+          }
+        }
+      };
+      jest.spyOn(dualClient, 'listAPIs').mockResolvedValueOnce(secondaryAPIs);
+      mockCustomClient.hasAPI.mockResolvedValueOnce(false);
+      mockSecondaryClient.hasAPI.mockResolvedValueOnce(true);
+      mockSecondaryClient.listAPIs.mockResolvedValueOnce(secondaryAPIs);
+
+      const result = await dualClient.getAPISummaryById('secondary:api1', 'v2-beta');
+
+      expect(result).toMatchObject({
+        title: 'Test API Beta',
+        versions: ['v1', 'v2-beta'],
+        preferred_version: 'v1',
+        version: 'v2-beta',
+        base_url: 'https://test.com/v2'
+      });
+    });
+
     test('should return custom API summary when available', async () => {
       const customAPIs = {
         'custom:api1': {
@@ -724,7 +702,7 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
 
       const result = await dualClient.getAPISummaryById('primary:api1');
 
-      expect(mockPrimaryClient.getAPISummaryById).toHaveBeenCalledWith('primary:api1');
+      expect(mockPrimaryClient.getAPISummaryById).toHaveBeenCalledWith('primary:api1', undefined);
       expect(result).toEqual(expectedSummary);
     });
   });
@@ -758,7 +736,7 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
 
       const result = await dualClient.getAPIEndpoints('secondary:api1');
 
-      expect(mockSecondaryClient.getAPIEndpoints).toHaveBeenCalledWith('secondary:api1', 1, 30, undefined);
+      expect(mockSecondaryClient.getAPIEndpoints).toHaveBeenCalledWith('secondary:api1', 1, 30, undefined, undefined);
       expect(result).toEqual(mockEndpoints);
     });
 
@@ -776,7 +754,7 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
 
       const result = await dualClient.getAPIEndpoints('secondary:api1');
 
-      expect(mockPrimaryClient.getAPIEndpoints).toHaveBeenCalledWith('secondary:api1', 1, 30, undefined);
+      expect(mockPrimaryClient.getAPIEndpoints).toHaveBeenCalledWith('secondary:api1', 1, 30, undefined, undefined);
       expect(result).toEqual(mockEndpoints);
     });
   });
@@ -813,7 +791,7 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
 
       const result = await dualClient.getEndpointDetails('test:api1', 'GET', '/test/{id}');
 
-      expect(mockPrimaryClient.getEndpointDetails).toHaveBeenCalledWith('test:api1', 'GET', '/test/{id}');
+      expect(mockPrimaryClient.getEndpointDetails).toHaveBeenCalledWith('test:api1', 'GET', '/test/{id}', undefined);
       expect(result).toEqual(mockDetails);
     });
   });
@@ -832,7 +810,7 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
 
       const result = await dualClient.getEndpointSchema('custom:api1', 'POST', '/test');
 
-      expect(mockPrimaryClient.getEndpointSchema).toHaveBeenCalledWith('custom:api1', 'POST', '/test');
+      expect(mockPrimaryClient.getEndpointSchema).toHaveBeenCalledWith('custom:api1', 'POST', '/test', {}, undefined);
       expect(result).toEqual(mockSchema);
     });
 
@@ -849,9 +827,45 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
 
       const result = await dualClient.getEndpointSchema('secondary:api1', 'POST', '/test');
 
-      expect(mockPrimaryClient.getEndpointSchema).toHaveBeenCalledWith('secondary:api1', 'POST', '/test');
+      expect(mockPrimaryClient.getEndpointSchema).toHaveBeenCalledWith('secondary:api1', 'POST', '/test', {}, undefined);
       expect(result).toEqual(mockSchema);
     });
+
+    test('should pass ref resolution options through', async () => {
+      mockCustomClient.hasAPI.mockResolvedValueOnce(false);
+      mockSecondaryClient.hasAPI.mockResolvedValueOnce(false);
+      mockPrimaryClient.getEndpointSchema.mockResolvedValueOnce({ path: '/test', method: 'GET' });
+
+      await dualClient.getEndpointSchema('test.com', 'GET', '/test', { resolveRefs: 'deep', maxDepth: 2 });
+
+      expect(mockPrimaryClient.getEndpointSchema).toHaveBeenCalledWith('test.com', 'GET', '/test', {
+        resolveRefs: 'deep',
+        maxDepth: 2,
+      }, undefined);
+    });
+
+    test('should pass a known version through', async () => {
+      jest.spyOn(dualClient, 'listAPIs').mockResolvedValueOnce({
+        'test.com': { ...mockApiGuruAPI, versions: { ...mockApiGuruAPI.versions, v2: mockApiGuruAPI.versions.v1 } }
+      });
+      mockCustomClient.hasAPI.mockResolvedValueOnce(false);
+      mockSecondaryClient.hasAPI.mockResolvedValueOnce(false);
+      mockPrimaryClient.getEndpointSchema.mockResolvedValueOnce({ path: '/test', method: 'GET' });
+
+      await dualClient.getEndpointSchema('test.com', 'GET', '/test', {}, 'v2');
+
+      expect(mockPrimaryClient.getEndpointSchema).toHaveBeenCalledWith('test.com', 'GET', '/test', {}, 'v2');
+    });
+
+    test('should reject an unknown version without falling back', async () => {
+      jest.spyOn(dualClient, 'listAPIs').mockResolvedValueOnce({ 'test.com': mockApiGuruAPI });
+
+      await expect(
+        dualClient.getEndpointSchema('test.com', 'GET', '/test', {}, 'v9')
+      ).rejects.toThrow('Version v9 not found for API: test.com (available: v1)');
+      expect(mockCustomClient.hasAPI).not.toHaveBeenCalled();
+      expect(mockPrimaryClient.getEndpointSchema).not.toHaveBeenCalled();
+    });
   });
 
   describe('getEndpointExamples', () => {
@@ -868,7 +882,7 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
 
       const result = await dualClient.getEndpointExamples('custom:api1', 'POST', '/test');
 
-      expect(mockPrimaryClient.getEndpointExamples).toHaveBeenCalledWith('custom:api1', 'POST', '/test');
+      expect(mockPrimaryClient.getEndpointExamples).toHaveBeenCalledWith('custom:api1', 'POST', '/test', undefined);
       expect(result).toEqual(mockExamples);
     });
 
@@ -894,6 +908,65 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
     });
   });
 
+  describe('getEndpointSnippet', () => {
+    const mockSnippet = {
+      method: 'GET',
+      path: '/test',
+      language: 'python',
+      url: 'https://api.example.com/test',
+      snippet: 'import requests',
+      placeholders: []
+    };
+
+    test('should build snippets for custom APIs from the custom spec', async () => {
+      mockCustomClient.hasAPI.mockResolvedValueOnce(true);
+      mockCustomClient.getEndpointSnippet.mockResolvedValueOnce(mockSnippet);
+
+      const result = await dualClient.getEndpointSnippet('custom:api1:v1', 'GET', '/test', 'python');
+
+      expect(mockCustomClient.getEndpointSnippet).toHaveBeenCalledWith('custom:api1:v1', 'GET', '/test', 'python');
+      expect(mockPrimaryClient.getEndpointSnippet).not.toHaveBeenCalled();
+      expect(result).toEqual(mockSnippet);
+    });
+
+    test('should fall back to primary when the custom spec fails', async () => {
+      mockCustomClient.hasAPI.mockResolvedValueOnce(true);
+      mockCustomClient.getEndpointSnippet.mockRejectedValueOnce(new Error('Endpoint not found'));
+      mockSecondaryClient.hasAPI.mockResolvedValueOnce(false);
+      mockPrimaryClient.getEndpointSnippet.mockResolvedValueOnce(mockSnippet);
+
+      const result = await dualClient.getEndpointSnippet('custom:api1:v1', 'GET', '/test', 'python');
+
+      expect(mockPrimaryClient.getEndpointSnippet).toHaveBeenCalledWith('custom:api1:v1', 'GET', '/test', 'python', undefined);
+      expect(result).toEqual(mockSnippet);
+    });
+  });
+
+  describe('getWebhooks', () => {
+    const mockWebhooks = { webhooks: [{ name: 'petAdopted', method: 'POST', payloads: [], responses: [] }], callbacks: [] };
+
+    test('should read custom specs locally', async () => {
+      mockCustomClient.hasAPI.mockResolvedValueOnce(true);
+      mockCustomClient.getWebhooks.mockResolvedValueOnce(mockWebhooks);
+
+      const result = await dualClient.getWebhooks('custom:api1:v1', { resolveRefs: 'deep' });
+
+      expect(mockCustomClient.getWebhooks).toHaveBeenCalledWith('custom:api1:v1', { resolveRefs: 'deep' });
+      expect(mockPrimaryClient.getWebhooks).not.toHaveBeenCalled();
+      expect(result).toEqual(mockWebhooks);
+    });
+
+    test('should use primary for other APIs', async () => {
+      mockCustomClient.hasAPI.mockResolvedValueOnce(false);
+      mockPrimaryClient.getWebhooks.mockResolvedValueOnce(mockWebhooks);
+
+      const result = await dualClient.getWebhooks('test.com');
+
+      expect(mockPrimaryClient.getWebhooks).toHaveBeenCalledWith('test.com', {}, undefined);
+      expect(result).toEqual(mockWebhooks);
+    });
+  });
+
   describe('getOpenAPISpec', () => {
     test('should handle custom API spec loading', async () => {
       const mockSpec = {
@@ -1158,24 +1231,22 @@ describe('DualSourceApiClient - Comprehensive Tests', () => {
     });
 
     test('should handle empty search query gracefully', async () => {
-      mockCacheManager.get.mockReturnValueOnce(undefined);
-      
-      const emptyResults = {
-        results: [],
-        pagination: { page: 1, limit: 20, total_results: 0, total_pages: 0, has_next: false, has_previous: false }
-      };
-      
-      mockPrimaryClient.searchAPIs.mockResolvedValueOnce(emptyResults);
+      mockCacheManager.get.mockReturnValue(undefined);
+
+      mockPrimaryClient.listAPIs.mockResolvedValueOnce({ 'p1:api1': mockApiGuruAPI });
       mockSecondaryClient.listAPIs.mockResolvedValueOnce({});
       mockCustomClient.listAPIs.mockResolvedValueOnce({});
-
-      (MergeUtilities.mergeSearchResults as jest.Mock)
-        .mockReturnValueOnce(emptyResults)
-        .mockReturnValueOnce(emptyResults);
+      (MergeUtilities.mergeAPILists as jest.Mock)
+        .mockReturnValueOnce({ 'p1:api1': mockApiGuruAPI })
+        .mockReturnValueOnce({ 'p1:api1': mockApiGuruAPI });
 
       const result = await dualClient.searchAPIs('');
 
-      expect(result).toEqual(emptyResults);
+      expect(result).toEqual({
+        results: [],
+        pagination: { page: 1, limit: 20, total_results: 0, total_pages: 0, has_next: false, has_previous: false },
+        facets: { category: [], provider: [], source: [], openapi: [], updated: [] }
+      });
     });
   });
 });
\ No newline at end of file
@@ -4,6 +4,7 @@ import { ApiClient } from '../../../src/api/client.js';
 import { SecondaryApiClient } from '../../../src/api/secondary-client.js';
 import { CustomSpecClient } from '../../../src/custom-specs/custom-spec-client.js';
 import { CacheManager } from '../../../src/cache/manager.js';
+import { NotFoundError } from '../../../src/utils/errors.js';
 
 // Mock dependencies
 jest.mock('../../../src/api/client.js');
@@ -56,6 +57,7 @@ describe('DualSourceApiClient', () => {
       listAPIs: jest.fn(),
       getMetrics: jest.fn(),
       getOpenAPISpec: jest.fn(),
+      getCachedSpec: jest.fn((url: string) => cacheManager.get(`spec:${url}`)),
       hasProvider: jest.fn(),
       hasAPI: jest.fn(),
       getProviderStats: jest.fn(),
@@ -66,7 +68,8 @@ describe('DualSourceApiClient', () => {
       getEndpointDetails: jest.fn(),
       getEndpointSchema: jest.fn(),
       getEndpointExamples: jest.fn(),
-      getAPIEndpoints: jest.fn()
+      getAPIEndpoints: jest.fn(),
+      getPaginatedAPIs: jest.fn()
     } as any;
 
     secondaryClient = {
@@ -78,6 +81,7 @@ describe('DualSourceApiClient', () => {
       listAPIs: jest.fn(),
       getMetrics: jest.fn(),
       getOpenAPISpec: jest.fn(),
+      getCachedSpec: jest.fn((url: string) => cacheManager.get(`secondary:spec:${url}`)),
       hasProvider: jest.fn(),
       hasAPI: jest.fn(),
       getProviderStats: jest.fn(),
@@ -124,10 +128,20 @@ describe('DualSourceApiClient', () => {
 
   describe('constructor', () => {
     test('should initialize all three clients', () => {
-      expect(MockedApiClient).toHaveBeenCalledWith('primary-url', cacheManager);
-      expect(MockedSecondaryApiClient).toHaveBeenCalledWith('secondary-url', cacheManager);
+      expect(MockedApiClient).toHaveBeenCalledWith('primary-url', cacheManager, undefined);
+      expect(MockedSecondaryApiClient).toHaveBeenCalledWith('secondary-url', cacheManager, undefined);
       expect(MockedCustomSpecClient).toHaveBeenCalledWith(cacheManager);
     });
+
+    test('should pass per-source options to each client', () => {
+      const primary = { enabled: false, timeout: 5000 };
+      const secondary = { timeout: 7000, specFetchTimeout: 9000 };
+
+      new DualSourceApiClient('primary-url', 'secondary-url', cacheManager, { primary, secondary });
+
+      expect(MockedApiClient).toHaveBeenLastCalledWith('primary-url', cacheManager, primary);
+      expect(MockedSecondaryApiClient).toHaveBeenLastCalledWith('secondary-url', cacheManager, secondary);
+    });
   });
 
   describe('getProviders', () => {
@@ -181,6 +195,15 @@ describe('DualSourceApiClient', () => {
     });
   });
 
+  const mockDirectory = () => {
+    primaryClient.listAPIs.mockResolvedValue({
+      'stripe.com:api': { added: '2023-01-01', preferred: 'v1', versions: {} },
+      'github.com': { added: '2023-01-01', preferred: 'v1', versions: {} },
+    } as any);
+    secondaryClient.listAPIs.mockResolvedValue({});
+    customClient.listAPIs.mockResolvedValue({});
+  };
+
   describe('getProvider', () => {
     test('should merge APIs from all three sources', async () => {
       cacheManager.get.mockReturnValueOnce(undefined);
@@ -230,6 +253,30 @@ describe('DualSourceApiClient', () => {
       // Custom should win
       expect(result['service:v1'].versions.v1.info.title).toBe('Custom');
     });
+
+    test('should suggest similar providers when no source knows the provider', async () => {
+      mockDirectory();
+      primaryClient.getProvider.mockRejectedValueOnce(
+        Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } })
+      );
+      secondaryClient.getProvider.mockRejectedValueOnce(new NotFoundError('Not found'));
+      customClient.getProvider.mockResolvedValueOnce({});
+
+      const error = await dualClient.getProvider('stirpe.com').catch(e => e);
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.message).toBe('Provider not found: stirpe.com. Did you mean: stripe.com?');
+      expect(error.context.details).toEqual({ suggestions: ['stripe.com'] });
+    });
+
+    test('should not report a missing provider when a source is unreachable', async () => {
+      mockDirectory();
+      primaryClient.getProvider.mockRejectedValueOnce(new Error('Network Error'));
+      secondaryClient.getProvider.mockResolvedValueOnce({});
+      customClient.getProvider.mockResolvedValueOnce({});
+
+      await expect(dualClient.getProvider('stirpe.com')).resolves.toEqual({});
+    });
   });
 
   describe('getAPI', () => {
@@ -272,6 +319,42 @@ describe('DualSourceApiClient', () => {
       expect(primaryClient.getAPI).not.toHaveBeenCalled();
       expect(result).toEqual(mockAPI);
     });
+
+    test('should suggest similar APIs when no source has the API', async () => {
+      mockDirectory();
+      customClient.hasAPI.mockResolvedValueOnce(false);
+      secondaryClient.hasAPI.mockResolvedValueOnce(false);
+      primaryClient.getAPI.mockRejectedValueOnce(
+        Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } })
+      );
+
+      await expect(dualClient.getAPI('githib.com', 'v3')).rejects.toThrow(
+        'API not found: githib.com:v3. Did you mean: github.com?'
+      );
+    });
+
+    test('should omit the hint when nothing is similar', async () => {
+      mockDirectory();
+      customClient.hasAPI.mockResolvedValueOnce(false);
+      secondaryClient.hasAPI.mockResolvedValueOnce(false);
+      primaryClient.getAPI.mockRejectedValueOnce(
+        Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } })
+      );
+
+      const error = await dualClient.getAPI('example.org', 'v1').catch(e => e);
+
+      expect(error.message).toBe('API not found: example.org:v1');
+      expect(error.context.details).toEqual({ suggestions: [] });
+    });
+
+    test('should rethrow errors other than not found', async () => {
+      customClient.hasAPI.mockResolvedValueOnce(false);
+      secondaryClient.hasAPI.mockResolvedValueOnce(false);
+      primaryClient.getAPI.mockRejectedValueOnce(new Error('Network Error'));
+
+      await expect(dualClient.getAPI('github.com', 'v3')).rejects.toThrow('Network Error');
+      expect(primaryClient.listAPIs).not.toHaveBeenCalled();
+    });
   });
 
   describe('listAPIs', () => {
@@ -312,14 +395,95 @@ describe('DualSourceApiClient', () => {
       expect(Object.keys(result)).toHaveLength(1);
       expect(result).toHaveProperty('provider1:api1');
     });
+
+    test('should report progress per source and for the merge', async () => {
+      cacheManager.get.mockReturnValueOnce(undefined);
+      primaryClient.listAPIs.mockResolvedValueOnce({});
+      secondaryClient.listAPIs.mockRejectedValueOnce(new Error('Secondary down'));
+      customClient.listAPIs.mockResolvedValueOnce({});
+      const onProgress = jest.fn();
+
+      await dualClient.listAPIs({ onProgress });
+
+      const updates = onProgress.mock.calls.map((call: any[]) => call[0]);
+      expect(updates.map((update: any) => update.progress)).toEqual([1, 2, 3, 4]);
+      expect(updates.every((update: any) => update.total === 4)).toBe(true);
+      expect(updates[3].message).toBe('Merged API directories');
+    });
+
+    test('should pass the abort signal to remote sources', async () => {
+      cacheManager.get.mockReturnValueOnce(undefined);
+      primaryClient.listAPIs.mockResolvedValueOnce({});
+      secondaryClient.listAPIs.mockResolvedValueOnce({});
+      customClient.listAPIs.mockResolvedValueOnce({});
+      const controller = new AbortController();
+
+      await dualClient.listAPIs({ signal: controller.signal });
+
+      expect(primaryClient.listAPIs).toHaveBeenCalledWith({ signal: controller.signal });
+      expect(secondaryClient.listAPIs).toHaveBeenCalledWith({ signal: controller.signal });
+    });
+
+    test('should not cache a partial result when cancelled', async () => {
+      cacheManager.get.mockReturnValueOnce(undefined);
+      const controller = new AbortController();
+      primaryClient.listAPIs.mockImplementationOnce(async () => {
+        controller.abort();
+        throw new Error('canceled');
+      });
+      secondaryClient.listAPIs.mockResolvedValueOnce({});
+      customClient.listAPIs.mockResolvedValueOnce({});
+
+      await expect(dualClient.listAPIs({ signal: controller.signal })).rejects.toThrow('Operation cancelled');
+      expect(cacheManager.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPaginatedAPIs', () => {
+    test('should stop fetching pages once cancelled', async () => {
+      cacheManager.get.mockReturnValue(undefined);
+      const controller = new AbortController();
+      const page = (size: number) => ({
+        results: Array.from({ length: size }, (_, i) => ({ id: `api${i}` })),
+        pagination: { total_results: 500, has_next: true },
+      });
+      primaryClient.getPaginatedAPIs
+        .mockResolvedValueOnce(page(10) as any) // Size estimate
+        .mockImplementationOnce(async () => {
+          controller.abort();
+          return page(100) as any;
+        })
+        .mockResolvedValue(page(100) as any);
+      secondaryClient.listAPIs.mockResolvedValueOnce({});
+      customClient.listAPIs.mockResolvedValueOnce({});
+
+      await expect(dualClient.getPaginatedAPIs(1, 50, { signal: controller.signal })).rejects.toThrow(
+        'Operation cancelled'
+      );
+      expect(primaryClient.getPaginatedAPIs).toHaveBeenCalledTimes(2);
+      expect(primaryClient.getPaginatedAPIs).toHaveBeenCalledWith(1, 100, { signal: controller.signal });
+      expect(secondaryClient.listAPIs).toHaveBeenCalledWith({ signal: controller.signal });
+      expect(cacheManager.set).not.toHaveBeenCalled();
+    });
   });
 
   describe('searchAPIs', () => {
     test('should search all sources and merge results', async () => {
       cacheManager.get.mockReturnValueOnce(undefined);
-      const primaryResults = {
-        results: [{ id: 'p1:api1', title: 'API 1', description: 'Test API 1', provider: 'p1', preferred: 'v1', categories: [] }],
-        pagination: { page: 1, limit: 20, total_results: 1, total_pages: 1, has_next: false, has_previous: false }
+      const primaryAPIs = {
+        'p1:api1': {
+          added: '2023-01-01',
+          preferred: 'v1',
+          versions: {
+            v1: {
+              info: {
+                title: 'API 1',
+                description: 'Test API 1',
+                'x-providerName': 'p1'
+              }
+            }
+          }
+        }
       };
       const secondaryAPIs = {
         'p2:api1': {
@@ -352,7 +516,7 @@ describe('DualSourceApiClient', () => {
         }
       };
 
-      primaryClient.searchAPIs.mockResolvedValueOnce(primaryResults);
+      primaryClient.listAPIs.mockResolvedValueOnce(primaryAPIs);
       secondaryClient.listAPIs.mockResolvedValueOnce(secondaryAPIs);
       customClient.listAPIs.mockResolvedValueOnce(customAPIs);
 
@@ -364,9 +528,20 @@ describe('DualSourceApiClient', () => {
 
     test('should deduplicate search results with custom taking precedence', async () => {
       cacheManager.get.mockReturnValueOnce(undefined);
-      const primaryResults = {
-        results: [{ id: 'p1:api1', title: 'Primary API', description: 'Test API', provider: 'p1', preferred: 'v1', categories: [] }],
-        pagination: { page: 1, limit: 20, total_results: 1, total_pages: 1, has_next: false, has_previous: false }
+      const primaryAPIs = {
+        'p1:api1': {
+          added: '2023-01-01',
+          preferred: 'v1',
+          versions: {
+            v1: {
+              info: {
+                title: 'Primary API',
+                description: 'Test API',
+                'x-providerName': 'p1'
+              }
+            }
+          }
+        }
       };
       const secondaryAPIs = {
         'p1:api1': {
@@ -399,7 +574,7 @@ describe('DualSourceApiClient', () => {
         }
       };
 
-      primaryClient.searchAPIs.mockResolvedValueOnce(primaryResults);
+      primaryClient.listAPIs.mockResolvedValueOnce(primaryAPIs);
       secondaryClient.listAPIs.mockResolvedValueOnce(secondaryAPIs);
       customClient.listAPIs.mockResolvedValueOnce(customAPIs);
 
@@ -409,6 +584,324 @@ describe('DualSourceApiClient', () => {
       expect(result.results[0].title).toBe('Custom API');
       expect(result.pagination.total_results).toBe(1);
     });
+
+    describe('filters', () => {
+      const entry = (title: string, swaggerUrl = '') => ({
+        added: '2023-01-01',
+        preferred: 'v1',
+        versions: { v1: { info: { title, version: 'v1' }, swaggerUrl, updated: '2023-01-01' } }
+      });
+
+      beforeEach(() => {
+        primaryClient.listAPIs.mockResolvedValue({
+          'p1:maps': entry('Maps', 'https://example.com/p1.json'),
+          'p2:maps': entry('Maps')
+        });
+        secondaryClient.listAPIs.mockResolvedValue({ 'p2:maps': entry('Maps') });
+        customClient.listAPIs.mockResolvedValue({ 'custom:maps:v1': entry('Maps') });
+      });
+
+      test('should filter by the source each API is served from', async () => {
+        const secondary = await dualClient.searchAPIs('maps source:secondary');
+        const notPrimary = await dualClient.searchAPIs('maps -source:primary');
+
+        expect(secondary.results.map(r => r.id)).toEqual(['p2:maps']);
+        expect(notPrimary.results.map(r => r.id).sort()).toEqual(['custom:maps:v1', 'p2:maps']);
+      });
+
+      test('should filter by the auth types of loaded specs', async () => {
+        customClient.hasAPI.mockResolvedValue(false);
+        cacheManager.get.mockImplementation((key: string) =>
+          key === 'spec:https://example.com/p1.json'
+            ? { paths: {}, components: { securitySchemes: { oauth: { type: 'oauth2' } } } }
+            : undefined
+        );
+
+        const result = await dualClient.searchAPIs('auth:oauth2');
+
+        expect(result.results.map(r => r.id)).toEqual(['p1:maps']);
+      });
+
+      test('should filter by OAuth2 flow', async () => {
+        customClient.hasAPI.mockResolvedValue(false);
+        cacheManager.get.mockImplementation((key: string) =>
+          key === 'spec:https://example.com/p1.json'
+            ? { swagger: '2.0', paths: {}, securityDefinitions: { oauth: { type: 'oauth2', flow: 'application' } } }
+            : undefined
+        );
+
+        const matching = await dualClient.searchAPIs('auth:oauth2:client_credentials');
+        const other = await dualClient.searchAPIs('auth:oauth2:implicit');
+
+        expect(matching.results.map(r => r.id)).toEqual(['p1:maps']);
+        expect(other.results).toEqual([]);
+      });
+
+      test('should reject malformed filters before searching', async () => {
+        await expect(dualClient.searchAPIs('maps updated>soon')).rejects.toThrow(
+          'Invalid date "soon" in updated filter'
+        );
+        expect(primaryClient.listAPIs).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('searchEndpoints', () => {
+    const apiEntry = (swaggerUrl: string, updated = '2023-01-01') => ({
+      added: '2023-01-01',
+      preferred: 'v1',
+      versions: {
+        v1: { info: { title: 'API', version: 'v1' }, swaggerUrl, updated }
+      }
+    });
+    const remoteSpec = {
+      paths: { '/payments': { post: { summary: 'Create a payment' }, get: { summary: 'List payments' } } }
+    };
+    const customSpec = {
+      paths: { '/files': { post: { summary: 'Create a file upload' } } }
+    };
+
+    beforeEach(() => {
+      primaryClient.listAPIs.mockResolvedValue({
+        'remote:api': apiEntry('https://example.com/remote.json'),
+        'uncached:api': apiEntry('https://example.com/uncached.json')
+      });
+      secondaryClient.listAPIs.mockResolvedValue({});
+      customClient.listAPIs.mockResolvedValue({
+        'custom:files:v1': apiEntry('/custom/files/v1.json')
+      });
+      customClient.hasAPI.mockResolvedValue(true);
+      (customClient as any).getManifestManager = jest.fn(() => ({
+        readSpecFile: () => JSON.stringify({ preferred: 'v1', versions: { v1: { spec: customSpec } } })
+      }));
+      cacheManager.get.mockImplementation((key: string) =>
+        key === 'spec:https://example.com/remote.json' ? remoteSpec : undefined
+      );
+    });
+
+    test('should search custom specs and cached remote specs without fetching', async () => {
+      const result = await dualClient.searchEndpoints('create', { method: 'POST' });
+
+      expect(result.results).toEqual(
+        expect.arrayContaining([
+          { api_id: 'remote:api', method: 'POST', path: '/payments', summary: 'Create a payment' },
+          { api_id: 'custom:files:v1', method: 'POST', path: '/files', summary: 'Create a file upload' }
+        ])
+      );
+      expect(result.pagination.total_results).toBe(2);
+      expect(result.indexed_apis).toBe(2);
+      expect(primaryClient.getOpenAPISpec).not.toHaveBeenCalled();
+    });
+
+    test('should filter by provider and enforce limit bounds', async () => {
+      const result = await dualClient.searchEndpoints('payments', { provider: 'remote' }, 1, 0);
+
+      expect(result.results).toHaveLength(1);
+      expect(result.pagination).toEqual(expect.objectContaining({ limit: 1, total_results: 2 }));
+    });
+
+    test('should drop APIs whose specs leave the cache', async () => {
+      await dualClient.searchEndpoints('payments');
+      cacheManager.get.mockReturnValue(undefined);
+
+      const result = await dualClient.searchEndpoints('payments');
+
+      expect(result.results).toEqual([]);
+      expect(result.indexed_apis).toBe(1);
+    });
+
+    test('should index specs loaded through the secondary source', async () => {
+      primaryClient.listAPIs.mockResolvedValue({});
+      secondaryClient.listAPIs.mockResolvedValue({ 'remote:api': apiEntry('https://example.com/remote.json') });
+      cacheManager.get.mockImplementation((key: string) =>
+        key === 'secondary:spec:https://example.com/remote.json' ? remoteSpec : undefined
+      );
+
+      const result = await dualClient.searchEndpoints('create payment');
+
+      expect(result.results).toEqual(
+        expect.arrayContaining([{ api_id: 'remote:api', method: 'POST', path: '/payments', summary: 'Create a payment' }])
+      );
+      expect(secondaryClient.getOpenAPISpec).not.toHaveBeenCalled();
+    });
+
+    test('should share one indexing pass between concurrent searches', async () => {
+      await Promise.all([dualClient.searchEndpoints('create'), dualClient.searchEndpoints('files')]);
+
+      expect(customClient.listAPIs).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('findSimilarAPIs', () => {
+    const entry = (description: string, categories: string[]) => ({
+      added: '2023-01-01',
+      preferred: 'v1',
+      versions: {
+        v1: {
+          info: { title: description, version: 'v1', 'x-apisguru-categories': categories },
+          swaggerUrl: '',
+          updated: '2023-01-01'
+        }
+      }
+    });
+
+    beforeEach(() => {
+      primaryClient.listAPIs.mockResolvedValue({
+        'twilio.com:api': entry('Send SMS messages', ['telecom']),
+        'vonage.com:sms': entry('SMS messages worldwide', ['telecom']),
+        'stripe.com': entry('Payments', ['financial'])
+      });
+      secondaryClient.listAPIs.mockResolvedValue({});
+      customClient.listAPIs.mockResolvedValue({ 'custom:texts:v1': entry('Send SMS', []) });
+      customClient.hasAPI.mockResolvedValue(false);
+    });
+
+    test('should rank similar APIs across all sources', async () => {
+      const result = await dualClient.findSimilarAPIs('twilio.com:api', 0);
+
+      expect(result.results.map(r => r.id)).toEqual(['vonage.com:sms']);
+      expect(result.compared_apis).toBe(3);
+    });
+
+    test('should throw with suggestions for unknown APIs', async () => {
+      await expect(dualClient.findSimilarAPIs('twilo.com:api')).rejects.toThrow(
+        'API not found: twilo.com:api. Did you mean: twilio.com:api?'
+      );
+    });
+  });
+
+  describe('searchSchemas', () => {
+    beforeEach(() => {
+      primaryClient.listAPIs.mockResolvedValue({
+        'remote:api': {
+          added: '2023-01-01',
+          preferred: 'v1',
+          versions: {
+            v1: {
+              info: { title: 'API', version: 'v1' },
+              swaggerUrl: 'https://example.com/remote.json',
+              updated: '2023-01-01'
+            }
+          }
+        }
+      });
+      secondaryClient.listAPIs.mockResolvedValue({});
+      customClient.listAPIs.mockResolvedValue({});
+      customClient.hasAPI.mockResolvedValue(false);
+      cacheManager.get.mockImplementation((key: string) =>
+        key === 'spec:https://example.com/remote.json'
+          ? {
+              paths: {
+                '/accounts': {
+                  get: { responses: { '200': { schema: { $ref: '#/definitions/Account' } } } }
+                }
+              },
+              definitions: {
+                Account: { type: 'object', properties: { iban: { type: 'string' } } }
+              }
+            }
+          : undefined
+      );
+    });
+
+    test('should search fields of cached specs with referencing endpoints', async () => {
+      const result = await dualClient.searchSchemas('iban');
+
+      expect(result.results).toEqual([
+        {
+          api_id: 'remote:api',
+          schema: 'Account',
+          field: 'iban',
+          schema_path: '#/definitions/Account/properties/iban',
+          type: 'string',
+          endpoints: [{ method: 'GET', path: '/accounts' }],
+          endpoint_count: 1
+        }
+      ]);
+      expect(result.indexed_apis).toBe(1);
+      expect(primaryClient.getOpenAPISpec).not.toHaveBeenCalled();
+    });
+
+    test('should drop specs that leave the cache', async () => {
+      await dualClient.searchSchemas('iban');
+      cacheManager.get.mockReturnValue(undefined);
+
+      const result = await dualClient.searchSchemas('iban');
+
+      expect(result.results).toEqual([]);
+      expect(result.indexed_apis).toBe(0);
+    });
+
+    test('should require a query, format or type', async () => {
+      await expect(dualClient.searchSchemas('  ')).rejects.toThrow('Provide a query, format or type to search');
+    });
+  });
+
+  describe('searchAuthSchemes', () => {
+    const apiEntry = (swaggerUrl: string) => ({
+      added: '2023-01-01',
+      preferred: 'v1',
+      versions: {
+        v1: { info: { title: 'API', version: 'v1' }, swaggerUrl, updated: '2023-01-01' }
+      }
+    });
+
+    beforeEach(() => {
+      primaryClient.listAPIs.mockResolvedValue({
+        'remote:api': apiEntry('https://example.com/remote.json')
+      });
+      secondaryClient.listAPIs.mockResolvedValue({});
+      customClient.listAPIs.mockResolvedValue({
+        'custom:keys:v1': apiEntry('/custom/keys/v1.json')
+      });
+      customClient.hasAPI.mockResolvedValue(true);
+      (customClient as any).getManifestManager = jest.fn(() => ({
+        readSpecFile: () =>
+          JSON.stringify({
+            preferred: 'v1',
+            versions: {
+              v1: {
+                spec: {
+                  paths: {},
+                  components: { securitySchemes: { key: { type: 'apiKey', in: 'query', name: 'key' } } }
+                }
+              }
+            }
+          })
+      }));
+      cacheManager.get.mockImplementation((key: string) =>
+        key === 'spec:https://example.com/remote.json'
+          ? {
+              paths: {},
+              components: {
+                securitySchemes: {
+                  key: { type: 'apiKey', in: 'header', name: 'X-Key' },
+                  oauth: { type: 'oauth2', flows: { clientCredentials: {} } }
+                }
+              }
+            }
+          : undefined
+      );
+    });
+
+    test('should find loaded specs by scheme type and location', async () => {
+      const apiKeys = await dualClient.searchAuthSchemes({ type: 'apikey' });
+      const inQuery = await dualClient.searchAuthSchemes({ type: 'apikey', in: 'query' });
+
+      expect(apiKeys.results.map(r => r.api_id)).toEqual(['custom:keys:v1', 'remote:api']);
+      expect(apiKeys.indexed_apis).toBe(2);
+      expect(inQuery.results).toEqual([
+        { api_id: 'custom:keys:v1', schemes: [{ name: 'key', type: 'apikey', in: 'query', parameter: 'key' }] }
+      ]);
+      expect(primaryClient.getOpenAPISpec).not.toHaveBeenCalled();
+    });
+
+    test('should honour only and clamp the limit', async () => {
+      const result = await dualClient.searchAuthSchemes({ type: 'apikey', only: true }, 1, 100);
+
+      expect(result.results.map(r => r.api_id)).toEqual(['custom:keys:v1']);
+      expect(result.pagination.limit).toBe(50);
+    });
   });
 
   describe('getMetrics', () => {
@@ -496,6 +989,37 @@ describe('DualSourceApiClient', () => {
     });
   });
 
+  describe('getOpenAPISpecById', () => {
+    test('should fetch the preferred version spec from the merged list', async () => {
+      const spec = { openapi: '3.0.0', paths: {} };
+      cacheManager.get.mockReturnValue(undefined);
+      primaryClient.listAPIs.mockResolvedValueOnce({
+        'provider1:api1': {
+          added: '2023-01-01',
+          preferred: 'v1',
+          versions: { v1: { swaggerUrl: 'https://example.com/spec.json' } }
+        }
+      } as any);
+      secondaryClient.listAPIs.mockResolvedValueOnce({});
+      customClient.listAPIs.mockResolvedValueOnce({});
+      primaryClient.getOpenAPISpec.mockResolvedValueOnce(spec);
+
+      const result = await dualClient.getOpenAPISpecById('provider1:api1');
+
+      expect(result).toEqual(spec);
+      expect(primaryClient.getOpenAPISpec).toHaveBeenCalledWith('https://example.com/spec.json');
+    });
+
+    test('should throw when the API is unknown', async () => {
+      cacheManager.get.mockReturnValue(undefined);
+      primaryClient.listAPIs.mockResolvedValueOnce({});
+      secondaryClient.listAPIs.mockResolvedValueOnce({});
+      customClient.listAPIs.mockResolvedValueOnce({});
+
+      await expect(dualClient.getOpenAPISpecById('missing:api')).rejects.toThrow('API not found: missing:api');
+    });
+  });
+
   describe('source preference', () => {
     test('should cache results from triple source', async () => {
       const cachedData = { data: ['cached-provider'] };
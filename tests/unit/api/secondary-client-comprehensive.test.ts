@@ -5,6 +5,8 @@ import axios from 'axios';
 import { rateLimiters } from '../../../src/utils/rate-limiter.js';
 import { NetworkError, TimeoutError, NotFoundError, ServerError } from '../../../src/utils/errors.js';
 import { HTTP_TIMEOUTS, CACHE_TTL, USER_AGENT } from '../../../src/utils/constants.js';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import { tool as endpointSchemaTool } from '../../../src/tools/endpoint-tools/get-endpoint-schema.js';
 
 // Mock axios
 jest.mock('axios');
@@ -765,10 +767,12 @@ describe('SecondaryApiClient - Comprehensive Tests', () => {
         method: 'POST',
         path: '/users',
         parameters: [],
-        requestBody: expect.any(Object),
-        responses: expect.any(Object),
+        request_body: expect.any(Object),
+        responses: expect.any(Array),
         source: 'secondary'
       });
+      const validate = new AjvJsonSchemaValidator().getValidator(endpointSchemaTool.outputSchema as any);
+      expect(validate(result).errorMessage).toBeUndefined();
     });
 
     test('should handle paths with parameters', async () => {
@@ -494,12 +494,11 @@ describe('SecondaryApiClient - Extended Coverage', () => {
         api_id: 'test.com:api',
         method: 'GET',
         path: '/users/{id}',
-        parameters: [{ name: 'id', in: 'path', required: true }],
-        requestBody: undefined,
-        responses: {
-          '200': { description: 'Success' },
-          '404': { description: 'Not found' }
-        },
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: [
+          { code: '200', description: 'Success' },
+          { code: '404', description: 'Not found' }
+        ],
         source: 'secondary'
       });
     });
@@ -527,7 +526,7 @@ describe('SecondaryApiClient - Extended Coverage', () => {
           paths: {
             '/test': {
               post: {
-                requestBody: { required: true },
+                requestBody: { required: true, content: { 'application/json': { schema: { type: 'object' } } } },
                 responses: { '201': { description: 'Created' } }
               }
             }
@@ -541,7 +540,7 @@ describe('SecondaryApiClient - Extended Coverage', () => {
         'https://secondary.api.com/specs/test.com/api/v1.json',
         expect.any(Object)
       );
-      expect(result.requestBody).toEqual({ required: true });
+      expect(result.request_body).toMatchObject({ content_type: 'application/json', required: true });
     });
 
     test('should handle API ID with version', async () => {
@@ -564,7 +563,7 @@ describe('SecondaryApiClient - Extended Coverage', () => {
 
       await secondaryClient.getEndpointSchema('test.com:api:v1', 'GET', '/test');
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/list.json');
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/list.json', {});
     });
 
     test('should throw error when API not found', async () => {
@@ -242,7 +242,7 @@ describe('SecondaryApiClient', () => {
       const result = await secondaryClient.listAPIs();
 
       expect(mockCacheManager.get).toHaveBeenCalledWith('secondary:all_apis');
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/list.json');
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/list.json', {});
       expect(mockCacheManager.set).toHaveBeenCalledWith(
         'secondary:all_apis',
         mockAPIs,
@@ -77,6 +77,13 @@ describe('PersistentCacheManager', () => {
       expect(mockedFs.mkdirSync).not.toHaveBeenCalled();
     });
 
+    test('should let the enabled option override DISABLE_CACHE', () => {
+      process.env.DISABLE_CACHE = 'true';
+      const enabledCache = new PersistentCacheManager(3600000, { enabled: true });
+
+      expect(enabledCache['enabled']).toBe(true);
+    });
+
     test('should use custom cache directory from environment', () => {
       process.env.OPENAPI_DIRECTORY_CACHE_DIR = '/custom/cache';
       const customDirCache = new PersistentCacheManager();
@@ -180,6 +187,22 @@ describe('PersistentCacheManager', () => {
       expect(Math.abs(entry!.expires - expectedExpiry)).toBeLessThan(100);
     });
 
+    test('should prefer namespace TTL over provided TTL', () => {
+      const namespacedCache = new PersistentCacheManager(86400000, {
+        namespaceTTLs: { spec: 60000, all_apis: 0 },
+      });
+
+      namespacedCache.set('triple:spec:https://example.com/openapi.json', 'spec', 5000);
+      namespacedCache.set('all_apis', {}, 5000);
+      namespacedCache.set('secondary:providers', [], 5000);
+
+      const spec = namespacedCache['cacheData'].get('triple:spec:https://example.com/openapi.json');
+      expect(Math.abs(spec!.expires - (Date.now() + 60000))).toBeLessThan(100);
+      expect(namespacedCache['cacheData'].get('all_apis')!.expires).toBe(0);
+      const providers = namespacedCache['cacheData'].get('secondary:providers');
+      expect(Math.abs(providers!.expires - (Date.now() + 5000))).toBeLessThan(100);
+    });
+
     test('should not store when cache is disabled', () => {
       process.env.DISABLE_CACHE = 'true';
       const disabledCache = new PersistentCacheManager();
@@ -0,0 +1,144 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { CompletionHandler } from '../../../src/completions/handler.js';
+
+describe('CompletionHandler', () => {
+  let handler: CompletionHandler;
+  let mockApiClient: any;
+
+  const spec = {
+    openapi: '3.0.0',
+    tags: [{ name: 'pets' }],
+    paths: {
+      '/pets': {
+        get: { tags: ['pets'] },
+        post: { tags: ['pets', 'admin'] }
+      },
+      '/pets/{petId}': {
+        delete: { tags: ['pets'] }
+      }
+    },
+    components: {
+      schemas: { Pet: {}, PetList: {}, Error: {} }
+    }
+  };
+
+  const promptRef = { type: 'ref/prompt' as const, name: 'api_rate_limiter' };
+  const templateRef = { type: 'ref/resource' as const, uri: 'openapi://api/{api_id}/endpoints/{method}/{path}' };
+
+  const complete = (name: string, value: string, context?: Record<string, string>, ref: any = templateRef) =>
+    handler.complete({
+      ref,
+      argument: { name, value },
+      ...(context ? { context: { arguments: context } } : {})
+    });
+
+  beforeEach(() => {
+    mockApiClient = {
+      listAPIs: jest.fn().mockResolvedValue({
+        'stripe.com': {},
+        'github.com': {},
+        'googleapis.com:drive': {},
+        'custom:stripe-internal:v1': {}
+      }),
+      getProviders: jest.fn().mockResolvedValue({ data: ['stripe.com', 'github.com', 'googleapis.com'] }),
+      getOpenAPISpecById: jest.fn().mockResolvedValue(spec)
+    };
+    handler = new CompletionHandler(mockApiClient);
+  });
+
+  describe('API IDs', () => {
+    test('should complete prompt api_name arguments from the merged API list', async () => {
+      const result = await complete('api_name', 'str', undefined, promptRef);
+
+      expect(result.completion.values).toEqual(['stripe.com', 'custom:stripe-internal:v1']);
+      expect(result.completion.total).toBe(2);
+      expect(result.completion.hasMore).toBe(false);
+    });
+
+    test('should include custom API IDs', async () => {
+      const result = await complete('api_id', 'custom:');
+
+      expect(result.completion.values).toEqual(['custom:stripe-internal:v1']);
+    });
+
+    test('should list everything for an empty value', async () => {
+      const result = await complete('api_id', '');
+
+      expect(result.completion.values).toHaveLength(4);
+    });
+
+    test('should cap results at 100 values', async () => {
+      const apis: Record<string, any> = {};
+      for (let i = 0; i < 150; i++) {
+        apis[`api${i}.com`] = {};
+      }
+      mockApiClient.listAPIs.mockResolvedValue(apis);
+
+      const result = await complete('api_id', 'api');
+
+      expect(result.completion.values).toHaveLength(100);
+      expect(result.completion.total).toBe(150);
+      expect(result.completion.hasMore).toBe(true);
+    });
+  });
+
+  describe('providers', () => {
+    test('should complete providers', async () => {
+      const result = await complete('provider', 'g');
+
+      expect(result.completion.values).toEqual(['github.com', 'googleapis.com']);
+    });
+  });
+
+  describe('spec-backed arguments', () => {
+    test('should complete tags from the chosen API', async () => {
+      const result = await complete('tag', '', { api_id: 'stripe.com' });
+
+      expect(mockApiClient.getOpenAPISpecById).toHaveBeenCalledWith('stripe.com');
+      expect(result.completion.values).toEqual(['admin', 'pets']);
+    });
+
+    test('should complete paths, filtered by the chosen method', async () => {
+      const all = await complete('path', '/pets', { api_id: 'stripe.com' });
+      const deletable = await complete('path', '', { api_id: 'stripe.com', method: 'DELETE' });
+
+      expect(all.completion.values).toEqual(['/pets', '/pets/{petId}']);
+      expect(deletable.completion.values).toEqual(['/pets/{petId}']);
+    });
+
+    test('should complete methods, filtered by the chosen path', async () => {
+      const all = await complete('method', '', { api_id: 'stripe.com' });
+      const forPath = await complete('method', 'p', { api_id: 'stripe.com', path: '/pets' });
+
+      expect(all.completion.values).toEqual(['DELETE', 'GET', 'POST']);
+      expect(forPath.completion.values).toEqual(['POST']);
+    });
+
+    test('should complete schema names', async () => {
+      const result = await complete('name', 'pet', { api_id: 'stripe.com' });
+
+      expect(result.completion.values).toEqual(['Pet', 'PetList']);
+    });
+
+    test('should return nothing until an API is chosen', async () => {
+      const result = await complete('path', '');
+
+      expect(result.completion.values).toEqual([]);
+      expect(mockApiClient.getOpenAPISpecById).not.toHaveBeenCalled();
+    });
+
+    test('should return nothing when the spec cannot be loaded', async () => {
+      mockApiClient.getOpenAPISpecById.mockRejectedValue(new Error('API not found: nope'));
+
+      const result = await complete('tag', '', { api_id: 'nope' });
+
+      expect(result.completion.values).toEqual([]);
+    });
+  });
+
+  test('should return nothing for arguments without completions', async () => {
+    const result = await complete('storage_backend', 're', undefined, promptRef);
+
+    expect(result.completion).toEqual({ values: [], total: 0, hasMore: false });
+  });
+});
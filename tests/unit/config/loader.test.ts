@@ -0,0 +1,259 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadConfig,
+  findConfigFile,
+  readConfigFile,
+  DEFAULT_CONFIG,
+} from '../../../src/config/index.js';
+import { ValidationError } from '../../../src/utils/errors.js';
+
+describe('config loader', () => {
+  let dir: string;
+  let home: string;
+
+  const load = (
+    options: {
+      configPath?: string;
+      profile?: string;
+      readOnly?: boolean;
+      env?: Record<string, string>;
+    } = {}
+  ) => loadConfig({ cwd: dir, homeDir: home, env: {}, ...options });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'config-loader-'));
+    home = join(dir, 'home');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('findConfigFile', () => {
+    test('should return null when no config file exists', () => {
+      expect(findConfigFile({ cwd: dir, homeDir: home, env: {} })).toBeNull();
+    });
+
+    test('should find a config file in the working directory', () => {
+      const file = join(dir, 'openapi-directory-mcp.config.yaml');
+      writeFileSync(file, 'cache:\n  ttl: 1000\n');
+
+      expect(findConfigFile({ cwd: dir, homeDir: home, env: {} })).toBe(file);
+    });
+
+    test('should fall back to the user config directory', () => {
+      const configDir = join(home, '.config', 'openapi-directory-mcp');
+      mkdirSync(configDir, { recursive: true });
+      writeFileSync(join(configDir, 'config.json'), '{}');
+
+      expect(findConfigFile({ cwd: dir, homeDir: home, env: {} })).toBe(
+        join(configDir, 'config.json')
+      );
+    });
+
+    test('should use OPENAPI_DIRECTORY_CONFIG when set', () => {
+      writeFileSync(join(dir, 'custom.yml'), '{}');
+
+      expect(
+        findConfigFile({ cwd: dir, homeDir: home, env: { OPENAPI_DIRECTORY_CONFIG: 'custom.yml' } })
+      ).toBe(join(dir, 'custom.yml'));
+    });
+
+    test('should throw when an explicit file does not exist', () => {
+      expect(() =>
+        findConfigFile({ cwd: dir, homeDir: home, env: {}, configPath: 'missing.json' })
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe('readConfigFile', () => {
+    test('should parse JSON and YAML files', () => {
+      writeFileSync(join(dir, 'a.json'), JSON.stringify({ cache: { ttl: 1000 } }));
+      writeFileSync(join(dir, 'b.yaml'), 'cache:\n  ttl: 2000\n');
+
+      expect(readConfigFile(join(dir, 'a.json')).cache?.ttl).toBe(1000);
+      expect(readConfigFile(join(dir, 'b.yaml')).cache?.ttl).toBe(2000);
+    });
+
+    test('should treat an empty YAML file as an empty config', () => {
+      writeFileSync(join(dir, 'empty.yaml'), '');
+
+      expect(readConfigFile(join(dir, 'empty.yaml'))).toEqual({});
+    });
+
+    test('should report syntax errors', () => {
+      writeFileSync(join(dir, 'bad.json'), '{ not json');
+
+      expect(() => readConfigFile(join(dir, 'bad.json'))).toThrow(/Failed to parse config file/);
+    });
+
+    test('should report invalid settings with their path', () => {
+      writeFileSync(
+        join(dir, 'invalid.yaml'),
+        'profiles:\n  ci:\n    timeouts:\n      default: -1\n    unknown: true\n'
+      );
+
+      expect(() => readConfigFile(join(dir, 'invalid.yaml'))).toThrow(
+        /profiles\.ci\.timeouts\.default.*profiles\.ci/
+      );
+    });
+
+    test('should only accept rate limits for limiters in use', () => {
+      writeFileSync(
+        join(dir, 'limits.yaml'),
+        'rateLimits:\n  secondary: { maxRequests: 5, windowMs: 1000 }\n  primary: { maxRequests: 5, windowMs: 1000 }\n'
+      );
+
+      expect(() => readConfigFile(join(dir, 'limits.yaml'))).toThrow(/rateLimits.*primary/);
+    });
+  });
+
+  describe('loadConfig', () => {
+    test('should return defaults without a config file or profile', () => {
+      expect(load()).toEqual(DEFAULT_CONFIG);
+    });
+
+    test('should apply the built-in offline profile', () => {
+      const config = load({ profile: 'offline' });
+
+      expect(config.profile).toBe('offline');
+      expect(config.sources.primary.enabled).toBe(false);
+      expect(config.sources.secondary.enabled).toBe(false);
+      expect(config.cache).toEqual({ enabled: true, ttl: 0, namespaces: {} });
+    });
+
+    test('should apply the built-in ci profile', () => {
+      const config = load({ profile: 'ci' });
+
+      expect(config.cache.enabled).toBe(false);
+      expect(config.timeouts.default).toBeLessThan(DEFAULT_CONFIG.timeouts.default);
+      expect(config.rateLimits.secondary).toBeDefined();
+    });
+
+    test('should layer file settings, then the selected profile', () => {
+      writeFileSync(
+        join(dir, 'openapi-directory-mcp.config.yaml'),
+        [
+          'cache:',
+          '  ttl: 1000',
+          '  namespaces:',
+          '    spec: 5000',
+          'profiles:',
+          '  team-mirror:',
+          '    sources:',
+          '      primary:',
+          '        baseUrl: https://mirror.example.com/v2',
+          '    cache:',
+          '      namespaces:',
+          '        search: 100',
+          '    tools:',
+          '      allow: [search_apis, get_api]',
+          '      denyCategories: [cache-tools]',
+        ].join('\n')
+      );
+
+      const config = load({ profile: 'team-mirror' });
+
+      expect(config.configFile).toBe(join(dir, 'openapi-directory-mcp.config.yaml'));
+      expect(config.sources.primary).toEqual({
+        baseUrl: 'https://mirror.example.com/v2',
+        enabled: true,
+      });
+      expect(config.sources.secondary).toEqual(DEFAULT_CONFIG.sources.secondary);
+      expect(config.cache).toEqual({
+        enabled: true,
+        ttl: 1000,
+        namespaces: { spec: 5000, search: 100 },
+      });
+      expect(config.tools).toEqual({
+        readOnly: false,
+        allow: ['search_apis', 'get_api'],
+        deny: [],
+        allowCategories: null,
+        denyCategories: ['cache-tools'],
+      });
+    });
+
+    test('should merge a file profile over the built-in profile of the same name', () => {
+      writeFileSync(
+        join(dir, 'openapi-directory-mcp.config.json'),
+        JSON.stringify({ profiles: { offline: { cache: { ttl: 60000 } } } })
+      );
+
+      const config = load({ profile: 'offline' });
+
+      expect(config.sources.primary.enabled).toBe(false);
+      expect(config.cache.ttl).toBe(60000);
+    });
+
+    test('should select the profile from the flag, then environment, then file default', () => {
+      writeFileSync(
+        join(dir, 'openapi-directory-mcp.config.json'),
+        JSON.stringify({ defaultProfile: 'ci' })
+      );
+
+      expect(load().profile).toBe('ci');
+      expect(load({ env: { OPENAPI_DIRECTORY_PROFILE: 'offline' } }).profile).toBe('offline');
+      expect(
+        load({ profile: 'ci', env: { OPENAPI_DIRECTORY_PROFILE: 'offline' } }).profile
+      ).toBe('ci');
+    });
+
+    test('should list available profiles for an unknown profile', () => {
+      writeFileSync(
+        join(dir, 'openapi-directory-mcp.config.json'),
+        JSON.stringify({ profiles: { 'team-mirror': {} } })
+      );
+
+      expect(() => load({ profile: 'missing' })).toThrow(
+        'Unknown profile "missing". Available profiles: ci, offline, team-mirror'
+      );
+    });
+
+    test('should let environment variables win over the profile', () => {
+      const config = load({
+        profile: 'ci',
+        env: {
+          PRIMARY_API_BASE_URL: 'https://primary.example.com',
+          SECONDARY_API_BASE_URL: 'https://secondary.example.com',
+          DISABLE_CACHE: 'false',
+          CACHE_TTL: '1234',
+        },
+      });
+
+      expect(config.sources.primary.baseUrl).toBe('https://primary.example.com');
+      expect(config.sources.secondary.baseUrl).toBe('https://secondary.example.com');
+      expect(config.cache.enabled).toBe(true);
+      expect(config.cache.ttl).toBe(1234);
+    });
+
+    test('should enable read-only mode from the file, environment or flag', () => {
+      writeFileSync(
+        join(dir, 'openapi-directory-mcp.config.json'),
+        JSON.stringify({ tools: { readOnly: true } })
+      );
+
+      expect(load().tools.readOnly).toBe(true);
+      expect(load({ env: { OPENAPI_DIRECTORY_READ_ONLY: 'false' } }).tools.readOnly).toBe(false);
+      expect(
+        load({ env: { OPENAPI_DIRECTORY_READ_ONLY: 'false' }, readOnly: true }).tools.readOnly
+      ).toBe(true);
+    });
+
+    test('should ignore an invalid CACHE_TTL', () => {
+      expect(load({ env: { CACHE_TTL: 'soon' } }).cache.ttl).toBe(DEFAULT_CONFIG.cache.ttl);
+    });
+
+    test('should not mutate the defaults', () => {
+      load({ profile: 'offline', env: { PRIMARY_API_BASE_URL: 'https://primary.example.com' } });
+
+      expect(DEFAULT_CONFIG.sources.primary).toEqual({
+        baseUrl: 'https://api.apis.guru/v2',
+        enabled: true,
+      });
+    });
+  });
+});
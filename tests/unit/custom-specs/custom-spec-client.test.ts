@@ -5,6 +5,8 @@ import { ICacheManager } from '../../../src/cache/types.js';
 import { CustomSpecEntry } from '../../../src/custom-specs/types.js';
 import { ApiGuruAPI } from '../../../src/types/api.js';
 import * as fs from 'fs';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import { tool as endpointSchemaTool } from '../../../src/tools/endpoint-tools/get-endpoint-schema.js';
 
 // Mock dependencies
 jest.mock('../../../src/custom-specs/manifest-manager.js');
@@ -487,6 +489,94 @@ describe('CustomSpecClient', () => {
     });
   });
 
+  describe('getEndpointSchema', () => {
+    const spec = {
+      openapi: '3.0.0',
+      paths: {
+        '/pets': {
+          get: {
+            parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+            responses: {
+              '200': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pets' } } } }
+            }
+          }
+        }
+      },
+      components: {
+        schemas: {
+          Pets: { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+          Pet: { type: 'object', properties: { name: { type: 'string' } } }
+        }
+      }
+    };
+
+    beforeEach(() => {
+      mockCacheManager.get.mockReturnValue(undefined);
+      mockManifestManager.readSpecFile.mockReturnValue(JSON.stringify(spec));
+    });
+
+    test('should return raw schemas by default', async () => {
+      const result = await customSpecClient.getEndpointSchema('custom:pets:v1', 'GET', '/pets');
+
+      expect(result.responses).toEqual([
+        { code: '200', content_type: 'application/json', schema: { $ref: '#/components/schemas/Pets' } }
+      ]);
+      expect(mockCacheManager.set).toHaveBeenCalledWith(
+        'custom:endpoint_schema:custom:pets:v1:GET:/pets',
+        expect.any(Object),
+        undefined
+      );
+    });
+
+    test('should resolve refs to the requested depth', async () => {
+      const shallow = await customSpecClient.getEndpointSchema('custom:pets:v1', 'GET', '/pets', {
+        resolveRefs: 'shallow'
+      });
+      const deep = await customSpecClient.getEndpointSchema('custom:pets:v1', 'GET', '/pets', {
+        resolveRefs: 'deep'
+      });
+
+      expect(shallow.responses[0]!.schema).toEqual({
+        type: 'array',
+        items: { $ref: '#/components/schemas/Pet' }
+      });
+      expect(deep.responses[0]!.schema).toEqual({
+        type: 'array',
+        items: { type: 'object', properties: { name: { type: 'string' } } }
+      });
+      expect(deep.parameters).toEqual([{ name: 'limit', in: 'query', required: false, schema: { type: 'integer' } }]);
+      expect(deep.source).toBe('custom');
+    });
+
+    test('should cache the stored and normalised forms of Swagger 2.0 specs', async () => {
+      const swagger = {
+        swagger: '2.0',
+        paths: { '/pets': { get: { produces: ['application/json'], responses: { '200': { description: 'OK', schema: { type: 'array' } } } } } }
+      };
+      mockManifestManager.readSpecFile.mockReturnValue(JSON.stringify(swagger));
+
+      const result = await customSpecClient.getEndpointSchema('custom:pets:v2', 'GET', '/pets');
+
+      expect(result.responses).toEqual([
+        { code: '200', description: 'OK', content_type: 'application/json', schema: { type: 'array' } }
+      ]);
+      expect(mockCacheManager.set).toHaveBeenCalledWith('custom:spec:custom:pets:v2', swagger, undefined);
+      expect(mockCacheManager.set).toHaveBeenCalledWith(
+        'custom:spec:normalized:custom:pets:v2',
+        expect.objectContaining({ openapi: expect.stringMatching(/^3\./) }),
+        undefined
+      );
+    });
+
+    test('should match the get_endpoint_schema output schema', async () => {
+      const validate = new AjvJsonSchemaValidator().getValidator(endpointSchemaTool.outputSchema as any);
+
+      const result = await customSpecClient.getEndpointSchema('custom:pets:v1', 'GET', '/pets');
+
+      expect(validate(result).errorMessage).toBeUndefined();
+    });
+  });
+
   describe('error handling', () => {
     test('should handle manifest manager errors gracefully', async () => {
       mockManifestManager.listSpecs.mockImplementation(() => {
@@ -0,0 +1,83 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ManifestWatcher } from '../../../src/custom-specs/manifest-watcher.js';
+
+describe('ManifestWatcher', () => {
+  let dir: string;
+  let manifestFile: string;
+  let onChange: jest.Mock;
+
+  const writeManifest = (specs: Record<string, string>) => {
+    const entries: Record<string, any> = {};
+    for (const [id, lastModified] of Object.entries(specs)) {
+      entries[id] = { id, lastModified, imported: lastModified };
+    }
+    writeFileSync(
+      manifestFile,
+      JSON.stringify({ version: '1.0.0', specs: entries, lastUpdated: new Date().toISOString() })
+    );
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'manifest-watcher-'));
+    manifestFile = join(dir, 'manifest.json');
+    onChange = jest.fn();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should report nothing when the manifest is unchanged', () => {
+    writeManifest({ 'custom:a:v1': '2024-01-01' });
+    const watcher = new ManifestWatcher(manifestFile, onChange);
+
+    expect(watcher.checkForChanges()).toBeNull();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  test('should report added, removed and updated specs', () => {
+    writeManifest({ 'custom:a:v1': '2024-01-01', 'custom:b:v1': '2024-01-01' });
+    const watcher = new ManifestWatcher(manifestFile, onChange);
+
+    writeManifest({ 'custom:a:v1': '2024-02-01', 'custom:c:v1': '2024-02-01' });
+    const change = watcher.checkForChanges();
+
+    expect(change).toEqual({
+      added: ['custom:c:v1'],
+      removed: ['custom:b:v1'],
+      updated: ['custom:a:v1']
+    });
+    expect(onChange).toHaveBeenCalledWith(change);
+  });
+
+  test('should pick up a manifest created after startup', () => {
+    const watcher = new ManifestWatcher(manifestFile, onChange);
+
+    writeManifest({ 'custom:a:v1': '2024-01-01' });
+
+    expect(watcher.checkForChanges()).toEqual({ added: ['custom:a:v1'], removed: [], updated: [] });
+  });
+
+  test('should keep the previous snapshot when the manifest is unreadable', () => {
+    writeManifest({ 'custom:a:v1': '2024-01-01' });
+    const watcher = new ManifestWatcher(manifestFile, onChange);
+
+    writeFileSync(manifestFile, '{"version": "1.0.0", "specs": {');
+
+    expect(watcher.checkForChanges()).toBeNull();
+  });
+
+  test('should start and stop polling idempotently', () => {
+    const watcher = new ManifestWatcher(manifestFile, onChange, 10000);
+
+    expect(() => {
+      watcher.start();
+      watcher.start();
+      watcher.stop();
+      watcher.stop();
+    }).not.toThrow();
+  });
+});
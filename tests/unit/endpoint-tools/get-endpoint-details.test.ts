@@ -117,7 +117,8 @@ describe('get_endpoint_details tool', () => {
     expect(mockApiClient.getEndpointDetails).toHaveBeenCalledWith(
       'googleapis.com:admin',
       'GET',
-      '/admin/directory/v1/users'
+      '/admin/directory/v1/users',
+      undefined
     );
     expect(result).toEqual(mockEndpointDetails);
   });
@@ -152,7 +153,7 @@ describe('get_endpoint_details tool', () => {
         path: '/test'
       }, mockContext);
       
-      expect(mockApiClient.getEndpointDetails).toHaveBeenCalledWith('test.com:api', method, '/test');
+      expect(mockApiClient.getEndpointDetails).toHaveBeenCalledWith('test.com:api', method, '/test', undefined);
       expect(result.method).toBe(method);
     }
   });
@@ -180,7 +181,7 @@ describe('get_endpoint_details tool', () => {
         path
       }, mockContext);
       
-      expect(mockApiClient.getEndpointDetails).toHaveBeenCalledWith('test.com:api', 'GET', path);
+      expect(mockApiClient.getEndpointDetails).toHaveBeenCalledWith('test.com:api', 'GET', path, undefined);
     }
   });
 
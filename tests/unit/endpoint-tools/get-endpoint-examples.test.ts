@@ -136,7 +136,8 @@ describe('get_endpoint_examples tool', () => {
     expect(mockApiClient.getEndpointExamples).toHaveBeenCalledWith(
       'googleapis.com:admin',
       'POST',
-      '/admin/directory/v1/users'
+      '/admin/directory/v1/users',
+      undefined
     );
     expect(result).toEqual(mockExamples);
   });
@@ -216,7 +217,7 @@ describe('get_endpoint_examples tool', () => {
         path: '/test'
       }, mockContext);
       
-      expect(mockApiClient.getEndpointExamples).toHaveBeenCalledWith('test.com:api', method, '/test');
+      expect(mockApiClient.getEndpointExamples).toHaveBeenCalledWith('test.com:api', method, '/test', undefined);
       expect(result.method).toBe(method);
     }
   });
@@ -146,7 +146,9 @@ describe('get_endpoint_schema tool', () => {
     expect(mockApiClient.getEndpointSchema).toHaveBeenCalledWith(
       'googleapis.com:admin',
       'POST',
-      '/admin/directory/v1/users'
+      '/admin/directory/v1/users',
+      { resolveRefs: undefined, maxDepth: undefined },
+      undefined
     );
     expect(result).toEqual(mockSchema);
   });
@@ -182,7 +184,7 @@ describe('get_endpoint_schema tool', () => {
         path: '/test'
       }, mockContext);
       
-      expect(mockApiClient.getEndpointSchema).toHaveBeenCalledWith('test.com:api', method, '/test');
+      expect(mockApiClient.getEndpointSchema).toHaveBeenCalledWith('test.com:api', method, '/test', expect.any(Object), undefined);
       expect(result.method).toBe(method);
     }
   });
@@ -223,6 +225,32 @@ describe('get_endpoint_schema tool', () => {
     expect(result.responseSchema).toBeDefined();
   });
 
+  test('should pass ref resolution options', async () => {
+    mockApiClient.getEndpointSchema.mockResolvedValue({ method: 'GET', path: '/pets' });
+
+    await tool.execute({
+      api_id: 'petstore.swagger.io',
+      method: 'GET',
+      path: '/pets',
+      resolve_refs: 'deep',
+      max_depth: 3
+    }, mockContext);
+
+    expect(mockApiClient.getEndpointSchema).toHaveBeenCalledWith(
+      'petstore.swagger.io',
+      'GET',
+      '/pets',
+      { resolveRefs: 'deep', maxDepth: 3 },
+      undefined
+    );
+    await expect(tool.execute({
+      api_id: 'petstore.swagger.io',
+      method: 'GET',
+      path: '/pets',
+      resolve_refs: 'all'
+    }, mockContext)).rejects.toThrow();
+  });
+
   test('should handle non-existent endpoint', async () => {
     mockApiClient.getEndpointSchema.mockRejectedValue(
       new Error('Endpoint not found')
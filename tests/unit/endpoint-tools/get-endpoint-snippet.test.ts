@@ -0,0 +1,59 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { tool } from '../../../src/tools/endpoint-tools/get-endpoint-snippet.js';
+import { ToolContext } from '../../../src/tools/types.js';
+
+describe('get_endpoint_snippet tool', () => {
+  let mockContext: ToolContext;
+  let mockGetEndpointSnippet: jest.Mock<any, any>;
+
+  beforeEach(() => {
+    mockGetEndpointSnippet = jest.fn<any, any>();
+    mockContext = {
+      apiClient: {
+        getEndpointSnippet: mockGetEndpointSnippet,
+      } as any,
+      cacheManager: {} as any,
+    };
+  });
+
+  test('should have correct metadata', () => {
+    expect(tool.name).toBe('get_endpoint_snippet');
+    expect(tool.description).toContain('HTTPie');
+    expect(tool.inputSchema.required).toEqual(['api_id', 'method', 'path']);
+    expect(tool.inputSchema.properties.language.enum).toEqual(['curl', 'fetch', 'python', 'httpie']);
+    expect(tool.outputSchema.required).toEqual(['method', 'path', 'language', 'url', 'snippet', 'placeholders']);
+  });
+
+  test('should call getEndpointSnippet with the language and version', async () => {
+    const mockResponse = {
+      method: 'GET',
+      path: '/pets/{id}',
+      language: 'httpie',
+      url: 'https://api.example.com/pets/<id>',
+      snippet: "http GET 'https://api.example.com/pets/<id>'",
+      placeholders: ['<id>'],
+    };
+    mockGetEndpointSnippet.mockResolvedValue(mockResponse);
+
+    const result = await tool.execute(
+      { api_id: 'example.com', version: 'v2', method: 'GET', path: '/pets/{id}', language: 'httpie' },
+      mockContext
+    );
+
+    expect(mockGetEndpointSnippet).toHaveBeenCalledWith('example.com', 'GET', '/pets/{id}', 'httpie', 'v2');
+    expect(result).toEqual(mockResponse);
+  });
+
+  test('should leave the language to the client default', async () => {
+    await tool.execute({ api_id: 'example.com', method: 'GET', path: '/pets' }, mockContext);
+
+    expect(mockGetEndpointSnippet).toHaveBeenCalledWith('example.com', 'GET', '/pets', undefined, undefined);
+  });
+
+  test('should reject unsupported languages', async () => {
+    await expect(
+      tool.execute({ api_id: 'example.com', method: 'GET', path: '/pets', language: 'ruby' }, mockContext)
+    ).rejects.toThrow();
+    expect(mockGetEndpointSnippet).not.toHaveBeenCalled();
+  });
+});
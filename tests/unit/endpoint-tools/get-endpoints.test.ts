@@ -100,6 +100,7 @@ describe('get_endpoints tool', () => {
       'googleapis.com:admin',
       1,
       30,
+      undefined,
       undefined
     );
     expect(result).toEqual(mockResponse);
@@ -120,7 +121,20 @@ describe('get_endpoints tool', () => {
       'test.com:api',
       2,
       50,
-      'users'
+      'users',
+      undefined
+    );
+  });
+
+  test('should pass the requested version', async () => {
+    await tool.execute({ api_id: 'test.com:api', version: 'v2-beta' }, mockContext);
+
+    expect(mockGetAPIEndpoints).toHaveBeenCalledWith(
+      'test.com:api',
+      1,
+      30,
+      undefined,
+      'v2-beta'
     );
   });
 
@@ -159,6 +173,7 @@ describe('get_endpoints tool', () => {
         apiId,
         1,
         30,
+        undefined,
         undefined
       );
     }
@@ -0,0 +1,48 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { tool } from '../../../src/tools/endpoint-tools/get-webhooks.js';
+import { ToolContext } from '../../../src/tools/types.js';
+
+describe('get_webhooks tool', () => {
+  let mockContext: ToolContext;
+  let mockGetWebhooks: jest.Mock<any, any>;
+
+  beforeEach(() => {
+    mockGetWebhooks = jest.fn<any, any>();
+    mockContext = {
+      apiClient: {
+        getWebhooks: mockGetWebhooks,
+      } as any,
+      cacheManager: {} as any,
+    };
+  });
+
+  test('should have correct metadata', () => {
+    expect(tool.name).toBe('get_webhooks');
+    expect(tool.description).toContain('callbacks');
+    expect(tool.inputSchema.required).toEqual(['api_id']);
+    expect(tool.outputSchema.required).toEqual(['webhooks', 'callbacks']);
+  });
+
+  test('should call getWebhooks with defaults', async () => {
+    const mockResponse = {
+      webhooks: [{ name: 'petAdopted', method: 'POST', payloads: [], responses: [] }],
+      callbacks: [],
+    };
+    mockGetWebhooks.mockResolvedValue(mockResponse);
+
+    const result = await tool.execute({ api_id: 'example.com' }, mockContext);
+
+    expect(mockGetWebhooks).toHaveBeenCalledWith(
+      'example.com',
+      { resolveRefs: undefined, maxDepth: undefined },
+      undefined
+    );
+    expect(result).toEqual(mockResponse);
+  });
+
+  test('should pass ref resolution and version through', async () => {
+    await tool.execute({ api_id: 'example.com', version: 'v2', resolve_refs: 'deep', max_depth: 3 }, mockContext);
+
+    expect(mockGetWebhooks).toHaveBeenCalledWith('example.com', { resolveRefs: 'deep', maxDepth: 3 }, 'v2');
+  });
+});
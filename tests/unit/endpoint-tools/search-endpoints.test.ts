@@ -0,0 +1,73 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { tool } from '../../../src/tools/endpoint-tools/search-endpoints.js';
+import { ToolContext } from '../../../src/tools/types.js';
+
+describe('search_endpoints tool', () => {
+  let mockContext: ToolContext;
+  let mockSearchEndpoints: jest.Mock<any, any>;
+
+  beforeEach(() => {
+    mockSearchEndpoints = jest.fn<any, any>();
+    mockContext = {
+      apiClient: {
+        searchEndpoints: mockSearchEndpoints,
+      } as any,
+      cacheManager: {} as any,
+    };
+  });
+
+  test('should have correct metadata', () => {
+    expect(tool.name).toBe('search_endpoints');
+    expect(tool.description).toContain('Search endpoints');
+    expect(tool.inputSchema.required).toEqual(['query']);
+    expect(tool.outputSchema.required).toContain('indexed_apis');
+  });
+
+  test('should call searchEndpoints with defaults', async () => {
+    const mockResponse = {
+      results: [
+        { api_id: 'box.com', method: 'POST', path: '/files/content', summary: 'Upload file' }
+      ],
+      pagination: {
+        page: 1,
+        limit: 20,
+        total_results: 1,
+        total_pages: 1,
+        has_next: false,
+        has_previous: false
+      },
+      indexed_apis: 3
+    };
+    mockSearchEndpoints.mockResolvedValue(mockResponse);
+
+    const result = await tool.execute({ query: 'upload file' }, mockContext);
+
+    expect(mockSearchEndpoints).toHaveBeenCalledWith(
+      'upload file',
+      { method: undefined, provider: undefined },
+      1,
+      20,
+      { signal: undefined, onProgress: undefined }
+    );
+    expect(result).toEqual(mockResponse);
+  });
+
+  test('should pass method, provider and pagination', async () => {
+    await tool.execute(
+      { query: 'payments', method: 'post', provider: 'stripe.com', page: 2, limit: 10 },
+      mockContext
+    );
+
+    expect(mockSearchEndpoints).toHaveBeenCalledWith(
+      'payments',
+      { method: 'post', provider: 'stripe.com' },
+      2,
+      10,
+      expect.any(Object)
+    );
+  });
+
+  test('should validate required query parameter', async () => {
+    await expect(tool.execute({}, mockContext)).rejects.toThrow();
+  });
+});
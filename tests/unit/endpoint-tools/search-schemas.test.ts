@@ -0,0 +1,74 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { tool } from '../../../src/tools/endpoint-tools/search-schemas.js';
+import { ToolContext } from '../../../src/tools/types.js';
+
+describe('search_schemas tool', () => {
+  let mockContext: ToolContext;
+  let mockSearchSchemas: jest.Mock<any, any>;
+
+  beforeEach(() => {
+    mockSearchSchemas = jest.fn<any, any>();
+    mockContext = {
+      apiClient: {
+        searchSchemas: mockSearchSchemas,
+      } as any,
+      cacheManager: {} as any,
+    };
+  });
+
+  test('should have correct metadata', () => {
+    expect(tool.name).toBe('search_schemas');
+    expect(tool.description).toContain('schema fields');
+    expect(tool.inputSchema.required).toEqual([]);
+    expect(tool.outputSchema.required).toEqual(['results', 'pagination', 'indexed_apis']);
+  });
+
+  test('should call searchSchemas with defaults', async () => {
+    const mockResponse = {
+      results: [
+        {
+          api_id: 'bank.example.com',
+          schema: 'Account',
+          field: 'iban',
+          schema_path: '#/components/schemas/Account/properties/iban',
+          type: 'string',
+          endpoints: [{ method: 'GET', path: '/accounts' }],
+          endpoint_count: 1,
+        },
+      ],
+      pagination: {
+        page: 1,
+        limit: 20,
+        total_results: 1,
+        total_pages: 1,
+        has_next: false,
+        has_previous: false,
+      },
+      indexed_apis: 3,
+    };
+    mockSearchSchemas.mockResolvedValue(mockResponse);
+
+    const result = await tool.execute({ query: 'iban' }, mockContext);
+
+    expect(mockSearchSchemas).toHaveBeenCalledWith(
+      'iban',
+      { format: undefined, type: undefined, provider: undefined },
+      1,
+      20,
+      { signal: undefined, onProgress: undefined }
+    );
+    expect(result).toEqual(mockResponse);
+  });
+
+  test('should pass filters without a query', async () => {
+    await tool.execute({ format: 'uuid', type: 'string', provider: 'example.com', page: 2, limit: 5 }, mockContext);
+
+    expect(mockSearchSchemas).toHaveBeenCalledWith(
+      '',
+      { format: 'uuid', type: 'string', provider: 'example.com' },
+      2,
+      5,
+      expect.any(Object)
+    );
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach, jest } from '@jest/globals';
 import { tool } from '../../../src/tools/provider-tools/get-provider-apis.js';
 import { ToolContext } from '../../../src/tools/types.js';
+import { ResponseBudget } from '../../../src/utils/response-budget.js';
 
 describe('get_provider_apis tool', () => {
   let mockContext: ToolContext;
@@ -133,4 +134,39 @@ describe('get_provider_apis tool', () => {
 
     expect(result).toBeNull();
   });
-});
\ No newline at end of file
+
+  test('should chunk providers that exceed the response budget', async () => {
+    const mockAPIs: Record<string, any> = {};
+    for (let i = 0; i < 10; i++) {
+      mockAPIs[`googleapis.com:service${i}`] = { preferred: 'v1', description: 'x'.repeat(300) };
+    }
+    mockApiClient.getProvider.mockResolvedValue(mockAPIs);
+    mockContext.responseBudget = new ResponseBudget(1024);
+
+    const first = await tool.execute({ provider: 'googleapis.com' }, mockContext);
+    expect(first.pagination.has_more).toBe(true);
+    expect(first.pagination.total_items).toBe(10);
+
+    const second = await tool.execute(
+      { provider: 'googleapis.com', cursor: first.pagination.next_cursor },
+      mockContext
+    );
+    expect(second.pagination.offset).toBe(first.pagination.returned_items);
+    expect(Object.keys(second.data)[0]).toBe(`googleapis.com:service${first.pagination.returned_items}`);
+  });
+
+  test('should reject a cursor issued for another provider', async () => {
+    const mockAPIs: Record<string, any> = {};
+    for (let i = 0; i < 10; i++) {
+      mockAPIs[`azure.com:service${i}`] = { description: 'x'.repeat(300) };
+    }
+    mockApiClient.getProvider.mockResolvedValue(mockAPIs);
+    mockContext.responseBudget = new ResponseBudget(1024);
+
+    const first = await tool.execute({ provider: 'azure.com' }, mockContext);
+
+    await expect(
+      tool.execute({ provider: 'googleapis.com', cursor: first.pagination.next_cursor }, mockContext)
+    ).rejects.toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ResourceHandler } from '../../../src/resources/handler.js';
+
+describe('ResourceHandler', () => {
+  let handler: ResourceHandler;
+  let mockApiClient: any;
+
+  const spec = {
+    openapi: '3.0.0',
+    paths: {
+      '/pets/{petId}': {
+        get: { operationId: 'getPet', summary: 'Get a pet' }
+      }
+    },
+    components: {
+      schemas: {
+        Pet: { type: 'object', properties: { id: { type: 'string' } } }
+      }
+    }
+  };
+
+  const readJson = async (uri: string) => {
+    const result = await handler.readResource(uri);
+    expect(result.contents).toHaveLength(1);
+    expect(result.contents[0]!.uri).toBe(uri);
+    expect(result.contents[0]!.mimeType).toBe('application/json');
+    return JSON.parse(result.contents[0]!.text);
+  };
+
+  beforeEach(() => {
+    mockApiClient = {
+      getProviders: jest.fn().mockResolvedValue({ data: ['example.com'] }),
+      getMetrics: jest.fn().mockResolvedValue({ numAPIs: 1 }),
+      getAPISummary: jest.fn().mockResolvedValue({ total_apis: 1 }),
+      getPaginatedAPIs: jest.fn().mockResolvedValue({ results: [] }),
+      getOpenAPISpecById: jest.fn().mockResolvedValue(spec)
+    };
+    handler = new ResourceHandler(mockApiClient);
+  });
+
+  describe('listResources', () => {
+    test('should list static and paginated resources', async () => {
+      const { resources } = await handler.listResources();
+      const uris = resources.map(resource => resource.uri);
+
+      expect(uris).toContain('openapi://providers');
+      expect(uris).toContain('openapi://metrics');
+      expect(uris).toContain('openapi://apis/summary');
+      expect(uris).toContain('openapi://apis/page/20');
+    });
+  });
+
+  describe('listResourceTemplates', () => {
+    test('should expose spec, endpoint, schema and page templates', async () => {
+      const { resourceTemplates } = await handler.listResourceTemplates();
+
+      expect(resourceTemplates.map(template => template.uriTemplate)).toEqual([
+        'openapi://apis/page/{page}',
+        'openapi://api/{api_id}/spec',
+        'openapi://api/{api_id}/endpoints/{method}/{path}',
+        'openapi://api/{api_id}/components/schemas/{name}'
+      ]);
+    });
+  });
+
+  describe('readResource', () => {
+    test('should read static resources', async () => {
+      expect(await readJson('openapi://providers')).toEqual({ data: ['example.com'] });
+      expect(await readJson('openapi://metrics')).toEqual({ numAPIs: 1 });
+      expect(await readJson('openapi://apis/summary')).toEqual({ total_apis: 1 });
+    });
+
+    test('should read pages beyond the listed ones', async () => {
+      await readJson('openapi://apis/page/42');
+
+      expect(mockApiClient.getPaginatedAPIs).toHaveBeenCalledWith(42, 50, {});
+    });
+
+    test('should pass the request signal to paginated reads', async () => {
+      const controller = new AbortController();
+
+      await handler.readResource('openapi://apis/page/2', { signal: controller.signal });
+
+      expect(mockApiClient.getPaginatedAPIs).toHaveBeenCalledWith(2, 50, { signal: controller.signal });
+    });
+
+    test('should reject page zero', async () => {
+      await expect(handler.readResource('openapi://apis/page/0')).rejects.toThrow('Unknown resource');
+    });
+
+    test('should read a full spec by API ID', async () => {
+      expect(await readJson('openapi://api/example.com/spec')).toEqual(spec);
+      expect(mockApiClient.getOpenAPISpecById).toHaveBeenCalledWith('example.com');
+    });
+
+    test('should decode custom API IDs', async () => {
+      await readJson('openapi://api/custom%3Amy-api%3Av1/spec');
+
+      expect(mockApiClient.getOpenAPISpecById).toHaveBeenCalledWith('custom:my-api:v1');
+    });
+
+    test('should read an endpoint operation with an encoded path', async () => {
+      const operation = await readJson('openapi://api/example.com/endpoints/GET/%2Fpets%2F%7BpetId%7D');
+
+      expect(operation).toEqual({ operationId: 'getPet', summary: 'Get a pet' });
+    });
+
+    test('should read an endpoint operation with an unencoded path', async () => {
+      const operation = await readJson('openapi://api/example.com/endpoints/get/pets/{petId}');
+
+      expect(operation.operationId).toBe('getPet');
+    });
+
+    test('should reject unknown endpoints', async () => {
+      await expect(
+        handler.readResource('openapi://api/example.com/endpoints/post/%2Fpets%2F%7BpetId%7D')
+      ).rejects.toThrow('Endpoint not found: POST /pets/{petId} in example.com');
+    });
+
+    test('should reject invalid methods', async () => {
+      await expect(
+        handler.readResource('openapi://api/example.com/endpoints/fetch/%2Fpets')
+      ).rejects.toThrow('Invalid HTTP method: fetch');
+    });
+
+    test('should read a named schema component', async () => {
+      expect(await readJson('openapi://api/example.com/components/schemas/Pet')).toEqual(
+        spec.components.schemas.Pet
+      );
+    });
+
+    test('should fall back to Swagger 2 definitions', async () => {
+      mockApiClient.getOpenAPISpecById.mockResolvedValueOnce({
+        swagger: '2.0',
+        definitions: { Order: { type: 'object' } }
+      });
+
+      expect(await readJson('openapi://api/example.com/components/schemas/Order')).toEqual({ type: 'object' });
+    });
+
+    test('should reject unknown schemas', async () => {
+      await expect(
+        handler.readResource('openapi://api/example.com/components/schemas/Missing')
+      ).rejects.toThrow('Schema not found: Missing in example.com');
+    });
+
+    test('should wrap spec loading failures', async () => {
+      mockApiClient.getOpenAPISpecById.mockRejectedValueOnce(new Error('API not found: nope'));
+
+      await expect(handler.readResource('openapi://api/nope/spec')).rejects.toThrow(
+        'Failed to load spec for nope: API not found: nope'
+      );
+    });
+
+    test('should reject unknown and non-openapi URIs', async () => {
+      await expect(handler.readResource('openapi://unknown')).rejects.toThrow('Unknown resource');
+      await expect(handler.readResource('https://example.com')).rejects.toThrow('Invalid resource URI');
+    });
+
+    test('should reject malformed percent-encoding as invalid params', async () => {
+      for (const uri of [
+        'openapi://api/%E0%A4%A/spec',
+        'openapi://api/example.com/endpoints/get/%ZZ',
+        'openapi://api/example.com/components/schemas/%',
+      ]) {
+        await expect(handler.readResource(uri)).rejects.toMatchObject({
+          code: ErrorCode.InvalidParams,
+          message: expect.stringContaining(`Malformed percent-encoding in resource URI: ${uri}`),
+        });
+      }
+      expect(mockApiClient.getOpenAPISpecById).not.toHaveBeenCalled();
+    });
+  });
+});
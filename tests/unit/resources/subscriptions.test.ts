@@ -0,0 +1,91 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { ResourceSubscriptions, isAffectedByChange } from '../../../src/resources/subscriptions.js';
+
+describe('ResourceSubscriptions', () => {
+  let subscriptions: ResourceSubscriptions;
+
+  const createServer = () =>
+    ({
+      transport: {},
+      sendResourceListChanged: jest.fn().mockResolvedValue(undefined),
+      sendResourceUpdated: jest.fn().mockResolvedValue(undefined)
+    }) as any;
+
+  const change = { added: ['custom:new-api:v1'], removed: [], updated: [] };
+
+  beforeEach(() => {
+    subscriptions = new ResourceSubscriptions();
+  });
+
+  test('should track subscriptions per server', () => {
+    const first = createServer();
+    const second = createServer();
+
+    subscriptions.subscribe(first, 'openapi://providers');
+    subscriptions.subscribe(second, 'openapi://metrics');
+    subscriptions.unsubscribe(second, 'openapi://metrics');
+
+    expect(subscriptions.getSubscriptions(first)).toEqual(['openapi://providers']);
+    expect(subscriptions.getSubscriptions(second)).toEqual([]);
+  });
+
+  test('should send list_changed to every registered server', async () => {
+    const first = createServer();
+    const second = createServer();
+    subscriptions.register(first);
+    subscriptions.register(second);
+
+    await subscriptions.notifyManifestChange(change);
+
+    expect(first.sendResourceListChanged).toHaveBeenCalledTimes(1);
+    expect(second.sendResourceListChanged).toHaveBeenCalledTimes(1);
+  });
+
+  test('should send resources/updated only for affected subscriptions', async () => {
+    const server = createServer();
+    subscriptions.subscribe(server, 'openapi://apis/summary');
+    subscriptions.subscribe(server, 'openapi://api/custom%3Anew-api%3Av1/spec');
+    subscriptions.subscribe(server, 'openapi://api/stripe.com/spec');
+
+    await subscriptions.notifyManifestChange(change);
+
+    expect(server.sendResourceUpdated.mock.calls.map((call: any[]) => call[0].uri)).toEqual([
+      'openapi://apis/summary',
+      'openapi://api/custom%3Anew-api%3Av1/spec'
+    ]);
+  });
+
+  test('should stop notifying unregistered servers', async () => {
+    const server = createServer();
+    subscriptions.subscribe(server, 'openapi://providers');
+    subscriptions.unregister(server);
+
+    await subscriptions.notifyManifestChange(change);
+
+    expect(server.sendResourceListChanged).not.toHaveBeenCalled();
+  });
+
+  test('should drop disconnected servers when sending fails', async () => {
+    const server = createServer();
+    server.transport = undefined;
+    server.sendResourceListChanged.mockRejectedValue(new Error('Not connected'));
+    subscriptions.register(server);
+
+    await expect(subscriptions.notifyManifestChange(change)).resolves.toBeUndefined();
+    await subscriptions.notifyManifestChange(change);
+
+    expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+  });
+
+  describe('isAffectedByChange', () => {
+    test('should treat directory-level resources as affected by any change', () => {
+      expect(isAffectedByChange('openapi://providers', change)).toBe(true);
+      expect(isAffectedByChange('openapi://apis/page/3', change)).toBe(true);
+    });
+
+    test('should match per-API resources by decoded or raw API ID', () => {
+      expect(isAffectedByChange('openapi://api/custom:new-api:v1/components/schemas/Pet', change)).toBe(true);
+      expect(isAffectedByChange('openapi://api/custom:other:v1/spec', change)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, test, expect } from '@jest/globals';
+import { ApiSearchIndex, searchApiDirectory } from '../../../src/search/api-index.js';
+import { ApiGuruAPI } from '../../../src/types/api.js';
+
+const api = (info: Record<string, unknown>, updated = '2023-01-01T00:00:00Z'): ApiGuruAPI =>
+  ({
+    added: '2023-01-01T00:00:00Z',
+    preferred: 'v1',
+    versions: {
+      v1: {
+        added: '2023-01-01T00:00:00Z',
+        updated,
+        swaggerUrl: '',
+        swaggerYamlUrl: '',
+        openapiVer: '3.0.0',
+        info: { version: 'v1', ...info },
+      },
+    },
+  }) as unknown as ApiGuruAPI;
+
+const directory: Record<string, ApiGuruAPI> = {
+  'twilio.com:api': api({
+    title: 'Twilio',
+    description: 'Send SMS messages, make voice calls and verify users',
+    'x-providerName': 'twilio.com',
+    'x-apisguru-categories': ['telecom', 'messaging'],
+  }),
+  'sendgrid.com:api': api({
+    title: 'SendGrid',
+    description: 'Send transactional email',
+    'x-providerName': 'sendgrid.com',
+    'x-apisguru-categories': ['email'],
+  }),
+  'stripe.com:api': api({
+    title: 'Stripe API',
+    description: 'Online payment processing for internet businesses',
+    'x-providerName': 'stripe.com',
+    'x-apisguru-categories': ['financial'],
+    'x-tags': ['payments', 'billing'],
+  }),
+  'example.com:weather': api({
+    title: 'Weather',
+    description: 'Forecasts and historical weather data',
+    'x-providerName': 'example.com',
+  }),
+};
+
+describe('ApiSearchIndex', () => {
+  test('should rank documents matching more query terms first', () => {
+    const hits = new ApiSearchIndex(directory).search('send sms messages');
+
+    expect(hits.map(hit => hit.id)).toEqual(['twilio.com:api', 'sendgrid.com:api']);
+    expect(hits[0]!.score).toBeGreaterThan(hits[1]!.score);
+  });
+
+  test('should match stemmed forms, categories and x-tags', () => {
+    const index = new ApiSearchIndex(directory);
+
+    expect(index.search('billing')[0]?.id).toBe('stripe.com:api');
+    expect(index.search('payment')[0]?.id).toBe('stripe.com:api');
+    expect(index.search('telecom messaging')[0]?.id).toBe('twilio.com:api');
+  });
+
+  test('should return nothing for stop words or unknown terms', () => {
+    const index = new ApiSearchIndex(directory);
+
+    expect(index.search('the and of')).toEqual([]);
+    expect(index.search('blockchain')).toEqual([]);
+  });
+
+  test('should match misspelt terms within a few edits', () => {
+    const index = new ApiSearchIndex(directory);
+
+    expect(index.search('stirpe').map(hit => hit.id)).toEqual(['stripe.com:api']);
+    expect(index.search('twillio sms').map(hit => hit.id)).toEqual(['twilio.com:api']);
+  });
+
+  test('should rank exact matches above misspelt ones', () => {
+    const index = new ApiSearchIndex({
+      'maps:api': api({ title: 'Maps' }),
+      'mapx:api': api({ title: 'Mapx' }),
+    });
+
+    expect(index.search('maps').map(hit => hit.id)).toEqual(['maps:api']);
+    expect(index.search('mapz').map(hit => hit.id)).toEqual(['maps:api', 'mapx:api']);
+  });
+
+  test('should suggest provider names and API IDs', () => {
+    const index = new ApiSearchIndex(directory);
+
+    expect(index.suggest('stripe.con')).toEqual(['stripe.com']);
+    expect(index.suggest('sendgird')).toEqual(['sendgrid.com', 'sendgrid.com:api']);
+    expect(index.suggest('blockchain')).toEqual([]);
+  });
+
+  test('should break ties by most recently updated, then by ID', () => {
+    const index = new ApiSearchIndex({
+      'b:api': api({ title: 'Maps' }, '2023-01-01T00:00:00Z'),
+      'a:api': api({ title: 'Maps' }, '2023-01-01T00:00:00Z'),
+      'c:api': api({ title: 'Maps' }, '2024-01-01T00:00:00Z'),
+    });
+
+    expect(index.search('maps').map(hit => hit.id)).toEqual(['c:api', 'a:api', 'b:api']);
+  });
+
+  test('should reuse the index for the same directory object', () => {
+    const index = ApiSearchIndex.for(directory);
+
+    expect(ApiSearchIndex.for(directory)).toBe(index);
+    expect(ApiSearchIndex.for({ ...directory })).not.toBe(index);
+    expect(index.size).toBe(4);
+  });
+});
+
+describe('searchApiDirectory', () => {
+  test('should paginate minimal API entries', () => {
+    const result = searchApiDirectory(directory, 'send', { page: 1, limit: 1 });
+
+    expect(result.results).toEqual([
+      {
+        id: 'sendgrid.com:api',
+        title: 'SendGrid',
+        description: 'Send transactional email',
+        provider: 'sendgrid.com',
+        preferred: 'v1',
+        categories: ['email'],
+      },
+    ]);
+    expect(result.pagination).toEqual({
+      page: 1,
+      limit: 1,
+      total_results: 2,
+      total_pages: 2,
+      has_next: true,
+      has_previous: false,
+    });
+  });
+
+  test('should filter by provider', () => {
+    const result = searchApiDirectory(directory, 'send', {
+      provider: 'sendgrid',
+      page: 1,
+      limit: 20,
+    });
+
+    expect(result.results.map(r => r.id)).toEqual(['sendgrid.com:api']);
+  });
+
+  test('should add suggestions only when nothing matched', () => {
+    expect(
+      searchApiDirectory(directory, 'stirpe', { provider: 'stripe.org', page: 1, limit: 20 })
+    ).toMatchObject({
+      results: [],
+      suggestions: ['stripe.com', 'stripe.com:api'],
+    });
+    expect(searchApiDirectory(directory, 'send', { page: 1, limit: 20 })).not.toHaveProperty('suggestions');
+    expect(searchApiDirectory(directory, 'blockchain', { page: 1, limit: 20 })).not.toHaveProperty('suggestions');
+  });
+
+  test('should apply filters to ranked results', () => {
+    const result = searchApiDirectory(directory, 'send category:email', { page: 1, limit: 20 });
+
+    expect(result.results.map(r => r.id)).toEqual(['sendgrid.com:api']);
+  });
+
+  test('should list every matching API for a filter-only query', () => {
+    const result = searchApiDirectory(directory, '-category:email provider:twilio.com', {
+      page: 1,
+      limit: 20,
+    });
+
+    expect(result.results.map(r => r.id)).toEqual(['twilio.com:api']);
+    expect(searchApiDirectory(directory, '', { page: 1, limit: 20 }).results).toEqual([]);
+  });
+
+  test('should exclude APIs matching negated words', () => {
+    const result = searchApiDirectory(directory, 'send -email', { page: 1, limit: 20 });
+
+    expect(result.results.map(r => r.id)).toEqual(['twilio.com:api']);
+  });
+
+  test('should resolve sources through the filter context', () => {
+    const result = searchApiDirectory(directory, 'source:secondary', {
+      page: 1,
+      limit: 20,
+      context: { source: id => (id === 'example.com:weather' ? 'secondary' : 'primary') },
+    });
+
+    expect(result.results.map(r => r.id)).toEqual(['example.com:weather']);
+  });
+
+  test('should count facets over all matches before pagination', () => {
+    const result = searchApiDirectory(directory, 'send', { page: 2, limit: 1 });
+
+    expect(result.results).toHaveLength(1);
+    expect(result.facets.provider).toEqual([
+      { value: 'sendgrid.com', count: 1, filter: 'provider:sendgrid.com' },
+      { value: 'twilio.com', count: 1, filter: 'provider:twilio.com' },
+    ]);
+    expect(result.facets.source).toEqual([{ value: 'primary', count: 2, filter: 'source:primary' }]);
+  });
+
+  test('should accept facet filters in the next query', () => {
+    const first = searchApiDirectory(directory, 'send', { page: 1, limit: 20 });
+    const email = first.facets.category.find(f => f.value === 'email')!;
+
+    const next = searchApiDirectory(directory, `send ${email.filter}`, { page: 1, limit: 20 });
+
+    expect(next.pagination.total_results).toBe(email.count);
+    expect(next.results.map(r => r.id)).toEqual(['sendgrid.com:api']);
+  });
+
+  test('should truncate long descriptions', () => {
+    const result = searchApiDirectory(
+      { 'long:api': api({ title: 'Long', description: 'x'.repeat(250) }) },
+      'long',
+      { page: 1, limit: 20 }
+    );
+
+    expect(result.results[0]?.description).toBe('x'.repeat(200) + '...');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  AuthScheme,
+  authCapabilities,
+  extractAuthSchemes,
+  searchAuthSchemes,
+} from '../../../src/search/auth-index.js';
+
+describe('extractAuthSchemes', () => {
+  test('should read OpenAPI 3 security schemes', () => {
+    expect(
+      extractAuthSchemes({
+        components: {
+          securitySchemes: {
+            key: { type: 'apiKey', in: 'header', name: 'X-Key' },
+            token: { type: 'http', scheme: 'Bearer' },
+            oauth: { type: 'oauth2', flows: { authorizationCode: {}, clientCredentials: {} } },
+            oidc: { type: 'openIdConnect', openIdConnectUrl: 'https://example.com' },
+          },
+        },
+      })
+    ).toEqual([
+      { name: 'key', type: 'apikey', in: 'header', parameter: 'X-Key' },
+      { name: 'token', type: 'http', scheme: 'bearer' },
+      { name: 'oauth', type: 'oauth2', flows: ['authorizationCode', 'clientCredentials'] },
+      { name: 'oidc', type: 'openidconnect' },
+    ]);
+  });
+
+  test('should map Swagger 2 basic auth and flow names', () => {
+    expect(
+      extractAuthSchemes({
+        securityDefinitions: {
+          basic: { type: 'basic' },
+          oauth: { type: 'oauth2', flow: 'accessCode' },
+        },
+      })
+    ).toEqual([
+      { name: 'basic', type: 'http', scheme: 'basic' },
+      { name: 'oauth', type: 'oauth2', flows: ['authorizationCode'] },
+    ]);
+    expect(extractAuthSchemes({})).toEqual([]);
+  });
+});
+
+describe('authCapabilities', () => {
+  test('should list types, HTTP schemes, locations and flows', () => {
+    expect(
+      authCapabilities([
+        { name: 'key', type: 'apikey', in: 'Header' },
+        { name: 'basic', type: 'http', scheme: 'basic' },
+        { name: 'oauth', type: 'oauth2', flows: ['clientCredentials'] },
+      ])
+    ).toEqual(['apikey', 'apikey:header', 'basic', 'http', 'http:basic', 'oauth2', 'oauth2:clientcredentials']);
+  });
+});
+
+describe('searchAuthSchemes', () => {
+  const apis: Array<[string, AuthScheme[]]> = [
+    ['stripe.com', [{ name: 'bearer', type: 'http', scheme: 'bearer' }]],
+    [
+      'github.com',
+      [
+        { name: 'oauth', type: 'oauth2', flows: ['authorizationCode'] },
+        { name: 'token', type: 'apikey', in: 'header' },
+      ],
+    ],
+    ['maps.example.com', [{ name: 'key', type: 'apikey', in: 'query' }]],
+    ['open.example.com', []],
+  ];
+  const search = (criteria: Parameters<typeof searchAuthSchemes>[1], page = 1, limit = 20) =>
+    searchAuthSchemes(apis, criteria, { page, limit, indexedApis: apis.length });
+
+  test('should match by type, location and flow', () => {
+    expect(search({ type: 'apikey' }).results.map(r => r.api_id)).toEqual(['github.com', 'maps.example.com']);
+    expect(search({ type: 'apikey', in: 'header' }).results.map(r => r.api_id)).toEqual(['github.com']);
+    expect(search({ flow: 'authorization_code' }).results.map(r => r.api_id)).toEqual(['github.com']);
+    expect(search({ type: 'bearer' }).results.map(r => r.api_id)).toEqual(['stripe.com']);
+  });
+
+  test('should list every API with security schemes when no criteria are given', () => {
+    const result = search({});
+
+    expect(result.results.map(r => r.api_id)).toEqual(['github.com', 'maps.example.com', 'stripe.com']);
+    expect(result.indexed_apis).toBe(4);
+  });
+
+  test('should require every scheme to match with only', () => {
+    expect(search({ type: 'apikey', only: true }).results.map(r => r.api_id)).toEqual(['maps.example.com']);
+  });
+
+  test('should filter by provider and paginate', () => {
+    expect(search({ provider: 'example.com' }).results.map(r => r.api_id)).toEqual(['maps.example.com']);
+
+    const page = search({}, 2, 2);
+    expect(page.results.map(r => r.api_id)).toEqual(['stripe.com']);
+    expect(page.pagination).toEqual({
+      page: 2,
+      limit: 2,
+      total_results: 3,
+      total_pages: 2,
+      has_next: false,
+      has_previous: true,
+    });
+  });
+});
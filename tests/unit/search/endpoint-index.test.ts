@@ -0,0 +1,125 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import {
+  EndpointSearchIndex,
+  extractEndpoints,
+  searchEndpointIndex,
+} from '../../../src/search/endpoint-index.js';
+
+const storageSpec = {
+  openapi: '3.0.0',
+  paths: {
+    '/files': {
+      parameters: [{ name: 'team', in: 'query' }],
+      get: { summary: 'List files', operationId: 'listFiles', tags: ['files'] },
+      post: {
+        summary: 'Upload a file',
+        operationId: 'uploadFile',
+        tags: ['files'],
+        description: 'Stores the file content',
+      },
+    },
+    '/files/{id}': {
+      delete: { operationId: 'deleteFile' },
+    },
+  },
+};
+
+const paymentsSpec = {
+  swagger: '2.0',
+  paths: {
+    '/payments': {
+      post: { summary: 'Create a payment', tags: ['payments'] },
+      get: { summary: 'List payments', tags: ['payments'] },
+    },
+    '/refunds': {
+      post: { summary: 'Refund a payment', operationId: 'createRefund' },
+    },
+  },
+};
+
+describe('extractEndpoints', () => {
+  test('should list operations and skip path-level fields', () => {
+    expect(extractEndpoints('storage.io', storageSpec)).toEqual([
+      { api_id: 'storage.io', method: 'GET', path: '/files', summary: 'List files', operationId: 'listFiles', tags: ['files'] },
+      {
+        api_id: 'storage.io',
+        method: 'POST',
+        path: '/files',
+        summary: 'Upload a file',
+        operationId: 'uploadFile',
+        tags: ['files'],
+        description: 'Stores the file content',
+      },
+      { api_id: 'storage.io', method: 'DELETE', path: '/files/{id}', operationId: 'deleteFile', tags: [] },
+    ]);
+  });
+
+  test('should return nothing for specs without paths', () => {
+    expect(extractEndpoints('empty', {})).toEqual([]);
+    expect(extractEndpoints('empty', null)).toEqual([]);
+  });
+});
+
+describe('EndpointSearchIndex', () => {
+  let index: EndpointSearchIndex;
+
+  beforeEach(() => {
+    index = new EndpointSearchIndex();
+    index.addApi('storage.io', storageSpec, 'v1');
+    index.addApi('payments.com', paymentsSpec, 'v1');
+  });
+
+  test('should find endpoints by summary, operationId and path', () => {
+    expect(index.search('upload file')[0]).toEqual(
+      expect.objectContaining({ api_id: 'storage.io', method: 'POST', path: '/files' })
+    );
+    expect(index.search('delete')[0]?.path).toBe('/files/{id}');
+    expect(index.search('refunds')[0]?.path).toBe('/refunds');
+  });
+
+  test('should filter by method and provider', () => {
+    const posts = index.search('payments', { method: 'post' });
+
+    expect(posts.map(e => `${e.method} ${e.path}`)).toEqual(['POST /payments', 'POST /refunds']);
+    expect(index.search('files', { provider: 'payments' })).toEqual([]);
+  });
+
+  test('should replace and remove APIs', () => {
+    expect(index.isIndexed('storage.io', 'v1')).toBe(true);
+    expect(index.isIndexed('storage.io', 'v2')).toBe(false);
+
+    index.addApi('storage.io', { paths: { '/blobs': { put: { summary: 'Upload blob' } } } }, 'v2');
+    expect(index.search('upload').map(e => e.path)).toEqual(['/blobs']);
+
+    index.removeApi('storage.io');
+    expect(index.search('upload')).toEqual([]);
+    expect(index.apiIds).toEqual(['payments.com']);
+    expect(index.size).toBe(3);
+  });
+});
+
+describe('searchEndpointIndex', () => {
+  test('should paginate hits and report indexed APIs', () => {
+    const index = new EndpointSearchIndex();
+    index.addApi('payments.com', paymentsSpec, 'v1');
+
+    const result = searchEndpointIndex(index, 'payment', { page: 1, limit: 2 });
+
+    expect(result.results).toHaveLength(2);
+    expect(result.results[0]).toEqual({
+      api_id: 'payments.com',
+      method: expect.any(String),
+      path: '/payments',
+      summary: expect.any(String),
+    });
+    expect(result.pagination).toEqual({
+      page: 1,
+      limit: 2,
+      total_results: 3,
+      total_pages: 2,
+      has_next: true,
+      has_previous: false,
+    });
+    expect(result.indexed_apis).toBe(1);
+  });
+});
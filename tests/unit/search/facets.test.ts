@@ -0,0 +1,74 @@
+import { describe, test, expect } from '@jest/globals';
+import { computeFacets } from '../../../src/search/facets.js';
+import { ApiGuruAPI } from '../../../src/types/api.js';
+
+const api = (openapiVer: string, updated: string, info: Record<string, unknown> = {}): ApiGuruAPI =>
+  ({
+    added: '2020-01-01T00:00:00Z',
+    preferred: 'v1',
+    versions: {
+      v1: {
+        added: '2020-01-01T00:00:00Z',
+        updated,
+        swaggerUrl: '',
+        swaggerYamlUrl: '',
+        openapiVer,
+        info: { version: 'v1', ...info },
+      },
+    },
+  }) as unknown as ApiGuruAPI;
+
+const apis: Record<string, ApiGuruAPI> = {
+  'stripe.com': api('3.0.0', '2024-03-05T10:00:00Z', {
+    'x-providerName': 'stripe.com',
+    'x-apisguru-categories': ['financial', 'payment'],
+  }),
+  'paypal.com:payments': api('3.1.0', '2023-06-01T00:00:00Z', {
+    'x-providerName': 'paypal.com',
+    'x-apisguru-categories': ['Financial'],
+  }),
+  'custom:billing:v1': api('2.0', '2024-01-01T00:00:00Z', {
+    'x-apisguru-categories': ['machine learning'],
+  }),
+};
+
+describe('computeFacets', () => {
+  test('should count each facet over the given APIs', () => {
+    const facets = computeFacets(Object.keys(apis), apis);
+
+    expect(facets.category).toEqual([
+      { value: 'financial', count: 2, filter: 'category:financial' },
+      { value: 'machine learning', count: 1, filter: 'category:"machine learning"' },
+      { value: 'payment', count: 1, filter: 'category:payment' },
+    ]);
+    expect(facets.provider.map(f => f.value)).toEqual(['custom', 'paypal.com', 'stripe.com']);
+    expect(facets.source).toEqual([
+      { value: 'primary', count: 2, filter: 'source:primary' },
+      { value: 'custom', count: 1, filter: 'source:custom' },
+    ]);
+    expect(facets.openapi).toEqual([
+      { value: '3', count: 2, filter: 'openapi:3' },
+      { value: '2', count: 1, filter: 'openapi:2' },
+    ]);
+    expect(facets.updated).toEqual([
+      { value: '2024', count: 2, filter: 'updated:2024' },
+      { value: '2023', count: 1, filter: 'updated:2023' },
+    ]);
+  });
+
+  test('should resolve sources through the context', () => {
+    const facets = computeFacets(['stripe.com'], apis, { source: () => 'secondary' });
+
+    expect(facets.source).toEqual([{ value: 'secondary', count: 1, filter: 'source:secondary' }]);
+  });
+
+  test('should return empty facets for no matches', () => {
+    expect(computeFacets([], apis)).toEqual({
+      category: [],
+      provider: [],
+      source: [],
+      openapi: [],
+      updated: [],
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  matchesFilters,
+  parseSearchQuery,
+} from '../../../src/search/filters.js';
+import { ValidationError } from '../../../src/utils/errors.js';
+import { ApiGuruAPI } from '../../../src/types/api.js';
+
+const api = (openapiVer: string, updated: string, info: Record<string, unknown> = {}): ApiGuruAPI =>
+  ({
+    added: '2020-01-01T00:00:00Z',
+    preferred: 'v1',
+    versions: {
+      v1: {
+        added: '2020-01-01T00:00:00Z',
+        updated,
+        swaggerUrl: '',
+        swaggerYamlUrl: '',
+        openapiVer,
+        info: { version: 'v1', ...info },
+      },
+    },
+  }) as unknown as ApiGuruAPI;
+
+const stripe = api('3.0.0', '2024-03-05T10:00:00Z', {
+  'x-providerName': 'stripe.com',
+  'x-apisguru-categories': ['financial', 'payment'],
+});
+
+describe('parseSearchQuery', () => {
+  test('should separate text, excluded words and filters', () => {
+    expect(
+      parseSearchQuery('payments category:payment openapi:3 updated>2024-01-01 source:custom auth:oauth2 -deprecated')
+    ).toEqual({
+      text: 'payments',
+      excluded: ['deprecated'],
+      filters: [
+        { field: 'category', value: 'payment', negated: false },
+        { field: 'openapi', value: '3', negated: false },
+        { field: 'updated', operator: '>', value: '2024-01-01', negated: false },
+        { field: 'source', value: 'custom', negated: false },
+        { field: 'auth', value: 'oauth2', negated: false },
+      ],
+    });
+  });
+
+  test('should support negated filters and quoted values', () => {
+    expect(parseSearchQuery('-provider:stripe.com category:"machine learning"').filters).toEqual([
+      { field: 'provider', value: 'stripe.com', negated: true },
+      { field: 'category', value: 'machine learning', negated: false },
+    ]);
+  });
+
+  test('should keep API IDs and URLs as text', () => {
+    expect(parseSearchQuery('googleapis.com:drive https://example.com')).toEqual({
+      text: 'googleapis.com:drive https://example.com',
+      excluded: [],
+      filters: [],
+    });
+  });
+
+  test('should keep custom API IDs and prose with colons as text', () => {
+    expect(parseSearchQuery('custom:my-api')).toEqual({ text: 'custom:my-api', excluded: [], filters: [] });
+    expect(parseSearchQuery('custom:my-api:v1 source:custom').text).toBe('custom:my-api:v1');
+    expect(parseSearchQuery('stripe note: payments')).toEqual({ text: 'stripe note: payments', excluded: [], filters: [] });
+    expect(parseSearchQuery('payments tag:billing -todo:later')).toEqual({
+      text: 'payments tag:billing',
+      excluded: ['todo:later'],
+      filters: [],
+    });
+  });
+
+  test('should throw validation errors for malformed filters', () => {
+    expect(() => parseSearchQuery('updated>yesterday')).toThrow(ValidationError);
+    expect(() => parseSearchQuery('payments category:')).toThrow('Search filter "category" needs a value');
+  });
+});
+
+describe('matchesFilters', () => {
+  const filters = (query: string) => parseSearchQuery(query).filters;
+
+  test('should match categories and providers exactly', () => {
+    expect(matchesFilters('stripe.com', stripe, filters('category:Payment provider:stripe.com'))).toBe(true);
+    expect(matchesFilters('stripe.com', stripe, filters('category:pay'))).toBe(false);
+    expect(matchesFilters('stripe.com', stripe, filters('provider:stripe'))).toBe(false);
+  });
+
+  test('should match OpenAPI versions by prefix', () => {
+    expect(matchesFilters('stripe.com', stripe, filters('openapi:3'))).toBe(true);
+    expect(matchesFilters('stripe.com', stripe, filters('openapi:3.0'))).toBe(true);
+    expect(matchesFilters('stripe.com', stripe, filters('openapi:3.1'))).toBe(false);
+    expect(matchesFilters('stripe.com', stripe, filters('openapi:2'))).toBe(false);
+  });
+
+  test('should compare update dates at the precision given', () => {
+    expect(matchesFilters('stripe.com', stripe, filters('updated:2024'))).toBe(true);
+    expect(matchesFilters('stripe.com', stripe, filters('updated>2024-01-01'))).toBe(true);
+    expect(matchesFilters('stripe.com', stripe, filters('updated>2024'))).toBe(false);
+    expect(matchesFilters('stripe.com', stripe, filters('updated>=2024-03'))).toBe(true);
+    expect(matchesFilters('stripe.com', stripe, filters('updated<2024-03-05'))).toBe(false);
+    expect(matchesFilters('stripe.com', stripe, filters('updated<=2024-03-05'))).toBe(true);
+  });
+
+  test('should apply negation', () => {
+    expect(matchesFilters('stripe.com', stripe, filters('-category:payment'))).toBe(false);
+    expect(matchesFilters('stripe.com', stripe, filters('-openapi:2'))).toBe(true);
+  });
+
+  test('should resolve sources and auth types through the context', () => {
+    expect(matchesFilters('custom:mine:v1', stripe, filters('source:custom'))).toBe(true);
+    expect(matchesFilters('stripe.com', stripe, filters('source:primary'))).toBe(true);
+    expect(
+      matchesFilters('stripe.com', stripe, filters('source:secondary'), { source: () => 'secondary' })
+    ).toBe(true);
+
+    expect(matchesFilters('stripe.com', stripe, filters('auth:oauth2'))).toBe(false);
+    expect(
+      matchesFilters('stripe.com', stripe, filters('auth:oauth2'), { authCapabilities: () => ['apikey', 'oauth2'] })
+    ).toBe(true);
+    expect(
+      matchesFilters('stripe.com', stripe, filters('auth:oauth2:client_credentials'), {
+        authCapabilities: () => ['oauth2', 'oauth2:authorizationcode'],
+      })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, test, expect } from '@jest/globals';
+import { editDistance, maxEditDistance, suggestSimilar } from '../../../src/search/fuzzy.js';
+
+describe('fuzzy', () => {
+  describe('editDistance', () => {
+    test('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('github', 'github')).toBe(0);
+      expect(editDistance('githib', 'github')).toBe(1);
+      expect(editDistance('stripe', 'strip')).toBe(1);
+      expect(editDistance('', 'abc')).toBe(3);
+      expect(editDistance('kitten', 'sitting')).toBe(3);
+    });
+
+    test('should count an adjacent transposition as one edit', () => {
+      expect(editDistance('stirpe', 'stripe')).toBe(1);
+      expect(editDistance('ab', 'ba')).toBe(1);
+    });
+
+    test('should stop early once the distance exceeds the maximum', () => {
+      expect(editDistance('payments', 'weather', 2)).toBe(3);
+      expect(editDistance('a', 'abcdef', 1)).toBe(2);
+    });
+  });
+
+  describe('maxEditDistance', () => {
+    test('should tolerate more edits in longer words', () => {
+      expect(maxEditDistance(3)).toBe(0);
+      expect(maxEditDistance(4)).toBe(1);
+      expect(maxEditDistance(6)).toBe(2);
+    });
+  });
+
+  describe('suggestSimilar', () => {
+    const names = ['github.com', 'gitlab.com', 'stripe.com', 'stripe.com:api', 'twilio.com'];
+
+    test('should suggest whole names within a few edits', () => {
+      expect(suggestSimilar('githib.com', names)).toEqual(['github.com', 'gitlab.com']);
+      expect(suggestSimilar('twilio.co', names)).toEqual(['twilio.com']);
+    });
+
+    test('should match misspelt segments of names', () => {
+      expect(suggestSimilar('stirpe', names)).toEqual(['stripe.com', 'stripe.com:api']);
+      expect(suggestSimilar('githib', names)).toEqual(['github.com', 'gitlab.com']);
+    });
+
+    test('should try each word of the input', () => {
+      expect(suggestSimilar('payments twilo', names)).toEqual(['twilio.com']);
+    });
+
+    test('should limit and deduplicate suggestions', () => {
+      expect(suggestSimilar('stripe', [...names, 'stripe.com'], 1)).toEqual(['stripe.com']);
+    });
+
+    test('should return nothing for unrelated or empty input', () => {
+      expect(suggestSimilar('weather', names)).toEqual([]);
+      expect(suggestSimilar('  ', names)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import {
+  SchemaSearchIndex,
+  extractSchemaFields,
+  findSchemaReferences,
+  searchSchemaIndex,
+} from '../../../src/search/schema-index.js';
+
+const billingSpec = {
+  openapi: '3.0.0',
+  paths: {
+    '/orders': {
+      get: {
+        responses: {
+          '200': {
+            content: {
+              'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Order' } } },
+            },
+          },
+        },
+      },
+      post: {
+        requestBody: { $ref: '#/components/requestBodies/NewOrder' },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/accounts/{id}': {
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+      get: {
+        responses: {
+          '200': { content: { 'application/json': { schema: { $ref: '#/components/schemas/BankAccount' } } } },
+        },
+      },
+    },
+  },
+  components: {
+    requestBodies: {
+      NewOrder: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Order' } } } },
+    },
+    schemas: {
+      Order: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          status: { type: 'string', enum: ['pending', 'shipped'] },
+          customer: {
+            type: 'object',
+            properties: { vat_number: { type: 'string', description: 'EU VAT number' } },
+          },
+          lines: { type: 'array', items: { type: 'object', properties: { sku: { type: 'string' } } } },
+          currency: { $ref: '#/components/schemas/Currency' },
+        },
+      },
+      BankAccount: {
+        allOf: [{ type: 'object', properties: { iban: { type: 'string' } } }],
+      },
+      Currency: { type: 'string', enum: ['EUR', 'USD'] },
+    },
+  },
+};
+
+const legacySpec = {
+  swagger: '2.0',
+  paths: {
+    '/users': {
+      get: { responses: { '200': { schema: { $ref: '#/definitions/User' } } } },
+    },
+  },
+  definitions: {
+    User: { type: 'object', properties: { id: { type: 'string', format: 'uuid' } } },
+  },
+};
+
+describe('extractSchemaFields', () => {
+  test('should list nested properties, array items and composed schemas', () => {
+    const fields = extractSchemaFields('billing', billingSpec);
+
+    expect(fields.map(f => f.schema_path)).toEqual([
+      '#/components/schemas/Order/properties/id',
+      '#/components/schemas/Order/properties/status',
+      '#/components/schemas/Order/properties/customer',
+      '#/components/schemas/Order/properties/customer/properties/vat_number',
+      '#/components/schemas/Order/properties/lines',
+      '#/components/schemas/Order/properties/lines/items/properties/sku',
+      '#/components/schemas/Order/properties/currency',
+      '#/components/schemas/BankAccount/allOf/0/properties/iban',
+      '#/components/schemas/Currency',
+    ]);
+    expect(fields.find(f => f.field === 'lines[].sku')).toBeDefined();
+    expect(fields.find(f => f.field === 'status')).toMatchObject({ type: 'string', enum: ['pending', 'shipped'] });
+    expect(fields.find(f => f.schema === 'Currency')).toEqual({
+      api_id: 'billing',
+      schema: 'Currency',
+      schema_path: '#/components/schemas/Currency',
+      type: 'string',
+      enum: ['EUR', 'USD'],
+    });
+  });
+
+  test('should read Swagger 2 definitions', () => {
+    expect(extractSchemaFields('legacy', legacySpec)).toEqual([
+      {
+        api_id: 'legacy',
+        schema: 'User',
+        field: 'id',
+        schema_path: '#/definitions/User/properties/id',
+        type: 'string',
+        format: 'uuid',
+      },
+    ]);
+    expect(extractSchemaFields('empty', { paths: {} })).toEqual([]);
+  });
+});
+
+describe('findSchemaReferences', () => {
+  test('should follow references through request bodies and other schemas', () => {
+    const references = findSchemaReferences(billingSpec);
+
+    expect(references.get('#/components/schemas/Order')).toEqual([
+      { method: 'GET', path: '/orders' },
+      { method: 'POST', path: '/orders' },
+    ]);
+    expect(references.get('#/components/schemas/Currency')).toEqual([
+      { method: 'GET', path: '/orders' },
+      { method: 'POST', path: '/orders' },
+    ]);
+    expect(references.get('#/components/schemas/BankAccount')).toEqual([{ method: 'GET', path: '/accounts/{id}' }]);
+  });
+
+  test('should tolerate circular references', () => {
+    const spec = {
+      paths: { '/nodes': { get: { responses: { '200': { schema: { $ref: '#/definitions/Node' } } } } } },
+      definitions: {
+        Node: { type: 'object', properties: { parent: { $ref: '#/definitions/Node' } } },
+      },
+    };
+
+    expect(findSchemaReferences(spec).get('#/definitions/Node')).toEqual([{ method: 'GET', path: '/nodes' }]);
+  });
+});
+
+describe('SchemaSearchIndex', () => {
+  let index: SchemaSearchIndex;
+
+  beforeEach(() => {
+    index = new SchemaSearchIndex();
+    index.addApi('billing', billingSpec);
+    index.addApi('legacy', legacySpec);
+  });
+
+  test('should find fields by name, including snake_case parts', () => {
+    expect(index.search('iban').map(f => f.field)).toEqual(['iban']);
+    expect(index.search('vat number')[0]?.field).toBe('customer.vat_number');
+    expect(index.search('vat_number')[0]?.field).toBe('customer.vat_number');
+  });
+
+  test('should find fields by enum value', () => {
+    expect(index.search('shipped').map(f => f.field)).toEqual(['status']);
+    expect(index.search('eur').map(f => f.schema)).toEqual(['Currency']);
+  });
+
+  test('should filter by format, type and provider', () => {
+    expect(index.search('', { format: 'uuid' }).map(f => `${f.api_id} ${f.schema}.${f.field}`)).toEqual([
+      'billing Order.id',
+      'legacy User.id',
+    ]);
+    expect(index.search('order id', { format: 'UUID' })[0]).toMatchObject({ api_id: 'billing', field: 'id' });
+    expect(index.search('', { type: 'array' }).map(f => f.field)).toEqual(['lines']);
+    expect(index.search('id', { provider: 'legacy' }).map(f => f.api_id)).toEqual(['legacy']);
+  });
+
+  test('should remove APIs', () => {
+    index.removeApi('billing');
+
+    expect(index.search('iban')).toEqual([]);
+    expect(index.apiIds).toEqual(['legacy']);
+  });
+
+  test('should page results with referencing endpoints', () => {
+    const result = searchSchemaIndex(index, '', { format: 'uuid', page: 1, limit: 1 });
+
+    expect(result.results).toEqual([
+      {
+        api_id: 'billing',
+        schema: 'Order',
+        field: 'id',
+        schema_path: '#/components/schemas/Order/properties/id',
+        type: 'string',
+        format: 'uuid',
+        endpoints: [
+          { method: 'GET', path: '/orders' },
+          { method: 'POST', path: '/orders' },
+        ],
+        endpoint_count: 2,
+      },
+    ]);
+    expect(result.pagination).toMatchObject({ total_results: 2, total_pages: 2, has_next: true });
+    expect(result.indexed_apis).toBe(2);
+  });
+
+  test('should leave descriptions out of results', () => {
+    const result = searchSchemaIndex(index, 'vat', { page: 1, limit: 20 });
+
+    expect(result.results[0]).not.toHaveProperty('description');
+  });
+});
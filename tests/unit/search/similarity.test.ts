@@ -0,0 +1,104 @@
+import { describe, test, expect } from '@jest/globals';
+import { findSimilarApis } from '../../../src/search/similarity.js';
+import { ApiGuruAPI } from '../../../src/types/api.js';
+
+const api = (info: Record<string, unknown>): ApiGuruAPI =>
+  ({
+    added: '2023-01-01T00:00:00Z',
+    preferred: 'v1',
+    versions: {
+      v1: {
+        added: '2023-01-01T00:00:00Z',
+        updated: '2023-01-01T00:00:00Z',
+        swaggerUrl: '',
+        swaggerYamlUrl: '',
+        openapiVer: '3.0.0',
+        info: { version: 'v1', ...info },
+      },
+    },
+  }) as unknown as ApiGuruAPI;
+
+const directory: Record<string, ApiGuruAPI> = {
+  'twilio.com:api': api({
+    title: 'Twilio',
+    description: 'Send SMS messages and make voice calls',
+    'x-providerName': 'twilio.com',
+    'x-apisguru-categories': ['telecom'],
+  }),
+  'twilio.com:chat': api({
+    title: 'Twilio Chat',
+    description: 'Chat messages',
+    'x-providerName': 'twilio.com',
+    'x-apisguru-categories': ['telecom'],
+  }),
+  'vonage.com:sms': api({
+    title: 'Vonage SMS',
+    description: 'Send SMS messages worldwide',
+    'x-providerName': 'vonage.com',
+    'x-apisguru-categories': ['telecom'],
+  }),
+  'plivo.com': api({
+    title: 'Plivo',
+    description: 'Voice calls for your application',
+    'x-providerName': 'plivo.com',
+  }),
+  'stripe.com': api({
+    title: 'Stripe',
+    description: 'Online payment processing',
+    'x-providerName': 'stripe.com',
+    'x-apisguru-categories': ['financial'],
+  }),
+  'custom:sms-gateway:v1': api({
+    title: 'SMS Gateway',
+    description: 'Internal gateway',
+  }),
+};
+
+describe('findSimilarApis', () => {
+  test('should rank APIs sharing categories and terms, with reasons', () => {
+    const result = findSimilarApis(directory, 'twilio.com:api', { limit: 10 });
+
+    expect(result.api_id).toBe('twilio.com:api');
+    expect(result.compared_apis).toBe(5);
+    expect(result.results.map(r => r.id)).toEqual(['vonage.com:sms', 'plivo.com']);
+    expect(result.results[0]).toMatchObject({
+      title: 'Vonage SMS',
+      provider: 'vonage.com',
+      reason: expect.stringMatching(/^Shared categories: telecom\. Common terms: .*sms/),
+    });
+    expect(result.results[0]!.score).toBeGreaterThan(result.results[1]!.score);
+    expect(result.results[0]!.score).toBeLessThanOrEqual(1);
+    expect(result.results[1]!.reason).toMatch(/^Common terms: (voice, calls|calls, voice)$/);
+  });
+
+  test('should include the same provider only on request', () => {
+    const result = findSimilarApis(directory, 'twilio.com:api', {
+      limit: 10,
+      includeSameProvider: true,
+    });
+
+    expect(result.results.map(r => r.id)).toContain('twilio.com:chat');
+  });
+
+  test('should use endpoint paths of loaded specs', () => {
+    const without = findSimilarApis(directory, 'vonage.com:sms', { limit: 10 });
+    const withPaths = findSimilarApis(directory, 'vonage.com:sms', {
+      limit: 10,
+      paths: id =>
+        id === 'vonage.com:sms' || id === 'custom:sms-gateway:v1' ? ['/outbound/{id}/delivery'] : undefined,
+    });
+
+    expect(without.results.map(r => r.id)).not.toContain('custom:sms-gateway:v1');
+    expect(withPaths.results.map(r => r.id)).toContain('custom:sms-gateway:v1');
+    expect(withPaths.results.find(r => r.id === 'custom:sms-gateway:v1')!.reason).toContain('outbound');
+  });
+
+  test('should respect the limit and handle unknown APIs', () => {
+    expect(findSimilarApis(directory, 'twilio.com:api', { limit: 1 }).results).toHaveLength(1);
+    expect(findSimilarApis(directory, 'missing.com', { limit: 10 })).toEqual({
+      api_id: 'missing.com',
+      results: [],
+      compared_apis: 0,
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, test, expect } from '@jest/globals';
+import { splitWords, stem, tokenize, isStopWord } from '../../../src/search/tokenizer.js';
+
+describe('tokenizer', () => {
+  describe('splitWords', () => {
+    test('should split on punctuation and lowercase words', () => {
+      expect(splitWords('googleapis.com:gmail v1')).toEqual(['googleapis', 'com', 'gmail', 'v1']);
+    });
+
+    test('should keep camelCase identifiers and their parts', () => {
+      expect(splitWords('sendSMS GitHub')).toEqual(['sendsms', 'send', 'sms', 'github', 'git', 'hub']);
+    });
+
+    test('should return no words for empty text', () => {
+      expect(splitWords('  -- ')).toEqual([]);
+    });
+  });
+
+  describe('stem', () => {
+    test.each([
+      ['caresses', 'caress'],
+      ['ponies', 'poni'],
+      ['messages', 'messag'],
+      ['messaging', 'messag'],
+      ['sending', 'send'],
+      ['payments', 'payment'],
+      ['hopping', 'hop'],
+      ['relational', 'relat'],
+      ['generalization', 'gener'],
+      ['authentication', 'authent'],
+      ['happy', 'happi'],
+    ])('should stem %s to %s', (word, expected) => {
+      expect(stem(word)).toBe(expected);
+    });
+
+    test('should leave short words and words with digits unchanged', () => {
+      expect(stem('is')).toBe('is');
+      expect(stem('oauth2')).toBe('oauth2');
+    });
+  });
+
+  describe('tokenize', () => {
+    test('should drop stop words and single characters', () => {
+      expect(isStopWord('the')).toBe(true);
+      expect(tokenize('Send an SMS to the user, v 2')).toEqual(['send', 'sm', 'user']);
+    });
+
+    test('should produce the same terms for different word forms', () => {
+      expect(tokenize('sending messages')).toEqual(tokenize('send message'));
+    });
+  });
+});
@@ -19,7 +19,7 @@ import { join } from "path";
  */
 
 describe("Tool Enumeration Tests", () => {
-  const EXPECTED_TOOL_COUNT = 22;
+  const EXPECTED_TOOL_COUNT = 28;
   
   // These are the tools that MUST be present for backward compatibility
   const EXPECTED_TOOLS = [
@@ -37,6 +37,8 @@ describe("Tool Enumeration Tests", () => {
     
     // Search & Discovery
     'search_apis',
+    'find_similar_apis',
+    'find_apis_by_auth',
     'get_popular_apis',
     'get_recently_updated',
     'analyze_api_categories',
@@ -49,6 +51,10 @@ describe("Tool Enumeration Tests", () => {
     'get_endpoint_details',
     'get_endpoint_schema',
     'get_endpoint_examples',
+    'get_endpoint_snippet',
+    'get_webhooks',
+    'search_endpoints',
+    'search_schemas',
     
     // Cache Tools
     'cache_info',
@@ -59,7 +65,7 @@ describe("Tool Enumeration Tests", () => {
   ];
 
   describe("ToolGenerator (hardcoded system)", () => {
-    it("should expose exactly 22 tools", async () => {
+    it("should expose exactly 28 tools", async () => {
       const generator = new ToolGenerator();
       const tools = await generator.generateTools();
       
@@ -111,8 +117,8 @@ describe("Tool Enumeration Tests", () => {
       const expectedDistribution = {
         'cache-tools': 5,
         'api-details': 5,
-        'api-discovery': 4,
-        'endpoint-tools': 4,
+        'api-discovery': 6,
+        'endpoint-tools': 8,
         'provider-tools': 1,
         'utility-tools': 3
       };
@@ -124,8 +130,8 @@ describe("Tool Enumeration Tests", () => {
       const toolsByCategory: Record<string, string[]> = {
         'cache-tools': ['cache_info', 'cache_stats', 'clear_cache', 'clear_cache_key', 'list_cache_keys'],
         'api-details': ['get_api', 'get_api_summary', 'search_apis', 'get_openapi_spec', 'get_provider_stats'],
-        'api-discovery': ['get_providers', 'get_provider_services', 'list_all_apis', 'get_metrics'],
-        'endpoint-tools': ['get_endpoints', 'get_endpoint_details', 'get_endpoint_schema', 'get_endpoint_examples'],
+        'api-discovery': ['get_providers', 'get_provider_services', 'list_all_apis', 'get_metrics', 'find_similar_apis', 'find_apis_by_auth'],
+        'endpoint-tools': ['get_endpoints', 'get_endpoint_details', 'get_endpoint_schema', 'get_endpoint_examples', 'get_endpoint_snippet', 'get_webhooks', 'search_endpoints', 'search_schemas'],
         'provider-tools': ['get_provider_apis'],
         'utility-tools': ['get_popular_apis', 'get_recently_updated', 'analyze_api_categories']
       };
@@ -146,6 +152,8 @@ describe("Tool Enumeration Tests", () => {
         'list_all_apis': 'api-discovery/list-all-apis.ts',
         'get_api_summary': 'api-details/get-api-summary.ts',
         'get_metrics': 'api-discovery/get-metrics.ts',
+        'find_similar_apis': 'api-discovery/find-similar-apis.ts',
+        'find_apis_by_auth': 'api-discovery/find-apis-by-auth.ts',
         'search_apis': 'api-details/search-apis.ts',
         'get_popular_apis': 'utility-tools/get-popular-apis.ts',
         'get_recently_updated': 'utility-tools/get-recently-updated.ts',
@@ -155,6 +163,10 @@ describe("Tool Enumeration Tests", () => {
         'get_endpoint_details': 'endpoint-tools/get-endpoint-details.ts',
         'get_endpoint_schema': 'endpoint-tools/get-endpoint-schema.ts',
         'get_endpoint_examples': 'endpoint-tools/get-endpoint-examples.ts',
+        'get_endpoint_snippet': 'endpoint-tools/get-endpoint-snippet.ts',
+        'get_webhooks': 'endpoint-tools/get-webhooks.ts',
+        'search_endpoints': 'endpoint-tools/search-endpoints.ts',
+        'search_schemas': 'endpoint-tools/search-schemas.ts',
         'cache_info': 'cache-tools/cache-info.ts',
         'cache_stats': 'cache-tools/cache-stats.ts',
         'clear_cache': 'cache-tools/clear-cache.ts',
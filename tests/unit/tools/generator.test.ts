@@ -38,6 +38,12 @@ describe('ToolGenerator', () => {
         'get_endpoint_details',
         'get_endpoint_schema',
         'get_endpoint_examples',
+        'get_endpoint_snippet',
+        'get_webhooks',
+        'search_endpoints',
+        'search_schemas',
+        'find_similar_apis',
+        'find_apis_by_auth',
         'cache_stats',
         'list_cache_keys',
         'clear_cache',
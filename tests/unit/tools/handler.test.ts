@@ -0,0 +1,77 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ToolHandler } from '../../../src/tools/handler.js';
+import { ToolPolicy } from '../../../src/tools/policy.js';
+import { ToolLoader } from '../../../src/tools/loader.js';
+import { ToolDefinition } from '../../../src/tools/types.js';
+
+const makeTool = (name: string, category: string, mutating = false): ToolDefinition => ({
+  name,
+  description: `${name} tool`,
+  inputSchema: { type: 'object', properties: {} },
+  category,
+  mutating,
+  execute: jest.fn(async () => ({ tool: name })) as any,
+});
+
+const makeLoader = (tools: ToolDefinition[]): ToolLoader =>
+  ({
+    loadAllTools: jest.fn(async () => tools),
+    getTool: jest.fn(async (name: string) => tools.find((tool) => tool.name === name)),
+  }) as unknown as ToolLoader;
+
+describe('ToolHandler', () => {
+  const tools = [
+    makeTool('search_apis', 'api-details'),
+    makeTool('get_api', 'api-details'),
+    makeTool('clear_cache', 'cache-tools', true),
+  ];
+
+  test('should expose every tool by default', async () => {
+    const handler = new ToolHandler(makeLoader(tools));
+
+    const { tools: listed } = await handler.listTools();
+
+    expect(listed.map((tool) => tool.name)).toEqual(['search_apis', 'get_api', 'clear_cache']);
+  });
+
+  test('should hide mutating tools in read-only mode', async () => {
+    const handler = new ToolHandler(makeLoader(tools), {
+      policy: new ToolPolicy({ readOnly: true }),
+    });
+
+    const { tools: listed } = await handler.listTools();
+    expect(listed.map((tool) => tool.name)).toEqual(['search_apis', 'get_api']);
+    expect(await handler.getToolNames()).toEqual(['search_apis', 'get_api']);
+    expect(await handler.hasTool('clear_cache')).toBe(false);
+  });
+
+  test('should reject denied tools with an MCP error before executing them', async () => {
+    const handler = new ToolHandler(makeLoader(tools), {
+      policy: new ToolPolicy({ denyCategories: ['cache-tools'] }),
+    });
+
+    await expect(handler.callTool('get_api', {}, {} as any)).resolves.toEqual({ tool: 'get_api' });
+
+    const error = await handler.callTool('clear_cache', {}, {} as any).catch((e) => e);
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+    expect(error.message).toContain(
+      'Tool "clear_cache" is not allowed: the "cache-tools" category is on the deny list'
+    );
+    expect(error.data).toEqual({
+      tool: 'clear_cache',
+      category: 'cache-tools',
+      reason: 'the "cache-tools" category is on the deny list',
+    });
+    expect(tools[2]!.execute).not.toHaveBeenCalled();
+  });
+
+  test('should report unknown tools as not found', async () => {
+    const handler = new ToolHandler(makeLoader(tools), {
+      policy: new ToolPolicy({ allow: ['search_apis'] }),
+    });
+
+    await expect(handler.callTool('missing', {}, {} as any)).rejects.toThrow('Tool not found: missing');
+  });
+});
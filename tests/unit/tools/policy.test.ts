@@ -0,0 +1,81 @@
+import { describe, test, expect } from '@jest/globals';
+import { ToolPolicy } from '../../../src/tools/policy.js';
+import { ToolDefinition } from '../../../src/tools/types.js';
+
+const makeTool = (name: string, category: string, mutating = false): ToolDefinition => ({
+  name,
+  description: `${name} tool`,
+  inputSchema: { type: 'object', properties: {} },
+  category,
+  mutating,
+  execute: async () => ({}),
+});
+
+describe('ToolPolicy', () => {
+  const searchApis = makeTool('search_apis', 'api-details');
+  const getEndpoints = makeTool('get_endpoints', 'endpoint-tools');
+  const cacheStats = makeTool('cache_stats', 'cache-tools');
+  const clearCache = makeTool('clear_cache', 'cache-tools', true);
+
+  test('should allow every tool by default', () => {
+    const policy = new ToolPolicy();
+
+    for (const tool of [searchApis, getEndpoints, cacheStats, clearCache]) {
+      expect(policy.check(tool)).toEqual({ allowed: true });
+    }
+  });
+
+  test('should refuse mutating tools in read-only mode', () => {
+    const policy = new ToolPolicy({ readOnly: true });
+
+    expect(policy.isAllowed(cacheStats)).toBe(true);
+    expect(policy.check(clearCache)).toEqual({
+      allowed: false,
+      reason: 'the server is in read-only mode and this tool modifies state',
+    });
+  });
+
+  test('should deny tools by name and by category', () => {
+    const policy = new ToolPolicy({ deny: ['search_apis'], denyCategories: ['cache-tools'] });
+
+    expect(policy.check(searchApis)).toEqual({
+      allowed: false,
+      reason: 'the tool is on the deny list',
+    });
+    expect(policy.check(cacheStats)).toEqual({
+      allowed: false,
+      reason: 'the "cache-tools" category is on the deny list',
+    });
+    expect(policy.isAllowed(getEndpoints)).toBe(true);
+  });
+
+  test('should only allow listed tools and categories when an allow list is set', () => {
+    const policy = new ToolPolicy({
+      allow: ['search_apis'],
+      allowCategories: ['endpoint-tools'],
+    });
+
+    expect(policy.isAllowed(searchApis)).toBe(true);
+    expect(policy.isAllowed(getEndpoints)).toBe(true);
+    expect(policy.check(cacheStats)).toEqual({
+      allowed: false,
+      reason: 'the tool is not on the allow list',
+    });
+  });
+
+  test('should let deny rules win over allow rules', () => {
+    const policy = new ToolPolicy({
+      allowCategories: ['cache-tools'],
+      deny: ['clear_cache'],
+    });
+
+    expect(policy.isAllowed(cacheStats)).toBe(true);
+    expect(policy.isAllowed(clearCache)).toBe(false);
+  });
+
+  test('should treat an empty allow list as allowing nothing', () => {
+    const policy = new ToolPolicy({ allow: [] });
+
+    expect(policy.isAllowed(searchApis)).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test, expect } from '@jest/globals';
+import { ToolDefinition, toMcpTool, toCallToolResult } from '../../../src/tools/types.js';
+import { tool as searchApisTool } from '../../../src/tools/api-details/search-apis.js';
+import { tool as getEndpointsTool } from '../../../src/tools/endpoint-tools/get-endpoints.js';
+
+describe('Tool type conversions', () => {
+  const plainTool: ToolDefinition = {
+    name: 'plain_tool',
+    description: 'Tool without an output schema',
+    inputSchema: { type: 'object', properties: {} },
+    async execute() {
+      return {};
+    }
+  };
+
+  const structuredTool: ToolDefinition = {
+    ...plainTool,
+    name: 'structured_tool',
+    outputSchema: {
+      type: 'object',
+      properties: { count: { type: 'number' } },
+      required: ['count']
+    }
+  };
+
+  describe('toMcpTool', () => {
+    test('should omit outputSchema when the tool does not declare one', () => {
+      const mcpTool = toMcpTool(plainTool);
+
+      expect(mcpTool).toEqual({
+        name: 'plain_tool',
+        description: 'Tool without an output schema',
+        inputSchema: { type: 'object', properties: {} }
+      });
+      expect(mcpTool).not.toHaveProperty('outputSchema');
+    });
+
+    test('should include a declared outputSchema', () => {
+      expect(toMcpTool(structuredTool).outputSchema).toEqual(structuredTool.outputSchema);
+    });
+  });
+
+  describe('toCallToolResult', () => {
+    test('should render results as compact JSON text', () => {
+      const result = toCallToolResult(plainTool, { a: 1, b: [1, 2] });
+
+      expect(result.content).toEqual([{ type: 'text', text: '{"a":1,"b":[1,2]}' }]);
+      expect(result).not.toHaveProperty('structuredContent');
+    });
+
+    test('should add structuredContent for tools with an outputSchema', () => {
+      const result = toCallToolResult(structuredTool, { count: 3 });
+
+      expect(result.structuredContent).toEqual({ count: 3 });
+      expect(result.content).toEqual([{ type: 'text', text: '{"count":3}' }]);
+    });
+
+    test('should not add structuredContent for non-object results', () => {
+      expect(toCallToolResult(structuredTool, [1, 2])).not.toHaveProperty('structuredContent');
+      expect(toCallToolResult(structuredTool, null)).not.toHaveProperty('structuredContent');
+    });
+
+    test('should render undefined results as null', () => {
+      expect(toCallToolResult(plainTool, undefined).content).toEqual([{ type: 'text', text: 'null' }]);
+    });
+  });
+
+  describe('declared output schemas', () => {
+    test.each([searchApisTool, getEndpointsTool])('$name should expose pagination in its output schema', (toolDef) => {
+      expect(toolDef.outputSchema.required).toContain('pagination');
+      expect(toolDef.outputSchema.properties.pagination.properties.has_next).toEqual({ type: 'boolean' });
+    });
+  });
+});
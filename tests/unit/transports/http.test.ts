@@ -0,0 +1,124 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportHost } from '../../../src/transports/http.js';
+
+describe('HttpTransportHost', () => {
+  let host: HttpTransportHost;
+  let serversCreated: number;
+  let baseUrl: string;
+  const clients: Client[] = [];
+
+  const createServer = () => {
+    serversCreated++;
+    const server = new Server(
+      { name: 'test-server', version: '1.0.0' },
+      { capabilities: { tools: {} } }
+    );
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [
+        {
+          name: 'shared_tool',
+          description: 'Tool served to every session',
+          inputSchema: { type: 'object', properties: {} }
+        }
+      ]
+    }));
+    return server;
+  };
+
+  const connectClient = async (): Promise<Client> => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(baseUrl)));
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    serversCreated = 0;
+    host = new HttpTransportHost(createServer, { port: 0 });
+    const address = await host.start();
+    baseUrl = `http://127.0.0.1:${address.port}/mcp`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.close()));
+    await host.close();
+  });
+
+  test('should serve tools over Streamable HTTP', async () => {
+    const client = await connectClient();
+
+    const result = await client.listTools();
+
+    expect(result.tools.map(tool => tool.name)).toEqual(['shared_tool']);
+  });
+
+  test('should create one server per concurrent session', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    await Promise.all([first.listTools(), second.listTools()]);
+
+    expect(serversCreated).toBe(2);
+    expect(host.getSessionCount()).toBe(2);
+  });
+
+  test('should forget sessions that the client terminates', async () => {
+    const client = await connectClient();
+    const transport = client.transport as StreamableHTTPClientTransport;
+
+    await transport.terminateSession();
+
+    expect(host.getSessionCount()).toBe(0);
+  });
+
+  test('should reject requests without a session that are not initialize', async () => {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream'
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error.message).toContain('missing session ID');
+  });
+
+  test('should return 404 for unknown sessions', async () => {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': 'does-not-exist'
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  test('should return 400 for malformed JSON', async () => {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{not json'
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error.message).toBe('Parse error');
+  });
+
+  test('should return 404 for other paths', async () => {
+    const response = await fetch(baseUrl.replace('/mcp', '/other'));
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -10,6 +10,7 @@ import {
   SpecParseError,
   AuthError,
   ServerError,
+  CancelledError,
   ErrorFactory
 } from '../../../src/utils/errors.js';
 import { ERROR_CODES } from '../../../src/utils/constants.js';
@@ -198,6 +199,17 @@ describe('ErrorFactory', () => {
       expect(error).toBeInstanceOf(TimeoutError);
     });
 
+    test('should create CancelledError for aborted requests', () => {
+      const httpError = {
+        code: 'ERR_CANCELED',
+        message: 'canceled'
+      };
+      const error = ErrorFactory.fromHttpError(httpError, { operation: 'listAPIs' });
+      expect(error).toBeInstanceOf(CancelledError);
+      expect(error.code).toBe(ERROR_CODES.CANCELLED_ERROR);
+      expect(error.userMessage).toBe('The listAPIs was cancelled.');
+    });
+
     test('should create AuthError for 401', () => {
       const httpError = {
         response: { status: 401 },
@@ -0,0 +1,198 @@
+import { describe, test, expect } from '@jest/globals';
+import { generateExample, patternExample } from '../../../src/utils/example-generator.js';
+
+describe('patternExample', () => {
+  test('should build strings matching simple patterns', () => {
+    for (const pattern of [
+      '^[A-Z]{2}[0-9]{2}[A-Z0-9]{1,30}$',
+      '^\\d{3}-\\d{4}$',
+      '^(cat|dog)s?$',
+      '^[^0-9]+$',
+      '^[a-z0-9._%+-]+@[a-z0-9.-]+\\.[a-z]{2,}$',
+      'v\\d+',
+    ]) {
+      const value = patternExample(pattern);
+      expect(value).not.toBeNull();
+      expect(new RegExp(pattern).test(value!)).toBe(true);
+    }
+    expect(patternExample('^(cat|dog)$')).toBe('cat');
+  });
+
+  test('should give up on unsupported patterns', () => {
+    expect(patternExample('^(a)\\1$')).toBeNull();
+    expect(patternExample('^(?=.*\\d).+$')).toBeNull();
+    expect(patternExample('[')).toBeNull();
+  });
+});
+
+describe('generateExample', () => {
+  test('should honour formats, enums, patterns and lengths', () => {
+    expect(generateExample({ type: 'string', format: 'date-time' })).toBe('2024-01-01T00:00:00Z');
+    expect(generateExample({ type: 'string', format: 'uuid' })).toBe('3fa85f64-5717-4562-b3fc-2c963f66afa6');
+    expect(generateExample({ type: 'string', enum: [null, 'active', 'closed'] })).toBe('active');
+    expect(generateExample({ type: 'string', pattern: '^[A-Z]{3}$' })).toBe('AAA');
+    expect(generateExample({ type: 'string', minLength: 10 })).toBe('stringxxxx');
+    expect(generateExample({ type: 'string', maxLength: 3 })).toBe('str');
+  });
+
+  test('should prefer values given by the schema', () => {
+    expect(generateExample({ type: 'integer', const: 7 })).toBe(7);
+    expect(generateExample({ type: 'string', example: 'EUR', default: 'USD' })).toBe('EUR');
+    expect(generateExample({ type: 'string', examples: ['GBP'] })).toBe('GBP');
+    expect(generateExample({ type: 'boolean', default: false })).toBe(false);
+  });
+
+  test('should keep numbers within their bounds', () => {
+    expect(generateExample({ type: 'integer' })).toBe(0);
+    expect(generateExample({ type: 'integer', minimum: 5, maximum: 10 })).toBe(5);
+    expect(generateExample({ type: 'integer', minimum: 5, exclusiveMinimum: true })).toBe(6);
+    expect(generateExample({ type: 'integer', exclusiveMinimum: 5 })).toBe(6);
+    expect(generateExample({ type: 'number', maximum: -2 })).toBe(-2);
+    expect(generateExample({ type: 'number', minimum: 1.2, multipleOf: 0.5 })).toBe(1.5);
+    expect(generateExample({ type: 'number', exclusiveMinimum: 0 })).toBe(0.5);
+  });
+
+  test('should follow references, compositions and array bounds', () => {
+    const spec = {
+      components: {
+        schemas: {
+          Money: {
+            type: 'object',
+            required: ['amount'],
+            properties: { amount: { type: 'integer', minimum: 1 }, currency: { type: 'string', enum: ['EUR'] } },
+          },
+          Card: { type: 'object', properties: { last4: { type: 'string', pattern: '^\\d{4}$' } } },
+          Bank: { type: 'object', properties: { iban: { type: 'string' } } },
+        },
+      },
+    };
+    const schema = {
+      allOf: [
+        { $ref: '#/components/schemas/Money' },
+        {
+          type: 'object',
+          properties: {
+            source: { oneOf: [{ $ref: '#/components/schemas/Card' }, { $ref: '#/components/schemas/Bank' }] },
+            tags: { type: 'array', items: { type: 'string' }, minItems: 2 },
+            metadata: { type: 'object', additionalProperties: { type: 'string' } },
+          },
+        },
+      ],
+    };
+
+    expect(generateExample(schema, spec)).toEqual({
+      amount: 1,
+      currency: 'EUR',
+      source: { last4: '0000' },
+      tags: ['string', 'string'],
+      metadata: { additionalProp1: 'string' },
+    });
+  });
+
+  test('should leave out readOnly properties in requests and writeOnly ones in responses', () => {
+    const spec = { components: { schemas: { Id: { type: 'string', readOnly: true } } } };
+    const schema = {
+      type: 'object',
+      properties: {
+        id: { $ref: '#/components/schemas/Id' },
+        password: { type: 'string', format: 'password', writeOnly: true },
+        name: { type: 'string' },
+      },
+    };
+
+    expect(generateExample(schema, spec, { usage: 'request' })).toEqual({ password: '********', name: 'string' });
+    expect(generateExample(schema, spec, { usage: 'response' })).toEqual({ id: 'string', name: 'string' });
+    expect(generateExample(schema, spec)).toEqual({ id: 'string', password: '********', name: 'string' });
+  });
+
+  test('should stop at circular references and the maximum depth', () => {
+    const spec = {
+      components: {
+        schemas: {
+          Node: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string' },
+              parent: { $ref: '#/components/schemas/Node' },
+              children: { type: 'array', items: { $ref: '#/components/schemas/Node' } },
+            },
+          },
+        },
+      },
+    };
+
+    expect(generateExample({ $ref: '#/components/schemas/Node' }, spec)).toEqual({ name: 'string', children: [] });
+    expect(
+      generateExample({ type: 'object', required: ['a'], properties: { a: { type: 'object', properties: { b: { type: 'string' } } }, c: { type: 'string' } } }, {}, { maxDepth: 0 })
+    ).toEqual({ a: null });
+  });
+
+  test('should only fill required properties of deeply nested objects', () => {
+    const leaf = { type: 'object', required: ['id'], properties: { id: { type: 'integer' }, note: { type: 'string' } } };
+    const schema = { type: 'object', properties: { a: { type: 'object', properties: { b: leaf, c: { type: 'string' } } } } };
+
+    expect(generateExample(schema)).toEqual({ a: { b: { id: 0 }, c: 'string' } });
+  });
+
+  test('should fill every use of a schema referenced twice', () => {
+    const spec = {
+      components: {
+        schemas: {
+          Address: { type: 'object', required: ['city'], properties: { city: { type: 'string' } } },
+          Order: {
+            type: 'object',
+            required: ['billing', 'shipping'],
+            properties: {
+              billing: { $ref: '#/components/schemas/Address' },
+              shipping: { $ref: '#/components/schemas/Address' },
+            },
+          },
+        },
+      },
+    };
+
+    const example = generateExample({ $ref: '#/components/schemas/Order' }, spec) as any;
+
+    expect(example).toEqual({ billing: { city: 'string' }, shipping: { city: 'string' } });
+    expect(example.shipping).not.toBe(example.billing);
+  });
+
+  test('should stay small on densely linked specs', () => {
+    // 20 schemas, each with five optional references to the others
+    const schemas: Record<string, any> = {};
+    for (let i = 0; i < 20; i++) {
+      schemas[`S${i}`] = {
+        type: 'object',
+        required: ['r1', 'r2'],
+        properties: Object.fromEntries(
+          [1, 2, 3, 4, 5].map((offset) => [`r${offset}`, { $ref: `#/components/schemas/S${(i + offset) % 20}` }])
+        ),
+      };
+    }
+    const spec = { components: { schemas } };
+
+    const example = generateExample({ $ref: '#/components/schemas/S0' }, spec, { maxDepth: 50 }) as any;
+
+    expect(example.r1.r1).toEqual(expect.any(Object));
+    expect(example.r5).toBeDefined();
+    expect(JSON.stringify(example).length).toBeLessThan(5_000);
+    expect(generateExample({ type: 'array', items: { $ref: '#/components/schemas/S1' } }, spec)).toHaveLength(1);
+  });
+
+  test('should give null values once the node budget is spent', () => {
+    const properties = Object.fromEntries(Array.from({ length: 1500 }, (_, i) => [`p${i}`, { type: 'integer' }]));
+
+    const example = generateExample({ type: 'object', properties }) as Record<string, unknown>;
+
+    expect(example.p0).toBe(0);
+    expect(example.p1499).toBeNull();
+  });
+
+  test('should be deterministic', () => {
+    const schema = { type: 'object', properties: { id: { type: 'string', format: 'uuid' }, count: { type: 'integer' } } };
+    expect(generateExample(schema)).toEqual(generateExample(schema));
+    expect(generateExample({ $ref: 'other.json#/Pet' })).toBeNull();
+    expect(generateExample({})).toBeNull();
+  });
+});
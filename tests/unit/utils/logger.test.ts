@@ -490,4 +490,53 @@ describe('Logger', () => {
       expect(consoleLogSpy).toHaveBeenCalledTimes(1);
     });
   });
-});
\ No newline at end of file
+
+  describe('sinks', () => {
+    test('should deliver every event to sinks regardless of the console level', () => {
+      Logger.setLogLevel(LogLevel.ERROR);
+      const sink = jest.fn();
+      const remove = Logger.addSink(sink);
+
+      Logger.warn('warn message', { detail: 1 });
+      Logger.debug('debug message');
+      Logger.cache('hit', 'all_apis');
+      remove();
+      Logger.error('after removal');
+
+      expect(consoleWarnSpy).not.toHaveBeenCalled();
+      expect(sink).toHaveBeenCalledTimes(3);
+      expect(sink).toHaveBeenNthCalledWith(1, {
+        level: LogLevel.WARN,
+        message: 'warn message',
+        args: [{ detail: 1 }],
+      });
+      expect(sink).toHaveBeenNthCalledWith(2, {
+        level: LogLevel.DEBUG,
+        message: 'debug message',
+        args: [],
+      });
+      expect(sink).toHaveBeenNthCalledWith(3, {
+        level: LogLevel.DEBUG,
+        message: '[CACHE] hit: all_apis',
+        args: [],
+        logger: 'cache',
+      });
+    });
+
+    test('should not let a failing sink break logging', () => {
+      Logger.setLogLevel(LogLevel.DEBUG);
+      const failing = jest.fn(() => {
+        throw new Error('sink failed');
+      });
+      const working = jest.fn();
+      Logger.addSink(failing);
+      Logger.addSink(working);
+
+      expect(() => Logger.info('message')).not.toThrow();
+      expect(working).toHaveBeenCalledTimes(1);
+
+      Logger.removeSink(failing);
+      Logger.removeSink(working);
+    });
+  });
+});
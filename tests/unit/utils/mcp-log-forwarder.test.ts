@@ -0,0 +1,118 @@
+import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { Logger, LogLevel } from '../../../src/utils/logger.js';
+import {
+  McpLogForwarder,
+  toMcpLogLevel,
+} from '../../../src/utils/mcp-log-forwarder.js';
+
+const createServer = () => {
+  const handlers = new Map<unknown, (request: any) => Promise<unknown>>();
+  return {
+    transport: {},
+    handlers,
+    setRequestHandler: jest.fn((schema: unknown, handler: any) => handlers.set(schema, handler)),
+    sendLoggingMessage: jest.fn(async () => undefined),
+  } as any;
+};
+
+describe('McpLogForwarder', () => {
+  let forwarder: McpLogForwarder;
+  let consoleSpies: jest.SpyInstance[];
+
+  beforeEach(() => {
+    consoleSpies = (['error', 'warn', 'info', 'log'] as const).map((method) =>
+      jest.spyOn(console, method).mockImplementation(() => undefined)
+    );
+    forwarder = new McpLogForwarder();
+    forwarder.start();
+  });
+
+  afterEach(() => {
+    forwarder.stop();
+    consoleSpies.forEach((spy) => spy.mockRestore());
+  });
+
+  test('should map internal log levels to MCP levels', () => {
+    expect(toMcpLogLevel(LogLevel.ERROR)).toBe('error');
+    expect(toMcpLogLevel(LogLevel.WARN)).toBe('warning');
+    expect(toMcpLogLevel(LogLevel.INFO)).toBe('info');
+    expect(toMcpLogLevel(LogLevel.DEBUG)).toBe('debug');
+  });
+
+  test('should forward info and above by default', () => {
+    const server = createServer();
+    forwarder.attach(server);
+
+    Logger.info('Persistent cache initialized');
+    Logger.debug('not forwarded');
+    Logger.cache('hit', 'all_apis');
+
+    expect(server.sendLoggingMessage).toHaveBeenCalledTimes(1);
+    expect(server.sendLoggingMessage).toHaveBeenCalledWith({
+      level: 'info',
+      logger: 'openapi-directory-mcp',
+      data: 'Persistent cache initialized',
+    });
+  });
+
+  test('should apply logging/setLevel per server', async () => {
+    const verbose = createServer();
+    const quiet = createServer();
+    forwarder.attach(verbose);
+    forwarder.attach(quiet);
+
+    const setLevel = verbose.handlers.get(SetLevelRequestSchema)!;
+    await expect(setLevel({ params: { level: 'debug' } })).resolves.toEqual({});
+    forwarder.setLevel(quiet, 'error');
+
+    Logger.cache('set', 'triple:all_apis', { ttl: '60s' });
+    Logger.warn('Source fallback');
+
+    expect(forwarder.getLevel(verbose)).toBe('debug');
+    expect(verbose.sendLoggingMessage).toHaveBeenCalledWith({
+      level: 'debug',
+      logger: 'openapi-directory-mcp.cache',
+      data: '[CACHE] set: triple:all_apis - {"ttl":"60s"}',
+    });
+    expect(verbose.sendLoggingMessage).toHaveBeenCalledTimes(2);
+    expect(quiet.sendLoggingMessage).not.toHaveBeenCalled();
+  });
+
+  test('should send JSON-safe details', () => {
+    const server = createServer();
+    forwarder.attach(server);
+    const circular: Record<string, unknown> = { name: 'loop' };
+    circular.self = circular;
+
+    Logger.error('Request failed', new Error('timeout'), circular, { status: 503 });
+
+    expect(server.sendLoggingMessage).toHaveBeenCalledWith({
+      level: 'error',
+      logger: 'openapi-directory-mcp',
+      data: {
+        message: 'Request failed',
+        details: ['timeout', '[object Object]', { status: 503 }],
+      },
+    });
+  });
+
+  test('should skip disconnected servers and stop after detach or stop', () => {
+    const server = createServer();
+    const disconnected = { ...createServer(), transport: undefined };
+    forwarder.attach(server);
+    forwarder.attach(disconnected);
+
+    Logger.warn('first');
+    forwarder.detach(server);
+    Logger.warn('second');
+
+    expect(server.sendLoggingMessage).toHaveBeenCalledTimes(1);
+    expect(disconnected.sendLoggingMessage).not.toHaveBeenCalled();
+
+    forwarder.attach(server);
+    forwarder.stop();
+    Logger.warn('third');
+    expect(server.sendLoggingMessage).toHaveBeenCalledTimes(1);
+  });
+});
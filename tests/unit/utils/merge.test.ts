@@ -149,216 +149,6 @@ describe('MergeUtilities', () => {
     });
   });
 
-  describe('mergeSearchResults', () => {
-    test('should merge search results with secondary taking precedence', () => {
-      const primaryResults = {
-        results: [
-          {
-            id: 'shared:api',
-            title: 'Primary Title',
-            description: 'Primary description',
-            provider: 'primaryProvider',
-            preferred: 'v1',
-            categories: ['primary']
-          },
-          {
-            id: 'primary:only',
-            title: 'Primary Only',
-            description: 'Only in primary',
-            provider: 'primaryProvider',
-            preferred: 'v1',
-            categories: ['primary']
-          }
-        ],
-        pagination: {
-          page: 1,
-          limit: 10,
-          total_results: 2,
-          total_pages: 1,
-          has_next: false,
-          has_previous: false
-        }
-      };
-
-      const secondaryResults = {
-        results: [
-          {
-            id: 'shared:api',
-            title: 'Secondary Title',
-            description: 'Secondary description',
-            provider: 'secondaryProvider',
-            preferred: 'v2',
-            categories: ['secondary']
-          },
-          {
-            id: 'secondary:only',
-            title: 'Secondary Only',
-            description: 'Only in secondary',
-            provider: 'secondaryProvider',
-            preferred: 'v1',
-            categories: ['secondary']
-          }
-        ],
-        pagination: {
-          page: 1,
-          limit: 10,
-          total_results: 2,
-          total_pages: 1,
-          has_next: false,
-          has_previous: false
-        }
-      };
-
-      const result = MergeUtilities.mergeSearchResults(
-        primaryResults,
-        secondaryResults,
-        'test',
-        1,
-        10
-      );
-
-      expect(result.results).toHaveLength(3);
-      
-      // Check that secondary overrides primary for shared:api
-      const sharedApi = result.results.find(r => r.id === 'shared:api');
-      expect(sharedApi?.title).toBe('Secondary Title');
-      expect(sharedApi?.source).toBe('secondary');
-
-      // Check that unique APIs are preserved
-      expect(result.results.some(r => r.id === 'primary:only')).toBe(true);
-      expect(result.results.some(r => r.id === 'secondary:only')).toBe(true);
-    });
-
-    test('should sort results by relevance score', () => {
-      const primaryResults = {
-        results: [
-          {
-            id: 'partial:match',
-            title: 'Partial Match',
-            description: 'Contains test somewhere',
-            provider: 'provider1',
-            preferred: 'v1',
-            categories: []
-          }
-        ],
-        pagination: { page: 1, limit: 10, total_results: 1, total_pages: 1, has_next: false, has_previous: false }
-      };
-
-      const secondaryResults = {
-        results: [
-          {
-            id: 'test:exact',
-            title: 'Exact Match',
-            description: 'Test provider',
-            provider: 'test',
-            preferred: 'v1',
-            categories: []
-          },
-          {
-            id: 'starts:test',
-            title: 'Starts with test',
-            description: 'Description',
-            provider: 'provider2',
-            preferred: 'v1',
-            categories: []
-          }
-        ],
-        pagination: { page: 1, limit: 10, total_results: 2, total_pages: 1, has_next: false, has_previous: false }
-      };
-
-      const result = MergeUtilities.mergeSearchResults(
-        primaryResults,
-        secondaryResults,
-        'test',
-        1,
-        10
-      );
-
-      // Provider exact match should be first
-      expect(result.results[0].provider).toBe('test');
-    });
-
-    test('should handle pagination correctly', () => {
-      const primaryResults = {
-        results: Array(15).fill(null).map((_, i) => ({
-          id: `primary:api${i}`,
-          title: `API ${i}`,
-          description: 'Description',
-          provider: 'provider',
-          preferred: 'v1',
-          categories: []
-        })),
-        pagination: { page: 1, limit: 20, total_results: 15, total_pages: 1, has_next: false, has_previous: false }
-      };
-
-      const secondaryResults = {
-        results: Array(10).fill(null).map((_, i) => ({
-          id: `secondary:api${i}`,
-          title: `API ${i}`,
-          description: 'Description',
-          provider: 'provider',
-          preferred: 'v1',
-          categories: []
-        })),
-        pagination: { page: 1, limit: 20, total_results: 10, total_pages: 1, has_next: false, has_previous: false }
-      };
-
-      // Get page 2 with limit 10
-      const result = MergeUtilities.mergeSearchResults(
-        primaryResults,
-        secondaryResults,
-        'api',
-        2,
-        10
-      );
-
-      expect(result.results).toHaveLength(10);
-      expect(result.pagination.page).toBe(2);
-      expect(result.pagination.limit).toBe(10);
-      expect(result.pagination.total_results).toBe(25);
-      expect(result.pagination.total_pages).toBe(3);
-      expect(result.pagination.has_next).toBe(true);
-      expect(result.pagination.has_previous).toBe(true);
-    });
-
-    test('should give secondary source a boost in case of tie scores', () => {
-      const primaryResults = {
-        results: [{
-          id: 'api:v1',
-          title: 'API Test',
-          description: 'test',
-          provider: 'provider',
-          preferred: 'v1',
-          categories: []
-        }],
-        pagination: { page: 1, limit: 10, total_results: 1, total_pages: 1, has_next: false, has_previous: false }
-      };
-
-      const secondaryResults = {
-        results: [{
-          id: 'api:v2',
-          title: 'API Test',
-          description: 'test',
-          provider: 'provider',
-          preferred: 'v1',
-          categories: []
-        }],
-        pagination: { page: 1, limit: 10, total_results: 1, total_pages: 1, has_next: false, has_previous: false }
-      };
-
-      const result = MergeUtilities.mergeSearchResults(
-        primaryResults,
-        secondaryResults,
-        'test',
-        1,
-        10
-      );
-
-      // When scores are equal, secondary should come first
-      expect(result.results[0].source).toBe('secondary');
-    });
-  });
-
   describe('mergePaginatedAPIs', () => {
     test('should merge paginated API results', () => {
       const primaryResults = {
@@ -0,0 +1,78 @@
+import { describe, test, expect } from '@jest/globals';
+import { extractLinks } from '../../../src/utils/operation-links.js';
+
+const spec = {
+  openapi: '3.0.0',
+  paths: {
+    '/users': {
+      post: {
+        operationId: 'createUser',
+        responses: {
+          201: {
+            description: 'Created',
+            links: {
+              GetUser: { operationId: 'getUser', parameters: { id: '$response.body#/id' } },
+              Orders: { $ref: '#/components/links/Orders' },
+              Remote: { operationRef: 'https://example.com/other.json#/paths/~1a/get' },
+            },
+          },
+          400: { $ref: '#/components/responses/Invalid' },
+        },
+      },
+    },
+    '/users/{id}': { get: { operationId: 'getUser', responses: {} } },
+    '/users/{id}/orders': { get: { responses: {} } },
+  },
+  components: {
+    links: {
+      Orders: {
+        operationRef: '#/paths/~1users~1{id}~1orders/get',
+        parameters: { id: '$response.body#/id' },
+        description: 'Orders of the new user',
+      },
+    },
+    responses: {
+      Invalid: { description: 'Invalid', links: { Retry: { operationId: 'createUser', requestBody: '$request.body' } } },
+    },
+  },
+};
+
+describe('extractLinks', () => {
+  test('should list links with the operations they target', async () => {
+    expect(await extractLinks(spec, spec.paths['/users'].post.responses[201])).toEqual([
+      {
+        name: 'GetUser',
+        operationId: 'getUser',
+        target: { method: 'GET', path: '/users/{id}' },
+        parameters: { id: '$response.body#/id' },
+      },
+      {
+        name: 'Orders',
+        operationRef: '#/paths/~1users~1{id}~1orders/get',
+        target: { method: 'GET', path: '/users/{id}/orders' },
+        parameters: { id: '$response.body#/id' },
+        description: 'Orders of the new user',
+      },
+      { name: 'Remote', operationRef: 'https://example.com/other.json#/paths/~1a/get' },
+    ]);
+  });
+
+  test('should follow response references', async () => {
+    expect(await extractLinks(spec, spec.paths['/users'].post.responses[400])).toEqual([
+      {
+        name: 'Retry',
+        operationId: 'createUser',
+        target: { method: 'POST', path: '/users' },
+        requestBody: '$request.body',
+      },
+    ]);
+  });
+
+  test('should return nothing for responses without links', async () => {
+    expect(await extractLinks(spec, { description: 'OK' })).toEqual([]);
+    expect(await extractLinks(spec, undefined)).toEqual([]);
+    expect(await extractLinks(spec, { links: { Missing: { operationId: 'nope' } } })).toEqual([
+      { name: 'Missing', operationId: 'nope' },
+    ]);
+  });
+});
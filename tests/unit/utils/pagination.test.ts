@@ -164,6 +164,49 @@ describe('PaginationHelper', () => {
     });
   });
 
+  describe('cancellation', () => {
+    test('should stop fetchAllPaginated when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const fetchFn = jest.fn(async (page: number, limit: number) => {
+        if (page === 2) {
+          controller.abort();
+        }
+        return { data: Array.from({ length: limit }, (_, i) => i), total: 100 };
+      });
+
+      await expect(
+        PaginationHelper.fetchAllPaginated(fetchFn, { chunkSize: 10, signal: controller.signal })
+      ).rejects.toThrow('Operation cancelled');
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    test('should rethrow fetch errors caused by cancellation', async () => {
+      const controller = new AbortController();
+      const fetchFn = jest.fn(async () => {
+        controller.abort();
+        throw new Error('canceled');
+      });
+
+      await expect(
+        PaginationHelper.fetchAllPaginated(fetchFn, { signal: controller.signal })
+      ).rejects.toThrow('Operation cancelled');
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+    });
+
+    test('should stop fetchParallelChunks between batches', async () => {
+      const controller = new AbortController();
+      const fetchFn = jest.fn(async (_page: number, limit: number) => {
+        controller.abort();
+        return { data: Array.from({ length: limit }, (_, i) => i), total: 100 };
+      });
+
+      await expect(
+        PaginationHelper.fetchParallelChunks(fetchFn, { chunkSize: 10, signal: controller.signal })
+      ).rejects.toThrow('Operation cancelled');
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('fetchParallelChunks', () => {
     test('should fetch data in parallel chunks', async () => {
       const mockData = Array.from({ length: 50 }, (_, i) => ({ id: i + 1 }));
@@ -491,6 +534,35 @@ describe('PaginationHelper', () => {
     });
   });
 
+  describe('paginateByBytes', () => {
+    const measure = (item: string) => item.length;
+
+    test('should take items until the byte budget is reached', () => {
+      const result = PaginationHelper.paginateByBytes(['aaaa', 'bbbb', 'cccc'], 0, 9, measure);
+
+      expect(result).toEqual({ data: ['aaaa', 'bbbb'], nextOffset: 2, bytes: 8 });
+    });
+
+    test('should resume from an offset', () => {
+      const result = PaginationHelper.paginateByBytes(['aaaa', 'bbbb', 'cccc'], 2, 9, measure);
+
+      expect(result).toEqual({ data: ['cccc'], nextOffset: null, bytes: 4 });
+    });
+
+    test('should always return at least one item', () => {
+      const result = PaginationHelper.paginateByBytes(['aaaaaaaaaaaa', 'b'], 0, 4, measure);
+
+      expect(result.data).toEqual(['aaaaaaaaaaaa']);
+      expect(result.nextOffset).toBe(1);
+    });
+
+    test('should measure serialized JSON size by default', () => {
+      const result = PaginationHelper.paginateByBytes([{ a: 1 }, { b: 2 }], 0, 7);
+
+      expect(result).toEqual({ data: [{ a: 1 }], nextOffset: 1, bytes: 7 });
+    });
+  });
+
   describe('delay', () => {
     test('should delay for specified milliseconds', async () => {
       const start = Date.now();
@@ -0,0 +1,46 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { ProgressTracker, throwIfAborted } from '../../../src/utils/progress.js';
+import { CancelledError } from '../../../src/utils/errors.js';
+
+describe('ProgressTracker', () => {
+  test('should report each stage with a running count', () => {
+    const onProgress = jest.fn();
+    const tracker = new ProgressTracker(2, onProgress);
+
+    tracker.step('First');
+    tracker.step('Second');
+
+    expect(onProgress.mock.calls).toEqual([
+      [{ progress: 1, total: 2, message: 'First' }],
+      [{ progress: 2, total: 2, message: 'Second' }]
+    ]);
+  });
+
+  test('should never report more than the total', () => {
+    const onProgress = jest.fn();
+    const tracker = new ProgressTracker(1, onProgress);
+
+    tracker.step('Done');
+    tracker.step('Extra');
+
+    expect(onProgress).toHaveBeenLastCalledWith({ progress: 1, total: 1, message: 'Extra' });
+  });
+
+  test('should work without a callback', () => {
+    expect(() => new ProgressTracker(1).step('Done')).not.toThrow();
+  });
+});
+
+describe('throwIfAborted', () => {
+  test('should do nothing without a signal or before abort', () => {
+    expect(() => throwIfAborted()).not.toThrow();
+    expect(() => throwIfAborted(new AbortController().signal)).not.toThrow();
+  });
+
+  test('should throw a CancelledError once aborted', () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(() => throwIfAborted(controller.signal)).toThrow(CancelledError);
+  });
+});
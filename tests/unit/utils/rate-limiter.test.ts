@@ -1,5 +1,9 @@
 import { describe, test, expect, jest, beforeEach, afterEach, afterAll } from '@jest/globals';
-import { RateLimiter, rateLimiters } from '../../../src/utils/rate-limiter.js';
+import {
+  RateLimiter,
+  rateLimiters,
+  configureRateLimiters,
+} from '../../../src/utils/rate-limiter.js';
 
 describe('RateLimiter', () => {
   let rateLimiter: RateLimiter;
@@ -211,6 +215,29 @@ describe('RateLimiter', () => {
     });
   });
 
+  describe('configureRateLimiters', () => {
+    afterEach(() => {
+      configureRateLimiters({});
+    });
+
+    test('should recreate limiters with overridden limits', () => {
+      const before = rateLimiters.secondary;
+
+      configureRateLimiters({ secondary: { maxRequests: 2, windowMs: 1000 } });
+
+      expect(rateLimiters.secondary).not.toBe(before);
+      expect(rateLimiters.secondary!['config']).toEqual({ maxRequests: 2, windowMs: 1000 });
+      expect(rateLimiters.primary!['config']).toEqual({ maxRequests: 30, windowMs: 60000 });
+    });
+
+    test('should restore defaults when overrides are cleared', () => {
+      configureRateLimiters({ secondary: { maxRequests: 2, windowMs: 1000 } });
+      configureRateLimiters({});
+
+      expect(rateLimiters.secondary!['config']).toEqual({ maxRequests: 20, windowMs: 60000 });
+    });
+  });
+
   describe('concurrent execution', () => {
     test('should handle concurrent requests properly', async () => {
       rateLimiter = new RateLimiter({
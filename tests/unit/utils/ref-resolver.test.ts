@@ -0,0 +1,255 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { RefResolver, mergeAllOf, refCacheSuffix, resolvePointer } from '../../../src/utils/ref-resolver.js';
+
+const spec = {
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          category: { $ref: '#/components/schemas/Category' },
+        },
+      },
+      Category: { type: 'object', properties: { name: { type: 'string' } } },
+      Node: {
+        type: 'object',
+        properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Node' } } },
+      },
+      Dog: {
+        allOf: [{ $ref: '#/components/schemas/Pet' }, { type: 'object', required: ['breed'], properties: { breed: { type: 'string' } } }],
+      },
+      Cat: {
+        allOf: [{ $ref: '#/components/schemas/Pet' }, { type: 'object', properties: { indoor: { type: 'boolean' } } }],
+      },
+      Tree: { type: 'object', properties: { root: { $ref: '#/components/schemas/Branch' } } },
+      Branch: { type: 'object', properties: { tree: { $ref: '#/components/schemas/Tree' } } },
+      'a/b': { type: 'string' },
+    },
+    parameters: {
+      Limit: { name: 'limit', in: 'query', schema: { $ref: '#/components/schemas/Category' } },
+    },
+  },
+};
+
+describe('resolvePointer', () => {
+  test('should follow escaped and encoded segments', () => {
+    expect(resolvePointer(spec, '#/components/schemas/a~1b')).toEqual({ type: 'string' });
+    expect(resolvePointer(spec, '/components/schemas/Category/properties/name')).toEqual({ type: 'string' });
+    expect(resolvePointer(spec, '#')).toBe(spec);
+    expect(resolvePointer(spec, '#/components/missing/Pet')).toBeUndefined();
+  });
+});
+
+describe('mergeAllOf', () => {
+  test('should combine properties and required lists', () => {
+    expect(
+      mergeAllOf({
+        description: 'A dog',
+        allOf: [
+          { type: 'object', required: ['id'], properties: { id: { type: 'integer' } } },
+          { required: ['breed'], properties: { breed: { type: 'string' } }, description: 'ignored' },
+        ],
+      })
+    ).toEqual({
+      description: 'A dog',
+      type: 'object',
+      required: ['id', 'breed'],
+      properties: { id: { type: 'integer' }, breed: { type: 'string' } },
+    });
+  });
+
+  test('should leave schemas with unresolved members alone', () => {
+    const schema = { allOf: [{ $ref: '#/components/schemas/Pet' }, { type: 'object' }] };
+    expect(mergeAllOf(schema)).toBe(schema);
+  });
+});
+
+describe('refCacheSuffix', () => {
+  test('should keep unresolved cache keys unchanged', () => {
+    expect(refCacheSuffix({})).toBe('');
+    expect(refCacheSuffix({ resolveRefs: 'shallow', maxDepth: 4 })).toBe(':refs=shallow');
+    expect(refCacheSuffix({ resolveRefs: 'deep' })).toBe(':refs=deep:10');
+    expect(refCacheSuffix({ resolveRefs: 'deep', maxDepth: 3 })).toBe(':refs=deep:3');
+  });
+});
+
+describe('RefResolver', () => {
+  const pet = { $ref: '#/components/schemas/Pet' };
+
+  test('should return schemas as written by default', async () => {
+    const resolver = new RefResolver(spec);
+
+    expect(resolver.enabled).toBe(false);
+    expect(await resolver.resolveSchema(pet)).toBe(pet);
+  });
+
+  test('should inline one level in shallow mode', async () => {
+    const resolver = new RefResolver(spec, { resolveRefs: 'shallow' });
+
+    expect(await resolver.resolveSchema({ type: 'array', items: pet })).toEqual({
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { id: { type: 'integer' }, category: { $ref: '#/components/schemas/Category' } },
+      },
+    });
+  });
+
+  test('should inline nested references in deep mode up to the maximum depth', async () => {
+    const deep = new RefResolver(spec, { resolveRefs: 'deep' });
+    const limited = new RefResolver(spec, { resolveRefs: 'deep', maxDepth: 1 });
+
+    expect((await deep.resolveSchema(pet)).properties.category).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' } },
+    });
+    expect((await limited.resolveSchema(pet)).properties.category).toEqual({
+      $ref: '#/components/schemas/Category',
+    });
+  });
+
+  test('should mark circular references', async () => {
+    const resolver = new RefResolver(spec, { resolveRefs: 'deep' });
+
+    expect(await resolver.resolveSchema({ $ref: '#/components/schemas/Node' })).toEqual({
+      type: 'object',
+      properties: {
+        children: { type: 'array', items: { $ref: '#/components/schemas/Node', 'x-circular-ref': true } },
+      },
+    });
+  });
+
+  test('should inline a target wherever it is repeated', async () => {
+    const resolver = new RefResolver(spec, { resolveRefs: 'deep' });
+    const resolvedPet = {
+      type: 'object',
+      properties: { id: { type: 'integer' }, category: { type: 'object', properties: { name: { type: 'string' } } } },
+    };
+
+    const result = await resolver.resolveSchema({ type: 'array', items: [pet, pet] });
+    expect(result).toEqual({ type: 'array', items: [resolvedPet, resolvedPet] });
+    expect(result.items[1]).not.toBe(result.items[0]);
+
+    const [dog, cat] = (
+      await resolver.resolveSchema({ oneOf: [{ $ref: '#/components/schemas/Dog' }, { $ref: '#/components/schemas/Cat' }] })
+    ).oneOf;
+    expect(dog.allOf).toBeUndefined();
+    expect(cat).toEqual({
+      type: 'object',
+      properties: { ...resolvedPet.properties, indoor: { type: 'boolean' } },
+    });
+  });
+
+  test('should only mark references to an enclosing schema as circular', async () => {
+    const resolver = new RefResolver(spec, { resolveRefs: 'deep' });
+
+    const [tree, branch] = (
+      await resolver.resolveSchema({ items: [{ $ref: '#/components/schemas/Tree' }, { $ref: '#/components/schemas/Branch' }] })
+    ).items;
+    expect(tree.properties.root.properties.tree).toEqual({ $ref: '#/components/schemas/Tree', 'x-circular-ref': true });
+    expect(branch.properties.tree).toEqual(tree);
+  });
+
+  test('should leave references in place once the inlining budget is spent', async () => {
+    // 300 schemas, each referring to the next four
+    const schemas: Record<string, any> = {};
+    for (let i = 0; i < 300; i++) {
+      schemas[`S${i}`] = {
+        type: 'object',
+        properties: Object.fromEntries(
+          [1, 2, 3, 4].map((offset) => [`p${offset}`, { $ref: `#/components/schemas/S${(i + offset) % 300}` }])
+        ),
+      };
+    }
+    const resolver = new RefResolver({ components: { schemas } }, { resolveRefs: 'deep', maxDepth: 1000 });
+    const wide = { type: 'array', items: Object.keys(schemas).map((name) => ({ $ref: `#/components/schemas/${name}` })) };
+
+    const deep = JSON.stringify(await resolver.resolveSchema({ $ref: '#/components/schemas/S0' }));
+    const result = JSON.stringify(await resolver.resolveSchema(wide));
+
+    expect(deep.match(/"type":"object"/g)).toHaveLength(200);
+    expect(result.match(/"type":"object"/g)).toHaveLength(200);
+    expect(result).toContain('{"$ref":"#/components/schemas/S299"}');
+  });
+
+  test('should merge allOf once members are resolved', async () => {
+    const resolver = new RefResolver(spec, { resolveRefs: 'deep' });
+
+    expect(await resolver.resolveSchema({ $ref: '#/components/schemas/Dog' })).toEqual({
+      type: 'object',
+      required: ['breed'],
+      properties: {
+        id: { type: 'integer' },
+        category: { type: 'object', properties: { name: { type: 'string' } } },
+        breed: { type: 'string' },
+      },
+    });
+  });
+
+  test('should keep keywords next to $ref', async () => {
+    const resolver = new RefResolver(spec, { resolveRefs: 'shallow' });
+
+    expect(
+      await resolver.resolveSchema({ $ref: '#/components/schemas/a~1b', description: 'Escaped name' })
+    ).toEqual({ type: 'string', description: 'Escaped name' });
+  });
+
+  test('should load external documents relative to the base URL', async () => {
+    const loader = jest.fn(async (url: string) =>
+      url === 'https://example.com/specs/common.yaml' ? 'Money:\n  type: string\n  format: decimal\n' : undefined
+    );
+    const resolver = new RefResolver(spec, { resolveRefs: 'deep' }, 'https://example.com/specs/api.json', loader);
+
+    expect(await resolver.resolveSchema({ $ref: 'common.yaml#/Money' })).toEqual({ type: 'string', format: 'decimal' });
+    await resolver.resolveSchema({ $ref: 'common.yaml#/Money' });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not load external documents from other origins', async () => {
+    const loader = jest.fn(async () => ({ Secret: { type: 'string' } }));
+    const resolver = new RefResolver(spec, { resolveRefs: 'deep' }, 'https://example.com/specs/api.json', loader);
+
+    for (const url of ['http://169.254.169.254/latest/meta-data', 'http://example.com/specs/common.json', 'file:///etc/passwd']) {
+      expect(await resolver.resolveSchema({ $ref: `${url}#/Secret` })).toEqual({
+        $ref: `${url}#/Secret`,
+        'x-unresolved-ref': `External reference outside the spec's origin: ${url}`,
+      });
+    }
+    expect(await resolver.resolveSchema({ $ref: 'https://example.com/common.json#/Secret' })).toEqual({ type: 'string' });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  test('should mark references that cannot be resolved', async () => {
+    const resolver = new RefResolver(spec, { resolveRefs: 'deep' });
+
+    expect(await resolver.resolveSchema({ $ref: '#/components/schemas/Missing' })).toEqual({
+      $ref: '#/components/schemas/Missing',
+      'x-unresolved-ref': 'Reference not found: #/components/schemas/Missing',
+    });
+    expect(await resolver.resolveSchema({ $ref: 'https://example.com/other.json#/Pet' })).toEqual({
+      $ref: 'https://example.com/other.json#/Pet',
+      'x-unresolved-ref': 'External references are not supported here: https://example.com/other.json',
+    });
+  });
+
+  test('should resolve the headers of request body encodings', async () => {
+    const resolver = new RefResolver(spec, { resolveRefs: 'shallow' });
+    const encoding = {
+      photo: {
+        contentType: 'image/png',
+        headers: { 'X-Category': { schema: { $ref: '#/components/schemas/Category' } } },
+      },
+      caption: { contentType: 'text/plain' },
+    };
+
+    expect(await resolver.resolveEncoding(encoding)).toEqual({
+      photo: {
+        contentType: 'image/png',
+        headers: { 'X-Category': { schema: { type: 'object', properties: { name: { type: 'string' } } } } },
+      },
+      caption: { contentType: 'text/plain' },
+    });
+    expect(await resolver.resolveEncoding(undefined)).toBeUndefined();
+  });
+});
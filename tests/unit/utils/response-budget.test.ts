@@ -0,0 +1,134 @@
+import { describe, test, expect } from '@jest/globals';
+import { ResponseBudget } from '../../../src/utils/response-budget.js';
+import { RESPONSE_BUDGET } from '../../../src/utils/constants.js';
+
+describe('ResponseBudget', () => {
+  const scope = { tool: 'test_tool', key: 'test' };
+
+  const makeRecord = (count: number, size = 200) => {
+    const record: Record<string, any> = {};
+    for (let i = 0; i < count; i++) {
+      record[`item-${String(i).padStart(2, '0')}`] = { value: 'x'.repeat(size) };
+    }
+    return record;
+  };
+
+  describe('fromEnv', () => {
+    test('should use the default budget when nothing is configured', () => {
+      expect(ResponseBudget.fromEnv({}).maxBytes).toBe(RESPONSE_BUDGET.DEFAULT_MAX_BYTES);
+    });
+
+    test('should read a byte budget', () => {
+      expect(ResponseBudget.fromEnv({ MAX_RESPONSE_BYTES: '50000' }).maxBytes).toBe(50000);
+    });
+
+    test('should convert a token budget to bytes', () => {
+      expect(ResponseBudget.fromEnv({ MAX_RESPONSE_TOKENS: '8000' }).maxBytes).toBe(
+        8000 * RESPONSE_BUDGET.BYTES_PER_TOKEN
+      );
+    });
+
+    test('should prefer bytes over tokens', () => {
+      const budget = ResponseBudget.fromEnv({ MAX_RESPONSE_BYTES: '4096', MAX_RESPONSE_TOKENS: '8000' });
+
+      expect(budget.maxBytes).toBe(4096);
+    });
+
+    test('should ignore invalid values and clamp tiny budgets', () => {
+      expect(ResponseBudget.fromEnv({ MAX_RESPONSE_BYTES: 'lots' }).maxBytes).toBe(
+        RESPONSE_BUDGET.DEFAULT_MAX_BYTES
+      );
+      expect(new ResponseBudget(10).maxBytes).toBe(RESPONSE_BUDGET.MIN_BYTES);
+    });
+  });
+
+  describe('paginateRecord', () => {
+    test('should return everything in one chunk when it fits', () => {
+      const record = makeRecord(2);
+      const result = new ResponseBudget(4096).paginateRecord(record, scope);
+
+      expect(result.data).toEqual(record);
+      expect(result.pagination).toEqual({ offset: 0, returned_items: 2, total_items: 2, has_more: false });
+    });
+
+    test('should produce deterministic chunks that cover the whole record', () => {
+      const record = makeRecord(30);
+      const budget = new ResponseBudget(2048);
+      const chunks: Array<Record<string, any>> = [];
+      let cursor: string | undefined;
+
+      do {
+        const result = budget.paginateRecord(record, scope, cursor);
+        expect(JSON.stringify(result).length).toBeLessThanOrEqual(2048);
+        chunks.push(result.data);
+        cursor = result.pagination.next_cursor;
+      } while (cursor);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(Object.assign({}, ...chunks)).toEqual(record);
+      expect(budget.paginateRecord(record, scope)).toEqual(budget.paginateRecord(record, scope));
+    });
+
+    test('should return oversized single items on their own', () => {
+      const record = makeRecord(2, 5000);
+      const result = new ResponseBudget(2048).paginateRecord(record, scope);
+
+      expect(Object.keys(result.data)).toEqual(['item-00']);
+      expect(result.pagination.has_more).toBe(true);
+    });
+
+    test('should reject malformed cursors', () => {
+      expect(() => new ResponseBudget().paginateRecord(makeRecord(2), scope, 'not-a-cursor')).toThrow(
+        'Invalid cursor'
+      );
+    });
+
+    test('should reject cursors from another scope', () => {
+      const budget = new ResponseBudget(2048);
+      const record = makeRecord(30);
+      const cursor = budget.paginateRecord(record, scope).pagination.next_cursor;
+
+      expect(() => budget.paginateRecord(record, { tool: 'test_tool', key: 'other' }, cursor)).toThrow(
+        'different test_tool request'
+      );
+    });
+
+    test('should reject cursors after the data changed', () => {
+      const budget = new ResponseBudget(2048);
+      const cursor = budget.paginateRecord(makeRecord(30), scope).pagination.next_cursor;
+
+      expect(() => budget.paginateRecord(makeRecord(31), scope, cursor)).toThrow(
+        'the underlying data has changed'
+      );
+    });
+  });
+
+  describe('paginateSpec', () => {
+    test('should keep small top-level sections whole and split paths and components', () => {
+      const spec = {
+        openapi: '3.0.0',
+        info: { title: 'Spec', version: '1' },
+        paths: makeRecord(10),
+        components: { schemas: makeRecord(10), securitySchemes: makeRecord(1, 10) }
+      };
+      const budget = new ResponseBudget(2048);
+
+      const first = budget.paginateSpec(spec, scope);
+      expect(first.data.openapi).toBe('3.0.0');
+      expect(first.data.info).toEqual(spec.info);
+      expect(first.pagination.total_items).toBe(2 + 10 + 10 + 1);
+
+      const second = budget.paginateSpec(spec, scope, first.pagination.next_cursor);
+      expect(second.data.openapi).toBeUndefined();
+      expect(Object.keys(second.data)).toEqual(expect.arrayContaining(['paths']));
+    });
+
+    test('should split Swagger 2 definitions', () => {
+      const spec = { swagger: '2.0', definitions: makeRecord(3) };
+      const result = new ResponseBudget(4096).paginateSpec(spec, scope);
+
+      expect(result.pagination.total_items).toBe(4);
+      expect(result.data).toEqual(spec);
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, test, expect } from '@jest/globals';
+import { buildSnippetRequest, generateSnippet, renderSnippet } from '../../../src/utils/snippet-generator.js';
+
+const spec = {
+  openapi: '3.0.0',
+  servers: [{ url: 'https://{region}.pets.example.com/v1/', variables: { region: { default: 'eu' } } }],
+  security: [{ bearer: [] }],
+  components: {
+    securitySchemes: {
+      bearer: { type: 'http', scheme: 'bearer' },
+      basic: { type: 'http', scheme: 'basic' },
+      key: { type: 'apiKey', in: 'query', name: 'api_key' },
+      session: { type: 'apiKey', in: 'cookie', name: 'sid' },
+    },
+    parameters: {
+      Limit: { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
+    },
+    schemas: {
+      Pet: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          id: { type: 'integer', readOnly: true },
+          name: { type: 'string', example: "Rex's" },
+          vaccinated: { type: 'boolean' },
+        },
+      },
+    },
+  },
+  paths: {
+    '/owners/{ownerId}/pets': {
+      parameters: [{ name: 'ownerId', in: 'path', required: true, schema: { type: 'string' } }],
+      post: {
+        parameters: [
+          { $ref: '#/components/parameters/Limit' },
+          { name: 'X-Request-Id', in: 'header', required: true, schema: { type: 'string' } },
+          { name: 'q', in: 'query', schema: { type: 'string' } },
+        ],
+        requestBody: {
+          content: {
+            'application/xml': {},
+            'application/json': { schema: { $ref: '#/components/schemas/Pet' } },
+          },
+        },
+        responses: { 201: { description: 'Created' } },
+      },
+    },
+    '/pets/{id}/photo': {
+      put: {
+        security: [{ key: [], session: [] }],
+        parameters: [{ name: 'id', in: 'path', required: true, example: 42 }],
+        requestBody: {
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                properties: { caption: { type: 'string' }, file: { type: 'string', format: 'binary' } },
+              },
+            },
+          },
+        },
+        responses: {},
+      },
+    },
+    '/login': {
+      post: {
+        security: [{ basic: [] }],
+        requestBody: {
+          content: { 'application/x-www-form-urlencoded': { example: { user: 'ann', remember: true } } },
+        },
+        responses: {},
+      },
+    },
+    '/status': {
+      get: { security: [{}], parameters: [{ name: 'tags', in: 'query', example: ['a', 'b'] }], responses: {} },
+    },
+  },
+};
+
+describe('buildSnippetRequest', () => {
+  test('should fill the server URL, parameters, auth and body', async () => {
+    const request = await buildSnippetRequest(spec, 'post', '/owners/{ownerId}/pets');
+
+    expect(request).toEqual({
+      method: 'POST',
+      url: 'https://eu.pets.example.com/v1/owners/<ownerId>/pets',
+      query: [['limit', '20']],
+      headers: [
+        ['X-Request-Id', '<X-Request-Id>'],
+        ['Authorization', 'Bearer <ACCESS_TOKEN>'],
+        ['Content-Type', 'application/json'],
+      ],
+      body: { contentType: 'application/json', value: { name: "Rex's", vaccinated: true }, files: [] },
+      placeholders: ['<X-Request-Id>', '<ownerId>', '<ACCESS_TOKEN>'],
+    });
+  });
+
+  test('should place API keys in the query or cookies and upload binary fields as files', async () => {
+    const request = await buildSnippetRequest(spec, 'PUT', '/pets/{id}/photo');
+
+    expect(request.url).toBe('https://eu.pets.example.com/v1/pets/42/photo');
+    expect(request.query).toEqual([['api_key', '<API_KEY>']]);
+    expect(request.headers).toEqual([['Cookie', 'sid=<API_KEY>']]);
+    expect(request.body).toEqual({
+      contentType: 'multipart/form-data',
+      value: { caption: 'string', file: '<binary>' },
+      files: ['file'],
+    });
+    expect(request.placeholders).toEqual(['<API_KEY>', '<FILE_PATH>']);
+  });
+
+  test('should honour optional security and repeat array query values', async () => {
+    const request = await buildSnippetRequest(spec, 'GET', '/status');
+
+    expect(request.query).toEqual([['tags', 'a'], ['tags', 'b']]);
+    expect(request.headers).toEqual([]);
+    expect(request.body).toBeUndefined();
+  });
+
+  test('should use a placeholder for relative or missing servers', async () => {
+    const relative = { ...spec, servers: [{ url: '/api' }] };
+    expect((await buildSnippetRequest(relative, 'GET', '/status')).url).toBe('<BASE_URL>/api/status');
+    expect((await buildSnippetRequest({ paths: spec.paths }, 'GET', '/status')).placeholders).toEqual(['<BASE_URL>']);
+  });
+
+  test('should reject unknown paths and methods', async () => {
+    await expect(buildSnippetRequest(spec, 'GET', '/missing')).rejects.toThrow('Path not found: /missing');
+    await expect(buildSnippetRequest(spec, 'DELETE', '/status')).rejects.toThrow('Method DELETE not found for path /status');
+  });
+});
+
+describe('renderSnippet', () => {
+  test('should render curl with a quoted JSON body', async () => {
+    const request = await buildSnippetRequest(spec, 'POST', '/owners/{ownerId}/pets');
+
+    expect(renderSnippet(request, 'curl')).toBe(
+      [
+        "curl -X POST 'https://eu.pets.example.com/v1/owners/<ownerId>/pets?limit=20' \\",
+        "  -H 'X-Request-Id: <X-Request-Id>' \\",
+        "  -H 'Authorization: Bearer <ACCESS_TOKEN>' \\",
+        "  -H 'Content-Type: application/json' \\",
+        "  --data-raw '{",
+        '  "name": "Rex\'\\\'\'s",',
+        '  "vaccinated": true',
+        "}'",
+      ].join('\n')
+    );
+  });
+
+  test('should render fetch with form bodies', async () => {
+    const request = await buildSnippetRequest(spec, 'POST', '/login');
+
+    expect(renderSnippet(request, 'fetch')).toBe(
+      [
+        'const response = await fetch("https://eu.pets.example.com/v1/login", {',
+        '  method: "POST",',
+        '  headers: {',
+        '    "Authorization": "Basic <BASE64_CREDENTIALS>",',
+        '    "Content-Type": "application/x-www-form-urlencoded",',
+        '  },',
+        '  body: new URLSearchParams({',
+        '    "user": "ann",',
+        '    "remember": "true"',
+        '  }),',
+        '});',
+        '',
+        'console.log(response.status, await response.text());',
+      ].join('\n')
+    );
+  });
+
+  test('should render Python requests with params and Python literals', async () => {
+    const request = await buildSnippetRequest(spec, 'POST', '/owners/{ownerId}/pets');
+
+    expect(renderSnippet(request, 'python')).toBe(
+      [
+        'import requests',
+        '',
+        'response = requests.post(',
+        '    "https://eu.pets.example.com/v1/owners/<ownerId>/pets",',
+        '    params={',
+        '        "limit": "20",',
+        '    },',
+        '    headers={',
+        '        "X-Request-Id": "<X-Request-Id>",',
+        '        "Authorization": "Bearer <ACCESS_TOKEN>",',
+        '        "Content-Type": "application/json",',
+        '    },',
+        '    json={',
+        '        "name": "Rex\'s",',
+        '        "vaccinated": True,',
+        '    },',
+        ')',
+        'print(response.status_code, response.text)',
+      ].join('\n')
+    );
+  });
+
+  test('should render multipart uploads in every language', async () => {
+    const request = await buildSnippetRequest(spec, 'PUT', '/pets/{id}/photo');
+
+    expect(renderSnippet(request, 'curl')).toContain("-F 'caption=string' \\\n  -F 'file=@<FILE_PATH>'");
+    expect(renderSnippet(request, 'fetch')).toContain('form.append("file", await openAsBlob("<FILE_PATH>"));');
+    expect(renderSnippet(request, 'python')).toContain('"file": open("<FILE_PATH>", "rb"),');
+    expect(renderSnippet(request, 'httpie')).toBe(
+      [
+        "http --form PUT 'https://eu.pets.example.com/v1/pets/42/photo' \\",
+        "  'api_key==<API_KEY>' \\",
+        "  'Cookie:sid=<API_KEY>' \\",
+        "  'caption=string' \\",
+        "  'file@<FILE_PATH>'",
+      ].join('\n')
+    );
+  });
+});
+
+describe('generateSnippet', () => {
+  test('should describe the snippet with its full URL and placeholders', async () => {
+    const snippet = await generateSnippet(spec, 'get', '/status', 'httpie');
+
+    expect(snippet).toEqual({
+      method: 'GET',
+      path: '/status',
+      language: 'httpie',
+      url: 'https://eu.pets.example.com/v1/status?tags=a&tags=b',
+      snippet: "http GET 'https://eu.pets.example.com/v1/status' \\\n  'tags==a' \\\n  'tags==b'",
+      placeholders: [],
+    });
+    expect((await generateSnippet(spec, 'POST', '/login')).language).toBe('curl');
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, test, expect } from '@jest/globals';
+import { isSwagger2, normalizeSpec } from '../../../src/utils/spec-normalizer.js';
+
+const swagger = {
+  swagger: '2.0',
+  info: { title: 'Pet Store', version: '1.0' },
+  host: 'petstore.example.com',
+  basePath: '/v1',
+  schemes: ['https', 'http'],
+  consumes: ['application/json'],
+  produces: ['application/json', 'application/xml'],
+  securityDefinitions: {
+    key: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+    basicAuth: { type: 'basic' },
+    oauth: {
+      type: 'oauth2',
+      flow: 'accessCode',
+      authorizationUrl: 'https://example.com/authorize',
+      tokenUrl: 'https://example.com/token',
+      scopes: { 'pets:write': 'Modify pets' },
+    },
+  },
+  security: [{ key: [] }],
+  parameters: {
+    Limit: { name: 'limit', in: 'query', type: 'integer', format: 'int32' },
+    PetBody: { name: 'pet', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } },
+  },
+  responses: {
+    NotFound: { description: 'Not found', schema: { $ref: '#/definitions/Error' } },
+  },
+  definitions: {
+    Pet: {
+      type: 'object',
+      properties: { id: { type: 'integer' }, owner: { $ref: '#/definitions/Owner' } },
+    },
+    Owner: { type: 'object', properties: { name: { type: 'string' } } },
+    Error: { type: 'object', properties: { message: { type: 'string' } } },
+  },
+  paths: {
+    '/pets': {
+      parameters: [{ $ref: '#/parameters/Limit' }],
+      get: {
+        operationId: 'listPets',
+        parameters: [
+          { name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'multi', 'x-example': ['dog'] },
+        ],
+        responses: {
+          200: {
+            description: 'Pets',
+            schema: { type: 'array', items: { $ref: '#/definitions/Pet' } },
+            headers: { 'X-Rate-Limit': { type: 'integer', description: 'Calls left' } },
+            examples: { 'application/json': [{ id: 1 }] },
+          },
+          404: { $ref: '#/responses/NotFound' },
+        },
+      },
+      post: {
+        parameters: [{ $ref: '#/parameters/PetBody' }],
+        responses: { 201: { description: 'Created' } },
+        security: [{ oauth: ['pets:write'] }],
+      },
+    },
+    '/pets/{id}/photo': {
+      post: {
+        consumes: ['multipart/form-data'],
+        parameters: [
+          { name: 'id', in: 'path', type: 'integer' },
+          { name: 'file', in: 'formData', type: 'file', required: true },
+          { name: 'caption', in: 'formData', type: 'string' },
+        ],
+        responses: { 204: { description: 'Uploaded' } },
+      },
+    },
+  },
+};
+
+describe('isSwagger2', () => {
+  test('should only match Swagger 2.0 specs', () => {
+    expect(isSwagger2(swagger)).toBe(true);
+    expect(isSwagger2({ openapi: '3.0.0' })).toBe(false);
+    expect(isSwagger2(null)).toBe(false);
+  });
+});
+
+describe('normalizeSpec', () => {
+  const normalized = normalizeSpec(swagger);
+
+  test('should return OpenAPI 3 specs unchanged', () => {
+    const spec = { openapi: '3.0.0', paths: {} };
+    expect(normalizeSpec(spec)).toBe(spec);
+  });
+
+  test('should leave the original spec untouched', () => {
+    expect(swagger.paths['/pets'].post.parameters).toEqual([{ $ref: '#/parameters/PetBody' }]);
+    expect(normalized).not.toHaveProperty('swagger');
+    expect(normalized).toMatchObject({ openapi: '3.0.3', 'x-swagger-version': '2.0', info: swagger.info, security: swagger.security });
+  });
+
+  test('should build servers from host, basePath and schemes', () => {
+    expect(normalized.servers).toEqual([
+      { url: 'https://petstore.example.com/v1' },
+      { url: 'http://petstore.example.com/v1' },
+    ]);
+    expect(normalizeSpec({ swagger: '2.0', basePath: '/api', paths: {} }).servers).toEqual([{ url: '/api' }]);
+  });
+
+  test('should move definitions under components and rewrite references', () => {
+    expect(normalized.components.schemas.Pet.properties.owner).toEqual({ $ref: '#/components/schemas/Owner' });
+    expect(normalized.components.parameters.Limit).toEqual({
+      name: 'limit',
+      in: 'query',
+      schema: { type: 'integer', format: 'int32' },
+    });
+    expect(normalized.paths['/pets'].parameters).toEqual([{ $ref: '#/components/parameters/Limit' }]);
+    expect(normalized.components.responses.NotFound.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/Error',
+    });
+  });
+
+  test('should convert security definitions', () => {
+    expect(normalized.components.securitySchemes).toEqual({
+      key: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+      basicAuth: { type: 'http', scheme: 'basic' },
+      oauth: {
+        type: 'oauth2',
+        flows: {
+          authorizationCode: {
+            authorizationUrl: 'https://example.com/authorize',
+            tokenUrl: 'https://example.com/token',
+            scopes: { 'pets:write': 'Modify pets' },
+          },
+        },
+      },
+    });
+  });
+
+  test('should convert parameters with their schemas, styles and examples', () => {
+    expect(normalized.paths['/pets'].get.parameters).toEqual([
+      {
+        name: 'tags',
+        in: 'query',
+        style: 'form',
+        explode: true,
+        schema: { type: 'array', items: { type: 'string' } },
+        'x-example': ['dog'],
+        example: ['dog'],
+      },
+    ]);
+    expect(normalized.paths['/pets/{id}/photo'].post.parameters[0]).toMatchObject({ name: 'id', in: 'path', required: true });
+  });
+
+  test('should turn body parameters into request bodies per consumed media type', () => {
+    const post = normalized.paths['/pets'].post;
+    expect(post.parameters).toBeUndefined();
+    expect(post.requestBody).toEqual({
+      required: true,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+      'x-body-name': 'pet',
+    });
+    expect(post.security).toEqual([{ oauth: ['pets:write'] }]);
+    expect(normalized.components.requestBodies.PetBody.content['application/json']).toBeDefined();
+  });
+
+  test('should turn form fields into an object request body', () => {
+    expect(normalized.paths['/pets/{id}/photo'].post.requestBody).toEqual({
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: {
+              file: { type: 'string', format: 'binary' },
+              caption: { type: 'string' },
+            },
+            required: ['file'],
+          },
+        },
+      },
+    });
+  });
+
+  test('should give responses content per produced media type with headers and examples', () => {
+    const response = normalized.paths['/pets'].get.responses[200];
+    expect(Object.keys(response.content)).toEqual(['application/json', 'application/xml']);
+    expect(response.content['application/json']).toEqual({
+      schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+      example: [{ id: 1 }],
+    });
+    expect(response.headers).toEqual({
+      'X-Rate-Limit': { description: 'Calls left', schema: { type: 'integer' } },
+    });
+    expect(normalized.paths['/pets'].get.responses[404]).toEqual({ $ref: '#/components/responses/NotFound' });
+    expect(normalized.paths['/pets'].post.responses[201]).toEqual({ description: 'Created' });
+  });
+});
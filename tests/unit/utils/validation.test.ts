@@ -243,6 +243,82 @@ describe('APIDataValidator', () => {
     });
   });
 
+  describe('validateSearchFilter', () => {
+    const raw = (key: string, value: string, operator: any = ':', negated = false) => ({
+      key,
+      operator,
+      value,
+      negated,
+    });
+
+    test('should normalise valid filters', () => {
+      expect(APIDataValidator.validateSearchFilter(raw('Category', 'Payment'))).toEqual({
+        field: 'category',
+        value: 'payment',
+        negated: false,
+      });
+      expect(APIDataValidator.validateSearchFilter(raw('updated', '2024-01', '>=', true))).toEqual({
+        field: 'updated',
+        operator: '>=',
+        value: '2024-01',
+        negated: true,
+      });
+      expect(APIDataValidator.validateSearchFilter(raw('updated', '2024'))).toMatchObject({
+        operator: '=',
+      });
+      expect(APIDataValidator.validateSearchFilter(raw('auth', 'OAuth2'))).toMatchObject({
+        field: 'auth',
+        value: 'oauth2',
+      });
+    });
+
+    test('should accept auth locations and flows', () => {
+      expect(APIDataValidator.validateAuthFilter('apiKey:Header')).toBe('apikey:header');
+      expect(APIDataValidator.validateAuthFilter('oauth2:client_credentials')).toBe('oauth2:clientcredentials');
+      expect(APIDataValidator.validateAuthFilter('oauth2:authorizationCode')).toBe('oauth2:authorizationcode');
+
+      expect(() => APIDataValidator.validateAuthFilter('apikey:body')).toThrow(
+        'Invalid auth filter "apikey:body" (expected auth:apikey:header, auth:apikey:query, auth:apikey:cookie)'
+      );
+      expect(() => APIDataValidator.validateAuthFilter('bearer:jwt')).toThrow(
+        'only apikey and oauth2 take a location or flow'
+      );
+      expect(() => APIDataValidator.validateAuthFilter('oauth2:implicit:extra')).toThrow(ValidationError);
+    });
+
+    test('should reject unknown filters and missing values', () => {
+      expect(() => APIDataValidator.validateSearchFilter(raw('categroy', 'payment'))).toThrow(
+        'Unknown search filter "categroy" (supported: category, provider, openapi, updated, source, auth)'
+      );
+      expect(() => APIDataValidator.validateSearchFilter(raw('category', ''))).toThrow(
+        'Search filter "category" needs a value, e.g. category:payment'
+      );
+    });
+
+    test('should reject malformed values', () => {
+      const invalid = [
+        raw('updated', '2024-13-01', '>'),
+        raw('updated', 'last-week'),
+        raw('openapi', 'three'),
+        raw('source', 'github'),
+        raw('auth', 'password'),
+      ];
+
+      invalid.forEach(filter => {
+        expect(() => APIDataValidator.validateSearchFilter(filter)).toThrow(ValidationError);
+      });
+      expect(() => APIDataValidator.validateSearchFilter(raw('source', 'github'))).toThrow(
+        'Invalid source "github" (expected primary, secondary, custom)'
+      );
+    });
+
+    test('should only allow comparisons on updated', () => {
+      expect(() => APIDataValidator.validateSearchFilter(raw('openapi', '3', '>'))).toThrow(
+        'Search filter "openapi" does not support ">"'
+      );
+    });
+  });
+
   describe('validatePagination', () => {
     test('should handle valid pagination parameters', () => {
       const result = APIDataValidator.validatePagination(2, 50);
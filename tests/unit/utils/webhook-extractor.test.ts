@@ -0,0 +1,109 @@
+import { describe, test, expect } from '@jest/globals';
+import { extractWebhooks } from '../../../src/utils/webhook-extractor.js';
+import { RefResolver } from '../../../src/utils/ref-resolver.js';
+
+const spec = {
+  openapi: '3.1.0',
+  webhooks: {
+    petAdopted: {
+      post: {
+        summary: 'A pet was adopted',
+        operationId: 'petAdopted',
+        requestBody: {
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+        },
+        responses: { 200: { description: 'Received' } },
+      },
+    },
+    petRemoved: { $ref: '#/components/pathItems/PetRemoved' },
+  },
+  paths: {
+    '/subscriptions': {
+      post: {
+        callbacks: {
+          onEvent: {
+            '{$request.body#/callbackUrl}': {
+              post: {
+                requestBody: { $ref: '#/components/requestBodies/Event' },
+                responses: { 204: { $ref: '#/components/responses/Ack' } },
+              },
+            },
+            'x-internal': true,
+          },
+          onCancel: { $ref: '#/components/callbacks/Cancel' },
+        },
+        responses: { 201: { description: 'Subscribed' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: { type: 'object', properties: { name: { type: 'string' } } },
+    },
+    pathItems: {
+      PetRemoved: { delete: { responses: {} } },
+    },
+    requestBodies: {
+      Event: { content: { 'application/cloudevents+json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+    },
+    responses: { Ack: { description: 'Acknowledged' } },
+    callbacks: {
+      Cancel: { '{$request.body#/cancelUrl}': { put: { responses: {} } } },
+    },
+  },
+};
+
+describe('extractWebhooks', () => {
+  test('should list webhooks with their payloads and responses', async () => {
+    const { webhooks } = await extractWebhooks(spec);
+
+    expect(webhooks).toEqual([
+      {
+        name: 'petAdopted',
+        method: 'POST',
+        summary: 'A pet was adopted',
+        operationId: 'petAdopted',
+        payloads: [{ content_type: 'application/json', schema: { $ref: '#/components/schemas/Pet' } }],
+        responses: [{ code: '200', description: 'Received' }],
+      },
+      { name: 'petRemoved', method: 'DELETE', payloads: [], responses: [] },
+    ]);
+  });
+
+  test('should list callbacks with the operation registering them', async () => {
+    const { callbacks } = await extractWebhooks(spec);
+
+    expect(callbacks).toEqual([
+      {
+        name: 'onEvent',
+        method: 'POST',
+        payloads: [{ content_type: 'application/cloudevents+json', schema: { $ref: '#/components/schemas/Pet' } }],
+        responses: [{ code: '204', description: 'Acknowledged' }],
+        expression: '{$request.body#/callbackUrl}',
+        source: { method: 'POST', path: '/subscriptions' },
+      },
+      {
+        name: 'onCancel',
+        method: 'PUT',
+        payloads: [],
+        responses: [],
+        expression: '{$request.body#/cancelUrl}',
+        source: { method: 'POST', path: '/subscriptions' },
+      },
+    ]);
+  });
+
+  test('should resolve payload schemas when asked', async () => {
+    const { webhooks, callbacks } = await extractWebhooks(spec, new RefResolver(spec, { resolveRefs: 'deep' }));
+
+    expect(webhooks[0]!.payloads[0]!.schema).toEqual({ type: 'object', properties: { name: { type: 'string' } } });
+    expect(callbacks[0]!.payloads[0]!.schema).toEqual({ type: 'object', properties: { name: { type: 'string' } } });
+  });
+
+  test('should return empty lists for specs without webhooks or callbacks', async () => {
+    expect(await extractWebhooks({ swagger: '2.0', paths: { '/a': { get: { responses: {} } } } })).toEqual({
+      webhooks: [],
+      callbacks: [],
+    });
+  });
+});